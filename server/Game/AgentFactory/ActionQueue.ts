@@ -11,6 +11,7 @@ export enum ActionType {
     MOVE = 'move',
     INTERACT = 'interact',
     ATTACK = 'attack',
+    CRAFT = 'craft',
     USE_ITEM = 'use_item',
     SPEAK = 'speak',
     IDLE = 'idle',
@@ -42,12 +43,15 @@ export interface AgentAction {
     priority: ActionPriority;
     /** 创建时间戳 */
     timestamp: number;
-    /** 是否可取消 */
+    /** 是否可取消（也决定能否被更高优先级的行为抢占） */
     cancellable: boolean;
-    /** 超时时间（毫秒） */
+    /** 超时时间（毫秒，从创建时开始计算，包含排队时间） */
     timeout?: number;
-    /** 执行函数 */
-    execute: () => Promise<ActionResult>;
+    /**
+     * 执行函数
+     * @param signal 行为被取消、抢占或超时时触发，执行函数应在修改世界前检查它
+     */
+    execute: (signal: AbortSignal) => Promise<ActionResult>;
 }
 
 /**
@@ -60,95 +64,171 @@ export interface ActionResult {
     message?: string;
     /** 附加数据 */
     data?: any;
+    /** 是否因取消、抢占或超时而未完成 */
+    cancelled?: boolean;
+}
+
+/**
+ * 入队选项（由调用方决定优先级等，ID 和时间戳由队列的使用者生成）
+ */
+export interface ActionOptions {
+    priority?: ActionPriority;
+    cancellable?: boolean;
+    timeout?: number;
+}
+
+/**
+ * 行为状态
+ */
+export type ActionStatus = "queued" | "running";
+
+/**
+ * 行为信息（用于查询接口，不包含执行函数）
+ */
+export interface AgentActionInfo {
+    id: string;
+    agentId: string;
+    type: ActionType;
+    target?: any;
+    priority: ActionPriority;
+    status: ActionStatus;
+    timestamp: number;
+    /** 开始执行的时间戳 */
+    startedAt?: number;
+    cancellable: boolean;
+    timeout?: number;
+}
+
+/**
+ * 队列中的行为条目
+ */
+interface QueueEntry {
+    action: AgentAction;
+    /** 用于取消正在执行的行为 */
+    controller: AbortController;
+    /** 行为结束（完成、失败、取消）时回调 */
+    settle: (result: ActionResult) => void;
+    startedAt?: number;
 }
 
 /**
  * Agent 行为队列管理器
  * 每个 Agent 维护自己的行为队列
+ * - 同一 Agent 的行为按优先级串行执行，同优先级先进先出
+ * - 更高优先级的行为到达时，会抢占正在执行的可取消行为
+ * - 取消正在执行的行为通过 AbortSignal 通知执行函数
  */
 export class AgentActionQueue {
     /** Agent 行为队列：agentId -> 行为队列 */
-    private queues: Map<string, AgentAction[]> = new Map();
+    private queues: Map<string, QueueEntry[]> = new Map();
     
     /** 正在执行的行为：agentId -> 当前行为 */
-    private executing: Map<string, AgentAction> = new Map();
+    private executing: Map<string, QueueEntry> = new Map();
     
     /** 执行锁：防止同一 Agent 并发执行多个行为 */
     private locks: Map<string, Promise<void>> = new Map();
 
+    /** 单个 Agent 的最大排队数（防止内存泄漏） */
+    private readonly MAX_QUEUE_SIZE = 100;
+
     /**
      * 将行为加入队列
      * @param action 行为对象
      * @returns 是否成功加入
      */
     async enqueue(action: AgentAction): Promise<boolean> {
-        // 获取该 Agent 的队列
-        let queue = this.queues.get(action.agentId);
-        if (!queue) {
-            queue = [];
-            this.queues.set(action.agentId, queue);
-        }
-
-        // 检查队列长度（防止内存泄漏）
-        if (queue.length >= 100) {
-            console.warn(`⚠️ Agent ${action.agentId} action queue is full (${queue.length})`);
-            return false;
-        }
-
-        // 按优先级插入队列
-        this.insertByPriority(queue, action);
-
-        // 尝试执行队列
-        this.processQueue(action.agentId);
+        return this.push(action, () => {}) !== null;
+    }
 
-        return true;
+    /**
+     * 将行为加入队列并等待它结束
+     * @param action 行为对象
+     * @returns 行为结果（被取消、抢占、超时或队列已满时 success 为 false）
+     */
+    submit(action: AgentAction): Promise<ActionResult> {
+        return new Promise(resolve => {
+            if (!this.push(action, resolve)) {
+                resolve({ success: false, cancelled: true, message: "Action queue is full" });
+            }
+        });
     }
 
     /**
      * 取消指定 Agent 的某个行为
+     * - 排队中的行为直接移出队列
+     * - 正在执行的行为通过 AbortSignal 中止
      * @param agentId Agent ID
      * @param actionId 行为 ID
+     * @param reason 取消原因
      * @returns 是否成功取消
      */
-    cancel(agentId: string, actionId: string): boolean {
+    cancel(agentId: string, actionId: string, reason = "cancelled"): boolean {
         const queue = this.queues.get(agentId);
-        if (!queue) return false;
 
         // 查找并移除队列中的行为
-        const index = queue.findIndex(a => a.id === actionId);
-        if (index !== -1) {
-            const action = queue[index];
-            if (action && action.cancellable) {
+        const index = queue?.findIndex(e => e.action.id === actionId) ?? -1;
+        if (queue && index !== -1) {
+            const entry = queue[index];
+            if (entry && entry.action.cancellable) {
                 queue.splice(index, 1);
-                console.log(`🚫 Action ${actionId} cancelled for agent ${agentId}`);
+                entry.controller.abort(reason);
+                entry.settle({ success: false, cancelled: true, message: `Action ${reason}` });
+                console.log(`🚫 Action ${actionId} ${reason} for agent ${agentId}`);
                 return true;
             }
+            return false;
         }
 
         // 检查是否是正在执行的行为
         const executing = this.executing.get(agentId);
-        if (executing && executing.id === actionId) {
-            if (executing.cancellable) {
-                // 标记为已取消（实际执行会检查这个标记）
-                console.log(`🚫 Executing action ${actionId} marked for cancellation`);
-                return true;
-            }
+        if (executing && executing.action.id === actionId && executing.action.cancellable) {
+            executing.controller.abort(reason);
+            console.log(`🚫 Executing action ${actionId} ${reason} for agent ${agentId}`);
+            return true;
         }
 
         return false;
     }
 
     /**
-     * 清空指定 Agent 的所有行为
+     * 取消指定 Agent 的所有可取消行为（排队中和正在执行的）
+     * @param agentId Agent ID
+     * @returns 被取消的行为数量
+     */
+    cancelAll(agentId: string, reason = "cancelled"): number {
+        const ids = this.listActions(agentId).filter(a => a.cancellable).map(a => a.id);
+        return ids.filter(id => this.cancel(agentId, id, reason)).length;
+    }
+
+    /**
+     * 清空指定 Agent 的所有行为（Agent 离开世界时调用，不可取消的行为也会被中止）
      * @param agentId Agent ID
      */
     clearAll(agentId: string): void {
+        for (const entry of this.queues.get(agentId) ?? []) {
+            entry.controller.abort("cleared");
+            entry.settle({ success: false, cancelled: true, message: "Action cleared" });
+        }
+        this.executing.get(agentId)?.controller.abort("cleared");
+
         this.queues.delete(agentId);
-        this.executing.delete(agentId);
-        this.locks.delete(agentId);
         console.log(`🗑️ Cleared all actions for agent ${agentId}`);
     }
 
+    /**
+     * 获取指定 Agent 的所有行为（正在执行的在前）
+     * @param agentId Agent ID
+     */
+    listActions(agentId: string): AgentActionInfo[] {
+        const executing = this.executing.get(agentId);
+        const queue = this.queues.get(agentId) ?? [];
+
+        return [
+            ...(executing ? [this.toInfo(executing, "running")] : []),
+            ...queue.map(entry => this.toInfo(entry, "queued")),
+        ];
+    }
+
     /**
      * 获取指定 Agent 的队列信息
      * @param agentId Agent ID
@@ -164,12 +244,48 @@ export class AgentActionQueue {
         };
         
         if (executing) {
-            result.currentAction = executing.type as string;
+            result.currentAction = executing.action.type as string;
         }
         
         return result;
     }
 
+    /**
+     * 把行为放入队列，必要时抢占正在执行的行为
+     * @returns 队列条目，队列已满时返回 null
+     */
+    private push(action: AgentAction, settle: (result: ActionResult) => void): QueueEntry | null {
+        // 获取该 Agent 的队列
+        let queue = this.queues.get(action.agentId);
+        if (!queue) {
+            queue = [];
+            this.queues.set(action.agentId, queue);
+        }
+
+        if (queue.length >= this.MAX_QUEUE_SIZE) {
+            console.warn(`⚠️ Agent ${action.agentId} action queue is full (${queue.length})`);
+            return null;
+        }
+
+        const entry: QueueEntry = { action, controller: new AbortController(), settle };
+
+        // 按优先级插入队列
+        this.insertByPriority(queue, entry);
+
+        // 抢占：正在执行的行为优先级更低且可取消时中止它
+        const executing = this.executing.get(action.agentId);
+        if (executing && executing.action.cancellable && !executing.controller.signal.aborted
+            && executing.action.priority > action.priority) {
+            executing.controller.abort("preempted");
+            console.log(`⏭️ Action ${executing.action.id} preempted by ${action.id} (agent ${action.agentId})`);
+        }
+
+        // 尝试执行队列
+        this.processQueue(action.agentId);
+
+        return entry;
+    }
+
     /**
      * 处理 Agent 的行为队列
      * @param agentId Agent ID
@@ -190,6 +306,11 @@ export class AgentActionQueue {
         } finally {
             this.locks.delete(agentId);
         }
+
+        // 释放锁之前可能又有行为入队（此时 processQueue 因为锁还在而直接返回了）
+        if (this.queues.get(agentId)?.length) {
+            this.processQueue(agentId);
+        }
     }
 
     /**
@@ -200,54 +321,111 @@ export class AgentActionQueue {
         while (true) {
             const queue = this.queues.get(agentId);
             if (!queue || queue.length === 0) {
+                this.queues.delete(agentId);
                 this.executing.delete(agentId);
                 break;
             }
 
             // 取出队首行为
-            const action = queue.shift()!;
-            this.executing.set(agentId, action);
+            const entry = queue.shift()!;
+            const { action } = entry;
 
-            try {
-                // 检查超时
-                if (action.timeout) {
-                    const age = Date.now() - action.timestamp;
-                    if (age > action.timeout) {
-                        console.warn(`⏰ Action ${action.id} timed out (${age}ms > ${action.timeout}ms)`);
-                        continue;
-                    }
+            // 检查超时
+            if (action.timeout) {
+                const age = Date.now() - action.timestamp;
+                if (age > action.timeout) {
+                    console.warn(`⏰ Action ${action.id} timed out (${age}ms > ${action.timeout}ms)`);
+                    entry.settle({ success: false, cancelled: true, message: "Action timed out" });
+                    continue;
                 }
+            }
+
+            entry.startedAt = Date.now();
+            this.executing.set(agentId, entry);
 
+            let result: ActionResult;
+            try {
                 // 执行行为
-                const result = await action.execute();
-                
+                result = await this.run(entry);
+
                 if (!result.success) {
                     console.warn(`❌ Action ${action.id} failed: ${result.message}`);
                 }
             } catch (err) {
                 console.error(`💥 Error executing action ${action.id}:`, err);
+                result = { success: false, message: (err as Error).message };
             } finally {
                 this.executing.delete(agentId);
             }
+
+            entry.settle(result);
+        }
+    }
+
+    /**
+     * 执行单个行为：执行函数完成或信号中止（取消、抢占、超时），以先发生者为准
+     * 信号中止后仍然等执行函数返回才结束，队列不会在它还在运行时开始下一个行为
+     */
+    private async run(entry: QueueEntry): Promise<ActionResult> {
+        const { action, controller } = entry;
+        const signal = controller.signal;
+
+        const timer = action.timeout
+            ? setTimeout(() => controller.abort("timed out"), Math.max(0, action.timestamp + action.timeout - Date.now()))
+            : null;
+
+        let onAbort: () => void = () => {};
+        const aborted = new Promise<ActionResult>(resolve => {
+            onAbort = () => resolve({ success: false, cancelled: true, message: `Action ${String(signal.reason)}` });
+            signal.addEventListener("abort", onAbort, { once: true });
+        });
+
+        const execution = action.execute(signal);
+        try {
+            const result = await Promise.race([execution, aborted]);
+            if (signal.aborted) {
+                // 执行函数在修改世界前会检查 signal，这里只等它退出，不关心它的结果
+                await execution.catch(() => undefined);
+            }
+            return result;
+        } finally {
+            if (timer) clearTimeout(timer);
+            signal.removeEventListener("abort", onAbort);
         }
     }
 
     /**
      * 按优先级插入行为到队列
      * @param queue 队列
-     * @param action 行为
+     * @param entry 行为条目
      */
-    private insertByPriority(queue: AgentAction[], action: AgentAction): void {
+    private insertByPriority(queue: QueueEntry[], entry: QueueEntry): void {
         // 找到第一个优先级更低的位置
         let insertIndex = queue.length;
         for (let i = 0; i < queue.length; i++) {
             const item = queue[i];
-            if (item && item.priority > action.priority) {
+            if (item && item.action.priority > entry.action.priority) {
                 insertIndex = i;
                 break;
             }
         }
-        queue.splice(insertIndex, 0, action);
+        queue.splice(insertIndex, 0, entry);
+    }
+
+    private toInfo(entry: QueueEntry, status: ActionStatus): AgentActionInfo {
+        const { action } = entry;
+        return {
+            id: action.id,
+            agentId: action.agentId,
+            type: action.type,
+            ...(action.target !== undefined && { target: action.target }),
+            priority: action.priority,
+            status,
+            timestamp: action.timestamp,
+            ...(entry.startedAt !== undefined && { startedAt: entry.startedAt }),
+            cancellable: action.cancellable,
+            ...(action.timeout !== undefined && { timeout: action.timeout }),
+        };
     }
 
     /**
@@ -7,8 +7,8 @@
  * 
  * 1. 过度设计 (Over-Engineering)
  *    - 设计了完整的 repository/memory/inventory 系统，但实际只使用了 id 和 status
- *    - PlayerAgent 在构造时传入 null 或空 mock 对象
- *    - remember/forget/addInventory 等方法从未被调用
+ *    - PlayerAgent 在构造时传入 null 作为 repository
+ *    - remember/forget 等方法从未被调用
  * 
  * 2. 违反 YAGNI 原则 (You Aren't Gonna Need It)
  *    - 提前实现了未来可能用到的功能，增加了代码复杂度
@@ -19,7 +19,8 @@
  *    - 选项 B：完整实现 repository/memory/inventory，使其真正可用
  *    - 选项 C：将这些功能改为可选插件，按需注入
  * 
- * 当前状态：保留代码但标注未使用，便于后续决策
+ * 当前状态：记忆部分已按选项 B 实现——PlayerAgent 使用 LongTermMemoryManager，
+ * 并通过 repository（MemoryRepository）持久化；NPC 的 repository 为 null，不写存档。
  */
 import type {
     AgentOptions,
@@ -42,18 +43,18 @@ export class AbstractAgent {
     private status: AgentStatus;
     
     // ⚠️ 未使用的功能 - 架构问题
-    // 以下三个属性在 PlayerAgent 中传入 null 或空 mock 对象，实际从未被使用：
+    // repository 在 PlayerAgent 中传入 null（玩家持久化由 PlayerRepository 负责）：
     
-    // 持久化仓库，负责把冒险家的资料写回"服务器存档"。
-    // 问题：PlayerAgent 构造时传入 null，所有持久化逻辑未实现
-    private readonly repository: AgentRepository;
+    // 持久化仓库，负责把冒险家的记忆写回"服务器存档"。
+    // 玩家使用 MemoryRepository，NPC 传入 null（不持久化）
+    private readonly repository: AgentRepository | null;
     
     // 记忆管理器，对应玩家脑中的"笔记本"，记录遇到的村庄、怪物等信息。
-    // 问题：PlayerAgent 构造时传入空 mock，remember/forget 方法从未调用
+    // PlayerAgent 使用 InMemoryMemoryManager
     private readonly memory: MemoryManager;
     
     // 背包管理器，对标玩家背包格子里的方块和道具。
-    // 问题：PlayerAgent 构造时传入空 mock，addInventory/removeInventory 方法从未调用
+    // PlayerAgent 使用按格子堆叠的 StackInventoryManager
     private readonly inventory: InventoryManager;
 
 
@@ -130,7 +131,36 @@ export class AbstractAgent {
 
     // —— 序列化 / 持久化 ——
     /**
-     * TODO: 在这里实现与持久化相关的逻辑，
-     * 例如把冒险家的最新状态存回服务器存档，就像退出游戏前保存世界。
+     * 生成通用快照（状态、记忆、背包），交给 AgentRepository 保存。
      */
+    public toAgentSnapshot(): AgentSnapshot {
+        return {
+            id: this.id,
+            status: this.status,
+            memories: this.memory.list(),
+            inventory: this.inventory.list(),
+            updatedAt: new Date().toISOString(),
+        };
+    }
+
+    /**
+     * 把冒险家的记忆写回存档，就像退出游戏前保存世界。
+     * @returns 没有仓库（如 NPC）时返回 false
+     */
+    public async persist(): Promise<boolean> {
+        if (!this.repository) return false;
+        await this.repository.updateAgent(this.toAgentSnapshot());
+        return true;
+    }
+
+    /**
+     * 从存档恢复记忆，好比重新登录后想起之前去过的地方。
+     * @returns 存档中没有该冒险家的记录时返回 false
+     */
+    public async hydrate(): Promise<boolean> {
+        const snapshot = await this.repository?.loadAgent(this.id);
+        if (!snapshot) return false;
+        this.memory.replaceAll(snapshot.memories);
+        return true;
+    }
 }
\ No newline at end of file
@@ -0,0 +1,392 @@
+import PlayerAgent from "./PlayerAgent.js";
+import type { LlmProvider } from "../LLM/index.js";
+import type { AgentMemoryFragment } from "../types";
+import { summarizeLocally } from "../Memory/index.js";
+import type { Position } from "../../../types/agent.js";
+import type { Position2D } from "../../../types/terrain.js";
+import type { NpcDecision, NpcDirection, NpcSnapshot } from "../../../types/npc.js";
+import type { InteractionRequest, InteractionResult } from "../../Interaction/InteractionManager.js";
+import type { MovementOutcome } from "../../Services/PlayerService.js";
+import { InteractionType } from "../../Interaction/InteractionManager.js";
+import { to2D } from "../../World/utils.js";
+import { MAX_SPEECH_LENGTH } from "../../../utils/validation.js";
+
+/**
+ * NPC 与世界交互的能力（由 Game 注入，NPC 不直接持有各个管理器）
+ */
+export interface NpcWorld {
+    /** 描述某个位置周围的环境（WorldManager.describeView） */
+    describeView(center: Position2D, radius: number): string;
+    /** 移动（经过行为队列和地形碰撞校验） */
+    move(npcId: string, delta: Position): Promise<MovementOutcome | null>;
+    /** 与世界交互（经过行为队列和 InteractionManager） */
+    interact(request: InteractionRequest): Promise<InteractionResult>;
+    /** 说话（经过行为队列，广播给同一世界的客户端） */
+    speak(npcId: string, message: string): Promise<{ success: boolean; message: string }>;
+    /** 下一次决策的 LLM 采样种子（来自 RandomService 的 npc 流） */
+    nextDecisionSeed(): number;
+}
+
+/**
+ * NPC 配置
+ */
+export interface NpcOptions {
+    /** 人设描述 */
+    persona: string;
+    /** LLM 提供方 */
+    provider: LlmProvider;
+    /** 两次思考之间的最小间隔（毫秒） */
+    thinkIntervalMs: number;
+}
+
+/** 方向 -> 位移（与 /api/players/:id/move 一致：up/down 改变 z，left/right 改变 x） */
+const DIRECTION_DELTAS: Record<NpcDirection, Position> = {
+    up: { x: 0, y: 0, z: -1 },
+    down: { x: 0, y: 0, z: 1 },
+    left: { x: -1, y: 0, z: 0 },
+    right: { x: 1, y: 0, z: 0 },
+};
+
+/**
+ * NpcAgent 代表一个由 LLM 驱动的自主角色。
+ * 类比 Minecraft 村民：和玩家一样有位置、属性和背包，
+ * 但行为由"大脑"决定，每隔一段时间执行一轮：
+ * 1. perceive：通过 describeView 观察周围环境
+ * 2. decide：把观察交给 LLM 提供方，得到一个 JSON 决策
+ * 3. act：通过移动校验或 InteractionManager 执行决策
+ */
+export default class NpcAgent extends PlayerAgent {
+    private readonly persona: string;
+    private readonly provider: LlmProvider;
+    private readonly thinkIntervalMs: number;
+
+    /** 视野半径（格子） */
+    private readonly VIEW_RADIUS = 3;
+    /** 写入提示词的相关记忆条数 */
+    private readonly MEMORY_LIMIT = 10;
+    /** 长期记忆容量（超出后遗忘保留分最低的记忆） */
+    private static readonly MEMORY_CAPACITY = 100;
+
+    private paused = false;
+    private lastThinkAt = 0;
+    private cycles = 0;
+    private lastDecision: NpcDecision | undefined;
+    private lastResult: string | undefined;
+
+    /** 正在进行的思考（用于暂停/移除时中止 LLM 请求） */
+    private inFlight: AbortController | null = null;
+
+    constructor(id: string, name: string, spawnPosition: Position, options: NpcOptions) {
+        super(id, name, spawnPosition, null, { capacity: NpcAgent.MEMORY_CAPACITY });
+        this.persona = options.persona;
+        this.provider = options.provider;
+        this.thinkIntervalMs = options.thinkIntervalMs;
+    }
+
+    // ===== 生命周期控制 =====
+
+    /**
+     * 暂停 NPC（会中止正在进行的思考）
+     */
+    pause(): void {
+        this.paused = true;
+        this.abort();
+        this.setStatus("idle");
+    }
+
+    /**
+     * 恢复 NPC
+     */
+    resume(): void {
+        this.paused = false;
+    }
+
+    isPaused(): boolean {
+        return this.paused;
+    }
+
+    /**
+     * 中止正在进行的思考
+     */
+    abort(): void {
+        this.inFlight?.abort();
+        this.inFlight = null;
+    }
+
+    /**
+     * 是否到了下一轮思考的时间（节流：未暂停、上一轮已结束、间隔已到）
+     * @param now 当前时间戳（毫秒）
+     */
+    shouldThink(now: number): boolean {
+        return !this.paused && !this.inFlight && now - this.lastThinkAt >= this.thinkIntervalMs;
+    }
+
+    // ===== perceive → decide → act =====
+
+    /**
+     * 执行一轮完整的 感知 → 决策 → 行动
+     * @param world 世界访问接口
+     * @returns 本轮的决策
+     */
+    async runCycle(world: NpcWorld): Promise<NpcDecision> {
+        const controller = new AbortController();
+        this.inFlight = controller;
+        this.lastThinkAt = Date.now();
+
+        try {
+            const observation = this.perceive(world);
+            const seed = world.nextDecisionSeed();
+
+            this.setStatus("thinking");
+            const decision = await this.decide(observation, controller.signal, seed);
+            if (controller.signal.aborted) {
+                return { action: "wait", reason: "aborted" };
+            }
+
+            const result = await this.act(decision, world);
+
+            this.lastDecision = decision;
+            this.lastResult = result;
+            this.cycles++;
+            this.rememberTurn(decision, result);
+
+            // 积累了足够多的经历后反思一次（失败不影响本轮结果）
+            if (this.shouldReflect() && !controller.signal.aborted) {
+                await this.reflect((fragments, signal) => this.summarize(fragments, signal), controller.signal)
+                    .catch(err => console.warn(`⚠️ NPC "${this.getName()}" failed to reflect:`, (err as Error).message));
+            }
+
+            return decision;
+        } catch (err) {
+            if (controller.signal.aborted) {
+                return { action: "wait", reason: "aborted" };
+            }
+            this.setStatus("error");
+            this.lastResult = `思考失败：${(err as Error).message}`;
+            throw err;
+        } finally {
+            if (this.inFlight === controller) {
+                this.inFlight = null;
+            }
+        }
+    }
+
+    /**
+     * 感知：描述自身状态和周围环境
+     */
+    perceive(world: NpcWorld): string {
+        const position = this.getPosition();
+        const tile = to2D(position);
+        const attributes = this.getAttributes();
+        const inventory = this.listInventory().map(i => `${i.label} x${i.quantity}`).join(", ") || "空";
+
+        return [
+            `位置：(${tile.x}, ${tile.y})`,
+            `生命值：${attributes.health}/${attributes.maxHealth}`,
+            `背包：${inventory}`,
+            `上一轮结果：${this.lastResult ?? "无"}`,
+            "",
+            world.describeView(tile, this.VIEW_RADIUS),
+        ].join("\n");
+    }
+
+    /**
+     * 决策：检索与当前观察最相关的记忆，连同观察一起交给 LLM，解析出 JSON 决策（解析失败时原地等待）
+     * @param seed LLM 采样种子（可选）
+     */
+    async decide(observation: string, signal?: AbortSignal, seed?: number): Promise<NpcDecision> {
+        const recalled = await this.recall(observation, this.MEMORY_LIMIT, signal);
+        const memories = recalled.map(({ fragment }) => `- [${fragment.type}] ${fragment.content}`).join("\n") || "（暂无）";
+
+        const raw = await this.provider.complete({
+            system: this.buildSystemPrompt(),
+            prompt: `相关的记忆：\n${memories}\n\n当前观察：\n${observation}`,
+            ...(signal && { signal }),
+            ...(seed !== undefined && { seed }),
+        });
+
+        return parseNpcDecision(raw) ?? { action: "wait", reason: "无法理解的决策" };
+    }
+
+    /**
+     * 行动：执行决策
+     * @returns 行动结果描述
+     */
+    async act(decision: NpcDecision, world: NpcWorld): Promise<string> {
+        switch (decision.action) {
+            case "move": {
+                this.setStatus("moving");
+                const outcome = await world.move(this.getId(), DIRECTION_DELTAS[decision.direction]);
+                this.setStatus("idle");
+                if (!outcome || !outcome.success) {
+                    return `移动失败：${outcome?.rejection?.message ?? "无法移动"}`;
+                }
+                const tile = to2D(outcome.player.position);
+                return `移动到 (${tile.x}, ${tile.y})`;
+            }
+
+            case "interact": {
+                // 查看以自己为中心，不受目标距离限制
+                const target = decision.interaction === "look" ? to2D(this.getPosition()) : decision.target;
+                const result = await world.interact({
+                    playerId: this.getId(),
+                    type: decision.interaction as InteractionType,
+                    target,
+                    data: decision.data,
+                });
+                this.setStatus("idle");
+                return result.message;
+            }
+
+            case "speak": {
+                const result = await world.speak(this.getId(), decision.message);
+                this.setStatus("idle");
+                return result.success ? `说：${decision.message}` : `没能说出口：${result.message}`;
+            }
+
+            case "wait":
+            default:
+                this.setStatus("idle");
+                return "原地等待";
+        }
+    }
+
+    // ===== 序列化 =====
+
+    /**
+     * 生成 NPC 快照（玩家快照 + NPC 状态）
+     */
+    toNpcSnapshot(): NpcSnapshot {
+        return {
+            ...this.toSnapshot(),
+            npc: {
+                persona: this.persona,
+                provider: this.provider.name,
+                paused: this.paused,
+                thinkIntervalMs: this.thinkIntervalMs,
+                cycles: this.cycles,
+                ...(this.lastDecision && { lastDecision: this.lastDecision }),
+                ...(this.lastResult && { lastResult: this.lastResult }),
+            },
+        };
+    }
+
+    // ===== 辅助函数 =====
+
+    private buildSystemPrompt(): string {
+        return [
+            `你是游戏世界中的 NPC「${this.getName()}」。${this.persona}`,
+            "每一轮你会收到自己的状态和周围环境的描述，请选择一个行动，只输出一个 JSON 对象：",
+            '- 移动：{"action":"move","direction":"up|down|left|right","reason":"..."}',
+            '- 交互：{"action":"interact","interaction":"till|plant|water|harvest|chop|mine|place|break|look","target":{"x":0,"y":0},"data":{"cropId":"wheat"},"reason":"..."}',
+            "放置方块时在 data 里写要放置的物品，如 {\"itemId\":\"fence\"}；break 只能拆玩家放置的方块。",
+            `- 说话：{"action":"speak","message":"...","reason":"..."}（同一世界的玩家都能听到，不超过 ${MAX_SPEECH_LENGTH} 字）`,
+            '- 等待：{"action":"wait","reason":"..."}',
+            "交互目标必须在你身边一格以内。",
+        ].join("\n");
+    }
+
+    /**
+     * 把本轮决策和结果写入记忆（超出容量时由长期记忆按保留分遗忘）
+     * 成功的交互比移动、等待更值得记住
+     */
+    private rememberTurn(decision: NpcDecision, result: string): void {
+        this.remember({
+            id: `turn_${this.cycles}`,
+            type: "observation",
+            content: `${describeDecision(decision)} -> ${result}`,
+            importance: decision.action === "interact" ? 0.5 : 0.2,
+        });
+    }
+
+    /**
+     * 反思摘要：请 LLM 输出 {"summary": "..."}，拿不到摘要时退回本地摘要
+     */
+    private async summarize(fragments: AgentMemoryFragment[], signal?: AbortSignal): Promise<string> {
+        // 脚本提供方只会按顺序返回决策，不用它做摘要（也避免打乱脚本顺序）
+        if (this.provider.name === "scripted") {
+            return summarizeLocally(fragments);
+        }
+
+        const raw = await this.provider.complete({
+            system: `你是游戏世界中的 NPC「${this.getName()}」。请把下面的经历总结成一句对未来行动有帮助的感悟，只输出 JSON：{"summary":"..."}`,
+            prompt: fragments.map(f => `- ${f.content}`).join("\n"),
+            ...(signal && { signal }),
+        });
+
+        const match = raw.match(/\{[\s\S]*\}/);
+        try {
+            const summary = match ? JSON.parse(match[0])?.summary : undefined;
+            if (typeof summary === "string" && summary.trim()) return summary;
+        } catch {
+            // 不是合法 JSON，使用本地摘要
+        }
+        return summarizeLocally(fragments);
+    }
+}
+
+/**
+ * 把 LLM 输出解析为 NPC 决策（兼容 ```json 代码块包裹）
+ * @returns 不合法时返回 null
+ */
+export function parseNpcDecision(raw: string): NpcDecision | null {
+    const match = raw.match(/\{[\s\S]*\}/);
+    if (!match) return null;
+
+    let value: any;
+    try {
+        value = JSON.parse(match[0]);
+    } catch {
+        return null;
+    }
+
+    const reason = typeof value?.reason === "string" ? value.reason : undefined;
+
+    switch (value?.action) {
+        case "move":
+            if (!(value.direction in DIRECTION_DELTAS)) return null;
+            return { action: "move", direction: value.direction, ...(reason && { reason }) };
+
+        case "interact": {
+            const types = Object.values(InteractionType) as string[];
+            if (!types.includes(value.interaction)) return null;
+            const target = value.target ?? { x: 0, y: 0 };
+            if (!Number.isInteger(target.x) || !Number.isInteger(target.y)) return null;
+            return {
+                action: "interact",
+                interaction: value.interaction,
+                target: { x: target.x, y: target.y },
+                ...(value.data && typeof value.data === "object" && { data: value.data }),
+                ...(reason && { reason }),
+            };
+        }
+
+        case "speak": {
+            const message = typeof value.message === "string" ? value.message.trim() : "";
+            if (!message || message.length > MAX_SPEECH_LENGTH) return null;
+            return { action: "speak", message, ...(reason && { reason }) };
+        }
+
+        case "wait":
+            return { action: "wait", ...(reason && { reason }) };
+
+        default:
+            return null;
+    }
+}
+
+/**
+ * 决策的简短描述（写入记忆）
+ */
+function describeDecision(decision: NpcDecision): string {
+    switch (decision.action) {
+        case "move":
+            return `向 ${decision.direction} 移动`;
+        case "interact":
+            return `对 (${decision.target.x}, ${decision.target.y}) 执行 ${decision.interaction}`;
+        case "speak":
+            return `说「${decision.message}」`;
+        default:
+            return "等待";
+    }
+}
@@ -1,5 +1,27 @@
 import { AbstractAgent } from "./AbstractAgent";
-import type { Position, PlayerAttributes, PlayerSnapshot } from "../../../types/agent.js";
+import { LongTermMemoryManager, type LongTermMemoryOptions, type MemorySummarizer, type ScoredMemory } from "../Memory";
+import type { AgentMemoryFragment, AgentRepository } from "../types";
+import { StackInventoryManager } from "../Inventory";
+import type { Position, PlayerAttributes, PlayerSnapshot, DeathState } from "../../../types/agent.js";
+import type { InventorySlot, InventorySnapshot } from "../../../types/item.js";
+import type { ToolDefinition, ToolUsage } from "../../../types/tool.js";
+
+/** 饱食度、体力、精力的默认上限 */
+export const DEFAULT_SURVIVAL_MAX = 100;
+
+/**
+ * 饱食度、体力、精力（新玩家和旧存档缺少这些字段时的默认值）
+ */
+export function defaultSurvivalAttributes(): Pick<PlayerAttributes, "hunger" | "maxHunger" | "stamina" | "maxStamina" | "energy" | "maxEnergy"> {
+    return {
+        hunger: DEFAULT_SURVIVAL_MAX,
+        maxHunger: DEFAULT_SURVIVAL_MAX,
+        stamina: DEFAULT_SURVIVAL_MAX,
+        maxStamina: DEFAULT_SURVIVAL_MAX,
+        energy: DEFAULT_SURVIVAL_MAX,
+        maxEnergy: DEFAULT_SURVIVAL_MAX,
+    };
+}
 
 /**
  * 玩家操作记录（用于客户端预测和服务端和解）
@@ -29,7 +51,15 @@ interface PlayerAction {
 export default class PlayerAgent extends AbstractAgent {
     private name: string;
     private position: Position;
+    /** 个人出生点（复活位置） */
+    private spawnPoint: Position;
     private attributes: PlayerAttributes;
+    /** 死亡状态（存活时为 null） */
+    private death: DeathState | null = null;
+    /** 背包（与父类共用同一个实例，这里保留具体类型以使用堆叠接口） */
+    private readonly inventoryStore: StackInventoryManager;
+    /** 长期记忆（与父类共用同一个实例，这里保留具体类型以使用检索/反思接口） */
+    private readonly memoryStore: LongTermMemoryManager;
     private readonly joinedAt: string;
     private lastActiveAt: string;
     
@@ -53,31 +83,39 @@ export default class PlayerAgent extends AbstractAgent {
      * @param id 玩家唯一 ID
      * @param name 玩家名称
      * @param spawnPosition 出生点坐标（默认原点）
-     * @param repository 数据持久化仓库
+     * @param repository 记忆持久化仓库（null 表示不持久化，例如 NPC）
+     * @param memoryOptions 长期记忆配置（容量、向量提供方等）
      */
     constructor(
         id: string,
         name: string,
         spawnPosition: Position = { x: 0, y: 0, z: 0 },
-        repository: any
+        repository: AgentRepository | null,
+        memoryOptions: LongTermMemoryOptions = {}
     ) {
-        // 调用父类构造函数，暂时传入简化的参数
+        const inventory = new StackInventoryManager();
+        const memory = new LongTermMemoryManager(memoryOptions);
+
         super({
             id,
             repository,
             initialStatus: "idle",
-            memory: { upsert: () => {}, remove: () => {}, list: () => [] } as any,
-            inventory: { upsert: () => {}, remove: () => {}, list: () => [] } as any,
+            memory,
+            inventory,
         });
 
+        this.inventoryStore = inventory;
+        this.memoryStore = memory;
         this.name = name;
         this.position = { ...spawnPosition };
+        this.spawnPoint = { ...spawnPosition };
         this.attributes = {
             name,
             level: 1,
             health: 100,
             maxHealth: 100,
             experience: 0,
+            ...defaultSurvivalAttributes(),
         };
         
         const now = new Date().toISOString();
@@ -115,6 +153,7 @@ export default class PlayerAgent extends AbstractAgent {
      * 移动到新位置（相对移动）
      */
     move(dx: number, dy: number, dz: number): Position {
+        this.wake(); // 走动会把睡着的角色叫醒
         this.position.x += dx;
         this.position.y += dy;
         this.position.z += dz;
@@ -127,6 +166,7 @@ export default class PlayerAgent extends AbstractAgent {
      * 传送到指定位置（绝对位置）
      */
     teleport(x: number, y: number, z: number): Position {
+        this.wake();
         this.position.x = x;
         this.position.y = y;
         this.position.z = z;
@@ -135,6 +175,23 @@ export default class PlayerAgent extends AbstractAgent {
         return this.getPosition();
     }
 
+    /**
+     * 获取个人出生点
+     */
+    getSpawnPoint(): Position {
+        return { ...this.spawnPoint };
+    }
+
+    /**
+     * 设置个人出生点（调用方负责保证位置可站立）
+     */
+    setSpawnPoint(position: Position): Position {
+        this.spawnPoint = { ...position };
+        this.updateActivity();
+        this.markDirty(); // 标记为脏数据
+        return this.getSpawnPoint();
+    }
+
     /**
      * 计算与另一个位置的距离
      */
@@ -162,7 +219,7 @@ export default class PlayerAgent extends AbstractAgent {
     }
 
     /**
-     * 受到伤害
+     * 受到伤害（生命值归零时进入 dead 状态，死亡惩罚和复活由 RespawnManager 处理）
      */
     takeDamage(amount: number): void {
         this.attributes.health = Math.max(0, this.attributes.health - amount);
@@ -170,8 +227,107 @@ export default class PlayerAgent extends AbstractAgent {
         this.markDirty(); // 标记为脏数据
         
         if (this.attributes.health === 0) {
-            this.setStatus("offline");
+            this.setStatus("dead");
+        }
+    }
+
+    // ===== 饱食度、体力、精力 =====
+
+    /**
+     * 调整饱食度 / 体力 / 精力（自动限制在 0 ~ 上限之间）
+     * 世界 tick 的自然变化走这里，不标记脏数据，由定期存档保存
+     */
+    adjustSurvival(delta: Partial<Record<"hunger" | "stamina" | "energy", number>>): void {
+        const clamp = (value: number, max: number) => Math.min(max, Math.max(0, value));
+        const { hunger, stamina, energy } = delta;
+
+        if (hunger !== undefined) this.attributes.hunger = clamp(this.attributes.hunger + hunger, this.attributes.maxHunger);
+        if (stamina !== undefined) this.attributes.stamina = clamp(this.attributes.stamina + stamina, this.attributes.maxStamina);
+        if (energy !== undefined) this.attributes.energy = clamp(this.attributes.energy + energy, this.attributes.maxEnergy);
+    }
+
+    /**
+     * 消耗体力和饱食度（全有或全无）
+     * @returns 体力不足时返回 false
+     */
+    exert(cost: { stamina: number; hunger: number }): boolean {
+        if (this.attributes.stamina < cost.stamina) {
+            return false;
         }
+
+        this.adjustSurvival({ stamina: -cost.stamina, hunger: -cost.hunger });
+        this.updateActivity();
+        this.markDirty(); // 标记为脏数据
+        return true;
+    }
+
+    /**
+     * 是否正在睡觉
+     */
+    isSleeping(): boolean {
+        return this.getStatus() === "sleeping";
+    }
+
+    /**
+     * 睡觉（精力由 SurvivalManager 逐 tick 恢复）
+     */
+    sleep(): void {
+        this.setStatus("sleeping");
+        this.updateActivity();
+        this.markDirty(); // 标记为脏数据
+    }
+
+    /**
+     * 起床（没有在睡觉时什么也不做）
+     */
+    wake(): void {
+        if (!this.isSleeping()) return;
+        this.setStatus("idle");
+        this.markDirty(); // 标记为脏数据
+    }
+
+    // ===== 死亡与复活 =====
+
+    /**
+     * 是否已死亡（生命值归零）
+     */
+    isDead(): boolean {
+        return this.attributes.health <= 0;
+    }
+
+    /**
+     * 获取死亡状态（存活或尚未结算死亡时为 null）
+     */
+    getDeathState(): DeathState | null {
+        return this.death ? { ...this.death, droppedItems: this.death.droppedItems.map(slot => ({ ...slot })) } : null;
+    }
+
+    /**
+     * 记录死亡状态
+     */
+    die(death: DeathState): void {
+        this.attributes.health = 0;
+        this.death = { ...death, droppedItems: death.droppedItems.map(slot => ({ ...slot })) };
+        this.setStatus("dead");
+        this.clearPendingActions();
+        this.updateActivity();
+        this.markDirty(); // 标记为脏数据
+    }
+
+    /**
+     * 在指定位置复活，生命值、饱食度、体力、精力回满
+     */
+    respawn(position: Position): Position {
+        this.death = null;
+        this.attributes.health = this.attributes.maxHealth;
+        this.attributes.hunger = this.attributes.maxHunger;
+        this.attributes.stamina = this.attributes.maxStamina;
+        this.attributes.energy = this.attributes.maxEnergy;
+        this.position = { ...position };
+        this.setStatus("idle");
+        this.updateActivity();
+        this.markDirty(); // 标记为脏数据
+        return this.getPosition();
     }
 
     /**
@@ -212,6 +368,171 @@ export default class PlayerAgent extends AbstractAgent {
         // TODO: 触发升级事件
     }
 
+    // ===== 背包相关 =====
+
+    /**
+     * 获取背包快照
+     */
+    getInventory(): InventorySnapshot {
+        return this.inventoryStore.toSnapshot();
+    }
+
+    /**
+     * 统计某种物品的数量
+     */
+    countItem(itemId: string): number {
+        return this.inventoryStore.count(itemId);
+    }
+
+    /**
+     * 还能放入多少个该物品
+     */
+    getSpaceFor(itemId: string): number {
+        return this.inventoryStore.spaceFor(itemId);
+    }
+
+    /**
+     * 放入物品（空间不足时尽量放入）
+     * @returns 实际放入的数量
+     */
+    addItem(itemId: string, quantity: number): number {
+        const added = this.inventoryStore.add(itemId, quantity);
+        if (added > 0) {
+            this.updateActivity();
+            this.markDirty(); // 标记为脏数据
+        }
+        return added;
+    }
+
+    /**
+     * 取出物品（全有或全无）
+     * @returns 数量不足时返回 false
+     */
+    removeItem(itemId: string, quantity: number): boolean {
+        const removed = this.inventoryStore.take(itemId, quantity);
+        if (removed) {
+            this.updateActivity();
+            this.markDirty(); // 标记为脏数据
+        }
+        return removed;
+    }
+
+    /**
+     * 按格子取出物品（全有或全无），工具保留剩余耐久
+     * @returns 取出的格子；数量不足时返回 null
+     */
+    removeItemSlots(itemId: string, quantity: number): InventorySlot[] | null {
+        const slots = this.inventoryStore.takeSlots(itemId, quantity);
+        if (slots) {
+            this.updateActivity();
+            this.markDirty(); // 标记为脏数据
+        }
+        return slots;
+    }
+
+    /**
+     * 放入 removeItemSlots 取出的格子（工具保留剩余耐久，空间不足时尽量放入）
+     * @returns 实际放入的数量
+     */
+    addItemSlots(slots: InventorySlot[]): number {
+        const added = this.inventoryStore.addSlots(slots);
+        if (added > 0) {
+            this.updateActivity();
+            this.markDirty(); // 标记为脏数据
+        }
+        return added;
+    }
+
+    /**
+     * 使用一次工具，消耗耐久（耐久归零时工具损坏、从背包移除）
+     * @param tool 工具定义
+     * @returns 工具使用情况；背包里没有该工具时返回 null
+     */
+    wearTool(tool: ToolDefinition): ToolUsage | null {
+        const wear = this.inventoryStore.wear(tool.id, tool.maxDurability);
+        if (!wear) return null;
+
+        this.updateActivity();
+        this.markDirty(); // 标记为脏数据
+        return { toolId: tool.id, ...wear };
+    }
+
+    /**
+     * 一次性取出和放入多种物品（全有或全无），用于合成等需要原子性的操作
+     * 取出的物品腾出的格子可以被放入的物品使用
+     * @param remove 取出的物品
+     * @param add 放入的物品
+     * @param dryRun 只检查能否完成，不修改背包
+     * @returns 失败原因：材料不足返回 "insufficient_items"，放不下返回 "inventory_full"；成功返回 null
+     */
+    transactItems(
+        remove: InventorySlot[],
+        add: InventorySlot[],
+        dryRun = false
+    ): "insufficient_items" | "inventory_full" | null {
+        const before = this.inventoryStore.toSnapshot();
+
+        let failure: "insufficient_items" | "inventory_full" | null = null;
+        if (!remove.every(({ itemId, quantity }) => this.inventoryStore.take(itemId, quantity))) {
+            failure = "insufficient_items";
+        } else if (!add.every(({ itemId, quantity }) => this.inventoryStore.add(itemId, quantity) === quantity)) {
+            failure = "inventory_full";
+        }
+
+        if (failure || dryRun) {
+            this.inventoryStore.loadSnapshot(before);
+            return failure;
+        }
+
+        this.updateActivity();
+        this.markDirty(); // 标记为脏数据
+        return null;
+    }
+
+    // ===== 记忆相关 =====
+
+    /**
+     * 按 新近度 + 重要度 + 相关度 检索记忆
+     * @param query 查询文本
+     * @param limit 最多返回条数
+     */
+    recall(query: string, limit = 10, signal?: AbortSignal): Promise<ScoredMemory[]> {
+        return this.memoryStore.retrieve(query, { limit, ...(signal && { signal }) });
+    }
+
+    /**
+     * 是否积累了足够多的新记忆，需要反思
+     */
+    shouldReflect(): boolean {
+        return this.memoryStore.shouldReflect();
+    }
+
+    /**
+     * 反思：把最近的记忆总结成一条 reflection
+     * @param summarizer 摘要器（默认本地摘要，NPC 会优先用自己的 LLM）
+     */
+    reflect(summarizer?: MemorySummarizer, signal?: AbortSignal): Promise<AgentMemoryFragment | null> {
+        return this.memoryStore.reflect(summarizer, signal);
+    }
+
+    /**
+     * 记忆是否有尚未保存的变化
+     */
+    hasUnsavedMemories(): boolean {
+        return this.memoryStore.isDirty();
+    }
+
+    /**
+     * 标记记忆已保存 / 保存失败后重新标记
+     */
+    markMemoriesSaved(saved = true): void {
+        if (saved) {
+            this.memoryStore.markClean();
+        } else {
+            this.memoryStore.markDirty();
+        }
+    }
+
     // ===== 时间戳 =====
 
     /**
@@ -366,8 +687,11 @@ export default class PlayerAgent extends AbstractAgent {
             id: this.getId(),
             name: this.name,
             position: this.getPosition(),
+            spawnPoint: this.getSpawnPoint(),
             status: this.getStatus(),
             attributes: this.getAttributes(),
+            inventory: this.getInventory(),
+            ...(this.death && { death: this.getDeathState()! }),
             joinedAt: this.joinedAt,
             lastActiveAt: this.lastActiveAt,
         };
@@ -376,7 +700,7 @@ export default class PlayerAgent extends AbstractAgent {
     /**
      * 从快照恢复玩家状态（用于数据库加载）
      */
-    static fromSnapshot(snapshot: PlayerSnapshot, repository: any): PlayerAgent {
+    static fromSnapshot(snapshot: PlayerSnapshot, repository: AgentRepository | null): PlayerAgent {
         const player = new PlayerAgent(
             snapshot.id,
             snapshot.name,
@@ -385,7 +709,14 @@ export default class PlayerAgent extends AbstractAgent {
         );
 
         player.position = { ...snapshot.position };
-        player.attributes = { ...snapshot.attributes };
+        player.spawnPoint = { ...(snapshot.spawnPoint ?? snapshot.position) };
+        player.attributes = { ...defaultSurvivalAttributes(), ...snapshot.attributes };
+        if (snapshot.death) {
+            player.death = { ...snapshot.death, droppedItems: snapshot.death.droppedItems.map(slot => ({ ...slot })) };
+        }
+        if (snapshot.inventory) {
+            player.inventoryStore.loadSnapshot(snapshot.inventory);
+        }
         player.setStatus(snapshot.status);
         (player as any).joinedAt = snapshot.joinedAt;
         (player as any).lastActiveAt = snapshot.lastActiveAt;
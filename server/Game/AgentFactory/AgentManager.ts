@@ -1,5 +1,9 @@
 import PlayerAgent from "./Agent/PlayerAgent.js";
+import NpcAgent from "./Agent/NpcAgent.js";
 import type { CreatePlayerParams, PlayerSnapshot } from "../../types/agent.js";
+import type { AgentRepository } from "./types.js";
+import type { Position2D } from "../../types/terrain.js";
+import { to2D } from "../World/utils.js";
 
 /**
  * AgentManager 管理所有"冒险家"实体。
@@ -11,7 +15,7 @@ export default class AgentManager {
     /** 在线玩家映射表 (playerId -> PlayerAgent) */
     private players: Map<string, PlayerAgent> = new Map();
     
-    /** 默认出生点 */
+    /** 默认出生点（调用方未提供出生点时的兜底；PlayerService 会先修正到可站立的世界出生点） */
     private readonly defaultSpawnPoint = { x: 0, y: 64, z: 0 };
     
     /** 玩家计数器，用于生成唯一 ID */
@@ -20,11 +24,14 @@ export default class AgentManager {
     /** 脏数据标记：记录哪些玩家需要保存 */
     private dirtyPlayers: Set<string> = new Set();
 
+    /** 玩家记忆的持久化仓库（NPC 不使用） */
+    private readonly memoryRepository: AgentRepository | null;
+
     /**
-     * 构造器可在未来注入数据库仓库、AI 服务等依赖。
+     * @param memoryRepository 玩家记忆的持久化仓库（可选）
      */
-    constructor() {
-        // 初始化代码
+    constructor(memoryRepository: AgentRepository | null = null) {
+        this.memoryRepository = memoryRepository;
     }
 
     /**
@@ -51,12 +58,12 @@ export default class AgentManager {
         // 确定出生点
         const spawnPosition = params.spawnPosition || this.defaultSpawnPoint;
 
-        // 创建玩家实例（暂时使用 null 作为 repository）
+        // 创建玩家实例（记忆通过 memoryRepository 持久化）
         const player = new PlayerAgent(
             playerId,
             params.name,
             spawnPosition,
-            null
+            this.memoryRepository
         );
 
         // 设置脏数据回调
@@ -70,6 +77,64 @@ export default class AgentManager {
         return player.toSnapshot();
     }
 
+    /**
+     * 把 NPC 加入在线列表
+     * NPC 与玩家共用移动、交互和快照逻辑，但不会被标记为脏数据，也不会写入玩家存档
+     * @param npc NPC 实例
+     */
+    addNpc(npc: NpcAgent): void {
+        if (this.players.has(npc.getId())) {
+            throw new Error(`Agent ${npc.getId()} already exists`);
+        }
+
+        if (this.findPlayerByName(npc.getName())) {
+            throw new Error(`Player name "${npc.getName()}" already exists`);
+        }
+
+        this.players.set(npc.getId(), npc);
+        console.log(`🤖 NPC "${npc.getName()}" spawned (ID: ${npc.getId()})`);
+    }
+
+    /**
+     * 获取所有 NPC
+     */
+    getNpcs(): NpcAgent[] {
+        return Array.from(this.players.values()).filter((p): p is NpcAgent => p instanceof NpcAgent);
+    }
+
+    /**
+     * 获取需要持久化的玩家（排除 NPC）
+     * @returns 玩家快照数组
+     */
+    getPersistentPlayers(): PlayerSnapshot[] {
+        return this.getPersistentAgents().map(player => player.toSnapshot());
+    }
+
+    /**
+     * 获取需要持久化的玩家实体（排除 NPC）
+     */
+    getPersistentAgents(): PlayerAgent[] {
+        return Array.from(this.players.values()).filter(player => !(player instanceof NpcAgent));
+    }
+
+    /**
+     * 获取所有在线角色实体（玩家和 NPC）
+     */
+    getAgents(): PlayerAgent[] {
+        return Array.from(this.players.values());
+    }
+
+    /**
+     * 是否有角色站在该瓦片上（放置方块、资源再生前检查，防止把角色困住）
+     * @param pos 地图坐标
+     */
+    isTileOccupied(pos: Position2D): boolean {
+        return this.getAgents().some(agent => {
+            const tile = to2D(agent.getPosition());
+            return tile.x === pos.x && tile.y === pos.y;
+        });
+    }
+
     /**
      * 获取指定玩家
      * @param playerId 玩家 ID
@@ -91,6 +156,9 @@ export default class AgentManager {
         }
 
         player.setStatus("offline");
+        if (player instanceof NpcAgent) {
+            player.abort(); // 中止正在进行的思考
+        }
         this.players.delete(playerId);
 
         console.log(`👋 Player "${player.getName()}" left the game (ID: ${playerId})`);
@@ -182,7 +250,7 @@ export default class AgentManager {
         }
 
         // 使用静态工厂方法从快照创建玩家实例
-        const player = PlayerAgent.fromSnapshot(snapshot, null);
+        const player = PlayerAgent.fromSnapshot(snapshot, this.memoryRepository);
 
         // 设置脏数据回调
         player.setDirtyCallback(() => this.markPlayerDirty(snapshot.id));
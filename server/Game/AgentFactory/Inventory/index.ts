@@ -1,4 +1,6 @@
 import type { AgentInventoryItem } from "../types";
+import type { InventorySlot, InventorySnapshot } from "../../../types/item.js";
+import { getItemDefinition } from "../../Items/ItemRegistry.js";
 
 
 export interface InventoryManager {
@@ -41,4 +43,260 @@ export class InMemoryInventoryManager implements InventoryManager {
         this.store.clear();
         all.forEach((i) => this.store.set(i.id, { ...i }));
     }
-}
\ No newline at end of file
+}
+
+/** 默认背包格子数（类比 Minecraft 的 36 格背包） */
+export const DEFAULT_INVENTORY_CAPACITY = 36;
+
+
+/**
+ * 按格子堆叠的背包：
+ * - 每格只放一种物品，数量不超过该物品的 maxStack
+ * - 格子总数受 capacity 限制
+ * - 同种物品优先补满已有的格子，再占用新格子
+ */
+export class StackInventoryManager implements InventoryManager {
+    private slots: InventorySlot[] = [];
+    private timestamps = new Map<string, { createdAt: string; updatedAt: string }>();
+
+
+    constructor(private readonly capacity: number = DEFAULT_INVENTORY_CAPACITY) {}
+
+
+    getCapacity(): number { return this.capacity; }
+
+
+    /**
+     * 统计某种物品的总数
+     */
+    count(itemId: string): number {
+        return this.slots.reduce((sum, s) => (s.itemId === itemId ? sum + s.quantity : sum), 0);
+    }
+
+
+    /**
+     * 计算还能放入多少个该物品（已有格子的余量 + 空格子的容量）
+     */
+    spaceFor(itemId: string): number {
+        const { maxStack } = getItemDefinition(itemId);
+        const partial = this.slots
+            .filter((s) => s.itemId === itemId)
+            .reduce((sum, s) => sum + (maxStack - s.quantity), 0);
+        return partial + (this.capacity - this.slots.length) * maxStack;
+    }
+
+
+    /**
+     * 放入物品，空间不足时尽量放入
+     * @returns 实际放入的数量
+     */
+    add(itemId: string, quantity: number): number {
+        const { maxStack } = getItemDefinition(itemId);
+        let remaining = quantity;
+
+        // 1. 先补满同种物品的格子
+        for (const slot of this.slots) {
+            if (remaining <= 0) break;
+            if (slot.itemId !== itemId || slot.quantity >= maxStack) continue;
+            const moved = Math.min(maxStack - slot.quantity, remaining);
+            slot.quantity += moved;
+            remaining -= moved;
+        }
+
+        // 2. 再占用空格子
+        while (remaining > 0 && this.slots.length < this.capacity) {
+            const moved = Math.min(maxStack, remaining);
+            this.slots.push({ itemId, quantity: moved });
+            remaining -= moved;
+        }
+
+        const added = quantity - remaining;
+        if (added > 0) this.touch(itemId);
+        return added;
+    }
+
+
+    /**
+     * 取出物品（全有或全无）
+     * 取出顺序：工具先取磨损最多的那件（与 wear 一致），同等磨损时从后往前取，优先清空靠后的格子
+     * @returns 数量不足时返回 false，背包不变
+     */
+    take(itemId: string, quantity: number): boolean {
+        return this.takeSlots(itemId, quantity) !== null;
+    }
+
+
+    /**
+     * 取出物品并返回取出的格子（顺序与 take 相同），整格取出的工具保留剩余耐久
+     * @returns 数量不足时返回 null，背包不变
+     */
+    takeSlots(itemId: string, quantity: number): InventorySlot[] | null {
+        if (this.count(itemId) < quantity) return null;
+
+        const candidates = this.slots
+            .filter((s) => s.itemId === itemId)
+            .reverse()
+            .sort((a, b) => (a.durability ?? Number.MAX_SAFE_INTEGER) - (b.durability ?? Number.MAX_SAFE_INTEGER));
+
+        const taken: InventorySlot[] = [];
+        let remaining = quantity;
+        for (const slot of candidates) {
+            if (remaining <= 0) break;
+            const moved = Math.min(slot.quantity, remaining);
+            // 耐久属于格子里正在使用的那件，只取走一部分时它留在原格子里
+            const whole = moved === slot.quantity && slot.durability !== undefined;
+            taken.push({ itemId, quantity: moved, ...(whole && { durability: slot.durability }) });
+            slot.quantity -= moved;
+            remaining -= moved;
+        }
+
+        this.slots = this.slots.filter((s) => s.quantity > 0);
+        if (this.count(itemId) === 0) {
+            this.timestamps.delete(itemId);
+        } else {
+            this.touch(itemId);
+        }
+        return taken;
+    }
+
+
+    /**
+     * 放入 takeSlots 取出的格子：带耐久的工具单独占一格并保留耐久，其余物品与 add 相同
+     * @returns 实际放入的数量
+     */
+    addSlots(slots: InventorySlot[]): number {
+        let added = 0;
+        for (const slot of slots) {
+            if (slot.durability === undefined) {
+                added += this.add(slot.itemId, slot.quantity);
+                continue;
+            }
+            if (this.slots.length >= this.capacity) continue;
+            this.slots.push({ ...slot });
+            this.touch(slot.itemId);
+            added += slot.quantity;
+        }
+        return added;
+    }
+
+
+    /**
+     * 磨损一件工具：优先使用磨损最多的那件，耐久归零时从背包移除
+     * @param itemId 工具 ID
+     * @param maxDurability 全新时的耐久（格子上没有 durability 字段时按全新计算）
+     * @param amount 消耗的耐久
+     * @returns 使用后的剩余耐久；背包里没有该工具时返回 null
+     */
+    wear(itemId: string, maxDurability: number, amount = 1): { durability: number; broken: boolean } | null {
+        let target: InventorySlot | undefined;
+        for (const slot of this.slots) {
+            if (slot.itemId !== itemId) continue;
+            if (!target || (slot.durability ?? maxDurability) < (target.durability ?? maxDurability)) {
+                target = slot;
+            }
+        }
+        if (!target) return null;
+
+        const durability = Math.max(0, (target.durability ?? maxDurability) - amount);
+        if (durability > 0) {
+            target.durability = durability;
+            this.touch(itemId);
+            return { durability, broken: false };
+        }
+
+        // 耐久归零：整件工具损坏
+        const broken = target;
+        if (broken.quantity > 1) {
+            broken.quantity -= 1;
+            delete broken.durability;
+        } else {
+            this.slots = this.slots.filter((s) => s !== broken);
+        }
+        if (this.count(itemId) === 0) {
+            this.timestamps.delete(itemId);
+        } else {
+            this.touch(itemId);
+        }
+        return { durability: 0, broken: true };
+    }
+
+
+    /**
+     * 导出背包快照（用于持久化和 API 响应）
+     */
+    toSnapshot(): InventorySnapshot {
+        return {
+            capacity: this.capacity,
+            slots: this.slots.map((s) => ({ ...s })),
+        };
+    }
+
+
+    /**
+     * 从快照恢复格子（超出容量或非法的格子会被丢弃）
+     */
+    loadSnapshot(snapshot: InventorySnapshot): void {
+        this.slots = [];
+        this.timestamps.clear();
+        for (const slot of snapshot.slots) {
+            if (this.slots.length >= this.capacity) break;
+            if (!slot.itemId || !Number.isInteger(slot.quantity) || slot.quantity <= 0) continue;
+            const { maxStack } = getItemDefinition(slot.itemId);
+            const { durability } = slot; // 工具的剩余耐久，非法值按全新处理
+            this.slots.push({
+                itemId: slot.itemId,
+                quantity: Math.min(slot.quantity, maxStack),
+                ...(durability !== undefined && Number.isInteger(durability) && durability > 0 && { durability }),
+            });
+            this.touch(slot.itemId);
+        }
+    }
+
+
+    // —— InventoryManager 接口（按物品汇总）——
+    upsert(item: Omit<AgentInventoryItem, "createdAt" | "updatedAt"> & { createdAt?: string; updatedAt?: string }): AgentInventoryItem {
+        // 语义：把该物品的总数设置为 item.quantity（受空间限制）
+        this.take(item.id, this.count(item.id));
+        this.add(item.id, item.quantity);
+        return this.describe(item.id);
+    }
+
+
+    remove(id: string): boolean {
+        const quantity = this.count(id);
+        return quantity > 0 && this.take(id, quantity);
+    }
+
+
+    list(): AgentInventoryItem[] {
+        const ids = Array.from(new Set(this.slots.map((s) => s.itemId)));
+        return ids.map((id) => this.describe(id)).sort((a, b) => a.label.localeCompare(b.label));
+    }
+
+
+    replaceAll(all: AgentInventoryItem[]): void {
+        this.slots = [];
+        this.timestamps.clear();
+        all.forEach((i) => this.add(i.id, i.quantity));
+    }
+
+
+    private describe(itemId: string): AgentInventoryItem {
+        const now = new Date().toISOString();
+        const times = this.timestamps.get(itemId);
+        return {
+            id: itemId,
+            label: getItemDefinition(itemId).label,
+            quantity: this.count(itemId),
+            createdAt: times?.createdAt ?? now,
+            updatedAt: times?.updatedAt ?? now,
+        };
+    }
+
+
+    private touch(itemId: string): void {
+        const now = new Date().toISOString();
+        const existing = this.timestamps.get(itemId);
+        this.timestamps.set(itemId, { createdAt: existing?.createdAt ?? now, updatedAt: now });
+    }
+}
@@ -0,0 +1,123 @@
+import type { LlmProviderName, NpcDecision } from "../../../types/npc.js";
+
+
+/**
+ * 一次补全请求
+ */
+export interface LlmRequest {
+    /** 系统提示词（人设、规则、输出格式） */
+    system: string;
+    /** 本轮的观察内容 */
+    prompt: string;
+    /** 取消信号（NPC 被暂停/移除时中止请求） */
+    signal?: AbortSignal;
+    /** 采样种子（来自 RandomService 的 npc 流，支持的提供方会尽量给出可复现的输出） */
+    seed?: number;
+}
+
+
+/**
+ * LLM 提供方接口：输入提示词，输出文本（NPC 期望是一段 JSON 决策）
+ */
+export interface LlmProvider {
+    readonly name: LlmProviderName;
+    complete(request: LlmRequest): Promise<string>;
+}
+
+
+/**
+ * 默认脚本：原地观察后绕一个小圈
+ */
+export const DEFAULT_NPC_SCRIPT: NpcDecision[] = [
+    { action: "interact", interaction: "look", target: { x: 0, y: 0 }, reason: "看看周围" },
+    { action: "move", direction: "right", reason: "四处走走" },
+    { action: "move", direction: "down", reason: "四处走走" },
+    { action: "move", direction: "left", reason: "四处走走" },
+    { action: "move", direction: "up", reason: "四处走走" },
+    { action: "wait", reason: "休息一下" },
+];
+
+
+/**
+ * 脚本提供方：按顺序循环返回预设决策，完全确定、无需网络。
+ * 用于本地开发、演示和没有 API Key 的环境。
+ */
+export class ScriptedLlmProvider implements LlmProvider {
+    readonly name = "scripted" as const;
+    private cursor = 0;
+
+
+    constructor(private readonly script: NpcDecision[] = DEFAULT_NPC_SCRIPT) {
+        if (script.length === 0) throw new Error("Script must contain at least one decision");
+    }
+
+
+    async complete(_request: LlmRequest): Promise<string> {
+        const decision = this.script[this.cursor % this.script.length]!;
+        this.cursor++;
+        return JSON.stringify(decision);
+    }
+}
+
+
+/**
+ * OpenAI 提供方：调用 Chat Completions 接口（JSON 输出模式）
+ */
+export class OpenAiLlmProvider implements LlmProvider {
+    readonly name = "openai" as const;
+
+
+    constructor(
+        private readonly apiKey: string,
+        private readonly model: string = "gpt-4o-mini",
+        private readonly baseUrl: string = "https://api.openai.com/v1"
+    ) {}
+
+
+    async complete(request: LlmRequest): Promise<string> {
+        const response = await fetch(`${this.baseUrl}/chat/completions`, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                Authorization: `Bearer ${this.apiKey}`,
+            },
+            body: JSON.stringify({
+                model: this.model,
+                response_format: { type: "json_object" },
+                messages: [
+                    { role: "system", content: request.system },
+                    { role: "user", content: request.prompt },
+                ],
+                ...(request.seed !== undefined && { seed: request.seed }),
+            }),
+            ...(request.signal && { signal: request.signal }),
+        });
+
+        if (!response.ok) {
+            throw new Error(`OpenAI request failed: ${response.status} ${response.statusText}`);
+        }
+
+        const data = await response.json() as { choices?: Array<{ message?: { content?: string } }> };
+        return data.choices?.[0]?.message?.content ?? "";
+    }
+}
+
+
+/**
+ * 根据名称创建 LLM 提供方
+ * @param name 提供方名称
+ * @param options scripted 的脚本；openai 从环境变量读取 OPENAI_API_KEY / OPENAI_MODEL
+ */
+export function createLlmProvider(name: LlmProviderName, options: { script?: NpcDecision[] } = {}): LlmProvider {
+    switch (name) {
+        case "openai": {
+            const apiKey = process.env.OPENAI_API_KEY;
+            if (!apiKey) throw new Error("OPENAI_API_KEY is not configured");
+            return new OpenAiLlmProvider(apiKey, process.env.OPENAI_MODEL || undefined);
+        }
+        case "scripted":
+            return new ScriptedLlmProvider(options.script);
+        default:
+            throw new Error(`Unknown LLM provider: ${name}`);
+    }
+}
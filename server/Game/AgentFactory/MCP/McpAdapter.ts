@@ -8,18 +8,18 @@ import type { Agent } from "../types";
 export type TransportLike = unknown;
 
 
-export type ToolRegistrar = (server: McpServer, agent: Agent) => Promise<void> | void;
+export type ToolRegistrar<TAgent = Agent> = (server: McpServer, agent: TAgent) => Promise<void> | void;
 
 
-export class AgentMcpAdapter {
+export class AgentMcpAdapter<TAgent = Agent> {
     private server: McpServer | null = null;
     private readonly name: string;
     private readonly version: string;
-    private readonly agent: Agent;
-    private readonly register: ToolRegistrar;
+    private readonly agent: TAgent;
+    private readonly register: ToolRegistrar<TAgent>;
 
 
-    constructor(params: { agent: Agent; name?: string; version?: string; registerTools: ToolRegistrar }) {
+    constructor(params: { agent: TAgent; name?: string; version?: string; registerTools: ToolRegistrar<TAgent> }) {
         this.agent = params.agent;
         this.name = params.name ?? "agent-mcp";
         this.version = params.version ?? "1.0.0";
@@ -35,4 +35,10 @@ export class AgentMcpAdapter {
         if (!this.server) throw new Error("MCP server failed to initialize");
             await this.server.connect(transport as any);
     }
-}
\ No newline at end of file
+
+
+    async close() {
+        await this.server?.close();
+        this.server = null;
+    }
+}
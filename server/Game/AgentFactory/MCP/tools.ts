@@ -0,0 +1,184 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { ToolRegistrar } from "./McpAdapter.js";
+import type PlayerAgent from "../Agent/PlayerAgent.js";
+import type { NpcWorld } from "../Agent/NpcAgent.js";
+import type { Position2D } from "../../../types/terrain.js";
+import type { NpcDirection } from "../../../types/npc.js";
+import { InteractionType } from "../../Interaction/InteractionManager.js";
+import { to2D } from "../../World/utils.js";
+import { MAX_SPEECH_LENGTH } from "../../../utils/validation.js";
+
+/** 方向 -> 单步位移（与 /api/players/:id/move 一致） */
+const DIRECTION_DELTAS: Record<NpcDirection, { x: number; y: number; z: number }> = {
+    up: { x: 0, y: 0, z: -1 },
+    down: { x: 0, y: 0, z: 1 },
+    left: { x: -1, y: 0, z: 0 },
+    right: { x: 1, y: 0, z: 0 },
+};
+
+/** 工具返回值 */
+type ToolResult = { content: Array<{ type: "text"; text: string }>; isError?: boolean };
+
+const text = (message: string, isError = false): ToolResult => ({
+    content: [{ type: "text", text: message }],
+    ...(isError && { isError }),
+});
+
+/** 交互目标坐标参数 */
+const targetShape = {
+    x: z.number().int().describe("目标瓦片 x 坐标"),
+    y: z.number().int().describe("目标瓦片 y 坐标"),
+};
+
+/** 使用工具的交互参数（不指定时自动使用背包里最好的一件） */
+const toolTargetShape = {
+    ...targetShape,
+    toolId: z.string().optional().describe("使用的工具 ID，如 stone_axe（默认自动选择）"),
+};
+
+/**
+ * 创建绑定到某个角色的游戏工具注册器
+ * 工具列表：look / move / till / plant / water / chop / mine / place / break / speak / inventory / remember / recall
+ * - 世界相关的工具（包括 speak）通过 NpcWorld（行为队列 + 移动校验 + InteractionManager）执行，与 NPC 走同一条路径
+ * - inventory / remember / recall 直接读写角色自身的背包和记忆
+ * @param world 世界访问接口
+ */
+export function createGameToolRegistrar(world: NpcWorld): ToolRegistrar<PlayerAgent> {
+    return (server: McpServer, agent: PlayerAgent) => {
+        const interact = async (type: InteractionType, target: Position2D, data?: Record<string, unknown>) => {
+            const result = await world.interact({ playerId: agent.getId(), type, target, data });
+            const rewards = result.rewards?.length ? `\n获得：${result.rewards.join(", ")}` : "";
+            const tool = result.tool && !result.tool.broken ? `\n${result.tool.toolId} 剩余耐久 ${result.tool.durability}` : "";
+            return text(`${result.message}${rewards}${tool}`, !result.success);
+        };
+
+        server.registerTool("look", {
+            description: "观察角色周围的环境",
+            inputSchema: {
+                radius: z.number().int().min(1).max(8).optional().describe("视野半径（默认 3）"),
+            },
+        }, async ({ radius }) => {
+            return text(world.describeView(to2D(agent.getPosition()), radius ?? 3));
+        });
+
+        server.registerTool("move", {
+            description: "朝某个方向移动若干格（遇到障碍物会停下）",
+            inputSchema: {
+                direction: z.enum(["up", "down", "left", "right"]).describe("移动方向"),
+                steps: z.number().int().min(1).max(10).optional().describe("步数（默认 1）"),
+            },
+        }, async ({ direction, steps }) => {
+            const step = DIRECTION_DELTAS[direction];
+            let moved = 0;
+            let blocked: string | undefined;
+
+            for (let i = 0; i < (steps ?? 1); i++) {
+                const outcome = await world.move(agent.getId(), step);
+                if (!outcome || !outcome.success) {
+                    blocked = outcome?.rejection?.message ?? "无法移动";
+                    break;
+                }
+                moved++;
+            }
+
+            const tile = to2D(agent.getPosition());
+            const summary = `移动了 ${moved} 格，当前位置 (${tile.x}, ${tile.y})`;
+            return blocked ? text(`${summary}；${blocked}`, moved === 0) : text(summary);
+        });
+
+        server.registerTool("till", {
+            description: "用锄头把相邻的草地开垦为耕地（需要锄头）",
+            inputSchema: toolTargetShape,
+        }, async ({ x, y, toolId }) => interact(InteractionType.TILL, { x, y }, toolId ? { toolId } : undefined));
+
+        server.registerTool("plant", {
+            description: "在相邻的耕地上种植作物",
+            inputSchema: {
+                ...targetShape,
+                cropId: z.string().describe("作物 ID，如 wheat / carrot / potato"),
+            },
+        }, async ({ x, y, cropId }) => interact(InteractionType.PLANT, { x, y }, { cropId }));
+
+        server.registerTool("water", {
+            description: "用水壶给相邻的耕地浇水（需要水壶）",
+            inputSchema: toolTargetShape,
+        }, async ({ x, y, toolId }) => interact(InteractionType.WATER, { x, y }, toolId ? { toolId } : undefined));
+
+        server.registerTool("chop", {
+            description: "砍伐相邻的树木（需要多次，有斧头会更快）",
+            inputSchema: toolTargetShape,
+        }, async ({ x, y, toolId }) => interact(InteractionType.CHOP, { x, y }, toolId ? { toolId } : undefined));
+
+        server.registerTool("mine", {
+            description: "开采相邻的岩石（需要多次，有镐会更快）",
+            inputSchema: toolTargetShape,
+        }, async ({ x, y, toolId }) => interact(InteractionType.MINE, { x, y }, toolId ? { toolId } : undefined));
+
+        server.registerTool("place", {
+            description: "把背包里的方块（石墙、石地板、泥土、栅栏、木门、工作台等）放到相邻的空地上",
+            inputSchema: {
+                ...targetShape,
+                itemId: z.string().describe("放置的物品 ID，如 stone_wall / fence / door"),
+            },
+        }, async ({ x, y, itemId }) => interact(InteractionType.PLACE, { x, y }, { itemId }));
+
+        server.registerTool("break", {
+            description: "拆下相邻的、玩家放置的方块，物品放回背包",
+            inputSchema: targetShape,
+        }, async (target) => interact(InteractionType.BREAK, target));
+
+        server.registerTool("speak", {
+            description: "说一句话，同一世界的玩家都能看到",
+            inputSchema: {
+                message: z.string().trim().min(1).max(MAX_SPEECH_LENGTH).describe("说的话"),
+            },
+        }, async ({ message }) => {
+            const result = await world.speak(agent.getId(), message);
+            return text(result.message, !result.success);
+        });
+
+        server.registerTool("inventory", {
+            description: "查看角色背包",
+        }, async () => {
+            const inventory = agent.getInventory();
+            const lines = agent.listInventory().map(item => `${item.label}（${item.id}）x${item.quantity}`);
+            const header = `背包 ${inventory.slots.length}/${inventory.capacity} 格`;
+            return text(lines.length ? `${header}\n${lines.join("\n")}` : `${header}\n（空）`);
+        });
+
+        server.registerTool("remember", {
+            description: "记下一条记忆",
+            inputSchema: {
+                content: z.string().min(1).describe("记忆内容"),
+                type: z.enum(["observation", "dialogue", "reflection"]).optional().describe("记忆类型（默认 observation）"),
+                relatedObject: z.string().optional().describe("相关对象（玩家、地点、物品等）"),
+                importance: z.number().min(0).max(1).optional().describe("重要度 0~1（默认按类型）"),
+            },
+        }, async ({ content, type, relatedObject, importance }) => {
+            const fragment = agent.remember({
+                id: `mem_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+                content,
+                type: type ?? "observation",
+                ...(relatedObject && { relatedObject }),
+                ...(importance !== undefined && { importance }),
+            });
+            return text(`已记住（${fragment.id}）`);
+        });
+
+        server.registerTool("recall", {
+            description: "回忆记忆：按新近度、重要度和与查询的相关度排序（不带查询时只看新近度和重要度）",
+            inputSchema: {
+                query: z.string().optional().describe("查询内容"),
+                limit: z.number().int().min(1).max(50).optional().describe("最多返回条数（默认 10）"),
+            },
+        }, async ({ query, limit }) => {
+            const memories = await agent.recall(query ?? "", limit ?? 10);
+
+            if (memories.length === 0) {
+                return text("没有相关的记忆");
+            }
+            return text(memories.map(({ fragment, score }) => `- [${fragment.type}] ${fragment.content}（${score.toFixed(2)}）`).join("\n"));
+        });
+    };
+}
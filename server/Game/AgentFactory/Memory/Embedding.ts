@@ -0,0 +1,176 @@
+/**
+ * 记忆检索用的文本向量（embedding）
+ * - Embedder 接口可插拔：本地哈希向量（默认，离线、确定）或 OpenAI Embeddings
+ * - 检索时用余弦相似度衡量记忆与查询的相关性
+ */
+
+
+/** 可用的向量提供方 */
+export type EmbedderName = "hashing" | "openai";
+
+
+/**
+ * 向量提供方接口：输入文本，输出定长向量
+ */
+export interface Embedder {
+    readonly name: EmbedderName;
+    embed(text: string, signal?: AbortSignal): Promise<number[]>;
+}
+
+
+/** 哈希向量默认维度 */
+export const DEFAULT_EMBEDDING_DIMENSIONS = 256;
+
+
+/**
+ * 本地哈希向量（feature hashing）：
+ * - 英文/数字按单词切分，中文按单字 + 相邻两字切分
+ * - 每个词经 FNV-1a 哈希落到固定维度的桶里（用哈希的高位决定正负号减少碰撞影响）
+ * - 结果做 L2 归一化，相同文本永远得到相同向量，无需网络
+ */
+export class HashingEmbedder implements Embedder {
+    readonly name = "hashing" as const;
+
+
+    constructor(private readonly dimensions: number = DEFAULT_EMBEDDING_DIMENSIONS) {
+        if (!Number.isInteger(dimensions) || dimensions <= 0) {
+            throw new Error("Embedding dimensions must be a positive integer");
+        }
+    }
+
+
+    async embed(text: string): Promise<number[]> {
+        return this.embedSync(text);
+    }
+
+
+    /**
+     * 同步计算向量（哈希向量不需要 I/O）
+     */
+    embedSync(text: string): number[] {
+        const vector = new Array<number>(this.dimensions).fill(0);
+
+        for (const token of tokenize(text)) {
+            const hash = fnv1a(token);
+            const index = hash % this.dimensions;
+            vector[index]! += (hash & 0x80000000) === 0 ? 1 : -1;
+        }
+
+        return normalize(vector);
+    }
+}
+
+
+/**
+ * OpenAI 向量：调用 Embeddings 接口
+ */
+export class OpenAiEmbedder implements Embedder {
+    readonly name = "openai" as const;
+
+
+    constructor(
+        private readonly apiKey: string,
+        private readonly model: string = "text-embedding-3-small",
+        private readonly baseUrl: string = "https://api.openai.com/v1"
+    ) {}
+
+
+    async embed(text: string, signal?: AbortSignal): Promise<number[]> {
+        const response = await fetch(`${this.baseUrl}/embeddings`, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                Authorization: `Bearer ${this.apiKey}`,
+            },
+            body: JSON.stringify({ model: this.model, input: text }),
+            ...(signal && { signal }),
+        });
+
+        if (!response.ok) {
+            throw new Error(`OpenAI embedding request failed: ${response.status} ${response.statusText}`);
+        }
+
+        const data = await response.json() as { data?: Array<{ embedding?: number[] }> };
+        return data.data?.[0]?.embedding ?? [];
+    }
+}
+
+
+/**
+ * 根据名称创建向量提供方
+ * @param name 提供方名称（默认读取 MEMORY_EMBEDDER 环境变量，未配置时使用本地哈希向量）
+ */
+export function createEmbedder(name: EmbedderName = (process.env.MEMORY_EMBEDDER as EmbedderName | undefined) ?? "hashing"): Embedder {
+    switch (name) {
+        case "openai": {
+            const apiKey = process.env.OPENAI_API_KEY;
+            if (!apiKey) throw new Error("OPENAI_API_KEY is not configured");
+            return new OpenAiEmbedder(apiKey, process.env.OPENAI_EMBEDDING_MODEL || undefined);
+        }
+        case "hashing":
+            return new HashingEmbedder();
+        default:
+            throw new Error(`Unknown embedder: ${name}`);
+    }
+}
+
+
+/**
+ * 余弦相似度（长度不同或零向量时返回 0）
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+    if (a.length === 0 || a.length !== b.length) return 0;
+
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        const x = a[i]!;
+        const y = b[i]!;
+        dot += x * y;
+        normA += x * x;
+        normB += y * y;
+    }
+
+    if (normA === 0 || normB === 0) return 0;
+    return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+
+/**
+ * 切词：英文/数字按单词，中文按单字 + 相邻两字
+ */
+export function tokenize(text: string): string[] {
+    const tokens: string[] = [];
+    const lower = text.toLowerCase();
+
+    for (const word of lower.match(/[a-z0-9_]+/g) ?? []) {
+        tokens.push(word);
+    }
+
+    for (const run of lower.match(/[一-鿿]+/g) ?? []) {
+        const chars = Array.from(run);
+        chars.forEach((char, i) => {
+            tokens.push(char);
+            if (i + 1 < chars.length) tokens.push(char + chars[i + 1]);
+        });
+    }
+
+    return tokens;
+}
+
+
+function fnv1a(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+
+function normalize(vector: number[]): number[] {
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map(v => v / norm);
+}
@@ -1,4 +1,5 @@
 import type { AgentMemoryFragment } from "../types";
+import { HashingEmbedder, cosineSimilarity, type Embedder } from "./Embedding.js";
 
 
 export interface MemoryManager {
@@ -44,4 +45,319 @@ export class InMemoryMemoryManager implements MemoryManager {
     this.store.clear();
     all.forEach((f) => this.store.set(f.id, { ...f }));
     }
-}
\ No newline at end of file
+}
+
+/** 各类记忆的默认重要度（0~1） */
+export const DEFAULT_MEMORY_IMPORTANCE: Record<AgentMemoryFragment["type"], number> = {
+    observation: 0.3,
+    dialogue: 0.5,
+    reflection: 0.8,
+};
+
+
+/** 默认记忆容量（超出后遗忘保留分最低的记忆） */
+export const DEFAULT_MEMORY_CAPACITY = 200;
+
+
+/**
+ * 检索打分权重：score = recency * w1 + importance * w2 + relevance * w3
+ */
+export interface RetrievalWeights {
+    recency: number;
+    importance: number;
+    relevance: number;
+}
+
+
+export const DEFAULT_RETRIEVAL_WEIGHTS: RetrievalWeights = { recency: 1, importance: 1, relevance: 1 };
+
+
+/**
+ * 带分数的检索结果（各分项都在 0~1 之间）
+ */
+export interface ScoredMemory {
+    fragment: AgentMemoryFragment;
+    score: number;
+    recency: number;
+    importance: number;
+    relevance: number;
+}
+
+
+/**
+ * 反思摘要器：把一批记忆总结成一句话
+ */
+export type MemorySummarizer = (fragments: AgentMemoryFragment[], signal?: AbortSignal) => Promise<string>;
+
+
+export interface LongTermMemoryOptions {
+    /** 向量提供方（默认本地哈希向量） */
+    embedder?: Embedder;
+    /** 记忆容量 */
+    capacity?: number;
+    /** 新近度半衰期（毫秒），默认 30 分钟 */
+    recencyHalfLifeMs?: number;
+    /** 累计多少条新记忆后需要反思一次 */
+    reflectEvery?: number;
+}
+
+
+/**
+ * 长期记忆：
+ * - 检索：按 新近度 + 重要度 + 语义相关度 打分（参考 Generative Agents）
+ * - 反思：每积累一批新记忆，把它们总结成一条重要度更高的 reflection
+ * - 遗忘：超出容量时移除保留分（重要度 + 新近度）最低的记忆
+ * - 持久化：本身只在内存中，通过 isDirty / markClean 配合 AgentRepository 增量保存
+ */
+export class LongTermMemoryManager implements MemoryManager {
+    private store = new Map<string, AgentMemoryFragment>();
+    /** 向量缓存：memoryId -> 计算向量时的内容和向量 */
+    private embeddings = new Map<string, { content: string; vector: number[] }>();
+
+    private readonly embedder: Embedder;
+    private readonly capacity: number;
+    private readonly recencyHalfLifeMs: number;
+    private readonly reflectEvery: number;
+
+    /** 自上次保存后是否有变化 */
+    private dirty = false;
+    /** 自上次反思后新增的非反思记忆数 */
+    private unreflected = 0;
+    private reflectionCounter = 0;
+
+
+    constructor(options: LongTermMemoryOptions = {}) {
+        this.embedder = options.embedder ?? new HashingEmbedder();
+        this.capacity = Math.max(1, options.capacity ?? DEFAULT_MEMORY_CAPACITY);
+        this.recencyHalfLifeMs = options.recencyHalfLifeMs ?? 30 * 60 * 1000;
+        this.reflectEvery = Math.max(1, options.reflectEvery ?? 10);
+    }
+
+
+    upsert(fragment: Omit<AgentMemoryFragment, "createdAt" | "updatedAt"> & { createdAt?: string; updatedAt?: string }): AgentMemoryFragment {
+        const existing = this.store.get(fragment.id);
+        const now = new Date().toISOString();
+
+        const record: AgentMemoryFragment = {
+            ...existing,
+            ...fragment,
+            ...(fragment.importance !== undefined && { importance: clamp01(fragment.importance) }),
+            createdAt: existing?.createdAt ?? fragment.createdAt ?? now,
+            updatedAt: now,
+        } as AgentMemoryFragment;
+
+        this.store.set(record.id, record);
+        this.dirty = true;
+        if (!existing && record.type !== "reflection") {
+            this.unreflected++;
+        }
+
+        this.enforceCapacity();
+        return record;
+    }
+
+
+    remove(id: string): boolean {
+        this.embeddings.delete(id);
+        const removed = this.store.delete(id);
+        if (removed) this.dirty = true;
+        return removed;
+    }
+
+
+    list(limit?: number): AgentMemoryFragment[] {
+        const all = Array.from(this.store.values()).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+        return typeof limit === "number" && limit >= 0 ? all.slice(0, limit) : all;
+    }
+
+
+    /**
+     * 整体替换（从存档加载），不会标记为脏数据
+     */
+    replaceAll(all: AgentMemoryFragment[]): void {
+        this.store.clear();
+        this.embeddings.clear();
+        all.forEach((f) => this.store.set(f.id, { ...f }));
+
+        // 最近一次反思之后的记忆仍然等待反思
+        const lastReflection = this.list().find(f => f.type === "reflection")?.createdAt ?? "";
+        this.unreflected = all.filter(f => f.type !== "reflection" && f.createdAt > lastReflection).length;
+        this.dirty = false;
+        this.enforceCapacity();
+    }
+
+
+    getCapacity(): number {
+        return this.capacity;
+    }
+
+
+    /** 自上次保存后是否有变化 */
+    isDirty(): boolean {
+        return this.dirty;
+    }
+
+
+    markClean(): void {
+        this.dirty = false;
+    }
+
+
+    markDirty(): void {
+        this.dirty = true;
+    }
+
+
+    /**
+     * 按 新近度 + 重要度 + 相关度 检索记忆，命中的记忆会刷新 lastAccessedAt
+     * @param query 查询文本（通常是当前观察）
+     * @param options limit 返回条数，weights 打分权重
+     */
+    async retrieve(
+        query: string,
+        options: { limit?: number; weights?: Partial<RetrievalWeights>; signal?: AbortSignal } = {}
+    ): Promise<ScoredMemory[]> {
+        const weights = { ...DEFAULT_RETRIEVAL_WEIGHTS, ...options.weights };
+        const now = Date.now();
+        const queryVector = query.trim() ? await this.embedder.embed(query, options.signal) : [];
+
+        const scored: ScoredMemory[] = [];
+        for (const fragment of this.store.values()) {
+            const recency = this.recencyOf(fragment, now);
+            const importance = importanceOf(fragment);
+            const relevance = queryVector.length > 0
+                ? Math.max(0, cosineSimilarity(queryVector, await this.vectorFor(fragment, options.signal)))
+                : 0;
+
+            scored.push({
+                fragment,
+                recency,
+                importance,
+                relevance,
+                score: weights.recency * recency + weights.importance * importance + weights.relevance * relevance,
+            });
+        }
+
+        const top = scored.sort((a, b) => b.score - a.score).slice(0, options.limit ?? 10);
+
+        const accessedAt = new Date(now).toISOString();
+        for (const item of top) {
+            const stored = this.store.get(item.fragment.id);
+            if (stored) stored.lastAccessedAt = accessedAt;
+        }
+        if (top.length > 0) this.dirty = true;
+
+        return top;
+    }
+
+
+    /** 是否积累了足够多的新记忆，需要反思 */
+    shouldReflect(): boolean {
+        return this.unreflected >= this.reflectEvery;
+    }
+
+
+    /**
+     * 反思：把自上次反思以来的记忆总结成一条 reflection
+     * @param summarizer 摘要器（默认本地摘要）
+     * @returns 新的反思记忆，没有可总结的内容时返回 null
+     */
+    async reflect(summarizer: MemorySummarizer = summarizeLocally, signal?: AbortSignal): Promise<AgentMemoryFragment | null> {
+        const pending = this.list()
+            .filter(f => f.type !== "reflection")
+            .slice(0, Math.min(this.unreflected, this.reflectEvery * 2));
+        if (pending.length === 0) return null;
+
+        const content = (await summarizer(pending, signal)).trim();
+        if (!content) return null;
+
+        this.unreflected = Math.max(0, this.unreflected - pending.length);
+
+        const importance = Math.max(DEFAULT_MEMORY_IMPORTANCE.reflection, ...pending.map(importanceOf));
+        return this.upsert({
+            id: `reflection_${Date.now()}_${++this.reflectionCounter}`,
+            type: "reflection",
+            content,
+            importance,
+        });
+    }
+
+
+    /**
+     * 遗忘：超出容量时移除保留分最低的记忆
+     */
+    private enforceCapacity(): void {
+        const overflow = this.store.size - this.capacity;
+        if (overflow <= 0) return;
+
+        const now = Date.now();
+        const victims = Array.from(this.store.values())
+            .map(fragment => ({ id: fragment.id, retention: importanceOf(fragment) + this.recencyOf(fragment, now) }))
+            .sort((a, b) => a.retention - b.retention)
+            .slice(0, overflow);
+
+        for (const { id } of victims) {
+            this.store.delete(id);
+            this.embeddings.delete(id);
+        }
+        this.dirty = true;
+    }
+
+
+    /** 新近度：以最近访问（或更新）时间按半衰期指数衰减 */
+    private recencyOf(fragment: AgentMemoryFragment, now: number): number {
+        const last = Date.parse(fragment.lastAccessedAt ?? fragment.updatedAt);
+        const age = Number.isNaN(last) ? 0 : Math.max(0, now - last);
+        return Math.pow(0.5, age / this.recencyHalfLifeMs);
+    }
+
+
+    private async vectorFor(fragment: AgentMemoryFragment, signal?: AbortSignal): Promise<number[]> {
+        const cached = this.embeddings.get(fragment.id);
+        if (cached && cached.content === fragment.content) {
+            return cached.vector;
+        }
+
+        const vector = await this.embedder.embed(fragment.content, signal);
+        this.embeddings.set(fragment.id, { content: fragment.content, vector });
+        return vector;
+    }
+}
+
+
+/**
+ * 记忆的重要度（未设置时按类型取默认值）
+ */
+export function importanceOf(fragment: AgentMemoryFragment): number {
+    return fragment.importance ?? DEFAULT_MEMORY_IMPORTANCE[fragment.type];
+}
+
+
+/**
+ * 本地摘要器：挑出最重要的几条经历，并统计最常接触的对象（离线、确定）
+ */
+export async function summarizeLocally(fragments: AgentMemoryFragment[]): Promise<string> {
+    if (fragments.length === 0) return "";
+
+    const highlights = [...fragments]
+        .sort((a, b) => importanceOf(b) - importanceOf(a))
+        .slice(0, 3)
+        .map(f => f.content);
+
+    const counts = new Map<string, number>();
+    fragments.forEach(f => {
+        if (f.relatedObject) counts.set(f.relatedObject, (counts.get(f.relatedObject) ?? 0) + 1);
+    });
+    const related = Array.from(counts.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 3)
+        .map(([name]) => name);
+
+    return `回顾最近 ${fragments.length} 条经历：${highlights.join("；")}`
+        + (related.length > 0 ? `。经常接触：${related.join("、")}` : "");
+}
+
+
+function clamp01(value: number): number {
+    return Math.min(1, Math.max(0, value));
+}
@@ -0,0 +1,116 @@
+import NpcAgent, { type NpcWorld } from "./Agent/NpcAgent.js";
+import AgentManager from "./AgentManager.js";
+import { createLlmProvider } from "./LLM/index.js";
+import type { Position } from "../../types/agent.js";
+import type { NpcSnapshot, SpawnNpcParams } from "../../types/npc.js";
+
+/**
+ * NpcManager 管理所有由 LLM 驱动的 NPC。
+ * - 生成、暂停、恢复、移除 NPC
+ * - 在游戏主循环中按节流间隔驱动每个 NPC 的 感知 → 决策 → 行动
+ * - NPC 本身注册在 AgentManager 中，和玩家一样出现在玩家列表里
+ */
+export default class NpcManager {
+    private agentManager: AgentManager;
+    private world: NpcWorld;
+
+    /** NPC 计数器，用于生成唯一 ID */
+    private npcIdCounter = 0;
+
+    /** 默认思考间隔（毫秒） */
+    private readonly DEFAULT_THINK_INTERVAL_MS = 2000;
+    /** 最小思考间隔（毫秒），防止把 LLM 请求打满 */
+    private readonly MIN_THINK_INTERVAL_MS = 250;
+
+    /**
+     * @param agentManager 玩家管理器（NPC 也注册在这里）
+     * @param world NPC 访问世界的接口
+     */
+    constructor(agentManager: AgentManager, world: NpcWorld) {
+        this.agentManager = agentManager;
+        this.world = world;
+    }
+
+    /**
+     * 生成 NPC
+     * @param params 生成参数
+     * @param spawnPosition 已校验过的出生位置
+     * @returns NPC 快照
+     */
+    spawn(params: SpawnNpcParams, spawnPosition: Position): NpcSnapshot {
+        const npcId = `npc_${++this.npcIdCounter}_${Date.now()}`;
+        const provider = createLlmProvider(params.provider ?? "scripted", params.script ? { script: params.script } : {});
+
+        const npc = new NpcAgent(npcId, params.name, spawnPosition, {
+            persona: params.persona ?? "你是一位勤劳的农夫，喜欢在附近走动、耕地和种植作物。",
+            provider,
+            thinkIntervalMs: Math.max(this.MIN_THINK_INTERVAL_MS, params.thinkIntervalMs ?? this.DEFAULT_THINK_INTERVAL_MS),
+        });
+
+        this.agentManager.addNpc(npc);
+        return npc.toNpcSnapshot();
+    }
+
+    /**
+     * 获取所有 NPC 快照
+     */
+    list(): NpcSnapshot[] {
+        return this.agentManager.getNpcs().map(npc => npc.toNpcSnapshot());
+    }
+
+    /**
+     * 获取指定 NPC
+     * @param npcId NPC ID
+     */
+    get(npcId: string): NpcAgent | undefined {
+        const agent = this.agentManager.getPlayer(npcId);
+        return agent instanceof NpcAgent ? agent : undefined;
+    }
+
+    /**
+     * 暂停 NPC
+     * @returns NPC 快照，不存在时返回 null
+     */
+    pause(npcId: string): NpcSnapshot | null {
+        const npc = this.get(npcId);
+        if (!npc) return null;
+        npc.pause();
+        return npc.toNpcSnapshot();
+    }
+
+    /**
+     * 恢复 NPC
+     * @returns NPC 快照，不存在时返回 null
+     */
+    resume(npcId: string): NpcSnapshot | null {
+        const npc = this.get(npcId);
+        if (!npc) return null;
+        npc.resume();
+        return npc.toNpcSnapshot();
+    }
+
+    /**
+     * 移除 NPC
+     * @returns 是否移除成功
+     */
+    despawn(npcId: string): boolean {
+        if (!this.get(npcId)) return false;
+        return this.agentManager.removePlayer(npcId);
+    }
+
+    /**
+     * 游戏循环更新：到了思考时间的 NPC 开始新一轮（不阻塞主循环）
+     * @param deltaTime 距离上次更新的时间（毫秒）
+     */
+    update(deltaTime: number): void {
+        const now = Date.now();
+
+        for (const npc of this.agentManager.getNpcs()) {
+            if (npc.isDead() || !npc.shouldThink(now)) continue; // 死亡的 NPC 等待自动复活
+
+            npc.runCycle(this.world).catch(err => {
+                console.error(`❌ NPC "${npc.getName()}" failed to think:`, err);
+            });
+        }
+    }
+}
@@ -0,0 +1,183 @@
+import AgentManager from "./AgentManager.js";
+import NpcAgent from "./Agent/NpcAgent.js";
+import type { SurvivalActionResult } from "../../types/agent.js";
+import { getItemDefinition } from "../Items/ItemRegistry.js";
+
+/**
+ * 一次动作的消耗
+ */
+export interface ActionCost {
+    stamina: number;
+    hunger: number;
+}
+
+/**
+ * 交互动作的消耗表（键为 InteractionType 的值；查看等动作不消耗）
+ */
+const ACTION_COSTS: Record<string, ActionCost> = {
+    till: { stamina: 4, hunger: 0.5 },
+    plant: { stamina: 1, hunger: 0 },
+    water: { stamina: 2, hunger: 0 },
+    harvest: { stamina: 1, hunger: 0 },
+    chop: { stamina: 6, hunger: 1 },
+    mine: { stamina: 8, hunger: 1.5 },
+    place: { stamina: 1, hunger: 0 },
+    break: { stamina: 3, hunger: 0.5 },
+};
+
+const NO_COST: ActionCost = { stamina: 0, hunger: 0 };
+
+/**
+ * 获取某种交互动作的消耗
+ * @param type 交互类型（till / chop / mine ...）
+ */
+export function getActionCost(type: string): ActionCost {
+    return ACTION_COSTS[type] ?? NO_COST;
+}
+
+/** 每个世界 tick 的自然变化量 */
+const HUNGER_DRAIN_PER_TICK = 0.25;
+const HUNGER_DRAIN_ASLEEP_PER_TICK = 0.1;
+const ENERGY_DRAIN_PER_TICK = 0.2;
+const ENERGY_RESTORE_ASLEEP_PER_TICK = 1;
+const STAMINA_RESTORE_PER_TICK = 2;
+
+/** 回血 / 饿肚子掉血的间隔（世界 tick） */
+const HEALTH_INTERVAL_TICKS = 4;
+/** 饱食度不低于上限的这个比例才算"吃饱"，才会回血 */
+const FED_RATIO = 0.6;
+
+/**
+ * SurvivalManager 负责饱食度、体力和精力。
+ * 类比 Minecraft 的饥饿值 + 星露谷的体力：
+ * - 每个世界 tick：饱食度和精力缓慢下降（睡觉时精力恢复、饥饿变慢），不饿不困时体力恢复
+ * - 吃饱时每隔几个 tick 回 1 点血，饱食度归零后每隔几个 tick 掉 1 点血（可以饿死）
+ * - 砍树、挖矿、耕地等动作消耗体力和饱食度（见 getActionCost，由 InteractionManager 扣除）
+ * - NPC 没有进食手段，只参与体力消耗和恢复，不会饥饿和犯困
+ *
+ * 自然变化不标记脏数据（和作物的 tick 进度一样由定期存档保存），
+ * 只有回血、掉血以及吃东西、睡觉等主动操作会立即保存。
+ */
+export default class SurvivalManager {
+    private agentManager: AgentManager;
+
+    constructor(agentManager: AgentManager) {
+        this.agentManager = agentManager;
+    }
+
+    /**
+     * 推进生存状态（由 TimeManager 的 tick 推进驱动）
+     * @param ticks 本次推进的世界 tick 数
+     * @param tick 推进后的世界 tick
+     */
+    advance(ticks: number, tick: number): void {
+        // tick 区间 (tick - ticks, tick] 中跨过了多少个回血/掉血节点
+        const healthSteps = Math.floor(tick / HEALTH_INTERVAL_TICKS) - Math.floor((tick - ticks) / HEALTH_INTERVAL_TICKS);
+
+        for (const agent of this.agentManager.getAgents()) {
+            if (agent.isDead()) continue;
+
+            const sleeping = agent.isSleeping();
+            const needsDrain = !(agent instanceof NpcAgent);
+
+            if (needsDrain) {
+                agent.adjustSurvival({
+                    hunger: -(sleeping ? HUNGER_DRAIN_ASLEEP_PER_TICK : HUNGER_DRAIN_PER_TICK) * ticks,
+                    energy: (sleeping ? ENERGY_RESTORE_ASLEEP_PER_TICK : -ENERGY_DRAIN_PER_TICK) * ticks,
+                });
+            }
+
+            const { hunger, maxHunger, energy, maxEnergy } = agent.getAttributes();
+            if (hunger > 0 && energy > 0) {
+                agent.adjustSurvival({ stamina: STAMINA_RESTORE_PER_TICK * ticks });
+            }
+
+            // 精力回满自动起床
+            if (sleeping && energy >= maxEnergy) {
+                agent.wake();
+                console.log(`🌅 ${agent.getName()} woke up fully rested`);
+            }
+
+            if (healthSteps <= 0) continue;
+
+            if (hunger <= 0) {
+                agent.takeDamage(healthSteps); // 饿死的结算由 RespawnManager 处理
+            } else if (hunger >= maxHunger * FED_RATIO && agent.getAttributes().health < agent.getAttributes().maxHealth) {
+                agent.heal(healthSteps);
+            }
+        }
+    }
+
+    /**
+     * 吃东西：消耗一个食物，恢复饱食度
+     * @param agentId 角色 ID
+     * @param itemId 食物物品 ID
+     */
+    eat(agentId: string, itemId: string): SurvivalActionResult {
+        const agent = this.agentManager.getPlayer(agentId);
+        if (!agent) {
+            return { success: false, code: "player_not_found", message: "Player not found" };
+        }
+
+        if (agent.isDead()) {
+            return { success: false, code: "dead", message: `${agent.getName()} is dead`, player: agent.toSnapshot() };
+        }
+
+        const definition = getItemDefinition(itemId);
+        if (!definition.nutrition) {
+            return { success: false, code: "not_food", message: `${definition.label} is not edible`, player: agent.toSnapshot() };
+        }
+
+        const { hunger, maxHunger } = agent.getAttributes();
+        if (hunger >= maxHunger) {
+            return { success: false, code: "not_hungry", message: `${agent.getName()} is not hungry`, player: agent.toSnapshot() };
+        }
+
+        if (!agent.removeItem(itemId, 1)) {
+            return { success: false, code: "insufficient_items", message: `No ${definition.label} in inventory`, player: agent.toSnapshot() };
+        }
+
+        agent.adjustSurvival({ hunger: definition.nutrition });
+        return { success: true, message: `${agent.getName()} ate ${definition.label} (+${definition.nutrition} hunger)`, player: agent.toSnapshot() };
+    }
+
+    /**
+     * 睡觉：精力逐 tick 恢复，回满自动起床；移动或交互会把角色叫醒
+     * @param agentId 角色 ID
+     */
+    sleep(agentId: string): SurvivalActionResult {
+        const agent = this.agentManager.getPlayer(agentId);
+        if (!agent) {
+            return { success: false, code: "player_not_found", message: "Player not found" };
+        }
+
+        if (agent.isDead()) {
+            return { success: false, code: "dead", message: `${agent.getName()} is dead`, player: agent.toSnapshot() };
+        }
+
+        if (agent.isSleeping()) {
+            return { success: false, code: "already_sleeping", message: `${agent.getName()} is already sleeping`, player: agent.toSnapshot() };
+        }
+
+        agent.sleep();
+        return { success: true, message: `${agent.getName()} fell asleep`, player: agent.toSnapshot() };
+    }
+
+    /**
+     * 起床
+     * @param agentId 角色 ID
+     */
+    wake(agentId: string): SurvivalActionResult {
+        const agent = this.agentManager.getPlayer(agentId);
+        if (!agent) {
+            return { success: false, code: "player_not_found", message: "Player not found" };
+        }
+
+        if (!agent.isSleeping()) {
+            return { success: false, code: "not_sleeping", message: `${agent.getName()} is not sleeping`, player: agent.toSnapshot() };
+        }
+
+        agent.wake();
+        return { success: true, message: `${agent.getName()} woke up`, player: agent.toSnapshot() };
+    }
+}
@@ -13,6 +13,8 @@ export type AgentMemoryFragment = {
     content: string;
     type: "observation" | "dialogue" | "reflection";
     relatedObject?: string;
+    importance?: number; // 0~1，未设置时按类型取默认值
+    lastAccessedAt?: string; // ISO，最近一次被检索到的时间
     createdAt: string; // ISO
     updatedAt: string; // ISO
 };
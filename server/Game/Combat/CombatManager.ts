@@ -0,0 +1,256 @@
+import AgentManager from "../AgentFactory/AgentManager.js";
+import NpcAgent from "../AgentFactory/Agent/NpcAgent.js";
+import type PlayerAgent from "../AgentFactory/Agent/PlayerAgent.js";
+import type InteractionManager from "../Interaction/InteractionManager.js";
+import type {
+    AttackCommand,
+    AttackResult,
+    CombatSettings,
+    EntityDamagedBroadcast,
+    EntityDiedBroadcast,
+} from "../../types/combat.js";
+import {
+    UNARMED_WEAPON_ID,
+    calculateDamage,
+    experienceForKill,
+    getWeaponDefinition,
+} from "./WeaponRegistry.js";
+
+/**
+ * CombatManager 负责实体之间的近战。
+ * 类比 Minecraft 的近战：
+ * - 攻击距离复用 InteractionManager 的距离换算，每把武器有自己的攻击距离
+ * - 每个攻击者的每把武器都有独立冷却
+ * - 伤害由武器基础伤害和双方等级决定（见 WeaponRegistry.calculateDamage）
+ * - 击倒目标的经验通过 gainExperience 发放（可触发升级）
+ * - 玩家之间的攻击受世界 PvP 开关控制，NPC 始终可以被攻击
+ */
+export default class CombatManager {
+    private agentManager: AgentManager;
+    private interactionManager: InteractionManager;
+    private settings: CombatSettings;
+
+    /** 武器冷却：attackerId -> (weaponId -> 可再次攻击的时间戳) */
+    private cooldowns: Map<string, Map<string, number>> = new Map();
+    /** 战斗标记：agentId -> 最近一次参与战斗的时间戳（超时后状态恢复为 idle） */
+    private combatTags: Map<string, number> = new Map();
+
+    private damageListeners: Array<(event: EntityDamagedBroadcast) => void> = [];
+    private deathListeners: Array<(event: EntityDiedBroadcast) => void> = [];
+
+    /** 脱离战斗的时间（毫秒） */
+    private readonly COMBAT_TAG_MS = 5000;
+
+    constructor(agentManager: AgentManager, interactionManager: InteractionManager, settings: CombatSettings = { pvpEnabled: true }) {
+        this.agentManager = agentManager;
+        this.interactionManager = interactionManager;
+        this.settings = { ...settings };
+    }
+
+    /**
+     * 获取当前世界的战斗设置
+     */
+    getSettings(): CombatSettings {
+        return { ...this.settings };
+    }
+
+    /**
+     * 更新战斗设置
+     */
+    updateSettings(patch: Partial<CombatSettings>): CombatSettings {
+        this.settings = { ...this.settings, ...patch };
+        console.log(`⚔️ Combat settings updated: PvP ${this.settings.pvpEnabled ? "enabled" : "disabled"}`);
+        return this.getSettings();
+    }
+
+    /**
+     * 发起一次近战攻击
+     * @param command 攻击方、目标、武器
+     * @param now 当前时间戳（毫秒）
+     */
+    attack(command: AttackCommand, now: number = Date.now()): AttackResult {
+        const attacker = this.agentManager.getPlayer(command.attackerId);
+        if (!attacker) {
+            return { success: false, code: "attacker_not_found", message: "Attacker not found" };
+        }
+
+        const target = this.agentManager.getPlayer(command.targetId);
+        if (!target) {
+            return { success: false, code: "target_not_found", message: "Target not found" };
+        }
+
+        if (attacker === target) {
+            return { success: false, code: "invalid_target", message: "Cannot attack yourself" };
+        }
+
+        if (attacker.getAttributes().health <= 0) {
+            return { success: false, code: "attacker_dead", message: `${attacker.getName()} cannot fight while down` };
+        }
+
+        if (target.getAttributes().health <= 0) {
+            return { success: false, code: "target_dead", message: `${target.getName()} is already down` };
+        }
+
+        const weaponId = command.weaponId ?? UNARMED_WEAPON_ID;
+        const weapon = getWeaponDefinition(weaponId);
+        if (!weapon) {
+            return { success: false, code: "unknown_weapon", message: `Unknown weapon: ${weaponId}` };
+        }
+
+        if (weapon.id !== UNARMED_WEAPON_ID && attacker.countItem(weapon.id) < 1) {
+            return { success: false, code: "weapon_not_owned", message: `${attacker.getName()} does not have ${weapon.label}` };
+        }
+
+        if (!this.settings.pvpEnabled && this.isPlayer(attacker) && this.isPlayer(target)) {
+            return { success: false, code: "pvp_disabled", message: "PvP is disabled in this world" };
+        }
+
+        const distance = this.interactionManager.measureDistance(attacker.getPosition(), target.getPosition());
+        if (distance > weapon.range) {
+            return {
+                success: false,
+                code: "out_of_range",
+                message: `Target is too far (${distance.toFixed(1)} > ${weapon.range})`,
+            };
+        }
+
+        const weaponCooldowns = this.cooldowns.get(attacker.getId()) ?? new Map<string, number>();
+        const readyAt = weaponCooldowns.get(weapon.id) ?? 0;
+        if (readyAt > now) {
+            return {
+                success: false,
+                code: "cooldown",
+                message: `${weapon.label} is cooling down`,
+                retryAfterMs: readyAt - now,
+            };
+        }
+        weaponCooldowns.set(weapon.id, now + weapon.cooldownMs);
+        this.cooldowns.set(attacker.getId(), weaponCooldowns);
+
+        // 结算伤害
+        const damage = calculateDamage(weapon, attacker.getAttributes().level, target.getAttributes().level);
+        const targetLevel = target.getAttributes().level;
+        target.takeDamage(damage);
+        const { health, maxHealth } = target.getAttributes();
+
+        this.tag(attacker, now);
+        this.emitDamage({
+            attackerId: attacker.getId(),
+            targetId: target.getId(),
+            weaponId: weapon.id,
+            damage,
+            health,
+            maxHealth,
+        });
+
+        if (health > 0) {
+            this.tag(target, now);
+            return {
+                success: true,
+                message: `${attacker.getName()} hit ${target.getName()} with ${weapon.label} for ${damage} damage`,
+                damage,
+                targetHealth: health,
+                killed: false,
+            };
+        }
+
+        // 击倒：经验走 gainExperience（可能触发升级）
+        this.combatTags.delete(target.getId());
+        const experience = experienceForKill(targetLevel);
+        attacker.gainExperience(experience);
+
+        this.emitDeath({
+            entityId: target.getId(),
+            killerId: attacker.getId(),
+            weaponId: weapon.id,
+            experience,
+        });
+
+        console.log(`💀 ${target.getName()} was slain by ${attacker.getName()} (${weapon.label}, +${experience} XP)`);
+
+        return {
+            success: true,
+            message: `${attacker.getName()} defeated ${target.getName()} (+${experience} XP)`,
+            damage,
+            targetHealth: 0,
+            killed: true,
+            experience,
+        };
+    }
+
+    /**
+     * 查询某把武器的冷却剩余时间（毫秒）
+     */
+    getCooldownRemaining(attackerId: string, weaponId: string, now: number = Date.now()): number {
+        const readyAt = this.cooldowns.get(attackerId)?.get(weaponId) ?? 0;
+        return Math.max(0, readyAt - now);
+    }
+
+    /**
+     * 角色离开世界时清理冷却和战斗标记
+     */
+    clearAgent(agentId: string): void {
+        this.cooldowns.delete(agentId);
+        this.combatTags.delete(agentId);
+    }
+
+    /**
+     * 游戏循环更新：脱离战斗超过一定时间的角色状态恢复为 idle
+     * @param deltaTime 距离上次更新的时间（毫秒）
+     */
+    update(deltaTime: number): void {
+        const now = Date.now();
+        for (const [agentId, taggedAt] of this.combatTags) {
+            if (now - taggedAt < this.COMBAT_TAG_MS) continue;
+
+            this.combatTags.delete(agentId);
+            const agent = this.agentManager.getPlayer(agentId);
+            if (agent?.getStatus() === "fighting") {
+                agent.setStatus("idle");
+            }
+        }
+    }
+
+    /**
+     * 注册受伤监听器（用于 WebSocket 广播 entity_damaged）
+     */
+    onDamage(callback: (event: EntityDamagedBroadcast) => void): void {
+        this.damageListeners.push(callback);
+    }
+
+    /**
+     * 注册死亡监听器（用于 WebSocket 广播 entity_died）
+     */
+    onDeath(callback: (event: EntityDiedBroadcast) => void): void {
+        this.deathListeners.push(callback);
+    }
+
+    private isPlayer(agent: PlayerAgent): boolean {
+        return !(agent instanceof NpcAgent);
+    }
+
+    private tag(agent: PlayerAgent, now: number): void {
+        agent.setStatus("fighting");
+        this.combatTags.set(agent.getId(), now);
+    }
+
+    private emitDamage(event: EntityDamagedBroadcast): void {
+        this.damageListeners.forEach(cb => {
+            try {
+                cb(event);
+            } catch (error) {
+                console.error("Error in damage listener:", error);
+            }
+        });
+    }
+
+    private emitDeath(event: EntityDiedBroadcast): void {
+        this.deathListeners.forEach(cb => {
+            try {
+                cb(event);
+            } catch (error) {
+                console.error("Error in death listener:", error);
+            }
+        });
+    }
+}
@@ -0,0 +1,222 @@
+import AgentManager from "../AgentFactory/AgentManager.js";
+import NpcAgent from "../AgentFactory/Agent/NpcAgent.js";
+import type PlayerAgent from "../AgentFactory/Agent/PlayerAgent.js";
+import type MovementValidator from "../World/MovementValidator.js";
+import type { DeathState, PlayerSnapshot, Position, RespawnResult } from "../../types/agent.js";
+import type { EntityDiedBroadcast } from "../../types/combat.js";
+import type { InventorySlot } from "../../types/item.js";
+
+/**
+ * 死亡惩罚与复活配置
+ */
+export interface RespawnOptions {
+    /** 死亡后多久可以复活（毫秒） */
+    respawnDelayMs?: number;
+    /** 死亡时掉落每种物品的比例（0~1，向下取整） */
+    dropRatio?: number;
+}
+
+/**
+ * 死亡的击杀信息（战斗死亡时由 CombatManager 提供）
+ */
+export interface DeathCause {
+    killerId?: string;
+    weaponId?: string;
+    /** 击杀者获得的经验 */
+    experience?: number;
+}
+
+/**
+ * RespawnManager 负责死亡结算和复活。
+ * 类比 Minecraft 的死亡界面：
+ * - 生命值归零后进入 dead 状态，掉落一部分背包物品，不能移动和交互
+ * - 复活倒计时结束后，玩家通过 API / WebSocket 手动复活，NPC 自动复活
+ * - 复活位置是个人出生点（被地形占用时修正到最近的可站立位置），生命值回满
+ */
+export default class RespawnManager {
+    private agentManager: AgentManager;
+    private movementValidator: MovementValidator;
+    private readonly respawnDelayMs: number;
+    private readonly dropRatio: number;
+
+    private deathListeners: Array<(event: EntityDiedBroadcast) => void> = [];
+    private respawnListeners: Array<(player: PlayerSnapshot) => void> = [];
+
+    constructor(agentManager: AgentManager, movementValidator: MovementValidator, options: RespawnOptions = {}) {
+        this.agentManager = agentManager;
+        this.movementValidator = movementValidator;
+        this.respawnDelayMs = options.respawnDelayMs ?? 5000;
+        this.dropRatio = Math.min(1, Math.max(0, options.dropRatio ?? 0.5));
+    }
+
+    /**
+     * 结算死亡：记录死亡状态、掉落物品并通知监听器
+     * @param agentId 死亡的角色
+     * @param cause 击杀信息（非战斗死亡时为空）
+     * @returns 死亡状态；角色不存在、仍然存活或已经结算过时返回 null
+     */
+    handleDeath(agentId: string, cause: DeathCause = {}, now: number = Date.now()): DeathState | null {
+        const agent = this.agentManager.getPlayer(agentId);
+        if (!agent || !agent.isDead() || agent.getDeathState()) {
+            return null;
+        }
+
+        const death: DeathState = {
+            diedAt: new Date(now).toISOString(),
+            respawnAt: new Date(now + this.respawnDelayMs).toISOString(),
+            ...(cause.killerId && { killerId: cause.killerId }),
+            droppedItems: this.dropItems(agent),
+        };
+        agent.die(death);
+
+        const dropped = death.droppedItems.map(slot => `${slot.itemId} x${slot.quantity}`).join(", ");
+        console.log(`☠️ ${agent.getName()} died${dropped ? `, dropped ${dropped}` : ""}`);
+
+        this.emitDeath({
+            entityId: agentId,
+            ...(cause.killerId && { killerId: cause.killerId }),
+            ...(cause.weaponId && { weaponId: cause.weaponId }),
+            experience: cause.experience ?? 0,
+            respawnAt: death.respawnAt,
+        });
+
+        return death;
+    }
+
+    /**
+     * 复活角色
+     * @param agentId 角色 ID
+     */
+    respawn(agentId: string, now: number = Date.now()): RespawnResult {
+        const agent = this.agentManager.getPlayer(agentId);
+        if (!agent) {
+            return { success: false, code: "player_not_found", message: "Player not found" };
+        }
+
+        if (!agent.isDead()) {
+            return { success: false, code: "not_dead", message: `${agent.getName()} is not dead`, player: agent.toSnapshot() };
+        }
+
+        const death = agent.getDeathState();
+        const respawnAt = death ? Date.parse(death.respawnAt) : now;
+        if (respawnAt > now) {
+            return {
+                success: false,
+                code: "respawn_cooldown",
+                message: `${agent.getName()} can respawn in ${Math.ceil((respawnAt - now) / 1000)}s`,
+                player: agent.toSnapshot(),
+                retryAfterMs: respawnAt - now,
+            };
+        }
+
+        // 出生点可能被后来放置的方块占用，修正到最近的可站立位置
+        const position = this.movementValidator.findNearestStandable(agent.getSpawnPoint());
+        if (!position) {
+            return { success: false, code: "no_spawn_point", message: "No walkable tile available for respawn" };
+        }
+
+        agent.respawn(position);
+        const player = agent.toSnapshot();
+        console.log(`✨ ${agent.getName()} respawned at (${position.x}, ${position.y}, ${position.z})`);
+
+        this.emitRespawn(player);
+        return { success: true, message: `${agent.getName()} respawned`, player };
+    }
+
+    /**
+     * 设置个人出生点
+     * @param agentId 角色 ID
+     * @param position 出生点（默认当前位置），必须可站立
+     */
+    setSpawnPoint(agentId: string, position?: Position): RespawnResult {
+        const agent = this.agentManager.getPlayer(agentId);
+        if (!agent) {
+            return { success: false, code: "player_not_found", message: "Player not found" };
+        }
+
+        const spawnPoint = position ?? agent.getPosition();
+        const rejection = this.movementValidator.checkPosition(spawnPoint);
+        if (rejection) {
+            return { success: false, code: "invalid_spawn_point", message: rejection.message, player: agent.toSnapshot() };
+        }
+
+        agent.setSpawnPoint(spawnPoint);
+        return {
+            success: true,
+            message: `Spawn point set to (${spawnPoint.x}, ${spawnPoint.y}, ${spawnPoint.z})`,
+            player: agent.toSnapshot(),
+        };
+    }
+
+    /**
+     * 游戏循环更新：
+     * - 结算没有经过战斗的死亡（例如其他系统直接扣血）
+     * - 倒计时结束的 NPC 自动复活
+     * @param deltaTime 距离上次更新的时间（毫秒）
+     */
+    update(deltaTime: number): void {
+        const now = Date.now();
+
+        for (const agent of this.agentManager.getAgents()) {
+            if (!agent.isDead()) continue;
+
+            const death = agent.getDeathState() ?? this.handleDeath(agent.getId(), {}, now);
+            if (agent instanceof NpcAgent && death && Date.parse(death.respawnAt) <= now) {
+                this.respawn(agent.getId(), now);
+            }
+        }
+    }
+
+    /**
+     * 注册死亡监听器（用于 WebSocket 广播 entity_died）
+     */
+    onDeath(callback: (event: EntityDiedBroadcast) => void): void {
+        this.deathListeners.push(callback);
+    }
+
+    /**
+     * 注册复活监听器（用于 WebSocket 广播 player_respawn）
+     */
+    onRespawn(callback: (player: PlayerSnapshot) => void): void {
+        this.respawnListeners.push(callback);
+    }
+
+    /**
+     * 死亡惩罚：每种物品按比例掉落（掉落的物品直接丢失）
+     */
+    private dropItems(agent: PlayerAgent): InventorySlot[] {
+        const totals = new Map<string, number>();
+        for (const slot of agent.getInventory().slots) {
+            totals.set(slot.itemId, (totals.get(slot.itemId) ?? 0) + slot.quantity);
+        }
+
+        const dropped: InventorySlot[] = [];
+        for (const [itemId, total] of totals) {
+            const quantity = Math.floor(total * this.dropRatio);
+            if (quantity > 0 && agent.removeItem(itemId, quantity)) {
+                dropped.push({ itemId, quantity });
+            }
+        }
+        return dropped;
+    }
+
+    private emitDeath(event: EntityDiedBroadcast): void {
+        this.deathListeners.forEach(cb => {
+            try {
+                cb(event);
+            } catch (error) {
+                console.error("Error in death listener:", error);
+            }
+        });
+    }
+
+    private emitRespawn(player: PlayerSnapshot): void {
+        this.respawnListeners.forEach(cb => {
+            try {
+                cb(player);
+            } catch (error) {
+                console.error("Error in respawn listener:", error);
+            }
+        });
+    }
+}
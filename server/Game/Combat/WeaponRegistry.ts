@@ -0,0 +1,55 @@
+import type { WeaponDefinition } from "../../types/combat.js";
+
+/** 空手（没有指定武器时使用） */
+export const UNARMED_WEAPON_ID = "fist";
+
+/**
+ * 武器配置表
+ * 武器 ID 与物品 ID 相同：除空手外，攻击时背包里必须有对应物品
+ * range 与交互距离同单位（格子），1.5 即相邻一格（含对角）
+ */
+const WEAPON_DEFINITIONS: Map<string, WeaponDefinition> = new Map([
+    [UNARMED_WEAPON_ID, { id: UNARMED_WEAPON_ID, label: "空手", baseDamage: 2, cooldownMs: 500, range: 1.5 }],
+    ["wooden_sword", { id: "wooden_sword", label: "木剑", baseDamage: 5, cooldownMs: 600, range: 1.5 }],
+    ["stone_sword", { id: "stone_sword", label: "石剑", baseDamage: 7, cooldownMs: 700, range: 1.5 }],
+    ["spear", { id: "spear", label: "长矛", baseDamage: 6, cooldownMs: 1000, range: 2.5 }],
+]);
+
+/**
+ * 获取武器定义
+ * @param weaponId 武器 ID
+ * @returns 武器定义，未登记时返回 undefined
+ */
+export function getWeaponDefinition(weaponId: string): WeaponDefinition | undefined {
+    return WEAPON_DEFINITIONS.get(weaponId);
+}
+
+/**
+ * 列出所有已登记的武器
+ */
+export function listWeaponDefinitions(): WeaponDefinition[] {
+    return Array.from(WEAPON_DEFINITIONS.values());
+}
+
+/**
+ * 计算伤害：
+ * - 攻击方每升一级，基础伤害 +10%
+ * - 按等级差修正：每高/低目标一级 ±10%，限制在 0.5 ~ 2 倍之间
+ * - 至少造成 1 点伤害
+ * @param weapon 武器定义
+ * @param attackerLevel 攻击方等级
+ * @param targetLevel 目标等级
+ */
+export function calculateDamage(weapon: WeaponDefinition, attackerLevel: number, targetLevel: number): number {
+    const levelBonus = 1 + 0.1 * (attackerLevel - 1);
+    const levelGap = Math.min(2, Math.max(0.5, 1 + 0.1 * (attackerLevel - targetLevel)));
+    return Math.max(1, Math.round(weapon.baseDamage * levelBonus * levelGap));
+}
+
+/**
+ * 击倒目标获得的经验（目标等级越高经验越多）
+ * @param targetLevel 目标等级
+ */
+export function experienceForKill(targetLevel: number): number {
+    return 20 + 10 * targetLevel;
+}
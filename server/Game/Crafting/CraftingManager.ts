@@ -0,0 +1,226 @@
+import AgentManager from "../AgentFactory/AgentManager.js";
+import type PlayerAgent from "../AgentFactory/Agent/PlayerAgent.js";
+import WorldManager from "../World/WorldManager.js";
+import type { CraftResult, RecipeDefinition, RecipeIngredient } from "../../types/crafting.js";
+import type { TerrainType } from "../../types/terrain.js";
+import { getItemDefinition } from "../Items/ItemRegistry.js";
+import { getRecipe } from "./RecipeRegistry.js";
+import { to2D } from "../World/utils.js";
+
+/**
+ * 一次合成请求
+ */
+export interface CraftCommand {
+    playerId: string;
+    recipeId: string;
+    /** 合成次数（默认 1） */
+    quantity?: number;
+    /** 取消信号（行为队列取消、抢占或超时时触发） */
+    signal?: AbortSignal;
+}
+
+/**
+ * 正在等待完成的合成
+ */
+interface PendingCraft {
+    remainingTicks: number;
+    resolve: () => void;
+}
+
+/**
+ * CraftingManager 负责按配方合成物品。
+ * 类比 Minecraft 的工作台：
+ * - 配方来自 RecipeRegistry（recipes.json）
+ * - 需要工作台的配方，玩家周围 WORKSTATION_RANGE 格内必须有对应的瓦片
+ * - 合成需要 craftTicks × 次数 个世界 tick，期间可以被取消（材料此时还没有扣除）
+ * - 完成时再校验一次，然后一次性扣除材料、放入产出（全有或全无）
+ */
+export default class CraftingManager {
+    private agentManager: AgentManager;
+    private worldManager: WorldManager;
+
+    /** 等待世界 tick 推进的合成 */
+    private pending: Set<PendingCraft> = new Set();
+
+    /** 工作台的有效距离（格子，切比雪夫距离） */
+    private readonly WORKSTATION_RANGE = 2;
+
+    constructor(agentManager: AgentManager, worldManager: WorldManager) {
+        this.agentManager = agentManager;
+        this.worldManager = worldManager;
+    }
+
+    /**
+     * 合成
+     * @param command 玩家、配方、次数和取消信号
+     */
+    async craft(command: CraftCommand): Promise<CraftResult> {
+        const quantity = command.quantity ?? 1;
+        const check = this.check(command.playerId, command.recipeId, quantity);
+        if (!check.ok) return check.result;
+
+        // 等待合成时间（按世界 tick 计，暂停时间时合成也会暂停）
+        const ticks = check.recipe.craftTicks * quantity;
+        if (ticks > 0) {
+            const completed = await this.waitTicks(ticks, command.signal);
+            if (!completed || command.signal?.aborted) {
+                return { success: false, code: "cancelled", message: `合成已取消（${String(command.signal?.reason)}）` };
+            }
+        }
+
+        // 等待期间背包、位置可能已经变化，重新校验后再结算
+        const final = this.check(command.playerId, command.recipeId, quantity);
+        if (!final.ok) return final.result;
+
+        const { agent, recipe, consumed, produced } = final;
+        const failure = agent.transactItems(consumed, produced);
+        if (failure) {
+            return this.transactionFailure(agent, recipe, failure, consumed);
+        }
+
+        console.log(`🔨 ${agent.getName()} crafted ${recipe.label} x${quantity}`);
+        return {
+            success: true,
+            message: `合成了 ${this.describe(produced)}`,
+            consumed,
+            produced,
+            inventory: agent.getInventory(),
+        };
+    }
+
+    /**
+     * 推进正在进行的合成（由 TimeManager 的 tick 推进驱动）
+     * @param ticks 本次推进的世界 tick 数
+     */
+    advance(ticks: number): void {
+        for (const craft of this.pending) {
+            craft.remainingTicks -= ticks;
+            if (craft.remainingTicks <= 0) {
+                this.pending.delete(craft);
+                craft.resolve();
+            }
+        }
+    }
+
+    /**
+     * 校验能否合成：玩家、配方、次数、工作台、材料和背包空间
+     */
+    private check(playerId: string, recipeId: string, quantity: number):
+        | { ok: true; agent: PlayerAgent; recipe: RecipeDefinition; consumed: RecipeIngredient[]; produced: RecipeIngredient[] }
+        | { ok: false; result: CraftResult } {
+        const agent = this.agentManager.getPlayer(playerId);
+        if (!agent) {
+            return { ok: false, result: { success: false, code: "player_not_found", message: "Player not found" } };
+        }
+
+        if (agent.isDead()) {
+            return { ok: false, result: { success: false, code: "dead", message: "玩家已死亡，需要先复活" } };
+        }
+
+        const recipe = getRecipe(recipeId);
+        if (!recipe) {
+            return { ok: false, result: { success: false, code: "unknown_recipe", message: `未知的配方：${recipeId}` } };
+        }
+
+        if (!Number.isInteger(quantity) || quantity <= 0) {
+            return { ok: false, result: { success: false, code: "invalid_quantity", message: "合成次数必须是正整数" } };
+        }
+
+        if (recipe.workstation && !this.isNearWorkstation(agent, recipe.workstation)) {
+            const label = this.worldManager.getTileConfig(recipe.workstation)?.description ?? recipe.workstation;
+            return {
+                ok: false,
+                result: {
+                    success: false,
+                    code: "no_workstation",
+                    message: `附近没有需要的工作台（${label}）`,
+                    workstation: recipe.workstation,
+                },
+            };
+        }
+
+        const consumed = this.scale(recipe.inputs, quantity);
+        const produced = this.scale(recipe.outputs, quantity);
+        const failure = agent.transactItems(consumed, produced, true);
+        if (failure) {
+            return { ok: false, result: this.transactionFailure(agent, recipe, failure, consumed) };
+        }
+
+        return { ok: true, agent, recipe, consumed, produced };
+    }
+
+    private transactionFailure(
+        agent: PlayerAgent,
+        recipe: RecipeDefinition,
+        failure: "insufficient_items" | "inventory_full",
+        consumed: RecipeIngredient[],
+    ): CraftResult {
+        if (failure === "inventory_full") {
+            return {
+                success: false,
+                code: "inventory_full",
+                message: `背包放不下 ${recipe.label} 的产出`,
+                inventory: agent.getInventory(),
+            };
+        }
+
+        const missing = consumed
+            .map(({ itemId, quantity }) => ({ itemId, quantity: quantity - agent.countItem(itemId) }))
+            .filter(({ quantity }) => quantity > 0);
+        return {
+            success: false,
+            code: "missing_items",
+            message: `材料不足，还缺 ${this.describe(missing)}`,
+            missing,
+            inventory: agent.getInventory(),
+        };
+    }
+
+    /**
+     * 玩家周围是否有指定的工作台瓦片
+     */
+    private isNearWorkstation(agent: PlayerAgent, workstation: TerrainType): boolean {
+        const center = to2D(agent.getPosition());
+        for (let dy = -this.WORKSTATION_RANGE; dy <= this.WORKSTATION_RANGE; dy++) {
+            for (let dx = -this.WORKSTATION_RANGE; dx <= this.WORKSTATION_RANGE; dx++) {
+                if (this.worldManager.getTile({ x: center.x + dx, y: center.y + dy }).type === workstation) {
+                    return true;
+                }
+            }
+        }
+        return false;
+    }
+
+    /**
+     * 等待若干世界 tick
+     * @returns 完成返回 true，被取消返回 false
+     */
+    private waitTicks(ticks: number, signal?: AbortSignal): Promise<boolean> {
+        if (signal?.aborted) return Promise.resolve(false);
+
+        return new Promise(resolve => {
+            const craft: PendingCraft = {
+                remainingTicks: ticks,
+                resolve: () => {
+                    signal?.removeEventListener("abort", onAbort);
+                    resolve(true);
+                },
+            };
+            const onAbort = () => {
+                this.pending.delete(craft);
+                resolve(false);
+            };
+
+            signal?.addEventListener("abort", onAbort, { once: true });
+            this.pending.add(craft);
+        });
+    }
+
+    private scale(ingredients: RecipeIngredient[], times: number): RecipeIngredient[] {
+        return ingredients.map(({ itemId, quantity }) => ({ itemId, quantity: quantity * times }));
+    }
+
+    private describe(ingredients: RecipeIngredient[]): string {
+        return ingredients.map(({ itemId, quantity }) => `${getItemDefinition(itemId).label} x${quantity}`).join("、");
+    }
+}
@@ -0,0 +1,73 @@
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+import type { RecipeDefinition } from "../../types/crafting.js";
+
+/** 可以作为工作台的瓦片 */
+export const WORKSTATION_TILES = ["WORKBENCH", "FURNACE"] as const;
+
+/** 默认配方文件（与本文件同目录） */
+export const DEFAULT_RECIPES_FILE = new URL("./recipes.json", import.meta.url);
+
+const ingredientSchema = z.object({
+    itemId: z.string().min(1),
+    quantity: z.number().int().positive(),
+});
+
+const recipeSchema = z.object({
+    id: z.string().min(1),
+    label: z.string().min(1),
+    inputs: z.array(ingredientSchema).min(1),
+    outputs: z.array(ingredientSchema).min(1),
+    workstation: z.enum(WORKSTATION_TILES).optional(),
+    craftTicks: z.number().int().min(0),
+});
+
+/**
+ * 配方表
+ * 类比 Minecraft 的数据包配方：配方写在 JSON 文件里，改配方不需要改代码
+ */
+const RECIPE_DEFINITIONS: Map<string, RecipeDefinition> = new Map();
+
+/**
+ * 从 JSON 文件加载配方（替换当前配方表）
+ * 文件内容是配方数组；格式不对或配方 ID 重复时抛出异常，原配方表保持不变
+ * @param file 配方文件路径（默认 recipes.json，可用 RECIPES_FILE 环境变量覆盖）
+ * @returns 加载的配方数量
+ */
+export function loadRecipes(file: string | URL = process.env.RECIPES_FILE || DEFAULT_RECIPES_FILE): number {
+    const parsed = z.array(recipeSchema).safeParse(JSON.parse(readFileSync(file, "utf-8")));
+    if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        throw new Error(`Invalid recipe file ${String(file)}: ${issue?.path.join(".")} ${issue?.message}`);
+    }
+
+    const recipes = new Map<string, RecipeDefinition>();
+    for (const { workstation, ...recipe } of parsed.data) {
+        if (recipes.has(recipe.id)) {
+            throw new Error(`Invalid recipe file ${String(file)}: duplicate recipe "${recipe.id}"`);
+        }
+        recipes.set(recipe.id, { ...recipe, ...(workstation && { workstation }) });
+    }
+
+    RECIPE_DEFINITIONS.clear();
+    recipes.forEach((recipe, id) => RECIPE_DEFINITIONS.set(id, recipe));
+    return recipes.size;
+}
+
+/**
+ * 获取配方
+ * @param recipeId 配方 ID
+ * @returns 配方定义，未登记时返回 undefined
+ */
+export function getRecipe(recipeId: string): RecipeDefinition | undefined {
+    return RECIPE_DEFINITIONS.get(recipeId);
+}
+
+/**
+ * 列出所有配方
+ */
+export function listRecipes(): RecipeDefinition[] {
+    return Array.from(RECIPE_DEFINITIONS.values());
+}
+
+loadRecipes();
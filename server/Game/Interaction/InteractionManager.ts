@@ -2,8 +2,18 @@
 
 import WorldManager from "../World/WorldManager.js";
 import AgentManager from "../AgentFactory/AgentManager.js";
+import type PlayerAgent from "../AgentFactory/Agent/PlayerAgent.js";
 import type { Position2D } from "../../types/terrain.js";
 import type { Position } from "../../types/agent.js";
+import type { InteractionResult } from "../../../shared/interaction.js";
+import type { ToolDefinition, ToolKind } from "../../types/tool.js";
+import type { Season } from "../../types/game.js";
+import { to2D } from "../World/utils.js";
+import { getCropDefinition, isCropInSeason } from "../World/CropRegistry.js";
+import { SEASON_LABELS } from "../World/Calendar.js";
+import { getActionCost } from "../AgentFactory/SurvivalManager.js";
+import { getItemDefinition } from "../Items/ItemRegistry.js";
+import { findBestTool, getToolDefinition, TOOL_KIND_LABELS } from "../Items/ToolRegistry.js";
 
 /**
  * 交互类型枚举
@@ -16,9 +26,23 @@ export enum InteractionType {
     WATER = "water",       // 浇水
     CHOP = "chop",         // 砍树
     MINE = "mine",         // 挖矿/采集石头
+    PLACE = "place",       // 放置方块
+    BREAK = "break",       // 破坏放置的方块
     LOOK = "look",         // 查看周围环境
 }
 
+/**
+ * 交互使用的工具
+ * - required 为 true 时没有该种工具无法交互（耕地要锄头、浇水要水壶）
+ * - 否则工具只是加快速度（砍树、挖石头每次减少 power 点资源耐久，空手为 1）
+ */
+const INTERACTION_TOOLS: Partial<Record<InteractionType, { kind: ToolKind; required: boolean }>> = {
+    [InteractionType.TILL]: { kind: "hoe", required: true },
+    [InteractionType.WATER]: { kind: "watering_can", required: true },
+    [InteractionType.CHOP]: { kind: "axe", required: false },
+    [InteractionType.MINE]: { kind: "pickaxe", required: false },
+};
+
 /**
  * 交互请求接口
  */
@@ -29,27 +53,16 @@ export interface InteractionRequest {
     type: InteractionType;
     /** 目标位置（2D 坐标） */
     target: Position2D;
-    /** 额外数据（如种植的作物 ID） */
+    /** 额外数据（如种植的作物 ID、放置的物品 itemId、指定使用的工具 toolId） */
     data?: any;
+    /** 取消信号（来自行为队列），排队等待期间被取消则不再执行 */
+    signal?: AbortSignal;
 }
 
 /**
- * 交互结果接口
+ * 交互结果接口（与客户端共享）
  */
-export interface InteractionResult {
-    /** 是否成功 */
-    success: boolean;
-    /** 结果消息 */
-    message: string;
-    /** 世界变化数据（可选） */
-    changes?: {
-        position: Position2D;
-        action: string;
-        [key: string]: any;
-    };
-    /** 获得的物品（可选） */
-    rewards?: string[];
-}
+export type { InteractionResult };
 
 /**
  * InteractionManager 负责处理玩家与世界的交互事件。
@@ -73,6 +86,9 @@ export default class InteractionManager {
     /** 正在处理的交互计数（用于监控） */
     private processingCount = 0;
 
+    /** 当前季节（决定哪些作物可以种植，未接入日历时不限制） */
+    private getSeason: () => Season | undefined = () => undefined;
+
     /**
      * 构造函数，注入依赖
      * @param worldManager 世界管理器
@@ -83,6 +99,13 @@ export default class InteractionManager {
         this.agentManager = agentManager;
     }
 
+    /**
+     * 接入日历：只能种植当季的作物
+     */
+    setSeasonProvider(provider: () => Season): void {
+        this.getSeason = provider;
+    }
+
     /**
      * 处理交互请求（异步版本，支持队列）
      * 这是主入口函数，所有交互都会经过这里
@@ -101,6 +124,11 @@ export default class InteractionManager {
                 // 忽略之前的错误，继续处理当前请求
             }
         }
+
+        // 在等待同一位置的其他交互期间被取消，不再改动世界
+        if (request.signal?.aborted) {
+            return { success: false, message: `交互已取消（${String(request.signal.reason)}）` };
+        }
         
         // 创建当前交互的 Promise
         const currentPromise = this.processInteraction(request);
@@ -129,6 +157,9 @@ export default class InteractionManager {
         if (!player) {
             return { success: false, message: "玩家不存在" };
         }
+        if (player.isDead()) {
+            return { success: false, message: "玩家已死亡，需要先复活" };
+        }
 
         // 2. 将 3D 位置转换为 2D 地图坐标
         const playerPos = this.to2D(player.getPosition());
@@ -142,27 +173,73 @@ export default class InteractionManager {
             };
         }
 
+        // 3.5 检查体力（砍树、挖矿、耕地等动作消耗体力和饱食度，成功后才扣除）
+        const cost = getActionCost(request.type);
+        const { stamina } = player.getAttributes();
+        if (stamina < cost.stamina) {
+            return {
+                success: false,
+                message: `体力不足（需要 ${cost.stamina}，当前 ${Math.floor(stamina)}）`,
+            };
+        }
+        // 3.6 选择工具（指定了 toolId 就用指定的，否则用背包里最好的一件）
+        const selection = this.selectTool(player, request.type, request.data?.toolId);
+        if ("error" in selection) {
+            return { success: false, message: selection.error };
+        }
+        const { tool } = selection;
+
+        player.wake(); // 干活会把睡着的角色叫醒
+
         // 4. 根据交互类型分发到具体处理函数
+        let result: InteractionResult;
         switch (request.type) {
             case InteractionType.TILL:
-                return this.handleTill(request.target);
+                result = this.handleTill(request.target);
+                break;
 
             case InteractionType.PLANT:
-                return this.handlePlant(request.target, request.data?.cropId);
+                result = this.handlePlant(request.target, request.data?.cropId);
+                break;
 
             case InteractionType.WATER:
-                return this.handleWater(request.target);
+                result = this.handleWater(request.target);
+                break;
+
+            case InteractionType.HARVEST:
+                result = this.handleCropHarvest(request.target);
+                break;
 
             case InteractionType.CHOP:
             case InteractionType.MINE:
-                return this.handleHarvest(request.target, request.type);
+                result = this.handleHarvest(request.target, request.type, tool?.power);
+                break;
+
+            case InteractionType.PLACE:
+                result = this.handlePlace(player, request.target, request.data?.itemId);
+                break;
+
+            case InteractionType.BREAK:
+                result = this.handleBreak(player, request.target);
+                break;
 
             case InteractionType.LOOK:
-                return this.handleLook(playerPos);
+                result = this.handleLook(playerPos);
+                break;
 
             default:
                 return { success: false, message: "未知的交互类型" };
         }
+
+        if (result.success) {
+            player.exert(cost);
+            if (tool) {
+                result = this.wearTool(player, tool, result);
+            }
+        }
+
+        // 5. 把掉落物放进玩家背包
+        return this.creditRewards(player, result);
     }
 
     /**
@@ -210,9 +287,12 @@ export default class InteractionManager {
             case InteractionType.WATER:
                 return this.handleWater(request.target);
 
+            case InteractionType.HARVEST:
+                return this.creditRewards(player, this.handleCropHarvest(request.target));
+
             case InteractionType.CHOP:
             case InteractionType.MINE:
-                return this.handleHarvest(request.target, request.type);
+                return this.creditRewards(player, this.handleHarvest(request.target, request.type));
 
             case InteractionType.LOOK:
                 return this.handleLook(playerPos);
@@ -255,6 +335,17 @@ export default class InteractionManager {
             return { success: false, message: "未指定作物 ID" };
         }
 
+        const definition = getCropDefinition(cropId);
+        if (!definition) {
+            return { success: false, message: `未知的作物：${cropId}` };
+        }
+
+        const season = this.getSeason();
+        if (season && !isCropInSeason(definition, season)) {
+            const allowed = definition.seasons.map(s => SEASON_LABELS[s]).join("、");
+            return { success: false, message: `${definition.label}不能在${SEASON_LABELS[season]}季种植（可种植季节：${allowed}）` };
+        }
+
         const tile = this.worldManager.getTile(pos);
         if (tile.type !== "FARMLAND") {
             return { success: false, message: "该位置不是耕地" };
@@ -291,16 +382,42 @@ export default class InteractionManager {
         return { success: false, message: "❌ 该位置无法浇水" };
     }
 
+    /**
+     * 处理收获作物交互
+     * 收获成熟作物，耕地回到未种植状态
+     */
+    private handleCropHarvest(pos: Position2D): InteractionResult {
+        const result = this.worldManager.harvestCrop(pos);
+
+        if (!result.success) {
+            switch (result.reason) {
+                case "no_crop":
+                    return { success: false, message: "该位置没有作物" };
+                case "not_mature":
+                    return { success: false, message: "作物还没有成熟" };
+                default:
+                    return { success: false, message: "❌ 收获失败" };
+            }
+        }
+
+        return {
+            success: true,
+            message: "✅ 收获成功！",
+            changes: { position: pos, action: "crop_harvested" },
+            rewards: result.drops ?? [],
+        };
+    }
+
     /**
      * 处理采集交互（砍树、挖石头）
      * 减少资源耐久度，完全采集后获得掉落物
      */
-    private handleHarvest(pos: Position2D, type: InteractionType): InteractionResult {
+    private handleHarvest(pos: Position2D, type: InteractionType, power = 1): InteractionResult {
         if (!this.worldManager.isHarvestable(pos)) {
             return { success: false, message: "该位置无法采集" };
         }
 
-        const result = this.worldManager.harvest(pos);
+        const result = this.worldManager.harvest(pos, power);
 
         if (!result.success) {
             return { success: false, message: "采集失败" };
@@ -324,6 +441,73 @@ export default class InteractionManager {
         }
     }
 
+    /**
+     * 处理放置交互
+     * 消耗背包里的一个方块物品，把目标空地变成对应的瓦片
+     */
+    private handlePlace(player: PlayerAgent, pos: Position2D, itemId: unknown): InteractionResult {
+        if (typeof itemId !== "string" || itemId.length === 0) {
+            return { success: false, message: "未指定要放置的物品" };
+        }
+
+        const item = getItemDefinition(itemId);
+        if (!item.placesTile) {
+            return { success: false, message: `${item.label}不能放置` };
+        }
+
+        if (player.countItem(itemId) === 0) {
+            return { success: false, message: `背包里没有${item.label}` };
+        }
+
+        if (this.agentManager.isTileOccupied(pos)) {
+            return { success: false, message: "有角色站在该位置" };
+        }
+
+        const placed = this.worldManager.placeTile(pos, item.placesTile, itemId, player.getId());
+        if (placed === "not_empty") {
+            return { success: false, message: "该位置不是空地，无法放置" };
+        }
+        if (placed === "conflict") {
+            return { success: false, message: "❌ 放置失败" };
+        }
+
+        player.removeItem(itemId, 1);
+
+        return {
+            success: true,
+            message: `✅ 放置了${item.label}`,
+            changes: { position: pos, action: "placed", itemId, tileType: item.placesTile },
+        };
+    }
+
+    /**
+     * 处理破坏交互
+     * 只能破坏玩家放置的方块，恢复原来的地面并返还物品
+     */
+    private handleBreak(player: PlayerAgent, pos: Position2D): InteractionResult {
+        const itemId = this.worldManager.getTile(pos).state?.placedItem;
+        if (!itemId) {
+            return { success: false, message: "该位置没有可以破坏的方块" };
+        }
+
+        // 背包放不下时不破坏，避免物品丢失
+        if (player.getSpaceFor(itemId) < 1) {
+            return { success: false, message: "背包已满" };
+        }
+
+        const result = this.worldManager.breakTile(pos);
+        if (!result.success || !result.itemId) {
+            return { success: false, message: "❌ 破坏失败" };
+        }
+
+        return {
+            success: true,
+            message: `✅ 拆下了${getItemDefinition(result.itemId).label}`,
+            changes: { position: pos, action: "broken", itemId: result.itemId },
+            rewards: [result.itemId],
+        };
+    }
+
     /**
      * 处理查看交互
      * 返回玩家周围环境的描述
@@ -339,15 +523,99 @@ export default class InteractionManager {
 
     // ==================== 辅助函数 ====================
 
+    /**
+     * 选择本次交互使用的工具
+     * @param toolId 指定的工具 ID（不指定时自动选择背包里等级最高的同种工具）
+     * @returns 不需要工具的交互返回空对象；缺少必需的工具或指定的工具不可用时返回错误
+     */
+    private selectTool(player: PlayerAgent, type: InteractionType, toolId?: unknown): { tool?: ToolDefinition } | { error: string } {
+        const rule = INTERACTION_TOOLS[type];
+        if (!rule) return {};
+
+        const kindLabel = TOOL_KIND_LABELS[rule.kind];
+
+        if (toolId !== undefined) {
+            const tool = typeof toolId === "string" ? getToolDefinition(toolId) : undefined;
+            if (!tool) {
+                return { error: `未知的工具：${String(toolId)}` };
+            }
+            if (tool.kind !== rule.kind) {
+                return { error: `${tool.label}不是${kindLabel}` };
+            }
+            if (player.countItem(tool.id) === 0) {
+                return { error: `背包里没有${tool.label}` };
+            }
+            return { tool };
+        }
+
+        const tool = findBestTool(rule.kind, itemId => player.countItem(itemId) > 0);
+        if (!tool && rule.required) {
+            return { error: `需要${kindLabel}` };
+        }
+        return tool ? { tool } : {};
+    }
+
+    /**
+     * 交互成功后磨损工具，工具损坏时在消息中提示
+     */
+    private wearTool(player: PlayerAgent, tool: ToolDefinition, result: InteractionResult): InteractionResult {
+        const usage = player.wearTool(tool);
+        if (!usage) return result;
+
+        return {
+            ...result,
+            message: usage.broken ? `${result.message}（${tool.label}坏了）` : result.message,
+            tool: usage,
+        };
+    }
+
+    /**
+     * 把交互奖励放进玩家背包
+     * 背包放不下的部分会在消息中提示（物品丢失）
+     */
+    private creditRewards(player: PlayerAgent, result: InteractionResult): InteractionResult {
+        if (!result.success || !result.rewards || result.rewards.length === 0) {
+            return result;
+        }
+
+        const counts = new Map<string, number>();
+        for (const itemId of result.rewards) {
+            counts.set(itemId, (counts.get(itemId) ?? 0) + 1);
+        }
+
+        const lost: string[] = [];
+        for (const [itemId, quantity] of counts) {
+            const added = player.addItem(itemId, quantity);
+            if (added < quantity) {
+                lost.push(`${itemId} x${quantity - added}`);
+            }
+        }
+
+        if (lost.length === 0) {
+            return result;
+        }
+
+        return {
+            ...result,
+            message: `${result.message}（背包已满，丢失 ${lost.join(", ")}）`,
+        };
+    }
+
+    /**
+     * 两个实体之间的距离（与交互距离同一套换算，战斗等系统复用）
+     * @param from 起点（3D 世界坐标）
+     * @param to 终点（3D 世界坐标）
+     */
+    measureDistance(from: Position, to: Position): number {
+        return this.calculateDistance(this.to2D(from), this.to2D(to));
+    }
+
     /**
      * 将 3D 位置转换为 2D 地图坐标
      * 忽略 Y 轴（高度），只取 X 和 Z
      */
     private to2D(pos3D: Position): Position2D {
-        return {
-            x: Math.floor(pos3D.x),
-            y: Math.floor(pos3D.z), // 注意：地图的 Y 对应 3D 空间的 Z
-        };
+        return to2D(pos3D); // 与 MovementValidator 共用同一套换算
     }
 
     /**
@@ -367,7 +635,6 @@ export default class InteractionManager {
     update(deltaTime: number): void {
         // TODO: 实现延迟交互逻辑
         // - 处理正在进行的采集动画
-        // - 作物生长逻辑
         // - 自动触发的交互（如陷阱）
         
         // 清理超时的队列（防止内存泄漏）
@@ -0,0 +1,62 @@
+import type { ItemDefinition } from "../../types/item.js";
+
+/** 未登记物品的默认堆叠上限 */
+export const DEFAULT_MAX_STACK = 64;
+
+/**
+ * 物品配置表
+ * 类比 Minecraft 的物品注册表：每种物品的显示名、堆叠上限、食物的饱食度和方块放置后的瓦片
+ */
+const ITEM_DEFINITIONS: Map<string, ItemDefinition> = new Map([
+    ["wood", { id: "wood", label: "木材", maxStack: 64 }],
+    ["stone", { id: "stone", label: "石头", maxStack: 64 }],
+    ["dirt", { id: "dirt", label: "泥土", maxStack: 64, placesTile: "DIRT" }],
+    // 作物产出
+    ["wheat", { id: "wheat", label: "小麦", maxStack: 64, nutrition: 5 }],
+    ["wheat_seeds", { id: "wheat_seeds", label: "小麦种子", maxStack: 64 }],
+    ["carrot", { id: "carrot", label: "胡萝卜", maxStack: 64, nutrition: 15 }],
+    ["potato", { id: "potato", label: "土豆", maxStack: 64, nutrition: 20 }],
+    ["bread", { id: "bread", label: "面包", maxStack: 64, nutrition: 30 }],
+    // 建筑方块（合成产出，可以放置到地图上，破坏后返还）
+    ["workbench", { id: "workbench", label: "工作台", maxStack: 16, placesTile: "WORKBENCH" }],
+    ["furnace", { id: "furnace", label: "熔炉", maxStack: 16, placesTile: "FURNACE" }],
+    ["stone_wall", { id: "stone_wall", label: "石墙", maxStack: 64, placesTile: "WALL" }],
+    ["stone_floor", { id: "stone_floor", label: "石地板", maxStack: 64, placesTile: "STONE" }],
+    ["fence", { id: "fence", label: "栅栏", maxStack: 64, placesTile: "FENCE" }],
+    ["door", { id: "door", label: "木门", maxStack: 16, placesTile: "DOOR" }],
+    // 武器（与 WeaponRegistry 的武器 ID 对应，不可堆叠）
+    ["wooden_sword", { id: "wooden_sword", label: "木剑", maxStack: 1 }],
+    ["stone_sword", { id: "stone_sword", label: "石剑", maxStack: 1 }],
+    ["spear", { id: "spear", label: "长矛", maxStack: 1 }],
+    // 工具（与 ToolRegistry 的工具 ID 对应，不可堆叠，每件单独记录耐久）
+    ["wooden_axe", { id: "wooden_axe", label: "木斧", maxStack: 1 }],
+    ["stone_axe", { id: "stone_axe", label: "石斧", maxStack: 1 }],
+    ["wooden_pickaxe", { id: "wooden_pickaxe", label: "木镐", maxStack: 1 }],
+    ["stone_pickaxe", { id: "stone_pickaxe", label: "石镐", maxStack: 1 }],
+    ["wooden_hoe", { id: "wooden_hoe", label: "木锄", maxStack: 1 }],
+    ["stone_hoe", { id: "stone_hoe", label: "石锄", maxStack: 1 }],
+    ["watering_can", { id: "watering_can", label: "水壶", maxStack: 1 }],
+]);
+
+/**
+ * 获取物品定义（未登记的物品按默认堆叠上限处理）
+ * @param itemId 物品 ID
+ */
+export function getItemDefinition(itemId: string): ItemDefinition {
+    return ITEM_DEFINITIONS.get(itemId) ?? { id: itemId, label: itemId, maxStack: DEFAULT_MAX_STACK };
+}
+
+/**
+ * 注册（或覆盖）物品定义，供作物、工具等系统扩展
+ * @param definition 物品定义
+ */
+export function registerItem(definition: ItemDefinition): void {
+    ITEM_DEFINITIONS.set(definition.id, definition);
+}
+
+/**
+ * 列出所有已登记的物品
+ */
+export function listItemDefinitions(): ItemDefinition[] {
+    return Array.from(ITEM_DEFINITIONS.values());
+}
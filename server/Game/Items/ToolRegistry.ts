@@ -0,0 +1,51 @@
+import type { ToolDefinition, ToolKind } from "../../types/tool.js";
+
+/** 工具种类的显示名称 */
+export const TOOL_KIND_LABELS: Record<ToolKind, string> = {
+    axe: "斧头",
+    pickaxe: "镐",
+    hoe: "锄头",
+    watering_can: "水壶",
+};
+
+/**
+ * 工具配置表
+ * 工具 ID 与物品 ID 相同：交互时背包里必须有对应物品
+ * power 是每次砍伐 / 开采减少的资源耐久（空手为 1）
+ */
+const TOOL_DEFINITIONS: Map<string, ToolDefinition> = new Map([
+    ["wooden_axe", { id: "wooden_axe", label: "木斧", kind: "axe", tier: 1, power: 2, maxDurability: 30 }],
+    ["stone_axe", { id: "stone_axe", label: "石斧", kind: "axe", tier: 2, power: 3, maxDurability: 60 }],
+    ["wooden_pickaxe", { id: "wooden_pickaxe", label: "木镐", kind: "pickaxe", tier: 1, power: 2, maxDurability: 30 }],
+    ["stone_pickaxe", { id: "stone_pickaxe", label: "石镐", kind: "pickaxe", tier: 2, power: 3, maxDurability: 60 }],
+    ["wooden_hoe", { id: "wooden_hoe", label: "木锄", kind: "hoe", tier: 1, power: 1, maxDurability: 40 }],
+    ["stone_hoe", { id: "stone_hoe", label: "石锄", kind: "hoe", tier: 2, power: 1, maxDurability: 80 }],
+    ["watering_can", { id: "watering_can", label: "水壶", kind: "watering_can", tier: 1, power: 1, maxDurability: 50 }],
+]);
+
+/**
+ * 获取工具定义
+ * @param toolId 工具 ID
+ * @returns 工具定义，未登记时返回 undefined
+ */
+export function getToolDefinition(toolId: string): ToolDefinition | undefined {
+    return TOOL_DEFINITIONS.get(toolId);
+}
+
+/**
+ * 列出所有已登记的工具
+ */
+export function listToolDefinitions(): ToolDefinition[] {
+    return Array.from(TOOL_DEFINITIONS.values());
+}
+
+/**
+ * 在已拥有的工具里挑出某种工具中最好的一件（等级高的优先，其次 power 高的）
+ * @param kind 工具种类
+ * @param owns 是否拥有该物品
+ */
+export function findBestTool(kind: ToolKind, owns: (itemId: string) => boolean): ToolDefinition | undefined {
+    return listToolDefinitions()
+        .filter(tool => tool.kind === kind && owns(tool.id))
+        .sort((a, b) => b.tier - a.tier || b.power - a.power)[0];
+}
@@ -0,0 +1,194 @@
+/**
+ * 可设种子的随机数服务
+ * - 一个主种子派生出多条互相独立的命名随机流（地形、天气、掉落、NPC 决策）
+ * - 每条流用 mulberry32 生成，状态只是一个 32 位整数，可以随世界存档保存和恢复
+ * - 同一个种子 + 同样的输入 = 同样的世界，方便复现 Agent 实验
+ */
+
+
+/** 随机流名称 */
+export type RandomStreamName = "terrain" | "weather" | "loot" | "npc";
+
+/** 所有随机流（保存存档时按这个顺序写入） */
+export const RANDOM_STREAMS: readonly RandomStreamName[] = ["terrain", "weather", "loot", "npc"];
+
+
+/**
+ * 随机服务存档：主种子 + 每条随机流的当前状态
+ */
+export interface RandomStateSnapshot {
+    seed: number;
+    streams: Partial<Record<RandomStreamName, number>>;
+}
+
+
+/**
+ * 单条随机流（mulberry32）
+ * 同一个初始状态总是产生同一串随机数；getState / setState 用于存档。
+ */
+export class RandomStream {
+    private state: number;
+
+    constructor(state: number) {
+        this.state = state >>> 0;
+    }
+
+    /**
+     * @returns 输出：[0, 1) 之间的随机数
+     */
+    next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * @returns 输出：[min, max] 之间的随机整数
+     */
+    nextInt(min: number, max: number): number {
+        return min + Math.floor(this.next() * (max - min + 1));
+    }
+
+    /**
+     * @returns 输出：以 probability 的概率返回 true
+     */
+    chance(probability: number): boolean {
+        return this.next() < probability;
+    }
+
+    /**
+     * 随机取数组中的一个元素（空数组返回 undefined）
+     */
+    pick<T>(items: readonly T[]): T | undefined {
+        return items.length === 0 ? undefined : items[Math.floor(this.next() * items.length)];
+    }
+
+    /**
+     * @returns 输出：一个新的正整数种子（用于派生地形种子、LLM 请求种子等）
+     */
+    nextSeed(): number {
+        return this.nextInt(1, 2 ** 31 - 1);
+    }
+
+    getState(): number {
+        return this.state;
+    }
+
+    setState(state: number): void {
+        this.state = state >>> 0;
+    }
+}
+
+
+/**
+ * RandomService 持有主种子和所有命名随机流。
+ * - 各条流的初始状态 = 主种子与流名称哈希的混合，互不影响：多掷一次天气不会改变地形或掉落
+ * - restore 只修改流的内部状态，外部已经拿到的 stream 引用（或 () => stream.next() 闭包）依然有效
+ */
+export default class RandomService {
+    private seed: number;
+    private streams: Map<RandomStreamName, RandomStream> = new Map();
+
+    /**
+     * @param seed 主种子（可选，不传则随机生成；这是整个模拟里唯一使用 Math.random 的地方）
+     */
+    constructor(seed?: number) {
+        this.seed = normalizeSeed(seed ?? createSeed());
+    }
+
+    /**
+     * 获取主种子
+     */
+    getSeed(): number {
+        return this.seed;
+    }
+
+    /**
+     * 获取命名随机流（首次访问时按主种子创建）
+     */
+    stream(name: RandomStreamName): RandomStream {
+        let stream = this.streams.get(name);
+        if (!stream) {
+            stream = new RandomStream(deriveStreamState(this.seed, name));
+            this.streams.set(name, stream);
+        }
+        return stream;
+    }
+
+    /**
+     * @returns 输出：可写入世界存档的随机服务状态
+     */
+    toSnapshot(): RandomStateSnapshot {
+        const streams: RandomStateSnapshot["streams"] = {};
+        for (const name of RANDOM_STREAMS) {
+            streams[name] = this.stream(name).getState();
+        }
+        return { seed: this.seed, streams };
+    }
+
+    /**
+     * 从世界存档恢复随机服务状态
+     * @param snapshot 输入：存档中的 environment.random（可能不存在或已损坏）
+     * @returns 输出：是否成功恢复；失败时保持当前状态不变
+     */
+    restore(snapshot: unknown): boolean {
+        if (!isRandomStateSnapshot(snapshot)) return false;
+
+        this.seed = normalizeSeed(snapshot.seed);
+        for (const name of RANDOM_STREAMS) {
+            const state = snapshot.streams[name];
+            this.stream(name).setState(state ?? deriveStreamState(this.seed, name));
+        }
+        return true;
+    }
+}
+
+
+/**
+ * 生成一个随机主种子
+ */
+export function createSeed(): number {
+    return Math.floor(Math.random() * (2 ** 31 - 1)) + 1;
+}
+
+
+/**
+ * 解析种子字符串（如 GAME_SEED 环境变量）：整数直接使用，其它文本取哈希
+ * @returns 输出：种子，空字符串或未设置时返回 undefined
+ */
+export function parseSeed(value: string | undefined): number | undefined {
+    const text = value?.trim();
+    if (!text) return undefined;
+    return /^\d+$/.test(text) ? normalizeSeed(Number(text)) : fnv1a(text);
+}
+
+
+function normalizeSeed(seed: number): number {
+    return Number.isFinite(seed) ? Math.trunc(seed) >>> 0 : 0;
+}
+
+
+function deriveStreamState(seed: number, name: RandomStreamName): number {
+    return (seed ^ fnv1a(name)) >>> 0;
+}
+
+
+function isRandomStateSnapshot(value: unknown): value is RandomStateSnapshot {
+    if (!value || typeof value !== "object") return false;
+    const { seed, streams } = value as Partial<RandomStateSnapshot>;
+    if (typeof seed !== "number" || !Number.isFinite(seed)) return false;
+    if (!streams || typeof streams !== "object") return false;
+    return Object.values(streams).every(state => typeof state === "number" && Number.isFinite(state));
+}
+
+
+function fnv1a(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
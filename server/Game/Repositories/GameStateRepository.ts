@@ -1,5 +1,7 @@
 import { GameWorldStateModel } from "../../Models/GameWorldState";
 import type { WeatherType } from "../../types/weather";
+import type { WeatherStateSnapshot } from "../World/WeatherManager";
+import { isWeatherType } from "../World/utils";
 
 /**
  * ⚠️ DEPRECATED - 未使用的代码
@@ -16,6 +18,18 @@ import type { WeatherType } from "../../types/weather";
  * 保留原因：可能后续需要完善 Repository 模式
  */
 
+/**
+ * 从 environment 读出当前天气
+ * environment.weather 现在保存的是 WeatherManager 的天气排期（{ spells }），旧存档里是天气代码
+ */
+function readCurrentWeather(environment: unknown): WeatherType {
+    const weather = (environment as { weather?: unknown } | null | undefined)?.weather;
+    if (isWeatherType(weather)) return weather;
+
+    const first = (weather as Partial<WeatherStateSnapshot> | undefined)?.spells?.[0]?.weather;
+    return isWeatherType(first) ? first : "clear";
+}
+
 /**
  * GameStateSnapshot - 游戏状态快照
  * 包含时间、天气等非玩家/地形的游戏状态
@@ -54,7 +68,7 @@ export class GameStateRepository {
             worldId: state.worldId,
             tick: state.time.tick,
             timeOfDay: state.time.timeOfDay,
-            currentWeather: (state.environment as any)?.weather || "clear",
+            currentWeather: readCurrentWeather(state.environment),
             lastUpdated: state.time.lastUpdatedAt.getTime(),
         };
     }
@@ -75,9 +89,7 @@ export class GameStateRepository {
                     tickIntervalMs: 50,
                     lastUpdatedAt: new Date(snapshot.lastUpdated),
                 },
-                environment: {
-                    weather: snapshot.currentWeather,
-                },
+                "environment.weather": snapshot.currentWeather,
             },
             { upsert: true, new: true }
         );
@@ -125,7 +137,7 @@ export class GameStateRepository {
     /**
      * 仅更新天气（增量更新）
      * @param worldId 世界 ID
-     * @param currentWeather 当前天气
+     * @param currentWeather 当前天气（WeatherManager.restore 兼容只有天气代码的写法）
      */
     async updateWeather(worldId: string, currentWeather: WeatherType): Promise<void> {
         await GameWorldStateModel.findOneAndUpdate(
@@ -184,7 +196,7 @@ export class GameStateRepository {
             worldId: state.worldId,
             tick: state.time.tick,
             timeOfDay: state.time.timeOfDay,
-            currentWeather: (state.environment as any)?.weather || "clear",
+            currentWeather: readCurrentWeather(state.environment),
             lastUpdated: state.time.lastUpdatedAt.getTime(),
         }));
     }
@@ -0,0 +1,107 @@
+import { AgentMemoryModel } from "../../Models/AgentMemory.js";
+import type { AgentMemoryFragment, AgentRepository, AgentSnapshot } from "../AgentFactory/types.js";
+
+/**
+ * MemoryRepository - 角色长期记忆的数据访问层（MongoDB）
+ *
+ * 实现 AgentRepository 接口：
+ * - loadAgent：读取角色的全部记忆
+ * - updateAgent：把角色当前的记忆集合写回（新增/更新的 upsert，已遗忘的删除）
+ *
+ * 玩家的位置、属性、背包仍由 PlayerRepository 负责，这里只保存记忆。
+ */
+export class MemoryRepository implements AgentRepository {
+    /**
+     * @param worldId 世界 ID
+     */
+    constructor(private readonly worldId: string) {}
+
+    /**
+     * 加载角色的记忆
+     * @param id 角色 ID
+     * @returns 角色快照（只有记忆），没有任何记忆时返回 null
+     */
+    async loadAgent(id: string): Promise<AgentSnapshot | null> {
+        const docs = await AgentMemoryModel.find({ agentId: id, worldId: this.worldId }).lean();
+        if (docs.length === 0) return null;
+
+        const memories: AgentMemoryFragment[] = docs.map(doc => ({
+            id: doc.memoryId,
+            content: doc.content,
+            type: doc.type as AgentMemoryFragment["type"],
+            ...(doc.relatedObject && { relatedObject: doc.relatedObject }),
+            ...(typeof doc.importance === "number" && { importance: doc.importance }),
+            ...(doc.lastAccessedAt && { lastAccessedAt: doc.lastAccessedAt.toISOString() }),
+            createdAt: doc.createdAt.toISOString(),
+            updatedAt: doc.updatedAt.toISOString(),
+        }));
+
+        const updatedAt = memories.reduce((latest, m) => (m.updatedAt > latest ? m.updatedAt : latest), "");
+
+        return {
+            id,
+            status: "idle",
+            memories,
+            inventory: [],
+            updatedAt: updatedAt || new Date().toISOString(),
+        };
+    }
+
+    /**
+     * 保存角色的记忆集合
+     * @param snapshot 角色快照（只使用 memories）
+     */
+    async updateAgent(snapshot: AgentSnapshot): Promise<void> {
+        const ids = snapshot.memories.map(m => m.id);
+
+        if (snapshot.memories.length > 0) {
+            await AgentMemoryModel.bulkWrite(snapshot.memories.map(memory => ({
+                updateOne: {
+                    filter: { agentId: snapshot.id, memoryId: memory.id },
+                    update: {
+                        $set: {
+                            worldId: this.worldId,
+                            agentId: snapshot.id,
+                            memoryId: memory.id,
+                            content: memory.content,
+                            type: memory.type,
+                            ...(memory.relatedObject !== undefined && { relatedObject: memory.relatedObject }),
+                            ...(memory.importance !== undefined && { importance: memory.importance }),
+                            ...(memory.lastAccessedAt !== undefined && { lastAccessedAt: new Date(memory.lastAccessedAt) }),
+                            createdAt: new Date(memory.createdAt),
+                            updatedAt: new Date(memory.updatedAt),
+                        },
+                    },
+                    upsert: true,
+                },
+            })));
+        }
+
+        // 删除已被遗忘的记忆
+        await AgentMemoryModel.deleteMany({ agentId: snapshot.id, memoryId: { $nin: ids } });
+    }
+
+    /**
+     * 删除角色的所有记忆（玩家被删除时调用）
+     * @param id 角色 ID
+     * @returns 删除的记忆条数
+     */
+    async deleteAgent(id: string): Promise<number> {
+        const result = await AgentMemoryModel.deleteMany({ agentId: id, worldId: this.worldId });
+        return result.deletedCount;
+    }
+
+    /**
+     * 把角色的所有记忆迁移到另一个世界（玩家跨世界传送时调用）
+     * @param id 角色 ID
+     * @param targetWorldId 目标世界 ID
+     * @returns 迁移的记忆条数
+     */
+    async moveAgent(id: string, targetWorldId: string): Promise<number> {
+        const result = await AgentMemoryModel.updateMany(
+            { agentId: id, worldId: this.worldId },
+            { $set: { worldId: targetWorldId } },
+        );
+        return result.modifiedCount;
+    }
+}
@@ -1,5 +1,8 @@
 import { PlayerModel } from "../../Models/Player";
-import type { PlayerSnapshot } from "../../types/agent";
+import type { DeathState, PlayerAttributes, PlayerSnapshot } from "../../types/agent";
+import type { InventorySnapshot } from "../../types/item.js";
+import { DEFAULT_INVENTORY_CAPACITY } from "../AgentFactory/Inventory";
+import { defaultSurvivalAttributes } from "../AgentFactory/Agent/PlayerAgent.js";
 
 /**
  * PlayerRepository - 玩家数据访问层
@@ -26,8 +29,11 @@ export class PlayerRepository {
             id: player.playerId,
             name: player.name,
             position: player.position,
+            spawnPoint: player.spawnPoint ?? player.position,
             status: player.status as any,
-            attributes: player.attributes,
+            attributes: this.toAttributes(player.attributes),
+            inventory: this.toInventory(player.inventory),
+            ...this.toDeath(player.death),
             joinedAt: player.joinedAt ? player.joinedAt.toISOString() : new Date().toISOString(),
             lastActiveAt: player.lastActiveAt ? player.lastActiveAt.toISOString() : new Date().toISOString(),
         };
@@ -45,8 +51,11 @@ export class PlayerRepository {
             id: player.playerId,
             name: player.name,
             position: player.position,
+            spawnPoint: player.spawnPoint ?? player.position,
             status: player.status as any,
-            attributes: player.attributes,
+            attributes: this.toAttributes(player.attributes),
+            inventory: this.toInventory(player.inventory),
+            ...this.toDeath(player.death),
             joinedAt: player.joinedAt ? player.joinedAt.toISOString() : new Date().toISOString(),
             lastActiveAt: player.lastActiveAt ? player.lastActiveAt.toISOString() : new Date().toISOString(),
         }));
@@ -65,8 +74,11 @@ export class PlayerRepository {
                 worldId,
                 name: player.name,
                 position: player.position,
+                spawnPoint: player.spawnPoint,
                 status: player.status,
                 attributes: player.attributes,
+                inventory: player.inventory,
+                death: player.death ? this.fromDeath(player.death) : null,
                 lastActiveAt: new Date(player.lastActiveAt),
                 $setOnInsert: {
                     joinedAt: new Date(player.joinedAt),
@@ -93,8 +105,11 @@ export class PlayerRepository {
                         worldId,
                         name: player.name,
                         position: player.position,
+                        spawnPoint: player.spawnPoint,
                         status: player.status,
                         attributes: player.attributes,
+                        inventory: player.inventory,
+                        death: player.death ? this.fromDeath(player.death) : null,
                         lastActiveAt: new Date(player.lastActiveAt),
                     },
                     $setOnInsert: {
@@ -119,6 +134,18 @@ export class PlayerRepository {
         return result.deletedCount > 0;
     }
 
+    /**
+     * 把玩家存档迁移到另一个世界（玩家 ID 全局唯一，跨世界传送时移动文档而不是复制）
+     * @param playerId 玩家 ID
+     * @param worldId 当前所在的世界 ID
+     * @param targetWorldId 目标世界 ID
+     * @returns 是否迁移成功
+     */
+    async moveToWorld(playerId: string, worldId: string, targetWorldId: string): Promise<boolean> {
+        const result = await PlayerModel.updateOne({ playerId, worldId }, { $set: { worldId: targetWorldId } });
+        return result.modifiedCount > 0;
+    }
+
     /**
      * 检查玩家是否存在
      * @param playerId 玩家 ID
@@ -156,8 +183,11 @@ export class PlayerRepository {
                 id: player.playerId,
                 name: player.name,
                 position: player.position,
+                spawnPoint: player.spawnPoint ?? player.position,
                 status: player.status as any,
-                attributes: player.attributes,
+                attributes: this.toAttributes(player.attributes),
+                inventory: this.toInventory(player.inventory),
+                ...this.toDeath(player.death),
                 joinedAt: player.joinedAt ? player.joinedAt.toISOString() : new Date().toISOString(),
                 lastActiveAt: player.lastActiveAt ? player.lastActiveAt.toISOString() : new Date().toISOString(),
             }));
@@ -186,4 +216,65 @@ export class PlayerRepository {
         });
         return result.deletedCount;
     }
+
+    /**
+     * 把数据库中的背包转换为快照（旧存档没有背包字段时返回空背包）
+     */
+    private toInventory(inventory?: { capacity?: number | null; slots?: Array<{ itemId: string; quantity: number; durability?: number | null }> } | null): InventorySnapshot {
+        return {
+            capacity: inventory?.capacity ?? DEFAULT_INVENTORY_CAPACITY,
+            slots: (inventory?.slots ?? []).map(({ itemId, quantity, durability }) => ({
+                itemId,
+                quantity,
+                ...(durability != null && { durability }),
+            })),
+        };
+    }
+
+    /**
+     * 把数据库中的属性转换为快照（旧存档没有饱食度、体力、精力时按上限补齐）
+     */
+    private toAttributes(attributes: Pick<PlayerAttributes, "name" | "level" | "health" | "maxHealth" | "experience"> & Partial<Record<"hunger" | "maxHunger" | "stamina" | "maxStamina" | "energy" | "maxEnergy", number | null>>): PlayerAttributes {
+        const defaults = defaultSurvivalAttributes();
+        return {
+            name: attributes.name,
+            level: attributes.level,
+            health: attributes.health,
+            maxHealth: attributes.maxHealth,
+            experience: attributes.experience,
+            hunger: attributes.hunger ?? defaults.hunger,
+            maxHunger: attributes.maxHunger ?? defaults.maxHunger,
+            stamina: attributes.stamina ?? defaults.stamina,
+            maxStamina: attributes.maxStamina ?? defaults.maxStamina,
+            energy: attributes.energy ?? defaults.energy,
+            maxEnergy: attributes.maxEnergy ?? defaults.maxEnergy,
+        };
+    }
+
+    /**
+     * 把数据库中的死亡状态转换为快照字段（存活时不返回 death）
+     */
+    private toDeath(death?: { diedAt: Date; respawnAt: Date; killerId?: string | null; droppedItems?: Array<{ itemId: string; quantity: number }> } | null): { death?: DeathState } {
+        if (!death) return {};
+
+        return {
+            death: {
+                diedAt: death.diedAt.toISOString(),
+                respawnAt: death.respawnAt.toISOString(),
+                ...(death.killerId && { killerId: death.killerId }),
+                droppedItems: (death.droppedItems ?? []).map(({ itemId, quantity }) => ({ itemId, quantity })),
+            },
+        };
+    }
+
+    /**
+     * 把死亡状态转换为数据库格式
+     */
+    private fromDeath(death: DeathState) {
+        return {
+            ...death,
+            diedAt: new Date(death.diedAt),
+            respawnAt: new Date(death.respawnAt),
+        };
+    }
 }
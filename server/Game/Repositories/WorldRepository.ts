@@ -1,20 +1,6 @@
 import { WorldMapModel } from "../../Models/WorldMap";
-import type { Tile } from "../../types/terrain";
-
-/**
- * ⚠️ DEPRECATED - 未使用的代码
- * 
- * 架构问题：
- * 1. WorldRepository 从未在实际代码中被使用
- * 2. Game.ts 和 WorldManager.ts 直接使用 WorldMapModel 进行数据库操作
- * 3. 与 GameStateRepository 存在同样的设计问题
- * 
- * 建议：
- * - 要么重构使用这个 Repository
- * - 要么删除这个未使用的代码
- * 
- * 保留原因：可能后续需要完善 Repository 模式
- */
+import { WorldChunkModel } from "../../Models/WorldChunk";
+import type { Tile, Position2D, TerrainPrng, TerrainGeneratorSpec, ChunkCoord, ChunkData } from "../../types/terrain";
 
 /**
  * DirtyChunk - 脏数据块
@@ -26,32 +12,191 @@ export interface DirtyChunk {
     tiles: Tile[];
 }
 
+/**
+ * PersistedTerrain - 持久化的地形数据
+ * - 区块存档（storage = "chunks"）：只有尺寸和生成参数，瓦片用 loadChunk 按需读取
+ * - 旧存档（storage = "legacy"）：基础地图由 seed 确定性地重建（或直接使用完整快照 tiles），
+ *   再把 deltas 覆盖上去，得到存档时的地形
+ */
+export interface PersistedTerrain {
+    width: number;
+    height: number;
+    /** 瓦片存储方式 */
+    storage: "chunks" | "legacy";
+    /** 区块边长（旧存档没有记录） */
+    chunkSize?: number;
+    seed?: number;
+    /** 生成基础地图的随机数算法（旧存档没有记录，视为 lcg） */
+    prng?: TerrainPrng;
+    /** 生成基础地图的生成器和参数（旧存档没有记录，视为 classic） */
+    generator?: TerrainGeneratorSpec;
+    /** 完整瓦片快照（仅旧存档或 saveTerrain 写入时存在） */
+    tiles?: Tile[][];
+    /** 相对基础地图的瓦片增量 */
+    deltas: Array<{ pos: Position2D; tile: Tile }>;
+}
+
 /**
  * WorldRepository - 世界数据访问层
  * 
  * 职责：
  * - 封装所有地形数据的 MongoDB 操作
- * - 支持完整保存和增量保存
+ * - 地图文档只存尺寸和生成参数，瓦片按区块单独存放、带版本号
+ * - 兼容旧存档（完整快照 / 瓦片增量），直到迁移为区块存储
  * - 处理大规模地形数据的高效存储
  * 
  * 设计模式：Repository Pattern
- * 
- * ⚠️ 当前状态：未被使用，仅作为接口定义保留
  */
 export class WorldRepository {
     /**
      * 加载世界地形数据
      * @param worldId 世界 ID
-     * @returns 地形数据或 null
+     * @returns 地形数据（种子 + 存储方式，旧存档还有增量）或 null（世界尚未创建）
      */
-    async loadTerrain(worldId: string): Promise<{ tiles: Tile[][] } | null> {
+    async loadTerrain(worldId: string): Promise<PersistedTerrain | null> {
         const worldMap = await WorldMapModel.findOne({ worldId }).lean();
         if (!worldMap) return null;
 
-        // 解压缩 tilesData
-        const tiles: Tile[][] = JSON.parse(worldMap.tilesData);
+        const storage = worldMap.storage === "chunks" ? "chunks" : "legacy";
+        const deltas: PersistedTerrain["deltas"] = [];
+        if (storage === "legacy") {
+            const rawDeltas = (worldMap.tileDeltas ?? {}) as unknown as Record<string, Tile>;
+            for (const [key, tile] of Object.entries(rawDeltas)) {
+                const pos = this.parseTileKey(key);
+                if (pos && tile) {
+                    deltas.push({ pos, tile });
+                }
+            }
+        }
+
+        const result: PersistedTerrain = {
+            width: worldMap.width,
+            height: worldMap.height,
+            storage,
+            deltas,
+        };
+
+        if (typeof worldMap.chunkSize === "number") {
+            result.chunkSize = worldMap.chunkSize;
+        }
+
+        if (typeof worldMap.metadata?.seed === "number") {
+            result.seed = worldMap.metadata.seed;
+        }
+        result.prng = worldMap.metadata?.prng === "mulberry32" ? "mulberry32" : "lcg";
+
+        const generator = worldMap.metadata?.generator as Partial<TerrainGeneratorSpec> | undefined;
+        if (typeof generator?.name === "string") {
+            result.generator = { name: generator.name, ...(generator.params && { params: generator.params }) };
+        }
+
+        // 解压缩 tilesData（旧存档的完整快照）
+        if (storage === "legacy" && worldMap.tilesData) {
+            result.tiles = JSON.parse(worldMap.tilesData);
+        }
+
+        return result;
+    }
 
-        return { tiles };
+    /**
+     * 创建新世界的地图文档（只写入元数据和种子，瓦片由 saveChunks 写入）
+     * @param worldId 世界 ID
+     * @param params 地图尺寸、区块边长、种子、随机数算法、地形生成器和名称
+     */
+    async createWorld(
+        worldId: string,
+        params: {
+            width: number;
+            height: number;
+            chunkSize: number;
+            seed: number;
+            prng: TerrainPrng;
+            generator: TerrainGeneratorSpec;
+            name?: string;
+        }
+    ): Promise<void> {
+        await WorldMapModel.findOneAndUpdate(
+            { worldId },
+            {
+                $setOnInsert: {
+                    worldId,
+                    width: params.width,
+                    height: params.height,
+                    chunkSize: params.chunkSize,
+                    storage: "chunks",
+                    metadata: {
+                        name: params.name ?? `World-${worldId}`,
+                        seed: params.seed,
+                        prng: params.prng,
+                        generator: params.generator,
+                    },
+                    lastSavedAt: new Date(),
+                },
+            },
+            { upsert: true, new: true }
+        );
+    }
+
+    /**
+     * 把旧存档标记为区块存储（所有区块都已经用 saveChunks 写入之后调用）
+     * 同时删除旧的完整快照和瓦片增量
+     * @param worldId 世界 ID
+     * @param chunkSize 区块边长
+     */
+    async markChunked(worldId: string, chunkSize: number): Promise<void> {
+        await WorldMapModel.updateOne(
+            { worldId },
+            {
+                $set: { storage: "chunks", chunkSize, lastSavedAt: new Date() },
+                $unset: { tilesData: 1, tileDeltas: 1 },
+            }
+        );
+    }
+
+    /**
+     * 读取一个区块
+     * @param worldId 世界 ID
+     * @param coord 区块坐标
+     * @returns 区块数据或 null（存档里没有该区块）
+     */
+    async loadChunk(worldId: string, coord: ChunkCoord): Promise<ChunkData | null> {
+        const chunk = await WorldChunkModel.findOne({ worldId, cx: coord.cx, cy: coord.cy }).lean();
+        if (!chunk) return null;
+
+        return {
+            cx: chunk.cx,
+            cy: chunk.cy,
+            size: chunk.size,
+            version: chunk.version,
+            tiles: JSON.parse(chunk.tilesData),
+        };
+    }
+
+    /**
+     * 批量保存区块（每个区块一个文档，不存在时创建）
+     * @param worldId 世界 ID
+     * @param chunks 区块快照
+     */
+    async saveChunks(worldId: string, chunks: ChunkData[]): Promise<void> {
+        if (chunks.length === 0) return;
+
+        const savedAt = new Date();
+        await WorldChunkModel.bulkWrite(chunks.map(chunk => ({
+            updateOne: {
+                filter: { worldId, cx: chunk.cx, cy: chunk.cy },
+                update: {
+                    $set: {
+                        size: chunk.size,
+                        version: chunk.version,
+                        tilesData: JSON.stringify(chunk.tiles),
+                        savedAt,
+                    },
+                },
+                upsert: true,
+            },
+        })), { ordered: false });
+
+        await WorldMapModel.updateOne({ worldId }, { $set: { lastSavedAt: savedAt } });
     }
 
     /**
@@ -77,10 +222,10 @@ export class WorldRepository {
                 width,
                 height,
                 tilesData,
+                // 完整快照已包含所有修改，清空增量
+                tileDeltas: {},
                 lastSavedAt: new Date(),
-                metadata: {
-                    name: `World-${worldId}`,
-                },
+                "metadata.name": `World-${worldId}`,
             },
             { upsert: true, new: true }
         );
@@ -99,20 +244,13 @@ export class WorldRepository {
     ): Promise<void> {
         if (dirtyTiles.length === 0) return;
 
-        // 构建批量更新操作
-        const bulkOps = dirtyTiles.map(({ x, y, tile }) => ({
-            updateOne: {
-                filter: { worldId },
-                update: {
-                    $set: {
-                        [`tiles.${y}.${x}`]: tile,
-                        lastModified: new Date(),
-                    }
-                }
-            }
-        }));
+        // 合并为一次更新：每个瓦片写入 tileDeltas 中对应的 "x,y" 键
+        const $set: Record<string, unknown> = { lastSavedAt: new Date() };
+        for (const { x, y, tile } of dirtyTiles) {
+            $set[`tileDeltas.${this.tileKey({ x, y })}`] = tile;
+        }
 
-        await WorldMapModel.bulkWrite(bulkOps);
+        await WorldMapModel.updateOne({ worldId }, { $set });
     }
 
     /**
@@ -125,6 +263,15 @@ export class WorldRepository {
         return count > 0;
     }
 
+    /**
+     * 列出所有有存档的世界
+     * @returns 世界 ID 数组（按字母排序）
+     */
+    async listWorldIds(): Promise<string[]> {
+        const ids: string[] = await WorldMapModel.distinct("worldId");
+        return ids.sort();
+    }
+
     /**
      * 删除世界数据
      * @param worldId 世界 ID
@@ -132,6 +279,7 @@ export class WorldRepository {
      */
     async delete(worldId: string): Promise<boolean> {
         const result = await WorldMapModel.deleteOne({ worldId });
+        await WorldChunkModel.deleteMany({ worldId });
         return result.deletedCount > 0;
     }
 
@@ -160,13 +308,13 @@ export class WorldRepository {
     }
 
     /**
-     * 获取指定区域的地形数据（范围查询）
+     * 获取指定区域的地形数据（范围查询，只读取与区域相交的区块）
      * @param worldId 世界 ID
      * @param startX 起始 X 坐标
      * @param startY 起始 Y 坐标
      * @param width 区域宽度
      * @param height 区域高度
-     * @returns 区域地形数据
+     * @returns 区域地形数据（缺少的区块跳过对应的瓦片）
      */
     async getRegion(
         worldId: string,
@@ -175,22 +323,31 @@ export class WorldRepository {
         width: number,
         height: number
     ): Promise<Tile[][] | null> {
-        const worldMap = await WorldMapModel.findOne({ worldId }).lean();
-        if (!worldMap) return null;
+        const worldMap = await WorldMapModel.findOne({ worldId }, { storage: 1, chunkSize: 1 }).lean();
+        if (worldMap?.storage !== "chunks" || !worldMap.chunkSize) return null; // 只有区块存档才支持直接查询
 
-        // 解压缩地形数据
-        const tiles: Tile[][] = JSON.parse(worldMap.tilesData);
-        const region: Tile[][] = [];
+        const size = worldMap.chunkSize;
+        const chunks = await WorldChunkModel.find({
+            worldId,
+            cx: { $gte: Math.floor(startX / size), $lte: Math.floor((startX + width - 1) / size) },
+            cy: { $gte: Math.floor(startY / size), $lte: Math.floor((startY + height - 1) / size) },
+        }).lean();
 
-        for (let y = startY; y < startY + height && y < tiles.length; y++) {
+        // 解压缩区块数据
+        const tilesByChunk = new Map<string, Tile[][]>();
+        for (const chunk of chunks) {
+            tilesByChunk.set(`${chunk.cx},${chunk.cy}`, JSON.parse(chunk.tilesData));
+        }
+
+        const region: Tile[][] = [];
+        for (let y = startY; y < startY + height; y++) {
             const row: Tile[] = [];
-            const tileRow = tiles[y];
-            if (!tileRow) continue;
-            for (let x = startX; x < startX + width && x < tileRow.length; x++) {
-                const tile = tileRow[x];
+            for (let x = startX; x < startX + width; x++) {
+                const tiles = tilesByChunk.get(`${Math.floor(x / size)},${Math.floor(y / size)}`);
+                const tile = tiles?.[y % size]?.[x % size];
                 if (tile) row.push(tile);
             }
-            region.push(row);
+            if (row.length > 0) region.push(row);
         }
 
         return region;
@@ -221,19 +378,37 @@ export class WorldRepository {
      * @returns 地形类型统计
      */
     async getTerrainStats(worldId: string): Promise<Record<string, number> | null> {
-        const worldMap = await WorldMapModel.findOne({ worldId }).lean();
-        if (!worldMap) return null;
+        const worldMap = await WorldMapModel.findOne({ worldId }, { storage: 1 }).lean();
+        if (worldMap?.storage !== "chunks") return null; // 只有区块存档才支持直接统计
 
-        // 解压缩地形数据
-        const tiles: Tile[][] = JSON.parse(worldMap.tilesData);
+        // 逐个区块解压缩统计，避免一次把整张地图读进内存
         const stats: Record<string, number> = {};
-
-        for (const row of tiles) {
-            for (const tile of row) {
-                stats[tile.type] = (stats[tile.type] || 0) + 1;
+        for await (const chunk of WorldChunkModel.find({ worldId }, { tilesData: 1 }).lean().cursor()) {
+            const tiles: Tile[][] = JSON.parse(chunk.tilesData);
+            for (const row of tiles) {
+                for (const tile of row) {
+                    stats[tile.type] = (stats[tile.type] || 0) + 1;
+                }
             }
         }
 
         return stats;
     }
+
+    /**
+     * 瓦片在 tileDeltas 中的键（与 WorldManager 脏数据键格式一致）
+     */
+    private tileKey(pos: Position2D): string {
+        return `${pos.x},${pos.y}`;
+    }
+
+    /**
+     * 解析 "x,y" 形式的瓦片键
+     */
+    private parseTileKey(key: string): Position2D | null {
+        const [xs, ys] = key.split(",");
+        const x = Number(xs);
+        const y = Number(ys);
+        return Number.isInteger(x) && Number.isInteger(y) ? { x, y } : null;
+    }
 }
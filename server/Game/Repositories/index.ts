@@ -1,4 +1,5 @@
 export { PlayerRepository } from "./PlayerRepository";
 export { WorldRepository } from "./WorldRepository";
+export { MemoryRepository } from "./MemoryRepository";
 export { GameStateRepository, type GameStateSnapshot } from "./GameStateRepository";
 export type { DirtyChunk } from "./WorldRepository";
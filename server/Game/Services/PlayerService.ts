@@ -1,6 +1,27 @@
 import AgentManager from "../AgentFactory/AgentManager";
+import type PlayerAgent from "../AgentFactory/Agent/PlayerAgent.js";
 import { PlayerRepository } from "../Repositories/PlayerRepository";
-import type { PlayerSnapshot, CreatePlayerParams, Position } from "../../types/agent";
+import { MemoryRepository } from "../Repositories/MemoryRepository.js";
+import MovementValidator, { type MovementCheck, type MovementMode } from "../World/MovementValidator.js";
+import type { PlayerSnapshot, CreatePlayerParams, Position, MoveRejection } from "../../types/agent";
+import type { InventoryActionResult, InventorySnapshot } from "../../types/item.js";
+import { getItemDefinition } from "../Items/ItemRegistry.js";
+
+/**
+ * 移动操作结果（HTTP / WebSocket / NPC 共用）
+ */
+export interface MovementOutcome {
+    /** 是否发生了移动 */
+    success: boolean;
+    /** 移动后的玩家快照 */
+    player: PlayerSnapshot;
+    /** 移动前位置 */
+    previousPosition: Position;
+    /** 是否被地形截断（clamp 模式） */
+    clamped: boolean;
+    /** 被拒绝或截断的原因 */
+    rejection?: MoveRejection;
+}
 
 /**
  * PlayerService - 玩家业务逻辑服务
@@ -14,10 +35,17 @@ import type { PlayerSnapshot, CreatePlayerParams, Position } from "../../types/a
  * 设计模式：Service Layer Pattern
  */
 export class PlayerService {
+    /** 正在进行的脏数据保存（防止多个 tick 并发写同一批玩家；玩家离开本世界前要等它写完） */
+    private pendingDirtySave: Promise<void> | null = null;
+    /** 记忆是否正在保存 */
+    private isSavingMemories = false;
+
     constructor(
         private worldId: string,
         private agentManager: AgentManager,
-        private playerRepository: PlayerRepository
+        private playerRepository: PlayerRepository,
+        private movementValidator: MovementValidator,
+        private memoryRepository: MemoryRepository
     ) {}
 
     /**
@@ -26,8 +54,16 @@ export class PlayerService {
      * @returns 玩家快照
      */
     async createPlayer(params: CreatePlayerParams): Promise<PlayerSnapshot> {
+        // 出生点修正到最近的可站立位置（未指定时使用世界出生点）
+        const spawnPosition = params.spawnPosition
+            ? this.movementValidator.findNearestStandable(params.spawnPosition)
+            : this.movementValidator.getWorldSpawn();
+        if (!spawnPosition) {
+            throw new Error("No walkable tile available for player spawn");
+        }
+
         // 使用 AgentManager 创建玩家实例
-        const snapshot = this.agentManager.createPlayer(params);
+        const snapshot = this.agentManager.createPlayer({ ...params, spawnPosition });
 
         // 持久化到数据库
         await this.playerRepository.save(snapshot, this.worldId);
@@ -76,60 +112,298 @@ export class PlayerService {
         // 1. 从内存移除
         const removed = this.agentManager.removePlayer(playerId);
 
-        // 2. 从数据库删除
+        // 2. 从数据库删除（包括记忆）
         if (removed) {
             await this.playerRepository.delete(playerId, this.worldId);
+            await this.memoryRepository.deleteAgent(playerId);
         }
 
         return removed;
     }
 
+    // ===== 跨世界传送 =====
+
+    /**
+     * 把玩家从本世界的内存中摘下（跨世界传送的第一步）
+     * 先把记忆写入存档，再由 moveSave 把存档迁移到目标世界（传送失败时可以用 restorePlayers 放回）
+     * 返回前玩家的最终状态已经写入本世界的存档，之后本世界不会再写这个玩家的存档
+     * @param playerId 玩家 ID
+     * @returns 玩家快照（包含背包），玩家不存在时返回 null
+     */
+    async detachPlayer(playerId: string): Promise<PlayerSnapshot | null> {
+        const agent = this.agentManager.getPlayer(playerId);
+        if (!agent) return null;
+
+        agent.markMemoriesSaved();
+        try {
+            await agent.persist();
+        } catch (err) {
+            agent.markMemoriesSaved(false);
+            throw err;
+        }
+
+        // 先从内存摘下：之后开始的脏数据保存不会再包含这个玩家
+        const snapshot = agent.toSnapshot();
+        this.agentManager.removePlayer(playerId);
+
+        // 再等正在进行的脏数据保存写完，然后写入最终状态
+        // （否则存档迁移之后才落地的 upsert 会在本世界重新插入玩家，或者撞上 playerId 唯一索引）
+        try {
+            await this.pendingDirtySave?.catch(() => undefined);
+            await this.playerRepository.save(snapshot, this.worldId);
+        } catch (err) {
+            await this.restorePlayers([snapshot]);
+            throw err;
+        }
+        return snapshot;
+    }
+
+    /**
+     * 接收从其他世界传送过来的玩家
+     * 保留 ID、属性和背包，位置和个人出生点改为本世界的出生点，再恢复（已迁移过来的）记忆
+     * @param snapshot 玩家在原世界的快照
+     * @returns 玩家在本世界的快照
+     */
+    async admitPlayer(snapshot: PlayerSnapshot): Promise<PlayerSnapshot> {
+        if (this.agentManager.getPlayer(snapshot.id)) {
+            throw new Error(`Player ${snapshot.id} is already in this world`);
+        }
+        if (this.agentManager.findPlayerByName(snapshot.name)) {
+            throw new Error(`Player name "${snapshot.name}" already exists in this world`);
+        }
+
+        const spawnPosition = this.movementValidator.getWorldSpawn();
+        if (!spawnPosition) {
+            throw new Error("No walkable tile available for player spawn");
+        }
+
+        this.agentManager.restorePlayer({ ...snapshot, position: spawnPosition, spawnPoint: spawnPosition, status: "idle" });
+        const agent = this.agentManager.getPlayer(snapshot.id);
+        if (!agent) {
+            throw new Error(`Failed to admit player ${snapshot.id}`);
+        }
+
+        try {
+            await agent.hydrate();
+            const admitted = agent.toSnapshot();
+            await this.playerRepository.save(admitted, this.worldId);
+            return admitted;
+        } catch (err) {
+            this.agentManager.removePlayer(snapshot.id);
+            throw err;
+        }
+    }
+
+    /**
+     * 把玩家存档和记忆迁移到另一个世界（玩家已经从内存中摘下）
+     * @param playerId 玩家 ID
+     * @param targetWorldId 目标世界 ID
+     */
+    async moveSave(playerId: string, targetWorldId: string): Promise<void> {
+        await this.playerRepository.moveToWorld(playerId, this.worldId, targetWorldId);
+        try {
+            await this.memoryRepository.moveAgent(playerId, targetWorldId);
+        } catch (err) {
+            // 记忆没有迁移过去：把玩家存档也放回本世界，两者保持一致
+            await this.playerRepository.moveToWorld(playerId, targetWorldId, this.worldId);
+            throw err;
+        }
+    }
+
     /**
-     * 移动玩家（相对位移）
+     * 移动玩家（相对位移），经过地形碰撞和边界校验
      * @param playerId 玩家 ID
      * @param delta 位移量
-     * @returns 新位置或 null
+     * @param mode 校验模式（默认 clamp：走到障碍物前停下）
+     * @returns 移动结果，玩家不存在时返回 null
      */
-    movePlayer(playerId: string, delta: Partial<Position>): Position | null {
+    movePlayer(playerId: string, delta: Partial<Position>, mode: MovementMode = "clamp"): MovementOutcome | null {
         const agent = this.agentManager.getPlayer(playerId);
         if (!agent) return null;
+        if (agent.isDead()) return this.rejectDead(agent);
 
         const currentPos = agent.getPosition();
-        const newPos: Position = {
+        const target: Position = {
             x: currentPos.x + (delta.x || 0),
             y: currentPos.y + (delta.y || 0),
             z: currentPos.z + (delta.z || 0),
         };
 
-        // 通过 move 方法移动玩家
-        agent.move(
-            (delta.x || 0),
-            (delta.y || 0),
-            (delta.z || 0)
-        );
+        const check = this.movementValidator.validateMove(currentPos, target, mode);
+        return this.applyCheck(playerId, currentPos, check);
+    }
+
+    /**
+     * 应用客户端预测的移动指令（服务端权威）
+     * 1. 校验地形碰撞和边界（reject 模式，被拒绝时客户端会回滚到权威状态）
+     * 2. 记录客户端预测的操作
+     * 3. 在服务端执行移动
+     * 4. 和解并返回权威状态
+     * @param playerId 玩家 ID
+     * @param actionId 客户端生成的操作 ID
+     * @param delta 位移量
+     * @returns 移动结果，玩家不存在时返回 null
+     */
+    applyMoveCommand(playerId: string, actionId: string, delta: Position): MovementOutcome | null {
+        const agent = this.agentManager.getPlayer(playerId);
+        if (!agent) return null;
+        if (agent.isDead()) return this.rejectDead(agent);
+
+        const previousPosition = agent.getPosition();
+        const target: Position = {
+            x: previousPosition.x + delta.x,
+            y: previousPosition.y + delta.y,
+            z: previousPosition.z + delta.z,
+        };
+
+        const check = this.movementValidator.validateMove(previousPosition, target, "reject");
+        if (!check.allowed) {
+            return this.applyCheck(playerId, previousPosition, check);
+        }
+
+        agent.recordPredictedAction(actionId, 'move', delta);
+        agent.move(delta.x, delta.y, delta.z);
 
-        return newPos;
+        const player = agent.reconcile(actionId);
+        return { success: true, player, previousPosition, clamped: false };
     }
 
     /**
-     * 传送玩家（绝对位置）
+     * 传送玩家（绝对位置），目标必须可站立
      * @param playerId 玩家 ID
      * @param position 目标位置
-     * @returns 新位置或 null
+     * @returns 移动结果，玩家不存在时返回 null
      */
-    teleportPlayer(playerId: string, position: Position): Position | null {
+    teleportPlayer(playerId: string, position: Position): MovementOutcome | null {
         const agent = this.agentManager.getPlayer(playerId);
         if (!agent) return null;
+        if (agent.isDead()) return this.rejectDead(agent);
 
-        // 计算位移量
         const current = agent.getPosition();
-        const dx = position.x - current.x;
-        const dy = position.y - current.y;
-        const dz = position.z - current.z;
+        const check = this.movementValidator.validateTeleport(current, position);
+        return this.applyCheck(playerId, current, check);
+    }
+
+    /**
+     * 将校验结果应用到玩家身上
+     */
+    private applyCheck(playerId: string, previousPosition: Position, check: MovementCheck): MovementOutcome | null {
+        const agent = this.agentManager.getPlayer(playerId);
+        if (!agent) return null;
+
+        if (check.allowed) {
+            const { x, y, z } = check.position;
+            agent.teleport(x, y, z);
+        }
+
+        return {
+            success: check.allowed,
+            player: agent.toSnapshot(),
+            previousPosition,
+            clamped: check.clamped,
+            ...(check.rejection && { rejection: check.rejection }),
+        };
+    }
+
+    /**
+     * 死亡的角色不能移动，需要先复活
+     */
+    private rejectDead(agent: PlayerAgent): MovementOutcome {
+        const position = agent.getPosition();
+        return {
+            success: false,
+            player: agent.toSnapshot(),
+            previousPosition: position,
+            clamped: false,
+            rejection: { code: "dead", message: `${agent.getName()} 已死亡，需要先复活` },
+        };
+    }
+
+    /**
+     * 获取玩家背包
+     * @param playerId 玩家 ID
+     * @returns 背包快照，玩家不存在时返回 null
+     */
+    getInventory(playerId: string): InventorySnapshot | null {
+        const agent = this.agentManager.getPlayer(playerId);
+        return agent ? agent.getInventory() : null;
+    }
+
+    /**
+     * 丢弃背包中的物品
+     * @param playerId 玩家 ID
+     * @param itemId 物品 ID
+     * @param quantity 数量
+     */
+    dropItem(playerId: string, itemId: string, quantity: number): InventoryActionResult {
+        const agent = this.agentManager.getPlayer(playerId);
+        if (!agent) {
+            return { success: false, code: "player_not_found", message: "Player not found" };
+        }
+
+        if (!agent.removeItem(itemId, quantity)) {
+            return {
+                success: false,
+                code: "insufficient_items",
+                message: `Not enough ${getItemDefinition(itemId).label} (have ${agent.countItem(itemId)}, need ${quantity})`,
+                inventory: agent.getInventory(),
+            };
+        }
+
+        return {
+            success: true,
+            message: `Dropped ${quantity} x ${getItemDefinition(itemId).label}`,
+            inventory: agent.getInventory(),
+        };
+    }
+
+    /**
+     * 把物品转移给另一名玩家（全有或全无）
+     * @param playerId 发起方玩家 ID
+     * @param targetPlayerId 接收方玩家 ID
+     * @param itemId 物品 ID
+     * @param quantity 数量
+     */
+    transferItem(playerId: string, targetPlayerId: string, itemId: string, quantity: number): InventoryActionResult {
+        const agent = this.agentManager.getPlayer(playerId);
+        if (!agent) {
+            return { success: false, code: "player_not_found", message: "Player not found" };
+        }
+
+        const target = this.agentManager.getPlayer(targetPlayerId);
+        if (!target || targetPlayerId === playerId) {
+            return { success: false, code: "target_not_found", message: "Target player not found", inventory: agent.getInventory() };
+        }
+
+        const label = getItemDefinition(itemId).label;
+
+        if (agent.countItem(itemId) < quantity) {
+            return {
+                success: false,
+                code: "insufficient_items",
+                message: `Not enough ${label} (have ${agent.countItem(itemId)}, need ${quantity})`,
+                inventory: agent.getInventory(),
+            };
+        }
+
+        if (target.getSpaceFor(itemId) < quantity) {
+            return {
+                success: false,
+                code: "inventory_full",
+                message: `${target.getName()}'s inventory cannot hold ${quantity} x ${label}`,
+                inventory: agent.getInventory(),
+            };
+        }
+
+        // 按格子转移，磨损的工具到对方手里仍是原来的耐久
+        const slots = agent.removeItemSlots(itemId, quantity) ?? [];
+        target.addItemSlots(slots);
 
-        // 使用 move 方法实现传送
-        agent.move(dx, dy, dz);
-        return position;
+        return {
+            success: true,
+            message: `Transferred ${quantity} x ${label} to ${target.getName()}`,
+            inventory: agent.getInventory(),
+        };
     }
 
     /**
@@ -158,7 +432,7 @@ export class PlayerService {
      * 保存所有玩家（批量操作）
      */
     async saveAllPlayers(): Promise<void> {
-        const snapshots = this.getAllPlayers();
+        const snapshots = this.agentManager.getPersistentPlayers(); // NPC 不写入玩家存档
         await this.playerRepository.saveBatch(snapshots, this.worldId);
     }
 
@@ -166,8 +440,69 @@ export class PlayerService {
      * 保存脏数据玩家（只保存被修改的玩家）
      */
     async saveDirtyPlayers(): Promise<void> {
+        if (this.pendingDirtySave) return;
+
+        // 先取快照并清除标记：保存期间产生的新修改会留到下一轮
         const dirtySnapshots = this.agentManager.getDirtyPlayers();
-        await this.playerRepository.saveBatch(dirtySnapshots, this.worldId);
+        this.agentManager.clearDirtyFlags();
+        if (dirtySnapshots.length === 0) return;
+
+        this.pendingDirtySave = (async () => {
+            try {
+                await this.playerRepository.saveBatch(dirtySnapshots, this.worldId);
+            } catch (err) {
+                // 保存失败：重新标脏，等待下次重试
+                dirtySnapshots.forEach(snapshot => this.agentManager.markPlayerDirty(snapshot.id));
+                throw err;
+            }
+        })();
+
+        try {
+            await this.pendingDirtySave;
+        } finally {
+            this.pendingDirtySave = null;
+        }
+    }
+
+    /**
+     * 保存有变化的玩家记忆（NPC 不持久化）
+     * @returns 保存的玩家数量
+     */
+    async saveDirtyMemories(): Promise<number> {
+        if (this.isSavingMemories) return 0;
+
+        // 先清除标记再写入：保存期间产生的新记忆会留到下一轮
+        const agents = this.agentManager.getPersistentAgents().filter(agent => agent.hasUnsavedMemories());
+        agents.forEach(agent => agent.markMemoriesSaved());
+        if (agents.length === 0) return 0;
+
+        this.isSavingMemories = true;
+        try {
+            for (const agent of agents) {
+                try {
+                    await agent.persist();
+                } catch (err) {
+                    agent.markMemoriesSaved(false); // 保存失败：重新标脏，等待下次重试
+                    console.error(`❌ Failed to save memories of player ${agent.getId()}:`, err);
+                }
+            }
+            return agents.length;
+        } finally {
+            this.isSavingMemories = false;
+        }
+    }
+
+    /**
+     * 让积累了足够多新记忆的玩家反思（本地摘要，NPC 在自己的思考循环中用 LLM 反思）
+     * @returns 产生的反思条数
+     */
+    async reflectMemories(): Promise<number> {
+        let count = 0;
+        for (const agent of this.agentManager.getPersistentAgents()) {
+            if (!agent.shouldReflect()) continue;
+            if (await agent.reflect()) count++;
+        }
+        return count;
     }
 
     /**
@@ -184,9 +519,12 @@ export class PlayerService {
                 continue;
             }
 
-            // 从快照恢复玩家（保留原 ID，不校验名称冲突）
+            // 从快照恢复玩家（保留原 ID，不校验名称冲突），再恢复长期记忆
             try {
                 this.agentManager.restorePlayer(snapshot);
+                const agent = this.agentManager.getPlayer(snapshot.id);
+                this.relocateIfBlocked(agent);
+                await agent?.hydrate();
                 count++;
             } catch (error) {
                 console.error(`Failed to restore player ${snapshot.id}:`, error);
@@ -195,6 +533,24 @@ export class PlayerService {
         return count;
     }
 
+    /**
+     * 旧存档的位置可能落在墙等不可站立的瓦片上（例如以前的默认出生点 (0, 64, 0)），
+     * 恢复时把位置和出生点修正到最近的可站立位置
+     */
+    private relocateIfBlocked(agent: PlayerAgent | undefined): void {
+        if (!agent) return;
+
+        if (this.movementValidator.checkPosition(agent.getPosition())) {
+            const position = this.movementValidator.findNearestStandable(agent.getPosition());
+            if (position) agent.teleport(position.x, position.y, position.z);
+        }
+
+        if (this.movementValidator.checkPosition(agent.getSpawnPoint())) {
+            const spawnPoint = this.movementValidator.findNearestStandable(agent.getSpawnPoint());
+            if (spawnPoint) agent.setSpawnPoint(spawnPoint);
+        }
+    }
+
     /**
      * 从数据库恢复所有玩家到内存
      * @returns 恢复的玩家数量
@@ -0,0 +1,49 @@
+import type { GameCalendar, Season } from "../../types/game.js";
+
+/**
+ * 游戏日历：在 TimeManager 的天数之上推算年、季节和星期
+ * 类比星露谷物语：一年四季，每季固定天数，一周七天
+ */
+
+/** 季节顺序（一年从春天开始） */
+export const SEASONS: readonly Season[] = ["spring", "summer", "autumn", "winter"];
+
+/** 季节显示名称 */
+export const SEASON_LABELS: Record<Season, string> = {
+    spring: "春",
+    summer: "夏",
+    autumn: "秋",
+    winter: "冬",
+};
+
+/** 星期显示名称（0 = 星期一） */
+export const DAY_OF_WEEK_LABELS: readonly string[] = ["星期一", "星期二", "星期三", "星期四", "星期五", "星期六", "星期日"];
+
+/** 默认每个季节的天数 */
+export const DEFAULT_DAYS_PER_SEASON = 7;
+
+/**
+ * 根据天数计算日历
+ * @param dayIndex 从 0 开始的天数（TimeManager.getDay()）
+ * @param daysPerSeason 每个季节的天数
+ */
+export function resolveCalendar(dayIndex: number, daysPerSeason: number = DEFAULT_DAYS_PER_SEASON): GameCalendar {
+    const day = Math.max(0, Math.floor(dayIndex));
+    const seasonIndex = Math.floor(day / daysPerSeason);
+
+    return {
+        day: day + 1,
+        year: Math.floor(seasonIndex / SEASONS.length) + 1,
+        season: SEASONS[seasonIndex % SEASONS.length]!,
+        dayOfSeason: (day % daysPerSeason) + 1,
+        dayOfWeek: day % DAY_OF_WEEK_LABELS.length,
+        daysPerSeason,
+    };
+}
+
+/**
+ * 日历的中文描述，如 "第 1 年 春 第 3 天（星期三）"
+ */
+export function describeCalendar(calendar: GameCalendar): string {
+    return `第 ${calendar.year} 年 ${SEASON_LABELS[calendar.season]} 第 ${calendar.dayOfSeason} 天（${DAY_OF_WEEK_LABELS[calendar.dayOfWeek]}）`;
+}
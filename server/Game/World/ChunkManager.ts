@@ -0,0 +1,411 @@
+import type { ChunkCoord, ChunkData, Position2D, Tile } from "../../types/terrain.js";
+
+/**
+ * 区块加载器：从存档读取区块，存档里没有时返回 null
+ */
+export type ChunkLoader = (coord: ChunkCoord) => Promise<ChunkData | null>;
+
+/** 默认区块边长（格子） */
+export const DEFAULT_CHUNK_SIZE = 16;
+
+/**
+ * 内存中的区块
+ */
+interface LoadedChunk {
+    cx: number;
+    cy: number;
+    version: number;
+    tiles: Tile[][];
+    /** 上次保存后是否有修改 */
+    dirty: boolean;
+    /** 上次处于活跃范围（附近有角色或被客户端订阅）的时间 */
+    lastActiveAt: number;
+}
+
+/**
+ * ChunkManager - 区块存储
+ * 类比 Minecraft 的区块加载：
+ * - 地图按 chunkSize × chunkSize 切成区块，瓦片只存在于已加载的区块里
+ * - 区块按需从存档异步加载（同一区块的并发加载只会读一次），未加载的区块读到的是 undefined
+ * - 每个区块有自己的版本号，区块内任何瓦片变化都会 +1，并标记为脏数据等待保存
+ * - 长时间不在活跃范围内、且没有未保存修改的区块会被卸载
+ */
+export default class ChunkManager {
+    private width: number;
+    private height: number;
+    private chunkSize: number;
+
+    /** 每次 reset 都会 +1，用来丢弃 reset 之前发起、之后才返回的加载结果 */
+    private generation = 0;
+
+    /** 已加载的区块（"cx,cy" -> 区块） */
+    private chunks: Map<string, LoadedChunk> = new Map();
+
+    /** 正在加载的区块 */
+    private loading: Map<string, Promise<ChunkData | null>> = new Map();
+
+    /** 区块加载器（未设置时所有区块都只存在于内存中） */
+    private loader: ChunkLoader | null = null;
+
+    /** 区块加载 / 卸载监听器（用于维护作物、资源再生等索引） */
+    private loadListeners: Array<(chunk: ChunkData) => void> = [];
+    private unloadListeners: Array<(chunk: ChunkData) => void> = [];
+
+    constructor(width: number, height: number, chunkSize: number = DEFAULT_CHUNK_SIZE) {
+        this.width = width;
+        this.height = height;
+        this.chunkSize = chunkSize;
+        this.reset(width, height, chunkSize);
+    }
+
+    /**
+     * 卸载所有区块（不保存）并换成新的地图尺寸（恢复存档时调用）
+     * @throws chunkSize 不是正整数时抛出错误
+     */
+    reset(width: number, height: number, chunkSize: number = this.chunkSize): void {
+        if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+            throw new Error("Chunk size must be a positive integer");
+        }
+
+        for (const chunk of this.chunks.values()) {
+            this.emitUnload(this.toData(chunk));
+        }
+        this.chunks.clear();
+        this.loading.clear();
+        this.generation++;
+
+        this.width = width;
+        this.height = height;
+        this.chunkSize = chunkSize;
+    }
+
+    /**
+     * 区块边长
+     */
+    getChunkSize(): number {
+        return this.chunkSize;
+    }
+
+    /**
+     * 设置区块加载器
+     */
+    setLoader(loader: ChunkLoader | null): void {
+        this.loader = loader;
+    }
+
+    // ==================== 坐标 ====================
+
+    /**
+     * 瓦片所在的区块
+     */
+    chunkOf(pos: Position2D): ChunkCoord {
+        return { cx: Math.floor(pos.x / this.chunkSize), cy: Math.floor(pos.y / this.chunkSize) };
+    }
+
+    /**
+     * 横向 / 纵向的区块数
+     */
+    getChunkCounts(): { columns: number; rows: number } {
+        return {
+            columns: Math.ceil(this.width / this.chunkSize),
+            rows: Math.ceil(this.height / this.chunkSize),
+        };
+    }
+
+    /**
+     * 区块坐标是否在地图内
+     */
+    isValidChunk({ cx, cy }: ChunkCoord): boolean {
+        const { columns, rows } = this.getChunkCounts();
+        return Number.isInteger(cx) && Number.isInteger(cy) && cx >= 0 && cy >= 0 && cx < columns && cy < rows;
+    }
+
+    /**
+     * 与矩形区域（瓦片坐标）相交的区块，外扩 margin 圈，超出地图的部分会被裁掉
+     */
+    chunksInRect(x: number, y: number, width: number, height: number, margin: number = 0): ChunkCoord[] {
+        const { columns, rows } = this.getChunkCounts();
+        const minX = Math.max(0, Math.floor(x / this.chunkSize) - margin);
+        const minY = Math.max(0, Math.floor(y / this.chunkSize) - margin);
+        const maxX = Math.min(columns - 1, Math.floor((x + Math.max(width, 1) - 1) / this.chunkSize) + margin);
+        const maxY = Math.min(rows - 1, Math.floor((y + Math.max(height, 1) - 1) / this.chunkSize) + margin);
+
+        const result: ChunkCoord[] = [];
+        for (let cy = minY; cy <= maxY; cy++) {
+            for (let cx = minX; cx <= maxX; cx++) {
+                result.push({ cx, cy });
+            }
+        }
+        return result;
+    }
+
+    /**
+     * 以瓦片为中心、radius 圈以内的区块
+     */
+    chunksAround(pos: Position2D, radius: number): ChunkCoord[] {
+        return this.chunksInRect(pos.x, pos.y, 1, 1, radius);
+    }
+
+    // ==================== 瓦片读写 ====================
+
+    /**
+     * 读取瓦片
+     * @returns 瓦片；所在区块未加载时返回 undefined
+     */
+    getTile(pos: Position2D): Tile | undefined {
+        const chunk = this.chunks.get(this.key(this.chunkOf(pos)));
+        if (!chunk) return undefined;
+        return chunk.tiles[pos.y - chunk.cy * this.chunkSize]?.[pos.x - chunk.cx * this.chunkSize];
+    }
+
+    /**
+     * 写入瓦片（区块版本号 +1 并标脏）
+     * @returns 区块版本号；所在区块未加载时返回 null
+     */
+    setTile(pos: Position2D, tile: Tile): number | null {
+        const chunk = this.chunks.get(this.key(this.chunkOf(pos)));
+        const row = chunk?.tiles[pos.y - chunk.cy * this.chunkSize];
+        const localX = pos.x - (chunk?.cx ?? 0) * this.chunkSize;
+        if (!chunk || !row || localX < 0 || localX >= row.length) return null;
+
+        row[localX] = tile;
+        chunk.version++;
+        chunk.dirty = true;
+        return chunk.version;
+    }
+
+    /**
+     * 遍历所有已加载区块里的瓦片
+     */
+    forEachLoadedTile(callback: (tile: Tile, pos: Position2D) => void): void {
+        for (const chunk of this.chunks.values()) {
+            const originX = chunk.cx * this.chunkSize;
+            const originY = chunk.cy * this.chunkSize;
+            chunk.tiles.forEach((row, y) => {
+                row.forEach((tile, x) => callback(tile, { x: originX + x, y: originY + y }));
+            });
+        }
+    }
+
+    // ==================== 加载与卸载 ====================
+
+    /**
+     * 区块是否已加载
+     */
+    isLoaded(coord: ChunkCoord): boolean {
+        return this.chunks.has(this.key(coord));
+    }
+
+    /**
+     * 已加载的区块数
+     */
+    getLoadedCount(): number {
+        return this.chunks.size;
+    }
+
+    /**
+     * 获取已加载区块的数据（tiles 为浅拷贝的行）
+     * @returns 区块数据；未加载时返回 undefined
+     */
+    getChunk(coord: ChunkCoord): ChunkData | undefined {
+        const chunk = this.chunks.get(this.key(coord));
+        return chunk ? this.toData(chunk) : undefined;
+    }
+
+    /**
+     * 确保区块已加载（已加载时直接返回）
+     * @param fallback 存档里没有该区块时用它生成（生成的区块会标脏，等待保存）
+     * @returns 区块数据；坐标无效或既没有存档也没有 fallback 时返回 null
+     */
+    async load(coord: ChunkCoord, fallback?: (coord: ChunkCoord) => Tile[][]): Promise<ChunkData | null> {
+        if (!this.isValidChunk(coord)) return null;
+
+        const key = this.key(coord);
+        const loaded = this.chunks.get(key);
+        if (loaded) return this.toData(loaded);
+
+        let pending = this.loading.get(key);
+        if (!pending) {
+            const request = this.loader ? this.loader({ cx: coord.cx, cy: coord.cy }) : Promise.resolve(null);
+            pending = request.finally(() => {
+                if (this.loading.get(key) === pending) this.loading.delete(key);
+            });
+            this.loading.set(key, pending);
+        }
+
+        const generation = this.generation;
+        const data = await pending;
+
+        // 等待期间地图被重置了：结果属于旧地图，丢弃
+        if (generation !== this.generation) return null;
+
+        // 等待期间可能已经被其它调用放进来了
+        const existing = this.chunks.get(key);
+        if (existing) return this.toData(existing);
+
+        if (data) {
+            return this.put(data, false);
+        }
+        if (fallback) {
+            return this.put({ ...coord, size: this.chunkSize, version: 0, tiles: fallback(coord) }, true);
+        }
+        return null;
+    }
+
+    /**
+     * 把区块放进内存（新世界生成、旧存档迁移、从存档加载）
+     * @param dirty 是否需要保存
+     */
+    put(data: ChunkData, dirty: boolean): ChunkData {
+        const key = this.key(data);
+        const previous = this.chunks.get(key);
+        if (previous) this.emitUnload(this.toData(previous));
+
+        const chunk: LoadedChunk = {
+            cx: data.cx,
+            cy: data.cy,
+            version: data.version,
+            tiles: data.tiles.map(row => [...row]),
+            dirty,
+            lastActiveAt: Date.now(),
+        };
+        this.chunks.set(key, chunk);
+
+        const result = this.toData(chunk);
+        this.emitLoad(result);
+        return result;
+    }
+
+    /**
+     * 把一整张地图切成区块放进内存
+     * @param tiles 完整瓦片 tiles[y][x]
+     * @param dirty 是否需要保存（新世界、旧存档迁移时为 true）
+     */
+    putMap(tiles: Tile[][], dirty: boolean): void {
+        const { columns, rows } = this.getChunkCounts();
+        for (let cy = 0; cy < rows; cy++) {
+            for (let cx = 0; cx < columns; cx++) {
+                this.put({ cx, cy, size: this.chunkSize, version: 0, tiles: sliceChunk(tiles, { cx, cy }, this.chunkSize) }, dirty);
+            }
+        }
+    }
+
+    /**
+     * 记录活跃区块，并卸载长时间不活跃、没有未保存修改的区块
+     * @param active 当前活跃的区块（附近有角色或被客户端订阅）
+     * @param idleMs 不活跃多久后卸载
+     * @param now 当前时间
+     * @returns 输出：被卸载的区块坐标
+     */
+    evictIdle(active: Iterable<ChunkCoord>, idleMs: number, now: number = Date.now()): ChunkCoord[] {
+        for (const coord of active) {
+            const chunk = this.chunks.get(this.key(coord));
+            if (chunk) chunk.lastActiveAt = now;
+        }
+
+        const evicted: ChunkCoord[] = [];
+        for (const [key, chunk] of this.chunks) {
+            if (chunk.dirty || now - chunk.lastActiveAt < idleMs) continue;
+            this.chunks.delete(key);
+            this.emitUnload(this.toData(chunk));
+            evicted.push({ cx: chunk.cx, cy: chunk.cy });
+        }
+        return evicted;
+    }
+
+    // ==================== 脏数据 ====================
+
+    /**
+     * 是否有未保存的区块
+     */
+    hasDirtyChunks(): boolean {
+        for (const chunk of this.chunks.values()) {
+            if (chunk.dirty) return true;
+        }
+        return false;
+    }
+
+    /**
+     * 取出所有未保存区块的快照，并清除脏标记（保存期间产生的新修改会留到下一轮）
+     */
+    takeDirtyChunks(): ChunkData[] {
+        const result: ChunkData[] = [];
+        for (const chunk of this.chunks.values()) {
+            if (!chunk.dirty) continue;
+            chunk.dirty = false;
+            result.push(this.toData(chunk));
+        }
+        return result;
+    }
+
+    /**
+     * 保存失败时把快照放回：仍在内存里的区块重新标脏，已经被卸载的区块按快照重新放回内存
+     */
+    restoreDirtyChunks(chunks: ChunkData[]): void {
+        for (const data of chunks) {
+            const chunk = this.chunks.get(this.key(data));
+            if (chunk) {
+                chunk.dirty = true;
+            } else {
+                this.put(data, true);
+            }
+        }
+    }
+
+    // ==================== 监听器 ====================
+
+    /**
+     * 注册区块加载监听器
+     */
+    onChunkLoad(callback: (chunk: ChunkData) => void): void {
+        this.loadListeners.push(callback);
+    }
+
+    /**
+     * 注册区块卸载监听器
+     */
+    onChunkUnload(callback: (chunk: ChunkData) => void): void {
+        this.unloadListeners.push(callback);
+    }
+
+    private emitLoad(chunk: ChunkData): void {
+        this.loadListeners.forEach(callback => {
+            try {
+                callback(chunk);
+            } catch (error) {
+                console.error("Error in chunk load listener:", error);
+            }
+        });
+    }
+
+    private emitUnload(chunk: ChunkData): void {
+        this.unloadListeners.forEach(callback => {
+            try {
+                callback(chunk);
+            } catch (error) {
+                console.error("Error in chunk unload listener:", error);
+            }
+        });
+    }
+
+    private toData(chunk: LoadedChunk): ChunkData {
+        return {
+            cx: chunk.cx,
+            cy: chunk.cy,
+            size: this.chunkSize,
+            version: chunk.version,
+            tiles: chunk.tiles.map(row => [...row]),
+        };
+    }
+
+    private key({ cx, cy }: ChunkCoord): string {
+        return `${cx},${cy}`;
+    }
+}
+
+/**
+ * 从完整地图中切出一个区块的瓦片（地图边缘的区块会比 size 小）
+ */
+export function sliceChunk(tiles: Tile[][], { cx, cy }: ChunkCoord, size: number): Tile[][] {
+    return tiles.slice(cy * size, (cy + 1) * size).map(row => row.slice(cx * size, (cx + 1) * size));
+}
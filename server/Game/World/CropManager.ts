@@ -0,0 +1,169 @@
+import WorldManager from "./WorldManager.js";
+import { getCropDefinition, isCropInSeason, isCropMature } from "./CropRegistry.js";
+import type { ChunkData, Position2D, Tile } from "../../types/terrain.js";
+import type { Season } from "../../types/game.js";
+
+/**
+ * CropManager - 作物生长模拟
+ * 类比星露谷物语的农场：
+ * - 每个世界 tick 推进已浇水作物的生长进度（不在生长季的作物停止生长）
+ * - 累计满 ticksPerStage 后进入下一阶段（写回瓦片并广播 tile_update）
+ * - 每天开始时所有耕地变干，需要重新浇水
+ *
+ * 阶段内的 tick 进度保存在内存里，只有在瓦片被写回时（换阶段、每日变干）
+ * 才会作为 growthTicks 持久化，避免每个 tick 都产生脏数据。
+ *
+ * 只有已加载区块里的作物会生长：区块卸载时作物移出索引，重新加载时从 growthTicks 接着长。
+ */
+export default class CropManager {
+    private worldManager: WorldManager;
+
+    /** 正在生长的作物位置（"x,y"） */
+    private crops: Set<string> = new Set();
+
+    /** 每株作物在当前阶段累计的 tick 数 */
+    private progress: Map<string, number> = new Map();
+
+    constructor(worldManager: WorldManager) {
+        this.worldManager = worldManager;
+
+        // 种植、收获、浇水等任何瓦片变化都会同步到索引
+        this.worldManager.onTileChange((pos, tile) => this.track(pos, tile));
+        this.worldManager.onChunkLoad(chunk => this.forEachTile(chunk, (pos, tile) => this.track(pos, tile)));
+        this.worldManager.onChunkUnload(chunk => this.forEachTile(chunk, pos => this.untrack(pos)));
+        this.rebuildIndex();
+    }
+
+    /**
+     * 重新扫描已加载的区块建立作物索引（地形从存档恢复后调用）
+     */
+    rebuildIndex(): void {
+        this.crops.clear();
+        this.progress.clear();
+
+        const planted = this.worldManager.findTiles(tile => tile.type === 'FARMLAND' && !!tile.state?.crop);
+        for (const { pos, tile } of planted) {
+            this.track(pos, tile);
+        }
+    }
+
+    /**
+     * 推进作物生长（由 TimeManager 的 tick 推进驱动）
+     * @param ticks 本次推进的世界 tick 数
+     * @param season 当前季节（不传时不检查生长季）
+     */
+    advance(ticks: number, season?: Season): void {
+        for (const key of this.crops) {
+            const pos = this.parseKey(key);
+            const tile = this.worldManager.getTile(pos);
+            const cropId = tile.state?.crop;
+            const definition = cropId ? getCropDefinition(cropId) : undefined;
+            if (!definition) continue;
+
+            const stage = tile.state?.growthStage ?? 0;
+            if (isCropMature(definition, stage)) continue;
+
+            // 缺水的作物不生长
+            if (definition.requiresWater && !tile.state?.watered) continue;
+
+            // 过了生长季的作物不生长
+            if (season && !isCropInSeason(definition, season)) continue;
+
+            let elapsed = (this.progress.get(key) ?? 0) + ticks;
+            let nextStage = stage;
+            while (elapsed >= definition.ticksPerStage && !isCropMature(definition, nextStage)) {
+                elapsed -= definition.ticksPerStage;
+                nextStage++;
+            }
+
+            if (nextStage === stage) {
+                this.progress.set(key, elapsed);
+                continue;
+            }
+
+            const success = this.worldManager.setTile(pos, {
+                ...tile,
+                state: { ...tile.state, growthStage: nextStage, growthTicks: elapsed },
+            }, tile.version ?? 0);
+
+            if (success) {
+                this.progress.set(key, elapsed);
+            }
+        }
+    }
+
+    /**
+     * 新的一天：所有已浇水的耕地变干
+     * @param day 新的天数
+     */
+    startNewDay(day: number): void {
+        const wateredTiles = this.worldManager.findTiles(tile => tile.type === 'FARMLAND' && !!tile.state?.watered);
+
+        for (const { pos, tile } of wateredTiles) {
+            const key = this.toKey(pos);
+            this.worldManager.setTile(pos, {
+                ...tile,
+                state: {
+                    ...tile.state,
+                    watered: false,
+                    // 顺便把阶段内进度写回存档
+                    ...(this.crops.has(key) && { growthTicks: this.progress.get(key) ?? 0 }),
+                },
+            }, tile.version ?? 0);
+        }
+
+        if (wateredTiles.length > 0) {
+            console.log(`🌱 Day ${day}: ${wateredTiles.length} farmland tiles dried out`);
+        }
+    }
+
+    /**
+     * 获取正在生长的作物数量（用于监控）
+     */
+    getCropCount(): number {
+        return this.crops.size;
+    }
+
+    /**
+     * 根据瓦片变化更新作物索引
+     * 新种下的作物从瓦片上的 growthTicks 开始计时；已在索引中的作物以内存进度为准
+     */
+    private track(pos: Position2D, tile: Tile): void {
+        const key = this.toKey(pos);
+
+        if (tile.type !== 'FARMLAND' || !tile.state?.crop) {
+            this.crops.delete(key);
+            this.progress.delete(key);
+            return;
+        }
+
+        if (!this.crops.has(key)) {
+            this.crops.add(key);
+            this.progress.set(key, tile.state.growthTicks ?? 0);
+        }
+    }
+
+    /**
+     * 区块卸载时把作物移出索引
+     */
+    private untrack(pos: Position2D): void {
+        const key = this.toKey(pos);
+        this.crops.delete(key);
+        this.progress.delete(key);
+    }
+
+    private forEachTile(chunk: ChunkData, callback: (pos: Position2D, tile: Tile) => void): void {
+        chunk.tiles.forEach((row, y) => {
+            row.forEach((tile, x) => callback({ x: chunk.cx * chunk.size + x, y: chunk.cy * chunk.size + y }, tile));
+        });
+    }
+
+    private toKey(pos: Position2D): string {
+        return `${pos.x},${pos.y}`;
+    }
+
+    private parseKey(key: string): Position2D {
+        const [x, y] = key.split(",").map(Number);
+        return { x: x ?? 0, y: y ?? 0 };
+    }
+}
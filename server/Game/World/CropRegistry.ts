@@ -0,0 +1,87 @@
+import type { CropDefinition } from "../../types/crop.js";
+import type { Season } from "../../types/game.js";
+
+/**
+ * 作物配置表
+ * stages 包含种子阶段：growthStage 从 0 开始，到 stages - 1 时成熟
+ */
+const CROP_DEFINITIONS: Map<string, CropDefinition> = new Map([
+    ["wheat", {
+        id: "wheat",
+        label: "小麦",
+        stages: 5,
+        ticksPerStage: 60,
+        requiresWater: true,
+        seasons: ["spring", "summer", "autumn"],
+        yields: [
+            { itemId: "wheat", min: 1, max: 2 },
+            { itemId: "wheat_seeds", min: 0, max: 2 },
+        ],
+    }],
+    ["carrot", {
+        id: "carrot",
+        label: "胡萝卜",
+        stages: 4,
+        ticksPerStage: 80,
+        requiresWater: true,
+        seasons: ["spring", "autumn"],
+        yields: [{ itemId: "carrot", min: 1, max: 3 }],
+    }],
+    ["potato", {
+        id: "potato",
+        label: "土豆",
+        stages: 4,
+        ticksPerStage: 100,
+        requiresWater: false,
+        seasons: ["spring", "summer"],
+        yields: [{ itemId: "potato", min: 2, max: 4 }],
+    }],
+]);
+
+/**
+ * 获取作物定义
+ * @param cropId 作物 ID
+ * @returns 作物定义，未登记时返回 undefined
+ */
+export function getCropDefinition(cropId: string): CropDefinition | undefined {
+    return CROP_DEFINITIONS.get(cropId);
+}
+
+/**
+ * 列出所有已登记的作物
+ */
+export function listCropDefinitions(): CropDefinition[] {
+    return Array.from(CROP_DEFINITIONS.values());
+}
+
+/**
+ * 作物在该季节能否种植和生长
+ * @param definition 作物定义
+ * @param season 当前季节
+ */
+export function isCropInSeason(definition: CropDefinition, season: Season): boolean {
+    return definition.seasons.includes(season);
+}
+
+/**
+ * 作物是否已成熟
+ * @param definition 作物定义
+ * @param growthStage 当前生长阶段
+ */
+export function isCropMature(definition: CropDefinition, growthStage: number): boolean {
+    return growthStage >= definition.stages - 1;
+}
+
+/**
+ * 计算一次收获的掉落物（每个元素代表一个物品）
+ * @param definition 作物定义
+ * @param random 随机数生成器（默认 Math.random）
+ */
+export function rollCropYields(definition: CropDefinition, random: () => number = Math.random): string[] {
+    const drops: string[] = [];
+    for (const { itemId, min, max } of definition.yields) {
+        const count = min + Math.floor(random() * (max - min + 1));
+        for (let i = 0; i < count; i++) drops.push(itemId);
+    }
+    return drops;
+}
@@ -0,0 +1,248 @@
+import WorldManager from "./WorldManager.js";
+import type { Position, MoveRejection } from "../../types/agent.js";
+import type { Position2D } from "../../types/terrain.js";
+import { to2D } from "./utils.js";
+
+/**
+ * 移动校验模式
+ * - reject：路径上任何一格被阻挡，整次移动作废
+ * - clamp：沿路径走到被阻挡前的最后一格
+ */
+export type MovementMode = "reject" | "clamp";
+
+/**
+ * 移动校验结果
+ */
+export interface MovementCheck {
+    /** 是否允许移动（clamp 模式下只要能前进一格即为 true） */
+    allowed: boolean;
+    /** 校验后的最终位置（被拒绝时为起点） */
+    position: Position;
+    /** 是否被截断（clamp 模式） */
+    clamped: boolean;
+    /** 阻挡原因（被拒绝或被截断时） */
+    rejection?: MoveRejection;
+}
+
+/**
+ * 移动校验器 - 所有移动路径（HTTP、WebSocket、NPC）的统一入口
+ * 类比 Minecraft 服务端的碰撞检测：客户端说"我走到了这里"，
+ * 服务器根据地形决定这一步是否合法。
+ *
+ * - 3D 位置通过 to2D 换算为瓦片坐标（与 InteractionManager 一致）
+ * - 检查边界（isInBounds）和可通行性（isWalkable）
+ * - 检查路径穿过的每一格，防止一次大位移穿墙或斜着挤过墙角
+ */
+export default class MovementValidator {
+    private worldManager: WorldManager;
+
+    /**
+     * @param worldManager 世界管理器（提供地形查询）
+     */
+    constructor(worldManager: WorldManager) {
+        this.worldManager = worldManager;
+    }
+
+    /**
+     * 检查某个 3D 位置是否可站立
+     * @param pos 3D 位置
+     * @returns 可站立返回 null，否则返回阻挡原因
+     */
+    checkPosition(pos: Position): MoveRejection | null {
+        const tilePos = to2D(pos);
+
+        if (!this.worldManager.isInBounds(tilePos)) {
+            return {
+                code: "out_of_bounds",
+                message: `目标 (${tilePos.x}, ${tilePos.y}) 超出地图边界`,
+                tile: tilePos,
+            };
+        }
+
+        if (!this.worldManager.isWalkable(tilePos)) {
+            const tileType = this.worldManager.getTile(tilePos).type;
+            return {
+                code: "blocked_tile",
+                message: `目标 (${tilePos.x}, ${tilePos.y}) 被 ${tileType} 阻挡`,
+                tile: tilePos,
+                tileType,
+            };
+        }
+
+        return null;
+    }
+
+    /**
+     * 校验一次相对/连续移动（检查路径穿过的每一格）
+     * 斜着穿过格点时，两侧的格子都被阻挡就不能通过（不能从两堵墙的缝隙里挤过去）
+     * @param from 起点
+     * @param to 终点
+     * @param mode 校验模式（默认 reject）
+     */
+    validateMove(from: Position, to: Position, mode: MovementMode = "reject"): MovementCheck {
+        const invalid = this.checkFinite(from, to);
+        if (invalid) return invalid;
+
+        // 起点格不检查（允许卡在墙里的实体走出来）
+        for (const crossing of this.tilesAlong(from, to)) {
+            const rejection = this.checkCorner(from, crossing.corner) ?? this.checkPosition(this.atTile(from, crossing.tile));
+            if (!rejection) continue;
+
+            // clamp：停在被阻挡的格子之前的最后一个整步位置
+            const steps = Math.max(1, Math.ceil(Math.max(Math.abs(to.x - from.x), Math.abs(to.z - from.z))));
+            const reached = Math.ceil(crossing.t * steps - 1e-9) - 1;
+            if (mode === "clamp" && reached >= 1) {
+                const t = reached / steps;
+                const position: Position = {
+                    x: from.x + (to.x - from.x) * t,
+                    y: from.y + (to.y - from.y) * t,
+                    z: from.z + (to.z - from.z) * t,
+                };
+                return { allowed: true, position, clamped: true, rejection };
+            }
+            return { allowed: false, position: { ...from }, clamped: false, rejection };
+        }
+
+        return { allowed: true, position: { ...to }, clamped: false };
+    }
+
+    /**
+     * 校验一次传送（只检查目标点）
+     * @param from 起点
+     * @param to 目标位置
+     */
+    validateTeleport(from: Position, to: Position): MovementCheck {
+        const invalid = this.checkFinite(from, to);
+        if (invalid) return invalid;
+
+        const rejection = this.checkPosition(to);
+        if (rejection) {
+            return { allowed: false, position: { ...from }, clamped: false, rejection };
+        }
+        return { allowed: true, position: { ...to }, clamped: false };
+    }
+
+    /**
+     * 目标坐标必须是有限数字（NaN 会让逐格检查的步数变成 NaN，从而跳过所有碰撞检查）
+     * @returns 合法时返回 null，否则返回被拒绝的校验结果
+     */
+    private checkFinite(from: Position, to: Position): MovementCheck | null {
+        if (Number.isFinite(to.x) && Number.isFinite(to.y) && Number.isFinite(to.z)) {
+            return null;
+        }
+        return {
+            allowed: false,
+            position: { ...from },
+            clamped: false,
+            rejection: { code: "invalid_move", message: "目标坐标必须是有限数字" },
+        };
+    }
+
+    /**
+     * 线段 from -> to 依次穿过的瓦片（网格遍历，不含起点格）
+     * @returns 每一格及进入它时的路径比例 t；恰好穿过格点时附带两侧的格子
+     */
+    private tilesAlong(from: Position, to: Position): Array<{ tile: Position2D; t: number; corner?: [Position2D, Position2D] }> {
+        const dx = to.x - from.x;
+        const dz = to.z - from.z;
+        const stepX = Math.sign(dx);
+        const stepY = Math.sign(dz);
+        const end = to2D(to);
+        let { x, y } = to2D(from);
+
+        // 下一次跨过竖直 / 水平格线时的 t，以及跨过一整格需要的 t
+        let nextX = stepX === 0 ? Infinity : ((stepX > 0 ? x + 1 : x) - from.x) / dx;
+        let nextY = stepY === 0 ? Infinity : ((stepY > 0 ? y + 1 : y) - from.z) / dz;
+        const deltaX = stepX === 0 ? Infinity : Math.abs(1 / dx);
+        const deltaY = stepY === 0 ? Infinity : Math.abs(1 / dz);
+
+        const tiles: Array<{ tile: Position2D; t: number; corner?: [Position2D, Position2D] }> = [];
+        let remaining = Math.abs(end.x - x) + Math.abs(end.y - y);
+        while (remaining > 0) {
+            if (nextX === nextY) {
+                const corner: [Position2D, Position2D] = [{ x: x + stepX, y }, { x, y: y + stepY }];
+                x += stepX;
+                y += stepY;
+                tiles.push({ tile: { x, y }, t: nextX, corner });
+                nextX += deltaX;
+                nextY += deltaY;
+                remaining -= 2;
+            } else if (nextX < nextY) {
+                x += stepX;
+                tiles.push({ tile: { x, y }, t: nextX });
+                nextX += deltaX;
+                remaining--;
+            } else {
+                y += stepY;
+                tiles.push({ tile: { x, y }, t: nextY });
+                nextY += deltaY;
+                remaining--;
+            }
+        }
+        return tiles;
+    }
+
+    /**
+     * 斜穿格点时检查两侧的格子，两侧都被阻挡才算挡住
+     */
+    private checkCorner(from: Position, corner?: [Position2D, Position2D]): MoveRejection | null {
+        if (!corner) return null;
+        const [first, second] = corner;
+        const rejection = this.checkPosition(this.atTile(from, first));
+        if (!rejection || !this.checkPosition(this.atTile(from, second))) return null;
+        return {
+            ...rejection,
+            message: `不能从 (${first.x}, ${first.y}) 和 (${second.x}, ${second.y}) 之间斜穿过去`,
+        };
+    }
+
+    /**
+     * 某一格在 from 高度上的 3D 位置
+     */
+    private atTile(from: Position, tile: Position2D): Position {
+        return { x: tile.x, y: from.y, z: tile.y };
+    }
+
+    /**
+     * 世界出生点：离地图中心最近的可站立位置
+     * 新玩家、没有指定位置的 NPC 都从这里出生
+     * @returns 可站立位置，整张地图都不可站立时返回 null
+     */
+    getWorldSpawn(): Position | null {
+        const { width, height } = this.worldManager.getSize();
+        return this.findNearestStandable({ x: Math.floor(width / 2), y: 64, z: Math.floor(height / 2) });
+    }
+
+    /**
+     * 查找离某个位置最近的可站立位置（按曼哈顿距离一圈圈向外搜索）
+     * 用于出生点、NPC 生成等需要"落在空地上"的场景
+     * @param pos 期望位置（y 轴高度保持不变）
+     * @returns 可站立位置，整张地图都不可站立时返回 null
+     */
+    findNearestStandable(pos: Position): Position | null {
+        if (!this.checkPosition(pos)) {
+            return { ...pos };
+        }
+
+        const { width, height } = this.worldManager.getSize();
+        const origin = to2D(pos);
+        const clampedX = Math.min(Math.max(origin.x, 0), width - 1);
+        const clampedY = Math.min(Math.max(origin.y, 0), height - 1);
+        const maxRadius = width + height;
+
+        for (let radius = 0; radius <= maxRadius; radius++) {
+            for (let dx = -radius; dx <= radius; dx++) {
+                const dy = radius - Math.abs(dx);
+                for (const y of dy === 0 ? [clampedY] : [clampedY - dy, clampedY + dy]) {
+                    const x = clampedX + dx;
+                    const tile = { x, y };
+                    if (this.worldManager.isInBounds(tile) && this.worldManager.isWalkable(tile)) {
+                        return { x, y: pos.y, z: y };
+                    }
+                }
+            }
+        }
+
+        return null;
+    }
+}
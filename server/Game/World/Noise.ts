@@ -0,0 +1,101 @@
+/**
+ * 地形生成用的二维噪声
+ * - 值噪声（value noise）：整数格点上取随机值，格点之间做平滑插值
+ * - 分形叠加（fBm）：多个频率逐倍升高、振幅逐倍降低的噪声层相加，得到有大块起伏也有细节的地形
+ * 格点值由种子随机数预先打乱的排列表决定，同一个随机数来源总是得到同一张噪声图
+ */
+
+
+/** 排列表大小（格点坐标按它取模，2 的幂方便位运算） */
+const TABLE_SIZE = 256;
+
+
+/**
+ * 二维噪声函数：输入坐标，输出 [0, 1] 之间的值
+ */
+export type Noise2D = (x: number, y: number) => number;
+
+
+/**
+ * 分形噪声参数
+ */
+export interface FractalNoiseOptions {
+    /** 第一层的缩放（越大起伏越平缓，单位：格子） */
+    scale: number;
+    /** 叠加的层数 */
+    octaves: number;
+    /** 每层振幅的衰减倍率 */
+    persistence?: number;
+    /** 每层频率的增长倍率 */
+    lacunarity?: number;
+}
+
+
+/**
+ * 创建值噪声
+ * @param random 随机数来源（决定格点值和排列表）
+ */
+export function createValueNoise(random: () => number): Noise2D {
+    const values = Array.from({ length: TABLE_SIZE }, () => random());
+    const permutation = Array.from({ length: TABLE_SIZE }, (_, i) => i);
+    for (let i = TABLE_SIZE - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [permutation[i], permutation[j]] = [permutation[j]!, permutation[i]!];
+    }
+
+    const lattice = (x: number, y: number): number => {
+        const index = permutation[(permutation[x & (TABLE_SIZE - 1)]! + y) & (TABLE_SIZE - 1)]!;
+        return values[index]!;
+    };
+
+    return (x, y) => {
+        const x0 = Math.floor(x);
+        const y0 = Math.floor(y);
+        const tx = smoothstep(x - x0);
+        const ty = smoothstep(y - y0);
+
+        const top = lerp(lattice(x0, y0), lattice(x0 + 1, y0), tx);
+        const bottom = lerp(lattice(x0, y0 + 1), lattice(x0 + 1, y0 + 1), tx);
+        return lerp(top, bottom, ty);
+    };
+}
+
+
+/**
+ * 创建分形噪声（多层值噪声叠加，结果归一化到 [0, 1]）
+ * 每一层使用独立的噪声表，避免各层在原点附近重合
+ * @param random 随机数来源
+ * @param options 缩放、层数、振幅衰减和频率增长
+ */
+export function createFractalNoise(random: () => number, options: FractalNoiseOptions): Noise2D {
+    const persistence = options.persistence ?? 0.5;
+    const lacunarity = options.lacunarity ?? 2;
+    const octaves = Math.max(1, Math.floor(options.octaves));
+    const layers = Array.from({ length: octaves }, () => createValueNoise(random));
+
+    return (x, y) => {
+        let frequency = 1 / Math.max(options.scale, 1e-6);
+        let amplitude = 1;
+        let total = 0;
+        let weight = 0;
+
+        for (const layer of layers) {
+            total += layer(x * frequency, y * frequency) * amplitude;
+            weight += amplitude;
+            amplitude *= persistence;
+            frequency *= lacunarity;
+        }
+
+        return total / weight;
+    };
+}
+
+
+function smoothstep(t: number): number {
+    return t * t * (3 - 2 * t);
+}
+
+
+function lerp(a: number, b: number, t: number): number {
+    return a + (b - a) * t;
+}
@@ -0,0 +1,47 @@
+import type { Rectangle } from "../../types/terrain.js";
+
+/**
+ * 资源再生规则
+ * 时间都按游戏天计算（由世界 tick 换算），暂停时间时资源也不会再生
+ */
+export interface RegrowthRules {
+    /** 树被砍倒后留下树苗，多少天后长回大树 */
+    saplingDays: number;
+    /** 岩石被挖走后留下的裸土，多少天后长回草地 */
+    grassDays: number;
+    /** 采石场里的岩石被挖走后，多少天后重新出现 */
+    quarryDays: number;
+    /** 重新长出的树需要砍几下 */
+    treeDurability: number;
+    /** 重新出现的岩石需要挖几下 */
+    rockDurability: number;
+    /** 采石场区域（区域内岩石密集，挖走后会重新出现） */
+    quarries: Rectangle[];
+}
+
+/** 默认的再生时间和资源耐久（采石场区域按地图大小另行指定） */
+export const DEFAULT_REGROWTH_RULES: Omit<RegrowthRules, "quarries"> = {
+    saplingDays: 3,
+    grassDays: 1,
+    quarryDays: 2,
+    treeDurability: 3,
+    rockDurability: 5,
+};
+
+/**
+ * 默认的采石场：地图左上角靠近边界墙的一块区域
+ * @param width 地图宽度
+ * @param height 地图高度
+ */
+export function defaultQuarries(width: number, height: number): Rectangle[] {
+    const size = Math.floor(Math.min(width, height) / 8);
+    if (size < 2) return [];
+    return [{ x: 2, y: 2, width: size, height: size }];
+}
+
+/**
+ * 坐标是否在某个采石场内
+ */
+export function isInQuarry(rules: RegrowthRules, x: number, y: number): boolean {
+    return rules.quarries.some(q => x >= q.x && x < q.x + q.width && y >= q.y && y < q.y + q.height);
+}
@@ -0,0 +1,523 @@
+import type {
+    Position2D,
+    TerrainGeneratorInfo,
+    TerrainGeneratorParam,
+    TerrainGeneratorSpec,
+    TerrainType,
+    Tile,
+} from "../../types/terrain.js";
+import { isInQuarry, type RegrowthRules } from "./RegrowthRules.js";
+import { createFractalNoise, type Noise2D } from "./Noise.js";
+
+/**
+ * 地形生成器
+ * - 每个生成器按名称登记，世界创建时按名称选择，并可通过参数调整（未指定的参数使用默认值）
+ * - classic：旧版逐格独立随机撒水、树、岩石（没有记录生成器的旧存档按它重建）
+ * - noise：高度 / 湿度分形噪声 → 生物群系 → 成片的湖泊和沙滩、森林、岩石露头，并保证可行走区域互相连通
+ */
+
+
+/**
+ * 生成一张地图所需的上下文（由 WorldManager 提供）
+ */
+export interface TerrainGenerationContext {
+    width: number;
+    height: number;
+    /** 种子随机数（同一种子总是得到同一串随机数） */
+    random: () => number;
+    /** 已按生成器定义补全并校验过的参数 */
+    params: Record<string, number>;
+    /** 资源再生规则（采石场区域、树和岩石的耐久） */
+    regrowth: RegrowthRules;
+    /** 瓦片类型是否可行走（与 WorldManager 的瓦片配置一致） */
+    isWalkable: (type: TerrainType) => boolean;
+}
+
+/**
+ * 地形生成器接口
+ */
+export interface TerrainGenerator extends TerrainGeneratorInfo {
+    generate(context: TerrainGenerationContext): Tile[][];
+}
+
+
+/** 新世界默认使用的生成器 */
+export const DEFAULT_TERRAIN_GENERATOR = "noise";
+/** 没有记录生成器的旧存档使用的生成器 */
+export const LEGACY_TERRAIN_GENERATOR = "classic";
+
+
+// ==================== 公共步骤 ====================
+
+/**
+ * 创建四周是墙、内部全部为指定类型的地图
+ */
+export function createWalledMap(width: number, height: number, fill: (x: number, y: number) => Tile): Tile[][] {
+    const tiles: Tile[][] = [];
+    for (let y = 0; y < height; y++) {
+        const row: Tile[] = [];
+        for (let x = 0; x < width; x++) {
+            const border = x === 0 || x === width - 1 || y === 0 || y === height - 1;
+            row.push(border ? { type: 'WALL' } : fill(x, y));
+        }
+        tiles.push(row);
+    }
+    return tiles;
+}
+
+/**
+ * 采石场：区域内的草地有较高概率是岩石，挖走后会重新出现
+ */
+export function applyQuarries(tiles: Tile[][], rules: RegrowthRules, random: () => number): void {
+    const height = tiles.length;
+    const width = tiles[0]?.length ?? 0;
+
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            const row = tiles[y];
+            if (row?.[x]?.type !== 'GRASS' || !isInQuarry(rules, x, y)) continue;
+            if (random() < 0.35) {
+                row[x] = { type: 'ROCK', state: { durability: rules.rockDurability } };
+            }
+        }
+    }
+}
+
+/**
+ * 地图中心旁边放一个公共工作台，新玩家不用先造工作台也能合成工具
+ */
+export function placeWorkbench(tiles: Tile[][]): void {
+    const height = tiles.length;
+    const width = tiles[0]?.length ?? 0;
+
+    const workbenchRow = tiles[Math.floor(height / 2)];
+    const workbenchX = Math.floor(width / 2) + 2;
+    if (workbenchRow && workbenchX < width - 1) {
+        workbenchRow[workbenchX] = { type: 'WORKBENCH' };
+    }
+}
+
+/**
+ * 保证所有可行走区域互相连通：
+ * 以最大的可行走区域为主区域，从主区域做一次 0-1 BFS 得到每个瓦片“拆掉障碍最少”的来路，
+ * 其余每个区域沿来路接到主区域，路上的障碍换成可行走的地面（水 → 沙洲，岩石 → 石地，树 / 树苗 → 草地）。
+ * 边界墙和工作台等建筑不会被拆。
+ * @returns 输出：被打通的瓦片数
+ */
+export function connectWalkableRegions(tiles: Tile[][], isWalkable: (type: TerrainType) => boolean): number {
+    const height = tiles.length;
+    const width = tiles[0]?.length ?? 0;
+    const index = (x: number, y: number) => y * width + x;
+
+    const walkableAt = (x: number, y: number) => {
+        const tile = tiles[y]?.[x];
+        return tile !== undefined && isWalkable(tile.type);
+    };
+    const carvableAt = (x: number, y: number) => {
+        const tile = tiles[y]?.[x];
+        return tile !== undefined && CARVED_INTO[tile.type] !== undefined
+            && x > 0 && y > 0 && x < width - 1 && y < height - 1;
+    };
+
+    const regions = labelRegions(width, height, walkableAt);
+    if (regions.length <= 1) return 0;
+
+    regions.sort((a, b) => b.length - a.length);
+    const previous = findCheapestParents(width, height, regions[0]!, walkableAt, carvableAt);
+
+    // 已经接到主区域的瓦片：沿来路回溯时碰到它们就可以停下（多个区域共用同一段路只拆一次）
+    const connected = new Uint8Array(width * height);
+    for (const { x, y } of regions[0]!) connected[index(x, y)] = 1;
+
+    let carved = 0;
+    for (const region of regions.slice(1)) {
+        const start = index(region[0]!.x, region[0]!.y);
+        if (previous[start] === UNREACHED) continue; // 被建筑完全围住，无法打通
+
+        for (let at = start; at !== NO_PARENT && !connected[at]; at = previous[at]!) {
+            connected[at] = 1;
+            const x = at % width;
+            const row = tiles[Math.floor(at / width)]!;
+            const into = CARVED_INTO[row[x]!.type];
+            if (into) {
+                row[x] = { type: into };
+                carved++;
+            }
+        }
+    }
+
+    return carved;
+}
+
+/** 打通道路时障碍换成的地面 */
+const CARVED_INTO: Partial<Record<TerrainType, TerrainType>> = {
+    WATER: 'SAND',
+    ROCK: 'STONE',
+    TREE: 'GRASS',
+    SAPLING: 'GRASS',
+};
+
+/**
+ * 标记所有四连通区域
+ */
+function labelRegions(width: number, height: number, inside: (x: number, y: number) => boolean): Position2D[][] {
+    const seen = new Uint8Array(width * height);
+    const regions: Position2D[][] = [];
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (seen[y * width + x] || !inside(x, y)) continue;
+            const region = labelFrom(width, height, { x, y }, inside, seen);
+            regions.push(region);
+        }
+    }
+
+    return regions;
+}
+
+/**
+ * 从一个起点洪水填充，返回所在的四连通区域
+ */
+function labelFrom(
+    width: number,
+    height: number,
+    start: Position2D,
+    inside: (x: number, y: number) => boolean,
+    seen: Uint8Array = new Uint8Array(width * height),
+): Position2D[] {
+    const region: Position2D[] = [];
+    const stack = [start];
+    seen[start.y * width + start.x] = 1;
+
+    while (stack.length > 0) {
+        const current = stack.pop()!;
+        region.push(current);
+        for (const next of neighbours(current, width, height)) {
+            const key = next.y * width + next.x;
+            if (seen[key] || !inside(next.x, next.y)) continue;
+            seen[key] = 1;
+            stack.push(next);
+        }
+    }
+
+    return region;
+}
+
+/** findCheapestParents 中主区域瓦片的来路 */
+const NO_PARENT = -1;
+/** findCheapestParents 中无法到达的瓦片的来路 */
+const UNREACHED = -2;
+
+/**
+ * 多源 0-1 BFS：经过可行走瓦片代价 0，拆除障碍代价 1，从 sources 出发求每个瓦片代价最小的来路
+ * 整张地图只搜索一次，代价与瓦片数成正比（与区域数量无关）
+ * @returns 输出：每个瓦片上一步的下标（sources 为 NO_PARENT，到不了为 UNREACHED）
+ */
+function findCheapestParents(
+    width: number,
+    height: number,
+    sources: Position2D[],
+    walkableAt: (x: number, y: number) => boolean,
+    carvableAt: (x: number, y: number) => boolean,
+): Int32Array {
+    const cost = new Int32Array(width * height).fill(-1);
+    const previous = new Int32Array(width * height).fill(UNREACHED);
+    const deque: number[] = [];
+    let head = 0;
+
+    for (const { x, y } of sources) {
+        cost[y * width + x] = 0;
+        previous[y * width + x] = NO_PARENT;
+        deque.push(y * width + x);
+    }
+
+    // 用数组 + 头指针模拟双端队列：代价 0 的邻居插到头部前面
+    const front: number[] = [];
+    while (front.length > 0 || head < deque.length) {
+        const key = front.length > 0 ? front.pop()! : deque[head++]!;
+        const current = { x: key % width, y: Math.floor(key / width) };
+
+        for (const next of neighbours(current, width, height)) {
+            const nextKey = next.y * width + next.x;
+            const walkable = walkableAt(next.x, next.y);
+            if (!walkable && !carvableAt(next.x, next.y)) continue;
+
+            const nextCost = cost[key]! + (walkable ? 0 : 1);
+            if (cost[nextKey] !== -1 && cost[nextKey]! <= nextCost) continue;
+
+            cost[nextKey] = nextCost;
+            previous[nextKey] = key;
+            if (walkable) front.push(nextKey);
+            else deque.push(nextKey);
+        }
+    }
+
+    return previous;
+}
+
+function neighbours({ x, y }: Position2D, width: number, height: number): Position2D[] {
+    const result: Position2D[] = [];
+    if (x > 0) result.push({ x: x - 1, y });
+    if (x < width - 1) result.push({ x: x + 1, y });
+    if (y > 0) result.push({ x, y: y - 1 });
+    if (y < height - 1) result.push({ x, y: y + 1 });
+    return result;
+}
+
+
+// ==================== 内置生成器 ====================
+
+/**
+ * 旧版生成器：逐格独立随机，水 5%、树 3%、岩石 2%，其余为草地
+ * 参数取默认值时与旧版地图逐格一致（旧存档依赖这一点重建地形）
+ */
+const CLASSIC_GENERATOR: TerrainGenerator = {
+    name: "classic",
+    description: "逐格随机撒水、树木和岩石（旧版地图）",
+    params: [
+        { name: "waterChance", description: "每格是水的概率", default: 0.05, min: 0, max: 1 },
+        { name: "treeChance", description: "每格是树的概率", default: 0.03, min: 0, max: 1 },
+        { name: "rockChance", description: "每格是岩石的概率", default: 0.02, min: 0, max: 1 },
+    ],
+    generate({ width, height, random, params, regrowth }) {
+        const tiles = createWalledMap(width, height, () => {
+            if (random() < params.waterChance!) return { type: 'WATER' };
+            if (random() < params.treeChance!) return { type: 'TREE', state: { durability: 3 } }; // 需要砍3次
+            if (random() < params.rockChance!) return { type: 'ROCK', state: { durability: 5 } }; // 需要挖5次
+            return { type: 'GRASS' };
+        });
+
+        applyQuarries(tiles, regrowth, random);
+        placeWorkbench(tiles);
+        return tiles;
+    },
+};
+
+/**
+ * 噪声生成器：
+ * 1. 高度和湿度各是一张分形值噪声，归一化到 [0, 1]
+ * 2. 低处是湖泊，高处是岩石露头（石地上散落岩石），其余按湿度分成森林、草地和干燥的泥土地
+ * 3. 太小的水塘填平，湖边一圈是沙滩
+ * 4. 采石场、出生点空地和公共工作台
+ * 5. 打通所有可行走区域
+ */
+const NOISE_GENERATOR: TerrainGenerator = {
+    name: "noise",
+    description: "分形噪声生成的生物群系：湖泊和沙滩、森林、草地、泥土地和岩石露头，所有空地互相连通",
+    params: [
+        { name: "scale", description: "地形起伏的尺度（格子，越大湖泊和森林越成片）", default: 16, min: 2, max: 256 },
+        { name: "octaves", description: "叠加的噪声层数（越多细节越丰富）", default: 4, min: 1, max: 8, integer: true },
+        { name: "waterLevel", description: "低于这个高度是水", default: 0.3, min: 0, max: 1 },
+        { name: "mountainLevel", description: "高于这个高度是岩石露头", default: 0.8, min: 0, max: 1 },
+        { name: "rockDensity", description: "岩石露头里岩石的比例（其余是石地）", default: 0.5, min: 0, max: 1 },
+        { name: "forestLevel", description: "湿度高于这个值是森林", default: 0.6, min: 0, max: 1 },
+        { name: "treeDensity", description: "森林里树木的比例（其余是草地）", default: 0.55, min: 0, max: 1 },
+        { name: "dryLevel", description: "湿度低于这个值是泥土地", default: 0.2, min: 0, max: 1 },
+        { name: "shoreWidth", description: "湖边沙滩的宽度（格子）", default: 1, min: 0, max: 5, integer: true },
+        { name: "minLakeSize", description: "小于这个面积的水塘会被填平", default: 6, min: 1, max: 10000, integer: true },
+    ],
+    generate({ width, height, random, params, regrowth, isWalkable }) {
+        const scale = params.scale!;
+        const octaves = params.octaves!;
+        const elevation = normalizedNoise(createFractalNoise(random, { scale, octaves }), width, height);
+        const moisture = normalizedNoise(createFractalNoise(random, { scale: scale * 0.75, octaves }), width, height);
+
+        const tiles = createWalledMap(width, height, (x, y) => {
+            const e = elevation[y]![x]!;
+            const m = moisture[y]![x]!;
+
+            if (e < params.waterLevel!) return { type: 'WATER' };
+            if (e >= params.mountainLevel!) {
+                return random() < params.rockDensity!
+                    ? { type: 'ROCK', state: { durability: regrowth.rockDurability } }
+                    : { type: 'STONE' };
+            }
+            if (m >= params.forestLevel!) {
+                return random() < params.treeDensity!
+                    ? { type: 'TREE', state: { durability: regrowth.treeDurability } }
+                    : { type: 'GRASS' };
+            }
+            return m < params.dryLevel! ? { type: 'DIRT' } : { type: 'GRASS' };
+        });
+
+        fillSmallLakes(tiles, params.minLakeSize!);
+        addShores(tiles, params.shoreWidth!);
+        applyQuarries(tiles, regrowth, random);
+        clearSpawnArea(tiles, 2);
+        placeWorkbench(tiles);
+
+        const carved = connectWalkableRegions(tiles, isWalkable);
+        if (carved > 0) {
+            console.log(`🗺️  Connected walkable regions (${carved} tiles carved)`);
+        }
+        return tiles;
+    },
+};
+
+/**
+ * 在整张地图上采样噪声，并把实际取值范围拉伸到 [0, 1]（让高度阈值在不同种子下含义一致）
+ */
+function normalizedNoise(noise: Noise2D, width: number, height: number): number[][] {
+    const samples: number[][] = [];
+    let min = Infinity;
+    let max = -Infinity;
+
+    for (let y = 0; y < height; y++) {
+        const row: number[] = [];
+        for (let x = 0; x < width; x++) {
+            const value = noise(x, y);
+            row.push(value);
+            min = Math.min(min, value);
+            max = Math.max(max, value);
+        }
+        samples.push(row);
+    }
+
+    const range = max - min;
+    return samples.map(row => row.map(value => range > 0 ? (value - min) / range : 0.5));
+}
+
+/**
+ * 面积小于 minSize 的水塘填成草地
+ */
+function fillSmallLakes(tiles: Tile[][], minSize: number): void {
+    const height = tiles.length;
+    const width = tiles[0]?.length ?? 0;
+
+    const lakes = labelRegions(width, height, (x, y) => tiles[y]?.[x]?.type === 'WATER');
+    for (const lake of lakes) {
+        if (lake.length >= minSize) continue;
+        for (const { x, y } of lake) tiles[y]![x] = { type: 'GRASS' };
+    }
+}
+
+/**
+ * 离水 shoreWidth 格以内的陆地（草地、泥土、树木）变成沙滩
+ */
+function addShores(tiles: Tile[][], shoreWidth: number): void {
+    if (shoreWidth <= 0) return;
+
+    const height = tiles.length;
+    const width = tiles[0]?.length ?? 0;
+    const distance = new Int32Array(width * height).fill(-1);
+    const queue: Position2D[] = [];
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (tiles[y]![x]!.type !== 'WATER') continue;
+            distance[y * width + x] = 0;
+            queue.push({ x, y });
+        }
+    }
+
+    for (let head = 0; head < queue.length; head++) {
+        const current = queue[head]!;
+        const currentDistance = distance[current.y * width + current.x]!;
+        if (currentDistance >= shoreWidth) continue;
+
+        for (const next of neighbours(current, width, height)) {
+            const key = next.y * width + next.x;
+            if (distance[key] !== -1) continue;
+            distance[key] = currentDistance + 1;
+
+            const row = tiles[next.y]!;
+            if (SHORE_TYPES.has(row[next.x]!.type)) {
+                row[next.x] = { type: 'SAND' };
+            }
+            queue.push(next);
+        }
+    }
+}
+
+/** 会变成沙滩的陆地类型 */
+const SHORE_TYPES: ReadonlySet<TerrainType> = new Set<TerrainType>(['GRASS', 'DIRT', 'TREE']);
+
+/**
+ * 地图中心 radius 格以内清成草地（出生点和公共工作台所在的空地）
+ */
+function clearSpawnArea(tiles: Tile[][], radius: number): void {
+    const height = tiles.length;
+    const width = tiles[0]?.length ?? 0;
+    const centerX = Math.floor(width / 2);
+    const centerY = Math.floor(height / 2);
+
+    for (let y = Math.max(1, centerY - radius); y <= Math.min(height - 2, centerY + radius); y++) {
+        for (let x = Math.max(1, centerX - radius); x <= Math.min(width - 2, centerX + radius + 2); x++) {
+            tiles[y]![x] = { type: 'GRASS' };
+        }
+    }
+}
+
+
+// ==================== 生成器登记表 ====================
+
+/**
+ * 生成器登记表
+ */
+const TERRAIN_GENERATORS: Map<string, TerrainGenerator> = new Map([
+    [CLASSIC_GENERATOR.name, CLASSIC_GENERATOR],
+    [NOISE_GENERATOR.name, NOISE_GENERATOR],
+]);
+
+/**
+ * 登记地形生成器（同名时替换）
+ */
+export function registerTerrainGenerator(generator: TerrainGenerator): void {
+    TERRAIN_GENERATORS.set(generator.name, generator);
+}
+
+/**
+ * 获取地形生成器
+ * @param name 生成器名称
+ * @returns 生成器，未登记时返回 undefined
+ */
+export function getTerrainGenerator(name: string): TerrainGenerator | undefined {
+    return TERRAIN_GENERATORS.get(name);
+}
+
+/**
+ * 列出所有已登记的地形生成器（名称、说明和参数）
+ */
+export function listTerrainGenerators(): TerrainGeneratorInfo[] {
+    return Array.from(TERRAIN_GENERATORS.values(), ({ name, description, params }) => ({
+        name,
+        description,
+        params: params.map(param => ({ ...param })),
+    }));
+}
+
+/**
+ * 解析生成器选择：找到生成器，并用默认值补全、校验参数
+ * @param spec 输入：生成器名称和参数
+ * @returns 输出：生成器和补全后的参数
+ * @throws 生成器不存在、参数未知、不是数字或超出范围时抛出错误
+ */
+export function resolveTerrainGenerator(spec: TerrainGeneratorSpec): { generator: TerrainGenerator; params: Record<string, number> } {
+    const generator = getTerrainGenerator(spec.name);
+    if (!generator) {
+        throw new Error(`Unknown terrain generator: ${spec.name}（可选：${Array.from(TERRAIN_GENERATORS.keys()).join(", ")}）`);
+    }
+
+    const definitions = new Map<string, TerrainGeneratorParam>(generator.params.map(param => [param.name, param]));
+    const params: Record<string, number> = {};
+    for (const param of generator.params) params[param.name] = param.default;
+
+    for (const [name, value] of Object.entries(spec.params ?? {})) {
+        const definition = definitions.get(name);
+        if (!definition) {
+            throw new Error(`Unknown parameter "${name}" for terrain generator "${generator.name}"`);
+        }
+        if (typeof value !== "number" || !Number.isFinite(value)) {
+            throw new Error(`Parameter "${name}" must be a number`);
+        }
+        if (definition.integer && !Number.isInteger(value)) {
+            throw new Error(`Parameter "${name}" must be an integer`);
+        }
+        if (value < definition.min || value > definition.max) {
+            throw new Error(`Parameter "${name}" must be between ${definition.min} and ${definition.max}`);
+        }
+        params[name] = value;
+    }
+
+    return { generator, params };
+}
@@ -1,5 +1,6 @@
 import { TimeOfDay } from "../../types/weather.js";
-import type { GameTimeSnapshot, StartTimeConfig } from "../../types/game.js";
+import type { GameCalendar, GameTimeSnapshot, Season, StartTimeConfig } from "../../types/game.js";
+import { DEFAULT_DAYS_PER_SEASON, resolveCalendar } from "./Calendar.js";
 
 /**
  * 时间管理器
@@ -8,6 +9,7 @@ import type { GameTimeSnapshot, StartTimeConfig } from "../../types/game.js";
  * 可以把它想象成《我的世界》服务端里的“世界时钟”：
  * - 每推进 1 个 tick，就像 MC 内部每 1/20 秒的全局心跳。
  * - 240 个 tick 组成一个“昼夜循环”，你可以按需调整以模拟更短或更长的一天。
+ * - 天数之上是日历：一年四季，每季 daysPerSeason 天，一周 7 天。
  *
  * 设计目标：
  * 1. **全局共享** —— 所有玩家看到同一条时间线。
@@ -18,12 +20,17 @@ export default class TimeManager {
     private tick: number; // 当前服务器 tick（类似 MC 世界 tick）
     private timeOfDay: TimeOfDay; // 当前时间段（黎明/白天/黄昏/夜晚）
     private readonly listeners: Array<(timeOfDay: TimeOfDay) => void> = [];
+    private readonly tickListeners: Array<(ticks: number, tick: number) => void> = [];
+    private readonly dayListeners: Array<(day: number) => void> = [];
+    private readonly seasonListeners: Array<(season: Season, calendar: GameCalendar) => void> = [];
 
     private readonly tickIntervalMs: number; // 每个 tick 对应的真实毫秒数（默认 1000ms）
     private speedMultiplier: number; // 类似 MC /time set daySpeed——可加速或减速时间流逝
     private readonly ticksPerDay: number; // 一个昼夜由多少个 tick 组成（默认 240）
+    private readonly daysPerSeason: number; // 每个季节的天数（默认 7）
 
     private lastUpdatedAt: number; // 上一次推进 tick 时的真实时间戳（毫秒）
+    private pendingMs = 0; // 还不足 1 个 tick 的（已乘倍速的）毫秒数，留到下一帧累加，慢速时也能推进
     
     private isActive: boolean = false; // 标记时间系统是否激活
 
@@ -35,7 +42,9 @@ export default class TimeManager {
     constructor(snapshot?: Partial<GameTimeSnapshot>, config: StartTimeConfig = {}) {
         this.tickIntervalMs = snapshot?.tickIntervalMs ?? config.tickIntervalMs ?? 1000; // 默认 1 秒推进 1 tick
         this.speedMultiplier = snapshot?.speedMultiplier ?? config.speedMultiplier ?? 1;
-        this.ticksPerDay = 240; // 默认 240 tick = 1 天，可理解为 MC 中“12 分钟”的压缩版
+        this.ticksPerDay = config.ticksPerDay ?? 240; // 默认 240 tick = 1 天，可理解为 MC 中“12 分钟”的压缩版
+        this.daysPerSeason = config.daysPerSeason ?? DEFAULT_DAYS_PER_SEASON;
+        if (this.ticksPerDay < 4 || this.daysPerSeason < 1) throw new Error("Invalid calendar config");
 
         this.tick = snapshot?.tick ?? 0;
         this.timeOfDay = snapshot?.timeOfDay ?? this.resolvePeriod(this.tick);
@@ -51,6 +60,7 @@ export default class TimeManager {
     start() {
         if (this.isActive) return;
         this.lastUpdatedAt = Date.now();
+        this.pendingMs = 0;
         this.isActive = true;
     }
 
@@ -74,15 +84,60 @@ export default class TimeManager {
     advance(deltaTime: number) {
         if (!this.isActive) return;
         
-        // 根据 deltaTime 和 speedMultiplier 计算推进的 tick 数
-        const scaledElapsed = deltaTime * this.speedMultiplier;
+        // 根据 deltaTime 和 speedMultiplier 计算推进的 tick 数（不足 1 tick 的部分累计到下一帧）
+        const scaledElapsed = this.pendingMs + deltaTime * this.speedMultiplier;
         const ticksToAdvance = Math.floor(scaledElapsed / this.tickIntervalMs);
+        this.pendingMs = scaledElapsed - ticksToAdvance * this.tickIntervalMs;
         
         if (ticksToAdvance <= 0) return;
 
+        this.lastUpdatedAt = Date.now();
         this.applyTickAdvance(ticksToAdvance);
     }
 
+    /**
+     * 暂停时手动推进指定的 tick 数，相当于 `/tick step N`。
+     * @param ticks 输入：推进的 tick 数（正整数）。
+     * 时间系统运行中时抛出错误，避免和自动推进叠加。
+     */
+    step(ticks: number) {
+        if (this.isActive) throw new Error("Time must be paused before stepping");
+        if (!Number.isInteger(ticks) || ticks <= 0) throw new Error("Ticks must be a positive integer");
+
+        this.lastUpdatedAt = Date.now();
+        this.applyTickAdvance(ticks);
+    }
+
+    /**
+     * 把世界时间快进到指定 tick，相当于 `/time set <tick>`。
+     * 只能向前：中间的 tick 照常触发作物生长、换天等监听器。
+     * @param tick 输入：目标世界 tick（不小于当前 tick）。
+     */
+    setTime(tick: number) {
+        if (!Number.isInteger(tick) || tick < this.tick) throw new Error("Time can only move forward");
+
+        this.lastUpdatedAt = Date.now();
+        this.applyTickAdvance(tick - this.tick);
+    }
+
+    /**
+     * 快进到下一个指定时间段的开始，相当于 `/time set night`。
+     * 已经过了今天的该时间段时跳到明天。
+     * @param timeOfDay 输入：目标时间段。
+     * @returns 输出：快进后的世界 tick。
+     */
+    skipTo(timeOfDay: TimeOfDay): number {
+        const periods = [TimeOfDay.Dawn, TimeOfDay.Day, TimeOfDay.Dusk, TimeOfDay.Night];
+        const index = periods.indexOf(timeOfDay);
+        if (index < 0) throw new Error(`Unknown time of day: ${timeOfDay}`);
+
+        let target = this.getDay() * this.ticksPerDay + index * (this.ticksPerDay / 4);
+        if (target <= this.tick) target += this.ticksPerDay;
+
+        this.setTime(Math.ceil(target));
+        return this.tick;
+    }
+
     /** 兼容旧接口：单步推进，相当于 `/time add 1`。 */
     update() {
         this.advance(1);
@@ -97,6 +152,73 @@ export default class TimeManager {
         this.listeners.push(cb);
     }
 
+    /**
+     * 注册 tick 推进监听器（作物生长等按世界 tick 计算的逻辑）。
+     * @param cb 输入：回调函数，参数为本次推进的 tick 数和推进后的世界 tick。
+     */
+    onTickAdvance(cb: (ticks: number, tick: number) => void) {
+        this.tickListeners.push(cb);
+    }
+
+    /**
+     * 注册新一天开始的监听器，类似 MC 里“太阳升起”触发的每日刷新。
+     * @param cb 输入：回调函数，参数为新的天数（从 0 开始）。
+     */
+    onDayChange(cb: (day: number) => void) {
+        this.dayListeners.push(cb);
+    }
+
+    /**
+     * 注册换季监听器（天气权重、作物生长等随季节变化）。
+     * @param cb 输入：回调函数，参数为新的季节和当天的日历。
+     */
+    onSeasonChange(cb: (season: Season, calendar: GameCalendar) => void) {
+        this.seasonListeners.push(cb);
+    }
+
+    /**
+     * @returns 输出：当前是第几天（从 0 开始）。
+     */
+    getDay(): number {
+        return Math.floor(this.tick / this.ticksPerDay);
+    }
+
+    /**
+     * @returns 输出：一天包含的 tick 数。
+     */
+    getTicksPerDay(): number {
+        return this.ticksPerDay;
+    }
+
+    /**
+     * @returns 输出：每个季节的天数。
+     */
+    getDaysPerSeason(): number {
+        return this.daysPerSeason;
+    }
+
+    /**
+     * @returns 输出：当前日历（第几天、第几年、季节、星期）。
+     */
+    getCalendar(): GameCalendar {
+        return resolveCalendar(this.getDay(), this.daysPerSeason);
+    }
+
+    /**
+     * @param tick 输入：世界 tick（可以是未来的 tick，用于天气预报）。
+     * @returns 输出：该 tick 所在的季节。
+     */
+    getSeasonAt(tick: number): Season {
+        return resolveCalendar(Math.floor(tick / this.ticksPerDay), this.daysPerSeason).season;
+    }
+
+    /**
+     * @returns 输出：当前季节。
+     */
+    getSeason(): Season {
+        return this.getCalendar().season;
+    }
+
     /**
      * @returns 输出：当前世界 tick。（可给调试 HUD 使用。）
      */
@@ -136,6 +258,7 @@ export default class TimeManager {
         if (multiplier <= 0) throw new Error("Speed multiplier must be positive");
         this.speedMultiplier = multiplier;
         this.lastUpdatedAt = Date.now();
+        this.pendingMs = 0;
     }
 
     /**
@@ -174,12 +297,26 @@ export default class TimeManager {
         if (delta <= 0) return;
 
         const prevPeriod = this.timeOfDay;
+        const prevDay = this.getDay();
+        const prevSeason = this.getSeason();
         this.tick += delta;
         this.timeOfDay = this.resolvePeriod(this.tick);
 
+        this.tickListeners.forEach((fn) => fn(delta, this.tick));
+
         if (this.timeOfDay !== prevPeriod) {
             this.listeners.forEach((fn) => fn(this.timeOfDay));
         }
+
+        const day = this.getDay();
+        if (day !== prevDay) {
+            this.dayListeners.forEach((fn) => fn(day));
+
+            const calendar = this.getCalendar();
+            if (calendar.season !== prevSeason) {
+                this.seasonListeners.forEach((fn) => fn(calendar.season, calendar));
+            }
+        }
     }
 
     /**
@@ -0,0 +1,232 @@
+import type WorldManager from "./WorldManager.js";
+import type AgentManager from "../AgentFactory/AgentManager.js";
+import type { WeatherType } from "../../types/weather.js";
+import type { LightningStrikeBroadcast } from "../../../shared/websocket.js";
+import type { Position2D, Tile } from "../../types/terrain.js";
+import { to2D } from "./utils.js";
+
+/**
+ * 天气对模拟的修正
+ * 每个世界 tick 先恢复默认值，再由各个效果处理器按当前天气调整，其他系统只读取结果
+ */
+export interface WeatherModifiers {
+    /** 每走一步额外等待的毫秒数（下雪时变慢） */
+    moveDelayMs: number;
+    /** 作物是否暂停生长 */
+    cropGrowthPaused: boolean;
+    /** 视野半径倍率（起雾时缩小） */
+    viewRadiusScale: number;
+}
+
+/**
+ * 没有任何天气效果时的修正
+ */
+export function defaultWeatherModifiers(): WeatherModifiers {
+    return { moveDelayMs: 0, cropGrowthPaused: false, viewRadiusScale: 1 };
+}
+
+/**
+ * 传给天气效果处理器的上下文
+ */
+export interface WeatherTickContext {
+    /** 推进后的世界 tick */
+    tick: number;
+    /** 本次推进的 tick 数 */
+    ticks: number;
+    /** 当前这段天气的强度 0~1 */
+    intensity: number;
+    /** 本 tick 的修正（处理器可以修改） */
+    modifiers: WeatherModifiers;
+}
+
+/**
+ * 天气效果处理器：每个世界 tick 收到当前天气，自行决定是否生效
+ */
+export interface WeatherEffectHandler {
+    /** 处理器名称（同名处理器注册时会被替换） */
+    readonly name: string;
+    apply(weather: WeatherType, context: WeatherTickContext): void;
+}
+
+
+/**
+ * 下雨 / 雷暴：给所有露天的耕地浇水（目前没有屋顶，所有耕地都算露天）
+ * 只在开始下雨时扫描一次已加载的耕地；下雨期间新出现的干耕地（开垦、每天变干、区块加载）
+ * 通过瓦片变化和区块加载事件记下来，在下一个 tick 浇水
+ */
+export class RainWateringEffect implements WeatherEffectHandler {
+    readonly name = "rain_watering";
+    /** 上一个 tick 是否在下雨 */
+    private raining = false;
+    /** 下雨期间出现的干耕地："x,y" -> 坐标 */
+    private dryFarmland = new Map<string, Position2D>();
+
+    constructor(private readonly worldManager: WorldManager) {
+        worldManager.onTileChange((pos, tile) => this.track(pos, tile));
+        worldManager.onChunkLoad(chunk => {
+            chunk.tiles.forEach((row, y) => {
+                row.forEach((tile, x) => this.track({ x: chunk.cx * chunk.size + x, y: chunk.cy * chunk.size + y }, tile));
+            });
+        });
+    }
+
+    apply(weather: WeatherType): void {
+        const raining = weather === "rain" || weather === "storm";
+        const started = raining && !this.raining;
+        this.raining = raining;
+
+        if (!raining) {
+            this.dryFarmland.clear();
+            return;
+        }
+
+        const dry = started
+            ? this.worldManager.findTiles(tile => this.isDryFarmland(tile)).map(({ pos }) => pos)
+            : Array.from(this.dryFarmland.values());
+        this.dryFarmland.clear();
+
+        for (const pos of dry) {
+            this.worldManager.waterTile(pos);
+        }
+    }
+
+    private track(pos: Position2D, tile: Tile): void {
+        if (!this.raining) return;
+
+        const key = `${pos.x},${pos.y}`;
+        if (this.isDryFarmland(tile)) {
+            this.dryFarmland.set(key, pos);
+        } else {
+            this.dryFarmland.delete(key);
+        }
+    }
+
+    private isDryFarmland(tile: Tile): boolean {
+        return tile.type === 'FARMLAND' && !tile.state?.watered;
+    }
+}
+
+
+/**
+ * 下雪：走路变慢（雪越大越慢），作物停止生长
+ */
+export class SnowEffect implements WeatherEffectHandler {
+    readonly name = "snow";
+
+    constructor(private readonly moveDelayMs: number = 250) {}
+
+    apply(weather: WeatherType, { intensity, modifiers }: WeatherTickContext): void {
+        if (weather !== "snow") return;
+
+        modifiers.moveDelayMs += Math.round(this.moveDelayMs * intensity);
+        modifiers.cropGrowthPaused = true;
+    }
+}
+
+
+/**
+ * 起雾：视野和感知范围缩小
+ */
+export class FogEffect implements WeatherEffectHandler {
+    readonly name = "fog";
+
+    constructor(private readonly viewRadiusScale: number = 0.5) {}
+
+    apply(weather: WeatherType, { modifiers }: WeatherTickContext): void {
+        if (weather !== "fog") return;
+
+        modifiers.viewRadiusScale = Math.min(modifiers.viewRadiusScale, this.viewRadiusScale);
+    }
+}
+
+
+/** 闪电参数 */
+export interface LightningOptions {
+    /** 强度为 1 的雷暴每个世界 tick 落雷的概率（按强度缩放） */
+    chancePerTick?: number;
+    /** 落点及周围一格内的角色受到的伤害 */
+    damage?: number;
+    /** 随机数来源（测试时可以注入固定序列） */
+    random?: () => number;
+}
+
+/**
+ * 雷暴：偶尔随机劈中一个瓦片
+ * - 落点及周围一格内的角色受到伤害（可能被劈死，由复活系统结算）
+ * - 劈中树木会把树点燃烧毁，只留下树苗
+ */
+export class LightningEffect implements WeatherEffectHandler {
+    readonly name = "lightning";
+
+    private readonly chancePerTick: number;
+    private readonly damage: number;
+    private readonly random: () => number;
+
+    /** 落雷监听器（用于 WebSocket 广播 lightning_strike） */
+    private strikeListeners: Array<(strike: LightningStrikeBroadcast) => void> = [];
+
+    constructor(
+        private readonly worldManager: WorldManager,
+        private readonly agentManager: AgentManager,
+        options: LightningOptions = {},
+    ) {
+        this.chancePerTick = options.chancePerTick ?? 0.01;
+        this.damage = options.damage ?? 10;
+        this.random = options.random ?? Math.random;
+    }
+
+    apply(weather: WeatherType, { ticks, intensity }: WeatherTickContext): void {
+        if (weather !== "storm") return;
+
+        for (let i = 0; i < ticks; i++) {
+            if (this.random() >= this.chancePerTick * intensity) continue;
+
+            const { width, height } = this.worldManager.getSize();
+            this.strike({
+                x: Math.floor(this.random() * width),
+                y: Math.floor(this.random() * height),
+            });
+        }
+    }
+
+    /**
+     * 在指定位置落雷
+     */
+    strike(position: Position2D): LightningStrikeBroadcast {
+        const hits: LightningStrikeBroadcast["hits"] = [];
+        for (const agent of this.agentManager.getAgents()) {
+            if (agent.isDead()) continue;
+
+            const tile = to2D(agent.getPosition());
+            if (Math.abs(tile.x - position.x) > 1 || Math.abs(tile.y - position.y) > 1) continue;
+
+            agent.takeDamage(this.damage);
+            const { health, maxHealth } = agent.getAttributes();
+            hits.push({ entityId: agent.getId(), damage: this.damage, health, maxHealth });
+        }
+
+        const ignited = this.worldManager.burnTree(position);
+        const strike: LightningStrikeBroadcast = { position, hits, ignited };
+
+        console.log(`⚡ Lightning struck (${position.x}, ${position.y})${hits.length ? `, hit ${hits.length} entities` : ""}${ignited ? ", a tree burned down" : ""}`);
+        this.emitStrike(strike);
+        return strike;
+    }
+
+    /**
+     * 注册落雷监听器
+     */
+    onStrike(callback: (strike: LightningStrikeBroadcast) => void): void {
+        this.strikeListeners.push(callback);
+    }
+
+    private emitStrike(strike: LightningStrikeBroadcast): void {
+        this.strikeListeners.forEach(callback => {
+            try {
+                callback(strike);
+            } catch (error) {
+                console.error("Error in lightning strike listener:", error);
+            }
+        });
+    }
+}
@@ -1,37 +1,276 @@
 
 import { WeatherType, Weather } from "../../types/weather.js";
+import type { Season, WeatherForecast, WeatherSpell } from "../../types/game.js";
 //util 
-import { getNextWeather } from "./utils";
+import { getNextWeather, isWeatherType } from "./utils";
+import { defaultWeatherModifiers, type WeatherEffectHandler, type WeatherModifiers } from "./WeatherEffects.js";
+
+/**
+ * 天气调度用到的世界时钟（TimeManager 满足该接口）
+ */
+export interface WeatherClock {
+    getCurrentTime(): number;
+    getTicksPerDay(): number;
+    /** 某个世界 tick 所在的季节（预报未来的天气要用当时的季节权重） */
+    getSeasonAt(tick: number): Season;
+}
+
+/**
+ * 天气存档（保存在 GameWorldState.environment.weather）
+ */
+export interface WeatherStateSnapshot {
+    /** 当前天气和之后排定的天气 */
+    spells: WeatherSpell[];
+}
+
+/** 天气调度参数 */
+export interface WeatherScheduleOptions {
+    /** 一段天气最短持续的 tick 数 */
+    minSpellTicks?: number;
+    /** 一段天气最长持续的 tick 数 */
+    maxSpellTicks?: number;
+    /** 随机数来源（默认 Math.random） */
+    random?: () => number;
+}
 
 /**
  * Minecraft 风格的天气调度器：
- * - 维护当前世界的天气，如晴天、下雨或雷暴。
- * - 根据时间段和概率生成下一次天气变化。
+ * - 天气按“一段一段”排定：每段有开始 tick、持续时间和强度，提前排好未来一天的天气（用于预报）。
+ * - 当前一段结束后切换到下一段；下一段天气按季节权重和概率生成，夜晚偶尔起雾。
+ * - 管理员可以强制指定接下来 N 个 tick 的天气，之后的预报重新生成。
+ * - 每个世界 tick 把当前天气交给已注册的效果处理器（浇水、减速、起雾、闪电等）。
  */
 export default class WeatherManager {
-    /** 当前天气状态，默认晴天，相当于世界启动时的 clear sky。 */
-    private current: WeatherType = "clear";
+    /** 当前天气（第一段）和之后排定的天气，首尾相接 */
+    private spells: WeatherSpell[] = [];
+
+    /** 世界时钟（未接入时按第 0 tick、每天 240 tick、春季计算） */
+    private clock: WeatherClock = { getCurrentTime: () => 0, getTicksPerDay: () => 240, getSeasonAt: () => "spring" };
+
+    private readonly minSpellTicks: number;
+    private readonly maxSpellTicks: number;
+    private random: () => number;
+
+    /** 已注册的天气效果处理器（按注册顺序执行） */
+    private effects: WeatherEffectHandler[] = [];
+
+    /** 本 tick 的天气修正，由效果处理器计算 */
+    private modifiers: WeatherModifiers = defaultWeatherModifiers();
+
+    constructor(options: WeatherScheduleOptions = {}) {
+        this.minSpellTicks = options.minSpellTicks ?? 40;
+        this.maxSpellTicks = options.maxSpellTicks ?? 120;
+        this.random = options.random ?? Math.random;
+    }
 
     /**
-     * 根据世界时间推进天气。
-     * @param timeOfDay 输入：当前世界时间段（来自 TimeManager）。
-     * 逻辑：
-     * - 如果是夜晚，有 10% 概率出现迷雾（可类比 MC 夜间偶尔起雾的效果）。
-     * - 否则调用 getNextWeather 依据权重随机天气。
-     * 输出：无直接返回，但会更新内部 current。
+     * 接入世界时钟
      */
-    update(timeOfDay: string) {
-        // 根据时间段调整概率（可简单处理）
-        if (timeOfDay === "night" && Math.random() < 0.1)
-            this.current = "fog";
-        else
-            this.current = getNextWeather(this.current);
+    setClock(clock: WeatherClock): void {
+        this.clock = clock;
+    }
+
+    /**
+     * 推进天气：当前一段结束后切换到下一段，并补齐未来一天的预报。
+     * @param tick 输入：当前世界 tick（来自 TimeManager）。
+     * 输出：无直接返回，天气变化时写日志。
+     */
+    advance(tick: number = this.clock.getCurrentTime()) {
+        const previous = this.spells[0]?.weather;
+
+        while (this.spells.length > 0 && this.spellEnd(this.spells[0]!) <= tick) {
+            const ended = this.spells.shift()!;
+            if (this.spells.length === 0) this.spells.push(this.nextSpell(ended));
+        }
+        this.fillSchedule(tick);
+
+        const current = this.spells[0]!.weather;
+        if (previous && previous !== current) {
+            console.log(`🌦️ Weather changed: ${previous} → ${current}`);
+        }
+    }
+
+    /**
+     * 强制指定天气（管理员），从当前 tick 开始持续 durationTicks 个 tick，之后的预报重新生成。
+     * @returns 输出：强制的这段天气。
+     */
+    force(weather: WeatherType, durationTicks: number, intensity: number = 1): WeatherSpell {
+        const spell: WeatherSpell = {
+            weather,
+            startTick: this.clock.getCurrentTime(),
+            durationTicks,
+            intensity,
+            forced: true,
+        };
+
+        this.spells = [spell];
+        this.fillSchedule(spell.startTick);
+        console.log(`🌦️ Weather forced: ${weather} for ${durationTicks} ticks`);
+        return { ...spell };
     }
 
     /**
      * @returns 输出：当前天气状态，供外部展示或同步给客户端。
      */
-    getWeather() {
-        return this.current;
+    getWeather(): WeatherType {
+        return this.getCurrentSpell().weather as WeatherType;
+    }
+
+    /**
+     * @returns 输出：当前这段天气（开始 tick、持续时间、强度）。
+     */
+    getCurrentSpell(): WeatherSpell {
+        if (this.spells.length === 0) this.advance();
+        return { ...this.spells[0]! };
+    }
+
+    /**
+     * @returns 输出：天气预报（当前天气 + 未来一天排定的天气）。
+     */
+    getForecast(): WeatherForecast {
+        const [current, ...upcoming] = this.spells.length > 0 ? this.spells : [this.getCurrentSpell()];
+        return {
+            current: { ...current! },
+            upcoming: upcoming.map(spell => ({ ...spell })),
+        };
+    }
+
+    /**
+     * @returns 输出：天气存档。
+     */
+    toSnapshot(): WeatherStateSnapshot {
+        return { spells: this.spells.map(spell => ({ ...spell })) };
+    }
+
+    /**
+     * 从存档恢复天气（跳过格式不对的段落；兼容旧存档里只存天气代码的写法）。
+     * @param snapshot 输入：environment.weather 里读到的数据。
+     * @returns 输出：是否恢复成功（失败时重新生成天气）。
+     */
+    restore(snapshot: unknown): boolean {
+        const tick = this.clock.getCurrentTime();
+
+        if (isWeatherType(snapshot)) {
+            this.spells = [{ weather: snapshot, startTick: tick, durationTicks: this.rollDuration(), intensity: this.rollIntensity() }];
+        } else {
+            const raw = (snapshot as Partial<WeatherStateSnapshot> | null | undefined)?.spells;
+            this.spells = Array.isArray(raw) ? raw.filter(isValidSpell).map(spell => ({ ...spell })) : [];
+        }
+
+        const restored = this.spells.length > 0;
+        if (!restored) {
+            this.spells = [{ weather: "clear", startTick: tick, durationTicks: this.rollDuration(), intensity: this.rollIntensity() }];
+        }
+
+        this.advance(tick);
+        return restored;
     }
-}
\ No newline at end of file
+
+    /**
+     * 注册天气效果处理器（同名处理器会被替换）
+     */
+    registerEffect(effect: WeatherEffectHandler): void {
+        this.removeEffect(effect.name);
+        this.effects.push(effect);
+    }
+
+    /**
+     * 移除天气效果处理器
+     * @returns 是否移除成功
+     */
+    removeEffect(name: string): boolean {
+        const before = this.effects.length;
+        this.effects = this.effects.filter(effect => effect.name !== name);
+        return this.effects.length !== before;
+    }
+
+    /**
+     * @returns 已注册的处理器名称
+     */
+    listEffects(): string[] {
+        return this.effects.map(effect => effect.name);
+    }
+
+    /**
+     * 世界 tick 推进时调用：重置修正后依次执行效果处理器
+     * 单个处理器出错不影响其他处理器
+     * @param ticks 本次推进的 tick 数
+     * @param tick 推进后的世界 tick
+     */
+    applyEffects(ticks: number, tick: number): void {
+        const modifiers = defaultWeatherModifiers();
+        const current = this.getCurrentSpell();
+
+        for (const effect of this.effects) {
+            try {
+                effect.apply(current.weather as WeatherType, { tick, ticks, intensity: current.intensity, modifiers });
+            } catch (error) {
+                console.error(`Error in weather effect "${effect.name}":`, error);
+            }
+        }
+
+        this.modifiers = modifiers;
+    }
+
+    /**
+     * @returns 当前 tick 的天气修正（移动延迟、作物暂停、视野倍率）
+     */
+    getModifiers(): WeatherModifiers {
+        return { ...this.modifiers };
+    }
+
+    /**
+     * 补齐预报：保证排定的天气至少覆盖到 tick 之后一整天
+     */
+    private fillSchedule(tick: number): void {
+        if (this.spells.length === 0) {
+            this.spells.push({ weather: "clear", startTick: tick, durationTicks: this.rollDuration(), intensity: this.rollIntensity() });
+        }
+
+        const horizon = tick + this.clock.getTicksPerDay();
+        while (this.spellEnd(this.spells[this.spells.length - 1]!) < horizon) {
+            this.spells.push(this.nextSpell(this.spells[this.spells.length - 1]!));
+        }
+    }
+
+    /**
+     * 生成紧接在 previous 之后的一段天气
+     * - 夜晚开始的一段有 10% 概率起雾（可类比 MC 夜间偶尔起雾的效果）
+     * - 否则按开始时所在季节的权重随机
+     */
+    private nextSpell(previous: WeatherSpell): WeatherSpell {
+        const startTick = this.spellEnd(previous);
+        const ticksPerDay = this.clock.getTicksPerDay();
+        const isNight = ((startTick % ticksPerDay) + ticksPerDay) % ticksPerDay >= ticksPerDay * 0.75;
+
+        const weather = isNight && this.random() < 0.1
+            ? "fog"
+            : getNextWeather(previous.weather as WeatherType, this.clock.getSeasonAt(startTick), this.random);
+
+        return { weather, startTick, durationTicks: this.rollDuration(), intensity: this.rollIntensity() };
+    }
+
+    private spellEnd(spell: WeatherSpell): number {
+        return spell.startTick + spell.durationTicks;
+    }
+
+    private rollDuration(): number {
+        return this.minSpellTicks + Math.floor(this.random() * (this.maxSpellTicks - this.minSpellTicks + 1));
+    }
+
+    private rollIntensity(): number {
+        return Math.round((0.3 + this.random() * 0.7) * 100) / 100;
+    }
+}
+
+/**
+ * 校验存档里的一段天气
+ */
+function isValidSpell(value: unknown): value is WeatherSpell {
+    const spell = value as Partial<WeatherSpell> | null;
+    return !!spell
+        && isWeatherType(spell.weather)
+        && Number.isFinite(spell.startTick)
+        && Number.isInteger(spell.durationTicks) && spell.durationTicks! > 0
+        && typeof spell.intensity === "number" && spell.intensity >= 0 && spell.intensity <= 1;
+}
@@ -7,56 +7,227 @@ import {
     Rectangle,
     TileConfig,
     VisibleTile,
+    TerrainPrng,
+    TerrainGeneratorSpec,
+    ChunkCoord,
+    ChunkData,
 } from "../../types/terrain.js";
+import ChunkManager, { DEFAULT_CHUNK_SIZE, sliceChunk, type ChunkLoader } from "./ChunkManager.js";
+import { RandomStream, createSeed } from "../Random/RandomService.js";
+import { getCropDefinition, isCropMature, rollCropYields } from "./CropRegistry.js";
+import { DEFAULT_REGROWTH_RULES, defaultQuarries, isInQuarry, type RegrowthRules } from "./RegrowthRules.js";
+import { DEFAULT_TERRAIN_GENERATOR, LEGACY_TERRAIN_GENERATOR, resolveTerrainGenerator } from "./TerrainGenerators.js";
+
+/**
+ * 世界时钟（资源再生按世界 tick 计算，TimeManager 满足该接口）
+ */
+export interface WorldClock {
+    getCurrentTime(): number;
+    getTicksPerDay(): number;
+}
 
 /**
  * 世界管理器 - 负责地形和环境管理
  * 类比 Minecraft 的 World 对象 + 星露谷物语的地图系统
  * 
  * 核心功能：
- * - 地形数据存储和查询
+ * - 地形数据存储和查询（瓦片按区块存放在 ChunkManager 中，未加载的区块读到的是 VOID）
  * - 碰撞检测
  * - 视野范围查询
  * - 地形修改（耕地、种植等）
  */
 export default class WorldManager {
-    /** 当前世界地图 */
+    /** 当前世界地图（尺寸和生成参数） */
     private worldMap: WorldMap;
 
+    /** 区块存储：瓦片按区块懒加载、修改后按区块保存 */
+    private readonly chunks: ChunkManager;
+
     /** 瓦片静态配置表 */
     private readonly tileConfigs: Map<TerrainType, TileConfig>;
 
-    /** 脏数据标记：记录哪些瓦片被修改 */
-    private dirtyTiles: Set<string> = new Set();
+    /** 可以放置方块的地面类型 */
+    private readonly BUILDABLE_GROUND: readonly TerrainType[] = ['GRASS', 'DIRT', 'SAND'];
+
+    /** 资源再生规则 */
+    private regrowthRules: RegrowthRules;
+
+    /** 已加载区块中等待再生的瓦片（"x,y" -> 再生的世界 tick），与瓦片上的 state.regrowAt 同步；区块重新加载时补上到期的再生 */
+    private regrowing: Map<string, number> = new Map();
+
+    /** 世界时钟（未接入时按第 0 tick、每天 240 tick 计算） */
+    private clock: WorldClock = { getCurrentTime: () => 0, getTicksPerDay: () => 240 };
+
+    /** 上次检查再生的世界 tick（同一个 tick 只检查一次） */
+    private lastRegrowthTick = -1;
+
+    /** 位置上是否站着角色（长出树、岩石前检查，防止把角色困住） */
+    private isOccupied: (pos: Position2D) => boolean = () => false;
+
+    /** 视野半径倍率（起雾时由天气效果缩小） */
+    private viewRadiusScale: () => number = () => 1;
+
+    /** 掉落随机数来源（收获作物的产量，由 Game 接入 RandomService 的 loot 流） */
+    private lootRandom: () => number = Math.random;
+
+    /** 瓦片变化监听器列表（用于 WebSocket 推送 tile_update 等） */
+    private tileChangeListeners: Array<(pos: Position2D, tile: Tile, chunk: ChunkCoord & { version: number }) => void> = [];
 
     /** 世界 ID */
     private readonly worldId: string;
 
-    /** 地图宽度 */
-    public readonly width: number;
-
-    /** 地图高度 */
-    public readonly height: number;
+    /** 按种子重新生成的整张基础地形（存档缺少区块时才生成，之后复用） */
+    private baseTiles: Tile[][] | null = null;
 
     /**
      * 构造函数
      * @param worldId 世界 ID
      * @param width 地图宽度（默认 50）
      * @param height 地图高度（默认 50）
-     * @param seed 随机种子（可选）
+     * @param seed 随机种子（可选，不传则随机生成并记录在 metadata.seed 中；新世界使用 mulberry32 生成地形）
+     * @param regrowth 资源再生规则（可选，未指定的部分使用默认值）
+     * @param generator 地形生成器和参数（可选，默认 noise；名称或参数无效时抛出错误）
+     * @param chunkSize 区块边长（可选，默认 16）
      */
-    constructor(worldId: string, width: number = 50, height: number = 50, seed?: number) {
+    constructor(
+        worldId: string,
+        width: number = 50,
+        height: number = 50,
+        seed?: number,
+        regrowth: Partial<RegrowthRules> = {},
+        generator: TerrainGeneratorSpec = { name: DEFAULT_TERRAIN_GENERATOR },
+        chunkSize: number = DEFAULT_CHUNK_SIZE,
+    ) {
         this.worldId = worldId;
-        this.width = width;
-        this.height = height;
         
         // 初始化瓦片配置表
         this.tileConfigs = this.initTileConfigs();
 
-        // 生成默认世界
-        this.worldMap = this.generateDefaultWorld(width, height, seed);
+        // 资源再生规则（采石场默认在地图左上角）
+        this.regrowthRules = { ...DEFAULT_REGROWTH_RULES, quarries: defaultQuarries(width, height), ...regrowth };
+
+        // 区块加载、卸载时同步再生索引
+        this.chunks = new ChunkManager(width, height, chunkSize);
+        this.chunks.onChunkLoad(chunk => this.forEachChunkTile(chunk, (tile, pos) => this.trackRegrowth(pos, tile)));
+        this.chunks.onChunkUnload(chunk => this.forEachChunkTile(chunk, (_tile, pos) => this.regrowing.delete(`${pos.x},${pos.y}`)));
+
+        // 只记录尺寸和生成参数：新世界由 generateTerrain 生成瓦片，已有存档由 restoreTerrain 恢复
+        this.worldMap = this.createWorldMap(width, height, seed ?? createSeed(), "mulberry32", generator, chunkSize);
+
+        console.log(`🗺️  World map initialized (${width}x${height}, chunk=${chunkSize}, seed=${this.getSeed()}, generator=${this.getTerrainGenerator().name})`);
+    }
+
+    /** 地图宽度 */
+    get width(): number {
+        return this.worldMap.width;
+    }
+
+    /** 地图高度 */
+    get height(): number {
+        return this.worldMap.height;
+    }
+
+    /**
+     * 获取生成当前地图所用的种子
+     */
+    getSeed(): number {
+        return this.worldMap.metadata?.seed ?? 0;
+    }
+
+    /**
+     * 获取生成当前地图所用的随机数算法
+     */
+    getTerrainPrng(): TerrainPrng {
+        return this.worldMap.metadata?.prng ?? "lcg";
+    }
+
+    /**
+     * 获取生成当前地图所用的生成器和参数
+     */
+    getTerrainGenerator(): TerrainGeneratorSpec {
+        const generator = this.worldMap.metadata?.generator ?? { name: LEGACY_TERRAIN_GENERATOR };
+        return { name: generator.name, ...(generator.params && { params: { ...generator.params } }) };
+    }
+
+    /**
+     * 获取区块边长
+     */
+    getChunkSize(): number {
+        return this.worldMap.chunkSize;
+    }
+
+    /**
+     * 生成新世界的地形：按种子生成整张地图，切成区块放进内存并全部标脏（由 Game 写成区块文档）
+     * 只在创建新世界时调用；已有存档的世界用 restoreTerrain 恢复
+     */
+    generateTerrain(): void {
+        this.chunks.reset(this.worldMap.width, this.worldMap.height, this.worldMap.chunkSize);
+        this.chunks.putMap(this.generateTiles(this.worldMap), true);
+    }
+
+    /**
+     * 从持久化数据恢复地形
+     * - 区块存档：只恢复尺寸和生成参数，瓦片之后按区块懒加载
+     * - 旧存档（整张地图）：先用种子和存档记录的随机数算法、生成器重建基础地图（或直接使用完整快照），
+     *   再覆盖存档中的瓦片增量，然后整张切成区块并全部标脏，由 Game 写成区块文档完成迁移
+     * 没有记录生成器的旧存档按 classic 生成器重建。
+     * 恢复过程不会提升瓦片版本号、也不会触发 tile_update。
+     * @param terrain 持久化的地形数据
+     */
+    restoreTerrain(terrain: {
+        width: number;
+        height: number;
+        seed?: number;
+        prng?: TerrainPrng;
+        generator?: TerrainGeneratorSpec;
+        storage?: "chunks" | "legacy";
+        chunkSize?: number;
+        tiles?: Tile[][];
+        deltas: Array<{ pos: Position2D; tile: Tile }>;
+    }): void {
+        const seed = terrain.seed ?? this.getSeed();
+        const prng = terrain.prng ?? "lcg";
+        const generator = terrain.generator ?? { name: LEGACY_TERRAIN_GENERATOR };
+        const chunkSize = terrain.chunkSize ?? this.getChunkSize();
+
+        this.chunks.reset(terrain.width, terrain.height, chunkSize);
+        this.baseTiles = null;
+
+        if (terrain.storage === "chunks") {
+            this.worldMap = {
+                width: terrain.width,
+                height: terrain.height,
+                chunkSize,
+                metadata: { name: "Default World", createdAt: new Date(), seed, prng, generator },
+            };
+            console.log(`🗺️  World map restored (${terrain.width}x${terrain.height}, chunk=${chunkSize}, seed=${seed}, chunks load on demand)`);
+            return;
+        }
+
+        let tiles: Tile[][];
+        if (terrain.tiles) {
+            tiles = terrain.tiles;
+            this.worldMap = {
+                width: terrain.width,
+                height: terrain.height,
+                chunkSize,
+                metadata: { name: "Default World", createdAt: new Date(), seed, prng, generator },
+            };
+        } else {
+            this.worldMap = this.createWorldMap(terrain.width, terrain.height, seed, prng, generator, chunkSize);
+            tiles = this.generateTiles(this.worldMap);
+        }
+
+        let applied = 0;
+        for (const { pos, tile } of terrain.deltas) {
+            const row = tiles[pos.y];
+            if (!row || pos.x < 0 || pos.x >= row.length) continue;
+            row[pos.x] = tile;
+            applied++;
+        }
 
-        console.log(`🗺️  World map initialized (${width}x${height})`);
+        this.chunks.putMap(tiles, true);
+        console.log(`🗺️  World map restored (${terrain.width}x${terrain.height}, seed=${seed}, ${applied} deltas, migrating to chunks)`);
     }
 
     // ==================== 初始化方法 ====================
@@ -134,6 +305,17 @@ export default class WorldManager {
             color: "#228B22",
         });
 
+        configs.set('SAPLING', {
+            type: 'SAPLING',
+            walkable: false,
+            tillable: false,
+            harvestable: false,
+            transparent: true,
+            description: "刚冒出来的树苗，过几天会长成大树",
+            symbol: "🌿",
+            color: "#6B8E23",
+        });
+
         configs.set('ROCK', {
             type: 'ROCK',
             walkable: false,
@@ -167,6 +349,50 @@ export default class WorldManager {
             color: "#A0522D",
         });
 
+        configs.set('WORKBENCH', {
+            type: 'WORKBENCH',
+            walkable: false,
+            tillable: false,
+            harvestable: false,
+            transparent: false,
+            description: "工作台，站在旁边可以合成工具和武器",
+            symbol: "🛠️",
+            color: "#DEB887",
+        });
+
+        configs.set('FURNACE', {
+            type: 'FURNACE',
+            walkable: false,
+            tillable: false,
+            harvestable: false,
+            transparent: false,
+            description: "熔炉，站在旁边可以烘烤食物",
+            symbol: "🔥",
+            color: "#B22222",
+        });
+
+        configs.set('FENCE', {
+            type: 'FENCE',
+            walkable: false,
+            tillable: false,
+            harvestable: false,
+            transparent: true,
+            description: "木栅栏，挡路但不挡视线",
+            symbol: "🚧",
+            color: "#C19A6B",
+        });
+
+        configs.set('DOOR', {
+            type: 'DOOR',
+            walkable: true,
+            tillable: false,
+            harvestable: false,
+            transparent: false,
+            description: "木门，可以穿过",
+            symbol: "🚪",
+            color: "#8B5A2B",
+        });
+
         configs.set('VOID', {
             type: 'VOID',
             walkable: false,
@@ -182,65 +408,75 @@ export default class WorldManager {
     }
 
     /**
-     * 生成默认世界
-     * 创建一个带边界墙的草地世界，随机分布水和树
-     * @param width 地图宽度
-     * @param height 地图高度
+     * 新地图的尺寸和生成参数（生成器参数用默认值补全）
      * @param seed 随机种子
+     * @param prng 随机数算法（旧存档用 lcg 才能重建出同一张地图）
+     * @param spec 地形生成器和参数（名称或参数无效时抛出错误）
+     * @param chunkSize 区块边长
      */
-    private generateDefaultWorld(width: number, height: number, seed?: number): WorldMap {
-        const tiles: Tile[][] = [];
-
-        // 使用种子初始化随机数（简单实现）
-        const random = seed ? this.seededRandom(seed) : Math.random;
-
-        for (let y = 0; y < height; y++) {
-            const row: Tile[] = [];
-            for (let x = 0; x < width; x++) {
-                // 边界是墙
-                if (x === 0 || x === width - 1 || y === 0 || y === height - 1) {
-                    row.push({ type: 'WALL' });
-                }
-                // 随机放置水体（5%）
-                else if (random() < 0.05) {
-                    row.push({ type: 'WATER' });
-                }
-                // 随机放置树木（3%）
-                else if (random() < 0.03) {
-                    row.push({
-                        type: 'TREE',
-                        state: { durability: 3 }, // 需要砍3次
-                    });
-                }
-                // 随机放置岩石（2%）
-                else if (random() < 0.02) {
-                    row.push({
-                        type: 'ROCK',
-                        state: { durability: 5 }, // 需要挖5次
-                    });
-                }
-                // 其余都是草地
-                else {
-                    row.push({ type: 'GRASS' });
-                }
-            }
-            tiles.push(row);
-        }
-
+    private createWorldMap(
+        width: number,
+        height: number,
+        seed: number,
+        prng: TerrainPrng,
+        spec: TerrainGeneratorSpec,
+        chunkSize: number,
+    ): WorldMap {
+        const { generator, params } = resolveTerrainGenerator(spec);
         return {
             width,
             height,
-            tiles,
+            chunkSize,
             metadata: {
                 name: "Default World",
                 createdAt: new Date(),
-                seed: seed || Date.now(),
+                seed,
+                prng,
+                generator: { name: generator.name, params },
             },
         };
     }
 
     /**
-     * 简单的种子随机数生成器
+     * 按地图记录的种子、随机数算法和生成器生成整张地图
+     * （同一种子 + 同一算法 + 同一生成器总是生成同一张地图；没有记录生成器的旧存档按 classic 生成）
+     * @returns 完整瓦片（由调用方切成区块）
+     */
+    private generateTiles(map: WorldMap): Tile[][] {
+        const { seed, prng, generator: spec } = map.metadata ?? {};
+        const { generator, params } = resolveTerrainGenerator(spec ?? { name: LEGACY_TERRAIN_GENERATOR });
+        const random = (prng ?? "lcg") === "mulberry32" ? this.streamRandom(seed ?? 0) : this.seededRandom(seed ?? 0);
+
+        return generator.generate({
+            width: map.width,
+            height: map.height,
+            random,
+            params,
+            regrowth: this.regrowthRules,
+            isWalkable: type => this.getTileConfig(type)?.walkable ?? false,
+        });
+    }
+
+    /**
+     * 重新生成某个区块的基础地形（存档里缺少该区块时使用）
+     * 生成器需要整张地图才能保证连通，所以第一次缺区块时生成整张地图并缓存，之后缺少的区块都从缓存里切出
+     */
+    private generateBaseChunk(coord: ChunkCoord): Tile[][] {
+        this.baseTiles ??= this.generateTiles(this.worldMap);
+        console.warn(`⚠️ Chunk (${coord.cx}, ${coord.cy}) missing from save, regenerated from seed`);
+        return sliceChunk(this.baseTiles, coord, this.worldMap.chunkSize);
+    }
+
+    /**
+     * 地形随机数（mulberry32，与 RandomService 的随机流相同）
+     */
+    private streamRandom(seed: number): () => number {
+        const stream = new RandomStream(seed);
+        return () => stream.next();
+    }
+
+    /**
+     * 旧版线性同余随机数生成器（仅用于重建没有记录算法的旧存档）
      */
     private seededRandom(seed: number): () => number {
         let state = seed;
@@ -255,15 +491,13 @@ export default class WorldManager {
     /**
      * 获取指定位置的瓦片
      * @param pos 坐标
-     * @returns 瓦片对象，超出边界返回 VOID 瓦片
+     * @returns 瓦片对象，超出边界或所在区块未加载时返回 VOID 瓦片
      */
     getTile(pos: Position2D): Tile {
         if (!this.isInBounds(pos)) {
             return { type: 'VOID' };
         }
-        const row = this.worldMap.tiles[pos.y];
-        const tile = row?.[pos.x];
-        return tile || { type: 'VOID' };
+        return this.chunks.getTile(pos) ?? { type: 'VOID' };
     }
 
     /**
@@ -374,15 +608,13 @@ export default class WorldManager {
      * @param pos 坐标
      * @param tile 新的瓦片数据
      * @param expectedVersion 期望的版本号（用于乐观锁）
-     * @returns 是否成功，失败可能是版本冲突或越界
+     * @returns 是否成功，失败可能是版本冲突、越界或所在区块未加载
      */
     setTile(pos: Position2D, tile: Tile, expectedVersion?: number): boolean {
         if (!this.isInBounds(pos)) return false;
         
-        const row = this.worldMap.tiles[pos.y];
-        if (!row) return false;
-        
-        const currentTile = row[pos.x];
+        const currentTile = this.chunks.getTile(pos);
+        if (!currentTile) return false;
         
         // 乐观锁：检查版本号
         if (expectedVersion !== undefined) {
@@ -396,14 +628,39 @@ export default class WorldManager {
         // 增加版本号
         tile.version = (currentTile?.version ?? 0) + 1;
         
-        row[pos.x] = tile;
-        
-        // 标记为脏数据
-        this.markTileDirty(pos);
+        // 写入区块（区块版本号 +1 并标记为脏数据）
+        const chunkVersion = this.chunks.setTile(pos, tile);
+        if (chunkVersion === null) return false;
+        this.trackRegrowth(pos, tile);
+
+        // 通知监听器
+        this.emitTileChange(pos, tile, { ...this.chunks.chunkOf(pos), version: chunkVersion });
         
         return true;
     }
 
+    /**
+     * 注册瓦片变化监听器
+     * 任何经过 setTile 的修改都会触发回调
+     * @param callback 回调函数，参数为坐标、新瓦片和所在区块（含变化后的区块版本号）
+     */
+    onTileChange(callback: (pos: Position2D, tile: Tile, chunk: ChunkCoord & { version: number }) => void): void {
+        this.tileChangeListeners.push(callback);
+    }
+
+    /**
+     * 触发所有瓦片变化监听器
+     */
+    private emitTileChange(pos: Position2D, tile: Tile, chunk: ChunkCoord & { version: number }): void {
+        this.tileChangeListeners.forEach(callback => {
+            try {
+                callback({ ...pos }, tile, chunk);
+            } catch (error) {
+                console.error("Error in tile change listener:", error);
+            }
+        });
+    }
+
     /**
      * 获取瓦片的当前版本号
      * @param pos 坐标
@@ -414,49 +671,152 @@ export default class WorldManager {
         return tile.version ?? 0;
     }
 
+    // ==================== 区块 ====================
+
     /**
-     * 标记瓦片为脏数据
+     * 设置区块加载器（从存档读取区块）
      */
-    private markTileDirty(pos: Position2D): void {
-        const key = `${pos.x},${pos.y}`;
-        this.dirtyTiles.add(key);
+    setChunkLoader(loader: ChunkLoader | null): void {
+        this.chunks.setLoader(loader);
     }
 
     /**
-     * 获取所有脏数据瓦片
+     * 瓦片所在的区块
      */
-    getDirtyTiles(): Array<{ pos: Position2D; tile: Tile }> {
-        const result: Array<{ pos: Position2D; tile: Tile }> = [];
-        
-        for (const key of this.dirtyTiles) {
-            const parts = key.split(',');
-            if (parts.length !== 2 || !parts[0] || !parts[1]) continue;
-            
-            const x = parseInt(parts[0], 10);
-            const y = parseInt(parts[1], 10);
-            
-            if (!isNaN(x) && !isNaN(y)) {
-                const pos = { x, y };
-                const tile = this.getTile(pos);
-                result.push({ pos, tile });
-            }
+    chunkOf(pos: Position2D): ChunkCoord {
+        return this.chunks.chunkOf(pos);
+    }
+
+    /**
+     * 以瓦片为中心、radius 圈以内的区块
+     */
+    chunksAround(pos: Position2D, radius: number): ChunkCoord[] {
+        return this.chunks.chunksAround(pos, radius);
+    }
+
+    /**
+     * 沿直线从 from 走到 to 会经过的区块（与 MovementValidator 一样逐格取样，走出地图后停止）
+     * @param from 起点（可以是小数坐标）
+     * @param to 终点（可以是小数坐标）
+     */
+    chunksAlong(from: Position2D, to: Position2D): ChunkCoord[] {
+        const steps = Math.ceil(Math.max(Math.abs(to.x - from.x), Math.abs(to.y - from.y)));
+        if (!Number.isFinite(steps)) return [];
+
+        const result = new Map<string, ChunkCoord>();
+        for (let i = 0; i <= steps; i++) {
+            const t = steps === 0 ? 0 : i / steps;
+            const tile = {
+                x: Math.floor(from.x + (to.x - from.x) * t),
+                y: Math.floor(from.y + (to.y - from.y) * t),
+            };
+            if (!this.isInBounds(tile)) break;
+
+            const coord = this.chunks.chunkOf(tile);
+            result.set(`${coord.cx},${coord.cy}`, coord);
         }
-        
-        return result;
+        return [...result.values()];
+    }
+
+    /**
+     * 与矩形区域相交的区块，外扩 margin 圈
+     */
+    chunksInRect(rect: Rectangle, margin: number = 0): ChunkCoord[] {
+        return this.chunks.chunksInRect(rect.x, rect.y, rect.width, rect.height, margin);
+    }
+
+    /**
+     * 区块坐标是否在地图内
+     */
+    isValidChunk(coord: ChunkCoord): boolean {
+        return this.chunks.isValidChunk(coord);
     }
 
     /**
-     * 清除脏数据标记
+     * 区块是否已加载
      */
-    clearDirtyFlags(): void {
-        this.dirtyTiles.clear();
+    isChunkLoaded(coord: ChunkCoord): boolean {
+        return this.chunks.isLoaded(coord);
+    }
+
+    /**
+     * 获取已加载区块的数据
+     * @returns 区块数据；未加载时返回 undefined
+     */
+    getChunk(coord: ChunkCoord): ChunkData | undefined {
+        return this.chunks.getChunk(coord);
+    }
+
+    /**
+     * 加载区块（已加载的直接返回；存档里缺少的区块按种子重新生成）
+     * @returns 加载成功的区块数据（坐标无效的区块会被跳过）
+     */
+    async loadChunks(coords: ChunkCoord[]): Promise<ChunkData[]> {
+        const loaded = await Promise.all(coords.map(coord => this.chunks.load(coord, c => this.generateBaseChunk(c))));
+        return loaded.filter((chunk): chunk is ChunkData => chunk !== null);
+    }
+
+    /**
+     * 卸载长时间不活跃、没有未保存修改的区块
+     * @param active 当前活跃的区块
+     * @param idleMs 不活跃多久后卸载（毫秒）
+     * @returns 被卸载的区块数
+     */
+    evictIdleChunks(active: Iterable<ChunkCoord>, idleMs: number): number {
+        return this.chunks.evictIdle(active, idleMs).length;
+    }
+
+    /**
+     * 已加载的区块数（用于监控）
+     */
+    getLoadedChunkCount(): number {
+        return this.chunks.getLoadedCount();
+    }
+
+    /**
+     * 注册区块加载监听器（作物等按瓦片建立的索引用它同步）
+     */
+    onChunkLoad(callback: (chunk: ChunkData) => void): void {
+        this.chunks.onChunkLoad(callback);
+    }
+
+    /**
+     * 注册区块卸载监听器
+     */
+    onChunkUnload(callback: (chunk: ChunkData) => void): void {
+        this.chunks.onChunkUnload(callback);
+    }
+
+    /**
+     * 取出所有脏区块的快照并清除标记（保存期间产生的新修改会留到下一轮）
+     */
+    takeDirtyChunks(): ChunkData[] {
+        return this.chunks.takeDirtyChunks();
+    }
+
+    /**
+     * 重新标记区块为脏数据（保存失败时回滚用，已被卸载的区块会按快照放回内存）
+     */
+    restoreDirtyChunks(chunks: ChunkData[]): void {
+        this.chunks.restoreDirtyChunks(chunks);
     }
 
     /**
      * 检查是否有脏数据
      */
     hasDirtyData(): boolean {
-        return this.dirtyTiles.size > 0;
+        return this.chunks.hasDirtyChunks();
+    }
+
+    /**
+     * 遍历区块里的瓦片（坐标换算成世界坐标）
+     */
+    private forEachChunkTile(chunk: ChunkData, callback: (tile: Tile, pos: Position2D) => void): void {
+        const originX = chunk.cx * chunk.size;
+        const originY = chunk.cy * chunk.size;
+        chunk.tiles.forEach((row, y) => {
+            row.forEach((tile, x) => callback(tile, { x: originX + x, y: originY + y }));
+        });
     }
 
     /**
@@ -508,6 +868,7 @@ export default class WorldManager {
                 ...tile.state,
                 crop: cropId,
                 growthStage: 0,
+                growthTicks: 0,
                 lastInteractedAt: new Date().toISOString(),
             },
         };
@@ -543,12 +904,48 @@ export default class WorldManager {
         return this.setTile(pos, newTile, expectedVersion);
     }
 
+    /**
+     * 收获成熟作物（带并发控制）
+     * 收获后耕地回到未种植状态（保留耕作和浇水状态）
+     * @param pos 坐标
+     * @returns 收获结果，失败时 reason 说明原因
+     */
+    harvestCrop(pos: Position2D): { success: boolean; drops?: string[]; reason?: "no_crop" | "not_mature" | "conflict" } {
+        const tile = this.getTile(pos);
+        const cropId = tile.state?.crop;
+        if (tile.type !== 'FARMLAND' || !cropId) {
+            return { success: false, reason: "no_crop" };
+        }
+
+        const definition = getCropDefinition(cropId);
+        if (!definition || !isCropMature(definition, tile.state?.growthStage ?? 0)) {
+            return { success: false, reason: "not_mature" };
+        }
+
+        const expectedVersion = tile.version ?? 0;
+        const success = this.setTile(pos, {
+            type: 'FARMLAND',
+            state: {
+                tilled: true,
+                watered: tile.state?.watered ?? false,
+                lastInteractedAt: new Date().toISOString(),
+            },
+        }, expectedVersion);
+
+        if (!success) {
+            return { success: false, reason: "conflict" }; // 版本冲突
+        }
+
+        return { success: true, drops: rollCropYields(definition, this.lootRandom) };
+    }
+
     /**
      * 采集资源（砍树、挖石头）- 带并发控制
      * @param pos 坐标
+     * @param damage 本次减少的耐久度（空手为 1，斧头、镐更多）
      * @returns 采集结果 { success: boolean, complete: boolean, drops?: string[] }
      */
-    harvest(pos: Position2D): { success: boolean; complete: boolean; drops?: string[] } {
+    harvest(pos: Position2D, damage: number = 1): { success: boolean; complete: boolean; drops?: string[] } {
         if (!this.isHarvestable(pos)) {
             return { success: false, complete: false };
         }
@@ -558,14 +955,14 @@ export default class WorldManager {
 
         // 减少耐久度
         if (tile.state?.durability !== undefined) {
-            const newDurability = tile.state.durability - 1;
+            const newDurability = tile.state.durability - Math.max(1, damage);
 
             // 耐久度归零，移除该资源
             if (newDurability <= 0) {
                 const drops = this.getDrops(tile.type);
 
-                // 替换为草地
-                const success = this.setTile(pos, { type: 'GRASS' }, expectedVersion);
+                // 树留下树苗，岩石留下裸土，之后按再生规则长回来
+                const success = this.setTile(pos, this.clearedTile(pos, tile.type), expectedVersion);
                 
                 if (!success) {
                     return { success: false, complete: false }; // 版本冲突
@@ -604,24 +1001,98 @@ export default class WorldManager {
             case 'TREE':
                 return ["wood", "wood", "wood"];
             case 'ROCK':
-                return ["stone", "stone", "stone", "stone", "stone"];
+                return ["stone", "stone", "stone", "stone", "stone", "dirt"];
             default:
                 return [];
         }
     }
 
+    /**
+     * 检查位置是否可以放置方块
+     * 只能放在空地（草地、泥土、沙地）上；耕地、资源、建筑等都算已占用
+     * @param pos 坐标
+     */
+    isPlaceable(pos: Position2D): boolean {
+        const tile = this.getTile(pos);
+        return this.BUILDABLE_GROUND.includes(tile.type) && !tile.state?.placedItem;
+    }
+
+    /**
+     * 放置方块（带并发控制）
+     * 记录放置前的地面类型和消耗的物品，破坏时恢复地面并返还物品
+     * @param pos 坐标
+     * @param type 放置后的瓦片类型
+     * @param itemId 消耗的物品 ID
+     * @param placedBy 放置者 ID
+     * @returns 放置结果：not_empty 表示位置已被占用，conflict 表示版本冲突
+     */
+    placeTile(pos: Position2D, type: TerrainType, itemId: string, placedBy: string): "placed" | "not_empty" | "conflict" {
+        if (!this.isPlaceable(pos)) return "not_empty";
+
+        const tile = this.getTile(pos);
+        if (tile.type === type) return "not_empty"; // 泥土上再放泥土没有意义
+
+        const success = this.setTile(pos, {
+            type,
+            state: {
+                placedItem: itemId,
+                baseType: tile.type,
+                placedBy,
+                lastInteractedAt: new Date().toISOString(),
+            },
+        }, tile.version ?? 0);
+
+        return success ? "placed" : "conflict";
+    }
+
+    /**
+     * 破坏玩家放置的方块（带并发控制）
+     * 地图生成的墙、工作台等不能破坏
+     * @param pos 坐标
+     * @returns 破坏结果，成功时返回应返还的物品 ID
+     */
+    breakTile(pos: Position2D): { success: boolean; itemId?: string; reason?: "not_placed" | "conflict" } {
+        const tile = this.getTile(pos);
+        const itemId = tile.state?.placedItem;
+        if (!itemId) {
+            return { success: false, reason: "not_placed" };
+        }
+
+        const success = this.setTile(pos, { type: tile.state?.baseType ?? 'GRASS' }, tile.version ?? 0);
+        if (!success) {
+            return { success: false, reason: "conflict" };
+        }
+
+        return { success: true, itemId };
+    }
+
+    /**
+     * 烧毁树木（雷击点燃），不掉落木材，只留下按再生规则长大的树苗
+     * @param pos 坐标
+     * @returns 是否烧毁了一棵树
+     */
+    burnTree(pos: Position2D): boolean {
+        if (!this.isInBounds(pos)) return false;
+
+        const tile = this.getTile(pos);
+        if (tile.type !== 'TREE') return false;
+
+        return this.setTile(pos, this.clearedTile(pos, tile.type), tile.version ?? 0);
+    }
+
     // ==================== 输出接口 ====================
 
     /**
      * 输出玩家视野内的场景描述
      * 类比 MUD 游戏的 "look" 命令
      * @param center 玩家位置
-     * @param radius 视野范围
+     * @param radius 视野范围（会乘以天气的视野倍率，至少 1 格）
      */
     describeView(center: Position2D, radius: number = 3): string {
-        const visible = this.getVisibleTiles(center, radius);
+        const scale = this.viewRadiusScale();
+        const visible = this.getVisibleTiles(center, Math.max(1, Math.round(radius * scale)));
 
-        let description = `你站在 (${center.x}, ${center.y})，环顾四周：\n\n`;
+        let description = `你站在 (${center.x}, ${center.y})，环顾四周${scale < 1 ? "（雾气弥漫，看不远）" : ""}：\n\n`;
 
         // 统计可见瓦片类型
         const counts = new Map<TerrainType, number>();
@@ -672,13 +1143,25 @@ export default class WorldManager {
     }
 
     /**
-     * 获取完整地图数据（用于前端渲染）
+     * 查找满足条件的所有瓦片（只查找已加载的区块）
+     * @param predicate 过滤条件
+     */
+    findTiles(predicate: (tile: Tile, pos: Position2D) => boolean): Array<{ pos: Position2D; tile: Tile }> {
+        const result: Array<{ pos: Position2D; tile: Tile }> = [];
+        this.chunks.forEachLoadedTile((tile, pos) => {
+            if (predicate(tile, pos)) result.push({ pos, tile });
+        });
+        return result;
+    }
+
+    /**
+     * 获取地图信息（用于前端渲染；瓦片通过区块订阅获取）
      */
     getMapData() {
         return {
             width: this.worldMap.width,
             height: this.worldMap.height,
-            tiles: this.worldMap.tiles,
+            chunkSize: this.worldMap.chunkSize,
             metadata: this.worldMap.metadata,
         };
     }
@@ -693,14 +1176,144 @@ export default class WorldManager {
         };
     }
 
+    // ==================== 资源再生 ====================
+
+    /**
+     * 接入世界时钟（资源再生按世界 tick 计算）
+     */
+    setClock(clock: WorldClock): void {
+        this.clock = clock;
+    }
+
+    /**
+     * 设置占位检查：有角色站着的位置不会长出树或岩石
+     */
+    setOccupancyCheck(check: (pos: Position2D) => boolean): void {
+        this.isOccupied = check;
+    }
+
+    /**
+     * 设置视野半径倍率（天气效果按当前天气给出）
+     */
+    setViewRadiusScale(scale: () => number): void {
+        this.viewRadiusScale = scale;
+    }
+
+    /**
+     * 设置掉落随机数来源（作物产量）
+     */
+    setLootRandom(random: () => number): void {
+        this.lootRandom = random;
+    }
+
+    /**
+     * 获取资源再生规则
+     */
+    getRegrowthRules(): RegrowthRules {
+        return { ...this.regrowthRules, quarries: this.regrowthRules.quarries.map(q => ({ ...q })) };
+    }
+
+    /**
+     * 修改资源再生规则（只影响之后被采集的资源，已在等待的再生时间不变）
+     */
+    setRegrowthRules(patch: Partial<RegrowthRules>): RegrowthRules {
+        this.regrowthRules = { ...this.regrowthRules, ...patch };
+        return this.getRegrowthRules();
+    }
+
     /**
-     * 游戏循环更新
+     * 获取等待再生的瓦片数量（用于监控）
+     */
+    getRegrowingCount(): number {
+        return this.regrowing.size;
+    }
+
+    /**
+     * 资源被采集完后留下的瓦片
+     * - 树 -> 树苗，saplingDays 天后长回大树
+     * - 采石场里的岩石 -> 裸土，quarryDays 天后重新出现岩石
+     * - 其他岩石 -> 裸土，grassDays 天后长回草地
+     */
+    private clearedTile(pos: Position2D, type: TerrainType): Tile {
+        const rules = this.regrowthRules;
+        const tick = this.clock.getCurrentTime();
+        const ticksPerDay = this.clock.getTicksPerDay();
+
+        if (type === 'TREE') {
+            return { type: 'SAPLING', state: { regrowAt: tick + rules.saplingDays * ticksPerDay, regrowInto: 'TREE' } };
+        }
+
+        if (type === 'ROCK' && isInQuarry(rules, pos.x, pos.y)) {
+            return { type: 'DIRT', state: { regrowAt: tick + rules.quarryDays * ticksPerDay, regrowInto: 'ROCK' } };
+        }
+
+        return { type: 'DIRT', state: { regrowAt: tick + rules.grassDays * ticksPerDay, regrowInto: 'GRASS' } };
+    }
+
+    /**
+     * 到期的瓦片长回原来的资源
+     * 要长出不可通行的资源（树、岩石）时如果有角色站着，等到下一个 tick 再试
+     */
+    private applyRegrowth(tick: number): void {
+        for (const [key, regrowAt] of this.regrowing) {
+            if (regrowAt > tick) continue;
+
+            const pos = this.parseKey(key);
+            const tile = this.getTile(pos);
+            const into = tile.state?.regrowInto;
+            if (!into) {
+                this.regrowing.delete(key);
+                continue;
+            }
+
+            const walkable = this.getTileConfig(into)?.walkable ?? false;
+            if (!walkable && this.isOccupied(pos)) continue;
+
+            this.setTile(pos, this.grownTile(into), tile.version ?? 0);
+        }
+    }
+
+    /**
+     * 再生出来的瓦片（树和岩石带上采集耐久）
+     */
+    private grownTile(type: TerrainType): Tile {
+        switch (type) {
+            case 'TREE':
+                return { type, state: { durability: this.regrowthRules.treeDurability } };
+            case 'ROCK':
+                return { type, state: { durability: this.regrowthRules.rockDurability } };
+            default:
+                return { type };
+        }
+    }
+
+    /**
+     * 根据瓦片变化更新再生索引
+     */
+    private trackRegrowth(pos: Position2D, tile: Tile): void {
+        const key = `${pos.x},${pos.y}`;
+        const regrowAt = tile.state?.regrowAt;
+        if (regrowAt !== undefined && tile.state?.regrowInto) {
+            this.regrowing.set(key, regrowAt);
+        } else {
+            this.regrowing.delete(key);
+        }
+    }
+
+    private parseKey(key: string): Position2D {
+        const [x, y] = key.split(',').map(Number);
+        return { x: x ?? 0, y: y ?? 0 };
+    }
+
+    /**
+     * 游戏循环更新：每个新的世界 tick 检查一次到期的资源再生
      * @param deltaTime 距离上次更新的时间（毫秒）
      */
     update(deltaTime: number): void {
-        // TODO: 实现动态地形逻辑
-        // - 作物生长
-        // - 天气对地形的影响（下雨使耕地变湿润）
-        // - 资源再生
+        const tick = this.clock.getCurrentTime();
+        if (tick === this.lastRegrowthTick) return;
+        this.lastRegrowthTick = tick;
+
+        this.applyRegrowth(tick);
     }
 }
\ No newline at end of file
@@ -1,4 +1,7 @@
 import type { WeatherType } from "../../types/weather.js";
+import type { Position } from "../../types/agent.js";
+import type { Position2D } from "../../types/terrain.js";
+import type { Season } from "../../types/game.js";
 
 /**
  * 定义天气状态机：
@@ -36,6 +39,25 @@ const WEATHER_TRANSITIONS: Record<WeatherType, [WeatherType, number][]> = {
     ],
 };
 
+/**
+ * 季节对天气转移概率的倍率：
+ * 转移表里每一项的概率乘以当前季节的倍率后重新归一化（未列出的天气倍率为 1）。
+ * 例如冬天下雪概率大幅提高、夏天不下雪而雷暴更多。
+ */
+const SEASON_WEATHER_WEIGHTS: Record<Season, Partial<Record<WeatherType, number>>> = {
+    spring: { rain: 1.5, snow: 0.2 },
+    summer: { storm: 2, fog: 0.5, snow: 0 },
+    autumn: { fog: 1.5, rain: 1.2, snow: 0.5 },
+    winter: { snow: 6, rain: 0.3, storm: 0.2 },
+};
+
+/**
+ * 是否是合法的天气代码（用于校验存档和请求）
+ */
+export function isWeatherType(value: unknown): value is WeatherType {
+    return typeof value === "string" && value in WEATHER_TRANSITIONS;
+}
+
 /**
  * 将天气代码转成可读的中文描述，方便 UI 展示。
  * @param weather 输入：WeatherType。
@@ -58,18 +80,38 @@ export function describeWeather(weather: WeatherType): string {
     }
 }
 
+/**
+ * 按季节调整后的天气转移概率表（概率之和为 1）。
+ * @param current 输入：当前天气代码。
+ * @param season 输入：当前季节（不传时使用原始概率）。
+ */
+export function getWeatherTransitions(current: WeatherType, season?: Season): [WeatherType, number][] {
+    const transitions = WEATHER_TRANSITIONS[current] ?? WEATHER_TRANSITIONS.clear;
+    if (!season) return transitions;
+
+    const weights = SEASON_WEATHER_WEIGHTS[season];
+    const scaled = transitions.map(([next, prob]): [WeatherType, number] => [next, prob * (weights[next] ?? 1)]);
+    const total = scaled.reduce((sum, [, prob]) => sum + prob, 0);
+
+    // 所有候选都被季节排除时退回晴天
+    if (total <= 0) return [["clear", 1]];
+    return scaled.map(([next, prob]) => [next, prob / total]);
+}
+
 /**
  * 根据当前天气，按权重随机下一个天气。
  * @param current 输入：当前天气代码。
+ * @param season 输入：当前季节（调整各天气的权重，如冬天更容易下雪）。
+ * @param random 输入：随机数来源（默认 Math.random）。
  * @returns 输出：下一帧天气。
  * 内部流程：
- * 1. 读取 WEATHER_TRANSITIONS[current] 对应的概率表。
+ * 1. 读取 WEATHER_TRANSITIONS[current] 对应的概率表，并按季节倍率重新归一化。
  * 2. 掷一个 0-1 的随机数，落入哪个区间就切换到哪种天气。
  * 3. 若出现浮点误差导致没有匹配，回退到最后一项（保证总有结果）。
  */
-export function getNextWeather(current: WeatherType): WeatherType {
-    const transitions = WEATHER_TRANSITIONS[current] ?? WEATHER_TRANSITIONS.clear;
-    const roll = Math.random();
+export function getNextWeather(current: WeatherType, season?: Season, random: () => number = Math.random): WeatherType {
+    const transitions = getWeatherTransitions(current, season);
+    const roll = random();
     let sum = 0;
     for (const [next, prob] of transitions) {
         sum += prob;
@@ -80,4 +122,16 @@ export function getNextWeather(current: WeatherType): WeatherType {
     // This should be safe as the transitions arrays are not empty.
     const lastTransition = transitions[transitions.length - 1];
     return lastTransition ? lastTransition[0] : "clear";
-}
\ No newline at end of file
+}
+
+/**
+ * 将 3D 位置转换为 2D 地图坐标（瓦片网格）。
+ * @param pos3D 输入：玩家/实体的 3D 位置。
+ * @returns 输出：瓦片坐标。忽略 Y 轴（高度），地图的 Y 对应 3D 空间的 Z。
+ */
+export function to2D(pos3D: Position): Position2D {
+    return {
+        x: Math.floor(pos3D.x),
+        y: Math.floor(pos3D.z),
+    };
+}
@@ -0,0 +1,285 @@
+import Game from "./index.js";
+import { WorldRepository } from "./Repositories/WorldRepository.js";
+import type { GameWorldOptions, WorldSummary } from "../types/game.js";
+import type { PlayerSnapshot } from "../types/agent.js";
+
+/**
+ * 玩家跨世界传送事件
+ */
+export interface PlayerTransferEvent {
+    /** 玩家在目标世界的快照 */
+    player: PlayerSnapshot;
+    fromWorldId: string;
+    toWorldId: string;
+}
+
+/**
+ * WorldRegistry - 世界注册表
+ * 类比 Minecraft 服务器同时运行主世界、下界和末地：
+ * - 一个进程可以同时加载多个互不干扰的世界，每个世界有自己的主循环、时间、天气和地形
+ * - 世界按 worldId 创建、加载、卸载（卸载前保存），同一个世界的并发加载只会初始化一次
+ * - 默认世界（GAME_WORLD_ID）承载旧的 /api/* 路由和 WebSocket 默认连接，不能卸载
+ * - 玩家可以带着背包、属性和记忆传送到另一个已加载的世界
+ */
+export default class WorldRegistry {
+    /** 已加载的世界（worldId -> Game） */
+    private worlds: Map<string, Game> = new Map();
+
+    /** 正在加载的世界 */
+    private loading: Map<string, Promise<Game>> = new Map();
+
+    /** 正在跨世界传送的玩家（防止同一玩家并发传送） */
+    private transferring: Set<string> = new Set();
+
+    private worldRepository = new WorldRepository();
+
+    /** 世界加载 / 卸载、玩家传送监听器（用于挂接 WebSocket 广播） */
+    private loadListeners: Array<(game: Game) => void> = [];
+    private unloadListeners: Array<(worldId: string) => void> = [];
+    private transferListeners: Array<(event: PlayerTransferEvent) => void> = [];
+
+    /**
+     * @param defaultWorldId 默认世界 ID
+     * @param createGame 创建世界实例（默认 new Game，测试时可以换成替身）
+     */
+    constructor(
+        private readonly defaultWorldId: string,
+        private readonly createGame: (worldId: string, options: GameWorldOptions) => Game = (worldId, options) => new Game(worldId, options),
+    ) {}
+
+    getDefaultWorldId(): string {
+        return this.defaultWorldId;
+    }
+
+    /**
+     * 获取已加载的世界
+     */
+    get(worldId: string): Game | undefined {
+        return this.worlds.get(worldId);
+    }
+
+    /**
+     * 获取默认世界（未加载时抛出）
+     */
+    getDefault(): Game {
+        const game = this.worlds.get(this.defaultWorldId);
+        if (!game) {
+            throw new Error(`Default world "${this.defaultWorldId}" is not loaded`);
+        }
+        return game;
+    }
+
+    has(worldId: string): boolean {
+        return this.worlds.has(worldId);
+    }
+
+    /**
+     * 已加载世界的概要
+     */
+    list(): WorldSummary[] {
+        return Array.from(this.worlds.values()).map(game => game.getSummary());
+    }
+
+    /**
+     * 有存档但没有加载的世界
+     */
+    async listUnloaded(): Promise<string[]> {
+        const ids = await this.worldRepository.listWorldIds();
+        return ids.filter(id => !this.worlds.has(id));
+    }
+
+    /**
+     * 加载世界（没有存档时按 options 创建新世界）
+     * @param worldId 世界 ID
+     * @param options 新世界的种子、地形生成器、地图尺寸和区块边长；已有存档时以存档为准
+     * @returns 已初始化并开始运行的世界
+     */
+    async load(worldId: string, options: GameWorldOptions = {}): Promise<Game> {
+        const loaded = this.worlds.get(worldId);
+        if (loaded) return loaded;
+
+        const pending = this.loading.get(worldId);
+        if (pending) return pending;
+
+        const promise = (async () => {
+            console.log(`🌍 Loading world: ${worldId}`);
+            const game = this.createGame(worldId, options);
+            await game.init();
+            this.worlds.set(worldId, game);
+            console.log(`✅ World loaded: ${worldId} (${this.worlds.size} loaded)`);
+            this.emitLoad(game);
+            return game;
+        })();
+
+        this.loading.set(worldId, promise);
+        try {
+            return await promise;
+        } finally {
+            this.loading.delete(worldId);
+        }
+    }
+
+    /**
+     * 创建新世界（存档已存在或已加载时抛出）
+     */
+    async create(worldId: string, options: GameWorldOptions = {}): Promise<Game> {
+        if (this.worlds.has(worldId) || this.loading.has(worldId) || await this.worldRepository.exists(worldId)) {
+            throw new Error(`World "${worldId}" already exists`);
+        }
+        return await this.load(worldId, options);
+    }
+
+    /**
+     * 卸载世界：停止主循环并保存（默认世界不能卸载）
+     * @returns 世界未加载时返回 false
+     */
+    async unload(worldId: string): Promise<boolean> {
+        if (worldId === this.defaultWorldId) {
+            throw new Error("The default world cannot be unloaded");
+        }
+
+        const game = this.worlds.get(worldId);
+        if (!game) return false;
+
+        this.worlds.delete(worldId);
+        await game.shutdown();
+        console.log(`💤 World unloaded: ${worldId} (${this.worlds.size} loaded)`);
+        this.emitUnload(worldId);
+        return true;
+    }
+
+    /**
+     * 把玩家传送到另一个世界
+     * 1. 从原世界摘下玩家（NPC、死亡的玩家不能传送）
+     * 2. 把玩家存档和记忆迁移到目标世界
+     * 3. 目标世界在出生点接收玩家（背包、属性、记忆不变）
+     * 任何一步失败都会撤销已经完成的步骤、把玩家放回原世界，并抛出原来的错误
+     * @returns 玩家在目标世界的快照
+     */
+    async transferPlayer(playerId: string, fromWorldId: string, toWorldId: string): Promise<PlayerSnapshot> {
+        if (fromWorldId === toWorldId) {
+            throw new Error("Player is already in this world");
+        }
+
+        const source = this.worlds.get(fromWorldId);
+        if (!source) throw new Error(`World "${fromWorldId}" is not loaded`);
+        const target = this.worlds.get(toWorldId);
+        if (!target) throw new Error(`World "${toWorldId}" is not loaded`);
+
+        if (this.transferring.has(playerId)) {
+            throw new Error(`Player ${playerId} is already transferring`);
+        }
+
+        this.transferring.add(playerId);
+        try {
+            const snapshot = await source.detachPlayer(playerId);
+
+            let saveMoved = false;
+            let player: PlayerSnapshot;
+            try {
+                await source.movePlayerSave(playerId, toWorldId);
+                saveMoved = true;
+                player = await target.admitPlayer(snapshot);
+            } catch (err) {
+                await this.rollbackTransfer(snapshot, source, target, saveMoved);
+                throw err;
+            }
+
+            console.log(`🌀 Player "${player.name}" transferred: ${fromWorldId} -> ${toWorldId}`);
+            this.emitTransfer({ player, fromWorldId, toWorldId });
+            return player;
+        } finally {
+            this.transferring.delete(playerId);
+        }
+    }
+
+    /**
+     * 撤销传送中已经完成的步骤（admitPlayer 失败时自己会清理，这里不用撤销）
+     * 每一步单独捕获错误：存档没能迁回时也要先把玩家放回原世界的内存，不能让玩家两边都不在
+     * @param saveMoved 存档是否已经迁移到目标世界
+     */
+    private async rollbackTransfer(snapshot: PlayerSnapshot, source: Game, target: Game, saveMoved: boolean): Promise<void> {
+        const fromWorldId = source.getWorldId();
+
+        if (saveMoved) {
+            try {
+                await target.movePlayerSave(snapshot.id, fromWorldId);
+            } catch (error) {
+                console.error(`❌ Failed to move save of player ${snapshot.id} back to world ${fromWorldId}:`, error);
+            }
+        }
+
+        try {
+            await source.reattachPlayer(snapshot);
+        } catch (error) {
+            console.error(`❌ Failed to reattach player ${snapshot.id} to world ${fromWorldId}:`, error);
+        }
+    }
+
+    /**
+     * 保存并关闭所有世界（服务器关闭时调用）
+     */
+    async shutdownAll(): Promise<void> {
+        for (const [worldId, game] of this.worlds) {
+            try {
+                await game.shutdown();
+            } catch (error) {
+                console.error(`❌ Failed to shut down world ${worldId}:`, error);
+            }
+        }
+        this.worlds.clear();
+    }
+
+    // ==================== 监听器 ====================
+
+    /**
+     * 注册世界加载监听器（在世界开始运行后调用）
+     */
+    onWorldLoad(callback: (game: Game) => void): void {
+        this.loadListeners.push(callback);
+    }
+
+    /**
+     * 注册世界卸载监听器
+     */
+    onWorldUnload(callback: (worldId: string) => void): void {
+        this.unloadListeners.push(callback);
+    }
+
+    /**
+     * 注册玩家跨世界传送监听器
+     */
+    onPlayerTransfer(callback: (event: PlayerTransferEvent) => void): void {
+        this.transferListeners.push(callback);
+    }
+
+    private emitLoad(game: Game): void {
+        this.loadListeners.forEach(callback => {
+            try {
+                callback(game);
+            } catch (error) {
+                console.error("Error in world load listener:", error);
+            }
+        });
+    }
+
+    private emitUnload(worldId: string): void {
+        this.unloadListeners.forEach(callback => {
+            try {
+                callback(worldId);
+            } catch (error) {
+                console.error("Error in world unload listener:", error);
+            }
+        });
+    }
+
+    private emitTransfer(event: PlayerTransferEvent): void {
+        this.transferListeners.forEach(callback => {
+            try {
+                callback(event);
+            } catch (error) {
+                console.error("Error in player transfer listener:", error);
+            }
+        });
+    }
+}
@@ -2,21 +2,48 @@
 import WeatherManager from "./World/WeatherManager";
 import WorldManager from "./World/WorldManager";
 import TimeManager from "./World/TimeManager";
+import CropManager from "./World/CropManager.js";
+import { FogEffect, LightningEffect, RainWateringEffect, SnowEffect } from "./World/WeatherEffects.js";
+import RandomService from "./Random/RandomService.js";
 
 import InteractionManager from "./Interaction/InteractionManager";
+import CombatManager from "./Combat/CombatManager.js";
+import RespawnManager from "./Combat/RespawnManager.js";
+import { listWeaponDefinitions } from "./Combat/WeaponRegistry.js";
+import CraftingManager from "./Crafting/CraftingManager.js";
+import { getRecipe, listRecipes } from "./Crafting/RecipeRegistry.js";
+import MovementValidator, { type MovementMode } from "./World/MovementValidator.js";
 import AgentManager from "./AgentFactory/AgentManager";
+import NpcManager from "./AgentFactory/NpcManager.js";
+import SurvivalManager from "./AgentFactory/SurvivalManager.js";
+import { AgentActionQueue, ActionPriority, ActionType, type ActionOptions } from "./AgentFactory/ActionQueue.js";
+import type { NpcWorld } from "./AgentFactory/Agent/NpcAgent.js";
+import { AgentMcpAdapter } from "./AgentFactory/MCP/McpAdapter.js";
+import { createGameToolRegistrar } from "./AgentFactory/MCP/tools.js";
+import type PlayerAgent from "./AgentFactory/Agent/PlayerAgent.js";
 import { GameWorldStateModel } from "../Models/GameWorldState.js";
 import type { GameWorldStateDocument } from "../Models/GameWorldState.js";
-import { WorldMapModel } from "../Models/WorldMap.js";
-import type { GameTimeSnapshot } from "../types/game.js";
+import type { GameTimeSnapshot, GameWorldOptions, WeatherForecast, WeatherSpell, WorldSummary } from "../types/game.js";
+import type { ChunkCoord, ChunkData, Rectangle, TerrainGeneratorInfo, TerrainGeneratorSpec } from "../types/terrain.js";
+import type { AgentSpeechBroadcast, LightningStrikeBroadcast, TileUpdateBroadcast, TimeSyncPayload } from "../../shared/websocket.js";
+import type { SpawnNpcParams } from "../types/npc.js";
+import type { MovementOutcome } from "./Services/PlayerService.js";
+import type { InteractionRequest, InteractionResult } from "./Interaction/InteractionManager.js";
+import type { PlayerSnapshot, Position, RespawnResult, SurvivalActionResult } from "../types/agent.js";
+import type { CraftResult, RecipeDefinition } from "../types/crafting.js";
+import type { AttackCommand, AttackResult, CombatSettings, EntityDamagedBroadcast, EntityDiedBroadcast } from "../types/combat.js";
 
 //utils
-import { TimeOfDay } from "../types/weather.js";
-import { describeWeather } from "./World/utils.js";
+import { TimeOfDay, type WeatherType } from "../types/weather.js";
+import { describeWeather, to2D } from "./World/utils.js";
+import { describeCalendar } from "./World/Calendar.js";
+import { listTerrainGenerators } from "./World/TerrainGenerators.js";
 
 // Service Layer
 import { PlayerService } from "./Services/PlayerService.js";
 import { PlayerRepository } from "./Repositories/PlayerRepository.js";
+import { WorldRepository } from "./Repositories/WorldRepository.js";
+import { MemoryRepository } from "./Repositories/MemoryRepository.js";
 
 // types
 
@@ -26,26 +53,68 @@ import { PlayerRepository } from "./Repositories/PlayerRepository.js";
  * - 负责统筹整个服务器世界（天气、时间、玩家、交互等）。
  * - 启动时会从 MongoDB 取回某个 worldId 对应的“存档”（类似 level.dat），
  *   恢复世界钟并让所有玩家看到统一的昼夜变化。
+ * - 一个服务器进程可以同时运行多个世界，由 WorldRegistry 统一创建、加载和卸载。
  */
 export default class Game {
-    /** 全局唯一的 Game 实例，就像单个 Minecraft 服务器进程。 */
-    private static instance: Game;
-    /** worldId：对应哪一个世界存档。输入：字符串，通常来自环境变量。 */
+    /** worldId：对应哪一个世界存档。输入：字符串，来自环境变量或世界管理 API。 */
     private gameId: string;
 
+    /** 随机数服务 -> 地形、天气、掉落、NPC 决策各用一条可存档的随机流。 */
+    private random: RandomService;
+    /** 启动时指定的主随机种子（GAME_SEED），已有存档时以存档为准。 */
+    private readonly requestedSeed: number | undefined;
+
     /** 天气管理器 -> 类似控制《我的世界》里的下雨/雷暴逻辑。 */
     private weatherManager: WeatherManager;
+    /** 雷暴落雷效果 -> 随机劈中瓦片，伤害附近角色、点燃树木。 */
+    private lightningEffect: LightningEffect;
     /** 世界管理器 -> 管理地形/环境，占位以便后续挂接地形等系统。 */
     private worldManager: WorldManager;
     /** 时间管理器 -> 世界心跳，推进世界 tick。 */
     private timeManager: TimeManager;
+    /** 作物管理器 -> 按世界 tick 推进作物生长，每天重置浇水状态。 */
+    private cropManager: CropManager;
     /** 交互管理器 -> 玩家与方块、NPC 的交互中心。 */
     private interactionManager: InteractionManager;
+    /** 战斗管理器 -> 近战、武器冷却、击杀经验和 PvP 开关。 */
+    private combatManager: CombatManager;
+    /** 复活管理器 -> 死亡惩罚、复活倒计时和个人出生点。 */
+    private respawnManager: RespawnManager;
+    /** 移动校验器 -> 所有移动（玩家、NPC）的碰撞和边界检查。 */
+    private movementValidator: MovementValidator;
     /** Agent 管理器 -> 管理所有"冒险家/玩家"实体。 */
     private agentManager: AgentManager;
+    /** 生存管理器 -> 饱食度、体力、精力随世界 tick 变化，吃东西、睡觉。 */
+    private survivalManager: SurvivalManager;
+    /** 合成管理器 -> 按配方消耗材料、产出物品，工作台和合成时间。 */
+    private craftingManager: CraftingManager;
+    /** NPC 管理器 -> 驱动由 LLM 控制的 NPC（感知 → 决策 → 行动）。 */
+    private npcManager: NpcManager;
+    /** 行为队列 -> 所有角色的移动、交互按优先级串行执行，可取消、可抢占。 */
+    private actionQueue: AgentActionQueue;
+    /** 行为 ID 计数器 */
+    private actionIdCounter = 0;
+    /** 行为超时（毫秒，包含排队时间），防止过期的指令在很久之后才执行 */
+    private readonly actionTimeoutMs = 10_000;
+    /** 外部控制（MCP 客户端）访问世界的接口，普通优先级。 */
+    private agentWorld: NpcWorld;
+    /** 自主角色移动监听器（用于 WebSocket 广播 player_move）。 */
+    private agentMoveListeners: Array<(outcome: MovementOutcome) => void> = [];
+    /** 角色说话监听器（用于 WebSocket 广播 agent_speech）。 */
+    private agentSpeechListeners: Array<(speech: AgentSpeechBroadcast) => void> = [];
+    /** 时间控制监听器（管理员修改时间后立即广播 time_sync）。 */
+    private timeSyncListeners: Array<(payload: TimeSyncPayload) => void> = [];
 
     /** 玩家服务 -> 处理玩家相关的业务逻辑（使用 Repository 模式） */
     private playerService: PlayerService;
+    /** 地形仓库 -> 地形的加载与增量保存 */
+    private worldRepository: WorldRepository;
+    /** 地形是否正在保存（防止多个 tick 并发写同一批脏区块） */
+    private isSavingTerrain = false;
+    /** 区块维护是否正在进行（加载角色附近的区块、卸载闲置区块） */
+    private isMaintainingChunks = false;
+    /** WebSocket 客户端订阅的区块（clientId -> 区块坐标） */
+    private chunkSubscriptions: Map<string, ChunkCoord[]> = new Map();
 
     // ⚠️ 架构重构：移除独立的 saveTimer，改为在游戏循环中定期检查
     // private saveTimer: ReturnType<typeof setInterval> | null = null;
@@ -60,28 +129,36 @@ export default class Game {
     private lastSaveTime: number = Date.now();
     /** 自动存档间隔（毫秒）。默认 60_000ms = 现实 1 分钟。 */
     private readonly autoSaveIntervalMs = 60_000;
+    /** 上次记忆维护（反思 + 保存）时间戳 */
+    private lastMemoryMaintenanceTime: number = Date.now();
+    /** 记忆维护间隔（毫秒）。默认 10 秒。 */
+    private readonly memoryMaintenanceIntervalMs = 10_000;
+    /** 上次区块维护时间戳 */
+    private lastChunkMaintenanceTime: number = Date.now();
+    /** 区块维护间隔（毫秒）。默认 1 秒。 */
+    private readonly chunkMaintenanceIntervalMs = 1_000;
+    /** 区块闲置多久后卸载（毫秒）。默认 30 秒。 */
+    private readonly chunkIdleMs = 30_000;
+    /** 角色周围保持加载的区块圈数 */
+    private readonly agentChunkRadius = 1;
+    /** 单个客户端最多订阅的区块数 */
+    private readonly maxSubscribedChunks = 64;
     /** Tick 事件监听器列表 */
     private tickListeners: Array<() => void> = [];
 
     /**
-     * 获取单例。
-     * @param id worldId（输入）——希望加载的世界编号，例如 "main-overworld"。
-     * @returns Game 实例（输出）——全局共享的服务器控制台。
-     */
-    static getInstance(id: string): Game {
-        if (!Game.instance) {
-            Game.instance = new Game(id);
-        }
-        return Game.instance;
-    }
-
-    /**
-     * 构造函数：一般不会直接调用，请通过 getInstance 入口。
+     * 构造函数：每个实例是一个独立的世界（自己的主循环、时间、天气和地形），由 WorldRegistry 创建和管理。
      * @param gameId 输入，代表要操作的世界存档主键。
+     * @param options 输入，主随机种子、地形生成器、地图尺寸和区块边长（可选）；已有存档时以存档为准。
      */
-    private constructor(gameId: string) {
+    constructor(gameId: string, options: GameWorldOptions = {}) {
         this.gameId = gameId; // 用于加载存档
 
+        // 所有模拟用的随机数都来自同一个种子（同一种子 + 同样的输入 = 同样的世界）
+        this.requestedSeed = options.seed;
+        this.random = new RandomService(options.seed);
+        const weatherRandom = this.random.stream("weather");
+
         // 检查gameId对应的存档是否存在，若存在则加载，否则初始化新游戏
 
 
@@ -90,28 +167,107 @@ export default class Game {
         // 启动时间管理器(如果数据库有时间，则从数据库加载，否则初始化默认时间)
         // 使用 50ms 的 tick 间隔以匹配游戏循环的 20 TPS
         this.timeManager = new TimeManager(undefined, { tickIntervalMs: 50 });
-        this.weatherManager = new WeatherManager();
+        this.weatherManager = new WeatherManager({ random: () => weatherRandom.next() });
 
-        // 监听时间变化以更新天气
-        this.timeManager.onPeriodChange(period => {
-            this.weatherManager.update(period);
+        // 天气按世界 tick 排定（预报未来的天气要用当时的季节权重）
+        this.weatherManager.setClock(this.timeManager);
 
-            // 这里可以添加更多基于时间变化的逻辑
+        // 换季时记录日志（天气权重、可种植作物随季节变化）
+        this.timeManager.onSeasonChange((_season, calendar) => {
+            console.log(`🍂 Season changed: ${describeCalendar(calendar)}`);
         });
 
-        // 初始化环境（ 从MongoDB加载对应的数据）
-        this.worldManager = new WorldManager(this.gameId, 50, 50); // 创建 50x50 的世界
+        // 初始化环境（只记录地图尺寸和种子，init() 时再从 MongoDB 恢复存档地形或生成新地形）
+        this.worldManager = new WorldManager(
+            this.gameId,
+            options.width ?? 50,
+            options.height ?? 50,
+            this.random.stream("terrain").nextSeed(),
+            {},
+            options.terrain,
+            options.chunkSize,
+        ); // 默认创建 50x50 的世界
+        this.worldRepository = new WorldRepository();
+
+        // 区块按需从存档读取
+        this.worldManager.setChunkLoader(coord => this.worldRepository.loadChunk(this.gameId, coord));
+
+        // 资源再生按世界 tick 计算（树苗长成树、裸土长回草地、采石场岩石重新出现）
+        this.worldManager.setClock(this.timeManager);
+
+        // 作物产量使用掉落随机流
+        const lootRandom = this.random.stream("loot");
+        this.worldManager.setLootRandom(() => lootRandom.next());
+
+        // 初始化移动校验器（依赖地形）
+        this.movementValidator = new MovementValidator(this.worldManager);
+
+        // 起雾时视野和感知范围缩小
+        this.worldManager.setViewRadiusScale(() => this.weatherManager.getModifiers().viewRadiusScale);
+
+        // 初始化作物系统：作物在生长季随世界 tick 生长（下雪时暂停），每天开始时耕地变干
+        this.cropManager = new CropManager(this.worldManager);
+        this.timeManager.onTickAdvance((ticks, tick) => {
+            this.weatherManager.advance(tick);
+            this.weatherManager.applyEffects(ticks, tick);
+        });
+        this.timeManager.onTickAdvance(ticks => {
+            if (!this.weatherManager.getModifiers().cropGrowthPaused) this.cropManager.advance(ticks, this.timeManager.getSeason());
+        });
+        this.timeManager.onDayChange(day => this.cropManager.startNewDay(day));
+
+        // 初始化玩家列表（玩家的长期记忆单独存放在 MemoryRepository）
+        const memoryRepository = new MemoryRepository(this.gameId);
+        this.agentManager = new AgentManager(memoryRepository);
+
+        // 有角色站着的位置不会长出树或岩石
+        this.worldManager.setOccupancyCheck(pos => this.agentManager.isTileOccupied(pos));
+
+        // 天气效果：下雨浇灌耕地、下雪减速并暂停作物生长、起雾缩小视野、雷暴落雷
+        this.lightningEffect = new LightningEffect(this.worldManager, this.agentManager, { random: () => weatherRandom.next() });
+        this.weatherManager.registerEffect(new RainWateringEffect(this.worldManager));
+        this.weatherManager.registerEffect(new SnowEffect());
+        this.weatherManager.registerEffect(new FogEffect());
+        this.weatherManager.registerEffect(this.lightningEffect);
+
+        // 初始化生存系统：饱食度、精力随世界 tick 下降，体力恢复
+        this.survivalManager = new SurvivalManager(this.agentManager);
+        this.timeManager.onTickAdvance((ticks, tick) => this.survivalManager.advance(ticks, tick));
 
-        // 初始化玩家列表
-        this.agentManager = new AgentManager();
+        // 初始化合成系统：合成时间按世界 tick 计
+        this.craftingManager = new CraftingManager(this.agentManager, this.worldManager);
+        this.timeManager.onTickAdvance(ticks => this.craftingManager.advance(ticks));
         
         // 初始化玩家服务（使用 Repository + Service 模式）
         const playerRepository = new PlayerRepository();
-        this.playerService = new PlayerService(this.gameId, this.agentManager, playerRepository);
+        this.playerService = new PlayerService(this.gameId, this.agentManager, playerRepository, this.movementValidator, memoryRepository);
         
         // 初始化交互系统（需要依赖 worldManager 和 agentManager）
         this.interactionManager = new InteractionManager(this.worldManager, this.agentManager);
+        this.interactionManager.setSeasonProvider(() => this.timeManager.getSeason());
+
+        // 初始化战斗系统（攻击距离复用交互系统的距离换算）
+        this.combatManager = new CombatManager(this.agentManager, this.interactionManager);
+
+        // 初始化死亡与复活：战斗击杀立即结算死亡，死亡时取消角色所有待执行的行为
+        this.respawnManager = new RespawnManager(this.agentManager, this.movementValidator);
+        this.combatManager.onDeath(({ entityId, killerId, weaponId, experience }) => {
+            this.respawnManager.handleDeath(entityId, {
+                ...(killerId && { killerId }),
+                ...(weaponId && { weaponId }),
+                experience,
+            });
+        });
+        this.respawnManager.onDeath(({ entityId }) => this.actionQueue.cancelAll(entityId, "dead"));
+
+        // 所有角色的行为都经过行为队列
+        this.actionQueue = new AgentActionQueue();
 
+        // MCP 客户端访问世界的接口：与玩家相同的移动校验和交互系统
+        this.agentWorld = this.createAgentWorld(ActionPriority.NORMAL);
+
+        // 初始化 NPC 系统：NPC 自主行为优先级最低，外部指令（REST / MCP）可以抢占
+        this.npcManager = new NpcManager(this.agentManager, this.createAgentWorld(ActionPriority.LOW));
     }
 
     /**
@@ -127,18 +283,28 @@ export default class Game {
 
     /**
      * 初始化世界：
-     * 1. 从 MongoDB 读取 worldId 对应的时间存档。
-     * 2. 从 MongoDB 加载玩家数据。
-     * 3. 激活时间系统（不启动独立定时器）。
-     * 4. 启动统一的游戏主循环（包含时间推进和自动存档）。
+     * 1. 从 MongoDB 恢复地形（种子 + 出生点附近的区块），新世界则写入种子和所有区块。
+     * 2. 从 MongoDB 读取 worldId 对应的时间存档。
+     * 3. 从 MongoDB 加载玩家数据，并加载玩家附近的区块。
+     * 4. 激活时间系统（不启动独立定时器）。
+     * 5. 启动统一的游戏主循环（包含时间推进、区块维护和自动存档）。
      */
     async init() {
+        await this.loadTerrain();
         await this.loadWorldState();
         await this.playerService.restoreAllPlayers();
+        await this.maintainChunks();
         this.timeManager.start(); // 只激活状态，不启动定时器
         this.startGameLoop(); // 启动统一的游戏循环
     }
 
+    /**
+     * 获取世界 ID
+     */
+    getWorldId() {
+        return this.gameId;
+    }
+
     /**
      * 获取当前世界状态快照，常用于 REST API 响应。
      * @returns 输出对象，包含：
@@ -156,7 +322,7 @@ export default class Game {
     }
 
     /**
-     * 为前端提供完整的世界快照，方便实时刷新 UI。
+     * 为前端提供世界快照（时间、天气、地图尺寸），方便实时刷新 UI。
      * @returns 输出：
      * ```ts
      * {
@@ -167,21 +333,24 @@ export default class Game {
      *     speedMultiplier: number;
      *     tickIntervalMs: number;
      *     isRunning: boolean;
+     *     calendar: GameCalendar; // 第几天、第几年、季节、星期
      *   };
      *   weather: {
      *     current: WeatherType;
      *     description: string;
      *   };
+     *   map: WorldMapData; // 只有尺寸、区块边长和元数据，瓦片由客户端通过 subscribe_chunks 按区块获取
      *   meta: {
      *     autoSaveIntervalMs: number;
      *   };
      * }
      * ```
-     * 类比 Minecraft 的 `/data get storage`，一次性把世界核心数据打包给客户端。
+     * 类比 Minecraft 的 `/data get storage`，一次性把世界核心数据打包给客户端；
+     * 地图瓦片数量随世界大小增长，不放进这里，由区块订阅按需推送。
      */
     getWorldData() {
         const currentWeather = this.weatherManager.getWeather();
-        const mapData = this.worldManager.getMapData(); // ✅ 获取地形数据
+        const mapData = this.worldManager.getMapData(); // 只有尺寸和元数据，不要在这里附带瓦片
 
         return {
             worldId: this.gameId,
@@ -191,12 +360,13 @@ export default class Game {
                 speedMultiplier: this.timeManager.getSpeedMultiplier(),
                 tickIntervalMs: this.timeManager.getTickIntervalMs(),
                 isRunning: this.timeManager.isRunning(),
+                calendar: this.timeManager.getCalendar(),
             },
             weather: {
                 current: currentWeather,
                 description: describeWeather(currentWeather),
             },
-            map: mapData, // ✅ 添加地图数据
+            map: mapData, // 瓦片走区块订阅（chunk_data）
             meta: {
                 autoSaveIntervalMs: this.autoSaveIntervalMs,
             },
@@ -206,13 +376,15 @@ export default class Game {
     /**
      * 关闭世界：
      * - 停止时间系统和游戏主循环。
-     * - 立即把最新世界时间和玩家数据写回 MongoDB，确保不会丢档。
+     * - 立即把最新世界时间、有修改的区块和玩家数据写回 MongoDB，确保不会丢档（卸载世界时同样调用）。
      */
     async shutdown() {
         this.timeManager.stop();
         this.stopGameLoop();
         await this.saveWorldState();
+        await this.saveDirtyTerrain();
         await this.playerService.saveAllPlayers();
+        await this.playerService.saveDirtyMemories();
         console.log("🛑 Game world shutdown complete");
     }
 
@@ -241,12 +413,122 @@ export default class Game {
     }
 
     /**
-     * 移除玩家
+     * 移动玩家（相对位移，经过碰撞检测，经过行为队列；路径上未加载的区块会先加载）
+     */
+    movePlayer(playerId: string, delta: Partial<Position>, mode?: MovementMode, options?: ActionOptions) {
+        return this.queueMove(playerId, delta, options, async signal => {
+            await this.loadChunksOnPath(playerId, delta, signal);
+            if (signal.aborted) return null;
+            return this.playerService.movePlayer(playerId, delta, mode);
+        });
+    }
+
+    /**
+     * 传送玩家（目标必须可站立，目标区块会先加载）。最高优先级，不可取消，会抢占正在执行的行为
+     */
+    async teleportPlayer(playerId: string, position: Position) {
+        await this.worldManager.loadChunks(this.worldManager.chunksAround(to2D(position), this.agentChunkRadius));
+        return this.queueMove(playerId, position, { priority: ActionPriority.CRITICAL, cancellable: false },
+            async () => this.playerService.teleportPlayer(playerId, position), false);
+    }
+
+    /**
+     * 应用客户端的移动指令（WebSocket player_move_command；路径上未加载的区块会先加载）
+     */
+    applyMoveCommand(playerId: string, actionId: string, delta: Position) {
+        return this.queueMove(playerId, delta, undefined, async signal => {
+            await this.loadChunksOnPath(playerId, delta, signal);
+            if (signal.aborted) return null;
+            return this.playerService.applyMoveCommand(playerId, actionId, delta);
+        });
+    }
+
+    /**
+     * 移除玩家（同时中止并清空它的行为队列）
      */
     async removePlayer(playerId: string) {
+        this.actionQueue.clearAll(playerId);
+        this.combatManager.clearAgent(playerId);
         return await this.playerService.removePlayer(playerId);
     }
 
+    // ===== 跨世界传送（由 WorldRegistry 协调）=====
+
+    /**
+     * 把玩家从本世界摘下，准备传送到其他世界
+     * - NPC 和死亡的玩家不能传送
+     * - 清空玩家的行为队列和战斗状态，记忆写入存档
+     * @returns 玩家快照（包含背包）
+     */
+    async detachPlayer(playerId: string): Promise<PlayerSnapshot> {
+        const agent = this.agentManager.getPlayer(playerId);
+        if (!agent) {
+            throw new Error(`Player ${playerId} not found in world ${this.gameId}`);
+        }
+        if (this.npcManager.get(playerId)) {
+            throw new Error("NPCs cannot transfer between worlds");
+        }
+        if (agent.isDead()) {
+            throw new Error(`${agent.getName()} is dead and must respawn before transferring`);
+        }
+
+        this.actionQueue.clearAll(playerId);
+        this.combatManager.clearAgent(playerId);
+
+        const snapshot = await this.playerService.detachPlayer(playerId);
+        if (!snapshot) {
+            throw new Error(`Player ${playerId} not found in world ${this.gameId}`);
+        }
+        return snapshot;
+    }
+
+    /**
+     * 传送失败时把摘下的玩家放回本世界（原位置）
+     */
+    async reattachPlayer(snapshot: PlayerSnapshot): Promise<void> {
+        await this.playerService.restorePlayers([snapshot]);
+        await this.playerService.savePlayer(snapshot.id);
+    }
+
+    /**
+     * 接收从其他世界传送过来的玩家（出现在本世界的出生点，背包和属性保持不变）
+     * @returns 玩家在本世界的快照
+     */
+    async admitPlayer(snapshot: PlayerSnapshot): Promise<PlayerSnapshot> {
+        return await this.playerService.admitPlayer(snapshot);
+    }
+
+    /**
+     * 把已摘下玩家的存档和记忆迁移到另一个世界
+     */
+    async movePlayerSave(playerId: string, targetWorldId: string): Promise<void> {
+        await this.playerService.moveSave(playerId, targetWorldId);
+    }
+
+    /**
+     * 获取角色的行为队列（正在执行的在前）
+     * @returns 角色不存在时返回 null
+     */
+    listAgentActions(agentId: string) {
+        if (!this.agentManager.getPlayer(agentId)) return null;
+        return this.actionQueue.listActions(agentId);
+    }
+
+    /**
+     * 取消角色的某个行为（排队中的直接移除，正在执行的通过 AbortSignal 中止）
+     */
+    cancelAgentAction(agentId: string, actionId: string) {
+        return this.actionQueue.cancel(agentId, actionId);
+    }
+
+    /**
+     * 取消角色的所有可取消行为
+     * @returns 被取消的行为数量
+     */
+    cancelAgentActions(agentId: string) {
+        return this.actionQueue.cancelAll(agentId);
+    }
+
     /**
      * 获取所有在线玩家
      */
@@ -254,6 +536,350 @@ export default class Game {
         return this.playerService.getAllPlayers();
     }
 
+    /**
+     * 获取玩家背包
+     */
+    getPlayerInventory(playerId: string) {
+        return this.playerService.getInventory(playerId);
+    }
+
+    /**
+     * 丢弃玩家背包中的物品
+     */
+    dropItem(playerId: string, itemId: string, quantity: number) {
+        return this.playerService.dropItem(playerId, itemId, quantity);
+    }
+
+    /**
+     * 把物品从一名玩家转移给另一名玩家
+     */
+    transferItem(playerId: string, targetPlayerId: string, itemId: string, quantity: number) {
+        return this.playerService.transferItem(playerId, targetPlayerId, itemId, quantity);
+    }
+
+    /**
+     * 生成 NPC（出生点会被修正到最近的可站立位置）
+     */
+    spawnNpc(params: SpawnNpcParams) {
+        const spawnPosition = params.spawnPosition
+            ? this.movementValidator.findNearestStandable(params.spawnPosition)
+            : this.movementValidator.getWorldSpawn();
+        if (!spawnPosition) {
+            throw new Error("No walkable tile available for NPC spawn");
+        }
+        return this.npcManager.spawn(params, spawnPosition);
+    }
+
+    /**
+     * 获取所有 NPC
+     */
+    listNpcs() {
+        return this.npcManager.list();
+    }
+
+    /**
+     * 暂停 NPC
+     */
+    pauseNpc(npcId: string) {
+        this.actionQueue.cancelAll(npcId, "paused");
+        return this.npcManager.pause(npcId);
+    }
+
+    /**
+     * 恢复 NPC
+     */
+    resumeNpc(npcId: string) {
+        return this.npcManager.resume(npcId);
+    }
+
+    /**
+     * 移除 NPC
+     */
+    despawnNpc(npcId: string) {
+        this.actionQueue.clearAll(npcId);
+        this.combatManager.clearAgent(npcId);
+        return this.npcManager.despawn(npcId);
+    }
+
+    // ===== 战斗接口 =====
+
+    /**
+     * 近战攻击（高优先级行为，会抢占攻击方正在执行的普通行为）
+     */
+    async attack(command: AttackCommand, options?: ActionOptions): Promise<AttackResult> {
+        if (!this.agentManager.getPlayer(command.attackerId)) {
+            return { success: false, code: "attacker_not_found", message: "Attacker not found" };
+        }
+
+        const result = await this.queueAction(command.attackerId, ActionType.ATTACK, command,
+            { priority: ActionPriority.HIGH, ...options }, () => this.combatManager.attack(command));
+
+        return result.success
+            ? result.data
+            : { success: false, code: "cancelled", message: result.message ?? "Attack cancelled" };
+    }
+
+    /**
+     * 获取所有武器定义
+     */
+    listWeapons() {
+        return listWeaponDefinitions();
+    }
+
+    /**
+     * 获取所有可选的地形生成器（名称、说明和参数）
+     */
+    listTerrainGenerators(): TerrainGeneratorInfo[] {
+        return listTerrainGenerators();
+    }
+
+    /**
+     * 获取当前世界使用的地形生成器和参数
+     */
+    getTerrainGenerator(): TerrainGeneratorSpec {
+        return this.worldManager.getTerrainGenerator();
+    }
+
+    /**
+     * 获取当前世界的战斗设置
+     */
+    getCombatSettings(): CombatSettings {
+        return this.combatManager.getSettings();
+    }
+
+    /**
+     * 修改战斗设置（如 PvP 开关），立即写入世界存档
+     */
+    async updateCombatSettings(patch: Partial<CombatSettings>): Promise<CombatSettings> {
+        const settings = this.combatManager.updateSettings(patch);
+        await this.saveWorldState();
+        return settings;
+    }
+
+    /**
+     * 注册实体受伤监听器（用于 WebSocket 广播 entity_damaged）
+     */
+    onEntityDamaged(callback: (event: EntityDamagedBroadcast) => void) {
+        this.combatManager.onDamage(callback);
+    }
+
+    /**
+     * 注册实体死亡监听器（用于 WebSocket 广播 entity_died，包括非战斗死亡）
+     */
+    onEntityDied(callback: (event: EntityDiedBroadcast) => void) {
+        this.respawnManager.onDeath(callback);
+    }
+
+    /**
+     * 注册落雷监听器（用于 WebSocket 广播 lightning_strike）
+     */
+    onLightningStrike(callback: (strike: LightningStrikeBroadcast) => void) {
+        this.lightningEffect.onStrike(callback);
+    }
+
+    // ===== 时间控制（管理员） =====
+
+    /**
+     * 当前世界时间的同步数据（time_sync 的 payload）
+     */
+    getTimeSync(): TimeSyncPayload {
+        return {
+            tick: this.timeManager.getCurrentTime(),
+            timeOfDay: this.timeManager.getTimeOfDay(),
+            weather: this.weatherManager.getWeather(),
+            tickIntervalMs: this.timeManager.getTickIntervalMs(),
+            speedMultiplier: this.timeManager.getSpeedMultiplier(),
+            isRunning: this.timeManager.isRunning(),
+            calendar: this.timeManager.getCalendar(),
+        };
+    }
+
+    /**
+     * 快进到指定 tick 或下一个指定时间段（只能向前，中间的作物生长、换天照常结算）
+     */
+    async setWorldTime(target: { tick: number } | { timeOfDay: TimeOfDay }): Promise<TimeSyncPayload> {
+        if ("tick" in target) {
+            this.timeManager.setTime(target.tick);
+        } else {
+            this.timeManager.skipTo(target.timeOfDay);
+        }
+        return this.commitTimeChange();
+    }
+
+    /**
+     * 修改时间流速倍率
+     */
+    async setTimeSpeed(multiplier: number): Promise<TimeSyncPayload> {
+        this.timeManager.setSpeed(multiplier);
+        return this.commitTimeChange();
+    }
+
+    /**
+     * 暂停世界时间（游戏循环继续运行，只是世界 tick 不再推进）
+     */
+    async pauseTime(): Promise<TimeSyncPayload> {
+        this.timeManager.stop();
+        return this.commitTimeChange();
+    }
+
+    /**
+     * 恢复世界时间
+     */
+    async resumeTime(): Promise<TimeSyncPayload> {
+        this.timeManager.start();
+        return this.commitTimeChange();
+    }
+
+    /**
+     * 暂停时推进恰好 N 个 tick
+     */
+    async stepTime(ticks: number): Promise<TimeSyncPayload> {
+        this.timeManager.step(ticks);
+        return this.commitTimeChange();
+    }
+
+    /**
+     * 世界时间是否在运行
+     */
+    isTimeRunning(): boolean {
+        return this.timeManager.isRunning();
+    }
+
+    /**
+     * 注册时间同步监听器（用于 WebSocket 广播 time_sync）
+     */
+    onTimeSync(callback: (payload: TimeSyncPayload) => void) {
+        this.timeSyncListeners.push(callback);
+    }
+
+    // ===== 天气 =====
+
+    /**
+     * 天气预报：当前天气和未来一天排定的天气
+     */
+    getWeatherForecast(): WeatherForecast {
+        return this.weatherManager.getForecast();
+    }
+
+    /**
+     * 强制指定接下来 durationTicks 个 tick 的天气（管理员），立即写入世界存档
+     */
+    async forceWeather(weather: WeatherType, durationTicks: number, intensity?: number): Promise<WeatherSpell> {
+        const spell = this.weatherManager.force(weather, durationTicks, intensity);
+        await this.saveWorldState();
+        return spell;
+    }
+
+    // ===== 生存（饱食度、体力、精力） =====
+
+    /**
+     * 吃背包里的食物，恢复饱食度
+     */
+    eat(playerId: string, itemId: string): SurvivalActionResult {
+        return this.survivalManager.eat(playerId, itemId);
+    }
+
+    /**
+     * 睡觉（精力回满或移动、交互时醒来）
+     */
+    sleep(playerId: string): SurvivalActionResult {
+        const result = this.survivalManager.sleep(playerId);
+        if (result.success) {
+            this.actionQueue.cancelAll(playerId, "sleeping");
+        }
+        return result;
+    }
+
+    /**
+     * 起床
+     */
+    wake(playerId: string): SurvivalActionResult {
+        return this.survivalManager.wake(playerId);
+    }
+
+    // ===== 合成 =====
+
+    /**
+     * 按配方合成物品（经过行为队列，合成期间可以被取消或抢占）
+     * @param quantity 合成次数（默认 1）
+     */
+    async craft(playerId: string, recipeId: string, quantity?: number, options?: ActionOptions): Promise<CraftResult> {
+        if (!this.agentManager.getPlayer(playerId)) {
+            return { success: false, code: "player_not_found", message: "Player not found" };
+        }
+
+        // 超时要覆盖合成时间，否则长配方永远完成不了
+        const craftTicks = (getRecipe(recipeId)?.craftTicks ?? 0) * (quantity ?? 1);
+        const timeout = this.actionTimeoutMs + (Number.isFinite(craftTicks) && craftTicks > 0 ? craftTicks : 0) * this.timeManager.getTickIntervalMs();
+
+        const result = await this.queueAction(playerId, ActionType.CRAFT, { recipeId, quantity }, { timeout, ...options },
+            signal => this.craftingManager.craft({ playerId, recipeId, ...(quantity !== undefined && { quantity }), signal }));
+
+        return result.success
+            ? result.data
+            : { success: false, code: "cancelled", message: result.message ?? "Craft cancelled" };
+    }
+
+    /**
+     * 获取所有配方（用于客户端渲染合成界面）
+     */
+    listRecipes(): RecipeDefinition[] {
+        return listRecipes();
+    }
+
+    // ===== 死亡与复活 =====
+
+    /**
+     * 复活玩家（复活倒计时结束后才能复活）
+     */
+    respawnPlayer(playerId: string): RespawnResult {
+        return this.respawnManager.respawn(playerId);
+    }
+
+    /**
+     * 设置玩家的个人出生点（默认当前位置）
+     */
+    setSpawnPoint(playerId: string, position?: Position): RespawnResult {
+        return this.respawnManager.setSpawnPoint(playerId, position);
+    }
+
+    /**
+     * 注册复活监听器（用于 WebSocket 广播 player_respawn）
+     */
+    onPlayerRespawn(callback: (player: PlayerSnapshot) => void) {
+        this.respawnManager.onRespawn(callback);
+    }
+
+    /**
+     * 注册自主角色（NPC、MCP 客户端）移动监听器（用于 WebSocket 广播）
+     */
+    onAgentMove(callback: (outcome: MovementOutcome) => void) {
+        this.agentMoveListeners.push(callback);
+    }
+
+    /**
+     * 注册角色说话监听器（用于 WebSocket 广播 agent_speech）
+     */
+    onAgentSpeech(callback: (speech: AgentSpeechBroadcast) => void) {
+        this.agentSpeechListeners.push(callback);
+    }
+
+    /**
+     * 为某个角色创建 MCP 适配器（注册 look / move / till 等游戏工具）
+     * @param agentId 玩家或 NPC 的 ID
+     * @returns 适配器，角色不存在时返回 null
+     */
+    createMcpAdapter(agentId: string): AgentMcpAdapter<PlayerAgent> | null {
+        const agent = this.agentManager.getPlayer(agentId);
+        if (!agent) return null;
+
+        return new AgentMcpAdapter<PlayerAgent>({
+            agent,
+            name: `game-agent-${agent.getName()}`,
+            registerTools: createGameToolRegistrar(this.agentWorld),
+        });
+    }
+
     /**
      * 获取在线玩家数量
      */
@@ -277,6 +903,13 @@ export default class Game {
         return this.worldManager;
     }
 
+    /**
+     * 获取移动校验器（NPC 等非玩家移动也应经过它）
+     */
+    getMovementValidator() {
+        return this.movementValidator;
+    }
+
     /**
      * 处理玩家交互
      */
@@ -284,12 +917,266 @@ export default class Game {
         return this.interactionManager.handleInteraction(request);
     }
 
+    /**
+     * 处理玩家交互（异步串行版本，经过行为队列，REST 和 WebSocket 入口都走这里）
+     */
+    async handleInteractionAsync(request: InteractionRequest, options?: ActionOptions): Promise<InteractionResult> {
+        const result = await this.queueAction(request.playerId, ActionType.INTERACT, request.target, options,
+            signal => this.interactionManager.handleInteractionAsync({ ...request, signal }));
+
+        return result.success
+            ? result.data
+            : { success: false, message: result.message ?? "Interaction cancelled" };
+    }
+
+    /**
+     * 角色说话（经过行为队列，默认低优先级；说出的话广播给同一世界的客户端）
+     * @param message 说的话（调用方负责校验长度）
+     */
+    async speak(agentId: string, message: string, options?: ActionOptions): Promise<{ success: boolean; message: string; speech?: AgentSpeechBroadcast }> {
+        if (!this.agentManager.getPlayer(agentId)) {
+            return { success: false, message: "Player not found" };
+        }
+
+        const result = await this.queueAction(agentId, ActionType.SPEAK, { message }, { priority: ActionPriority.LOW, ...options }, signal => {
+            const agent = this.agentManager.getPlayer(agentId);
+            if (signal.aborted || !agent) return null;
+
+            const speech: AgentSpeechBroadcast = {
+                speakerId: agentId,
+                speakerName: agent.getName(),
+                position: agent.getPosition(),
+                message,
+            };
+            this.agentSpeechListeners.forEach(cb => cb(speech));
+            return speech;
+        });
+
+        if (!result.success || !result.data) {
+            return { success: false, message: result.message ?? "Speech cancelled" };
+        }
+        return { success: true, message: `${result.data.speakerName}：${message}`, speech: result.data };
+    }
+
+    /**
+     * 注册地形变化监听器（用于 WebSocket 推送 tile_update）
+     * @param callback 每次瓦片被修改时触发
+     */
+    public onTileUpdate(callback: (update: TileUpdateBroadcast) => void): void {
+        this.worldManager.onTileChange((position, tile, chunk) => callback({ position, tile, chunk }));
+    }
+
+    // ===== 区块 =====
+
+    /**
+     * 订阅视口附近的区块（WebSocket subscribe_chunks）
+     * 替换该客户端之前的订阅；订阅的区块会保持加载，它们的 tile_update 会推送给该客户端
+     * @param clientId WebSocket 客户端 ID
+     * @param viewport 视口（瓦片坐标）
+     * @param margin 视口外多订阅的区块圈数
+     * @returns 订阅的区块坐标，以及其中之前没有订阅过的区块数据
+     * @throws 订阅的区块数超过上限时抛出错误
+     */
+    async subscribeChunks(clientId: string, viewport: Rectangle, margin: number = 1): Promise<{ chunks: ChunkData[]; subscribed: ChunkCoord[] }> {
+        const subscribed = this.worldManager.chunksInRect(viewport, margin);
+        if (subscribed.length > this.maxSubscribedChunks) {
+            throw new Error(`Too many chunks requested (${subscribed.length} > ${this.maxSubscribedChunks})`);
+        }
+
+        const previous = new Set((this.chunkSubscriptions.get(clientId) ?? []).map(({ cx, cy }) => `${cx},${cy}`));
+        this.chunkSubscriptions.set(clientId, subscribed);
+
+        const added = subscribed.filter(({ cx, cy }) => !previous.has(`${cx},${cy}`));
+        const chunks = await this.worldManager.loadChunks(added);
+        return { chunks, subscribed };
+    }
+
+    /**
+     * 取消客户端的区块订阅（连接断开时调用）
+     */
+    unsubscribeChunks(clientId: string): void {
+        this.chunkSubscriptions.delete(clientId);
+    }
+
+    /**
+     * 客户端订阅的区块是否包含某个区块
+     */
+    isChunkSubscribed(clientId: string, coord: ChunkCoord): boolean {
+        return (this.chunkSubscriptions.get(clientId) ?? []).some(({ cx, cy }) => cx === coord.cx && cy === coord.cy);
+    }
+
+    /**
+     * 客户端是否订阅了区块
+     */
+    hasChunkSubscription(clientId: string): boolean {
+        return this.chunkSubscriptions.has(clientId);
+    }
+
+    /**
+     * 获取单个区块（未加载时从存档加载）
+     * @returns 区块数据；坐标超出地图时返回 null
+     */
+    async getChunk(coord: ChunkCoord): Promise<ChunkData | null> {
+        if (!this.worldManager.isValidChunk(coord)) return null;
+        const [chunk] = await this.worldManager.loadChunks([coord]);
+        return chunk ?? null;
+    }
+
+    /**
+     * 区块加载状态（用于监控）
+     */
+    getChunkStats() {
+        const { width, height } = this.worldManager.getSize();
+        const chunkSize = this.worldManager.getChunkSize();
+        return {
+            chunkSize,
+            total: Math.ceil(width / chunkSize) * Math.ceil(height / chunkSize),
+            loaded: this.worldManager.getLoadedChunkCount(),
+            subscribers: this.chunkSubscriptions.size,
+        };
+    }
+
+    /**
+     * 世界概要（WorldRegistry 的世界列表）
+     */
+    getSummary(): WorldSummary {
+        const { width, height } = this.worldManager.getSize();
+        return {
+            worldId: this.gameId,
+            ...this.getState(),
+            playerCount: this.getPlayerCount(),
+            map: { width, height, chunkSize: this.worldManager.getChunkSize() },
+            loadedChunks: this.worldManager.getLoadedChunkCount(),
+        };
+    }
+
     // ===== 私有方法 =====
 
+    /**
+     * 创建自主角色访问世界的接口（移动、交互、说话都经过行为队列）
+     * @param priority 通过该接口发起的行为的优先级
+     */
+    private createAgentWorld(priority: ActionPriority): NpcWorld {
+        return {
+            describeView: (center, radius) => this.worldManager.describeView(center, radius),
+            move: async (agentId, delta) => {
+                const outcome = await this.movePlayer(agentId, delta, "clamp", { priority });
+                if (outcome?.success) {
+                    this.agentMoveListeners.forEach(cb => cb(outcome));
+                }
+                return outcome;
+            },
+            interact: request => this.handleInteractionAsync(request, { priority }),
+            speak: (agentId, message) => this.speak(agentId, message, { priority }),
+            nextDecisionSeed: () => this.random.stream("npc").nextSeed(),
+        };
+    }
+
+    /**
+     * 把行为放进角色的行为队列并等待结果
+     * @param execute 执行函数；只有 success 为 true 时 data 才是它的返回值
+     */
+    private queueAction<T>(
+        agentId: string,
+        type: ActionType,
+        target: unknown,
+        options: ActionOptions | undefined,
+        execute: (signal: AbortSignal) => T | Promise<T>,
+    ) {
+        return this.actionQueue.submit({
+            id: `action_${++this.actionIdCounter}_${Date.now()}`,
+            agentId,
+            type,
+            target,
+            priority: options?.priority ?? ActionPriority.NORMAL,
+            timestamp: Date.now(),
+            cancellable: options?.cancellable ?? true,
+            timeout: options?.timeout ?? this.actionTimeoutMs,
+            execute: async signal => ({ success: true, data: await execute(signal) }),
+        });
+    }
+
+    /**
+     * 排队执行一次移动；被取消、抢占或超时时返回带 cancelled 原因的失败结果
+     * @param move 移动函数；其中每次 await 之后、改动角色位置之前都要检查 signal
+     * @returns 角色不存在时返回 null
+     */
+    private async queueMove(
+        agentId: string,
+        target: Partial<Position>,
+        options: ActionOptions | undefined,
+        move: (signal: AbortSignal) => Promise<MovementOutcome | null>,
+        weatherSlowdown = true,
+    ): Promise<MovementOutcome | null> {
+        if (!this.agentManager.getPlayer(agentId)) return null;
+
+        const result = await this.queueAction(agentId, ActionType.MOVE, target, options, async signal => {
+            // 下雪等天气让每一步变慢；等待期间被取消则不再移动
+            const delayMs = weatherSlowdown ? this.weatherManager.getModifiers().moveDelayMs : 0;
+            if (delayMs > 0) {
+                await new Promise(resolve => setTimeout(resolve, delayMs));
+            }
+            if (signal.aborted) return null;
+            return await move(signal);
+        });
+        if (result.success) {
+            return result.data as MovementOutcome | null;
+        }
+
+        const agent = this.agentManager.getPlayer(agentId);
+        if (!agent) return null;
+
+        const position = agent.getPosition();
+        return {
+            success: false,
+            player: agent.toSnapshot(),
+            previousPosition: position,
+            clamped: false,
+            rejection: { code: "cancelled", message: result.message ?? "Move cancelled" },
+        };
+    }
+
+    /**
+     * 加载一次相对移动会经过的区块（未加载的区块读到的是 VOID，会把移动挡住）
+     */
+    private async loadChunksOnPath(agentId: string, delta: Partial<Position>, signal?: AbortSignal): Promise<void> {
+        const agent = this.agentManager.getPlayer(agentId);
+        if (!agent || signal?.aborted) return;
+
+        const from = agent.getPosition();
+        const path = this.worldManager.chunksAlong(
+            { x: from.x, y: from.z },
+            { x: from.x + (delta.x || 0), y: from.z + (delta.z || 0) },
+        );
+        const missing = path.filter(coord => !this.worldManager.isChunkLoaded(coord));
+        if (missing.length > 0) {
+            await this.worldManager.loadChunks(missing);
+        }
+    }
+
+    /**
+     * 时间被管理员修改后：立即广播 time_sync 并写入世界存档
+     */
+    private async commitTimeChange(): Promise<TimeSyncPayload> {
+        const payload = this.getTimeSync();
+        this.timeSyncListeners.forEach(callback => {
+            try {
+                callback(payload);
+            } catch (error) {
+                console.error("Error in time sync listener:", error);
+            }
+        });
+
+        await this.saveWorldState();
+        return payload;
+    }
+
     /**
      * 从数据库加载世界时间。
      * 输入：this.gameId。
      * - 若找到存档，则调用 TimeManager.restore 恢复 tick。
+     * - 从 environment.random 恢复随机流状态（必须在天气之前，重新生成的天气才会用上存档的随机流）。
+     * - 从 environment.weather 恢复天气排期（没有或损坏时重新生成）。
      * - 若没有存档，则写入一份新世界的默认配置。
      * 输出：无返回值，但内部会更新 TimeManager 和 WeatherManager。
      */
@@ -299,17 +1186,33 @@ export default class Game {
         if (doc?.time) {
             const snapshot = this.toSnapshotFromDocument(doc.time);
             this.timeManager.restore(snapshot);
+            this.combatManager.updateSettings({ pvpEnabled: doc.settings?.pvpEnabled ?? true });
+        }
+
+        const environment = doc?.environment as { weather?: unknown; random?: unknown } | undefined;
+        if (this.random.restore(environment?.random)) {
+            const seed = this.random.getSeed();
+            console.log(`🎲 Random state restored (seed=${seed})`);
+            if (this.requestedSeed !== undefined && this.requestedSeed !== seed) {
+                console.warn(`⚠️ Seed ${this.requestedSeed} ignored: world "${this.gameId}" was created with seed ${seed}`);
+            }
         } else {
-            await this.saveWorldState();
+            console.log(`🎲 Random seed: ${this.random.getSeed()}`);
+        }
+
+        // 时间恢复后再恢复天气，已经结束的天气按存档时的排期顺延
+        if (this.weatherManager.restore(environment?.weather)) {
+            console.log(`🌦️ Weather restored: ${this.weatherManager.getWeather()}`);
         }
 
-        // 同步一次天气，避免服务器启动后第一帧天气为空
-        this.weatherManager.update(this.timeManager.getTimeOfDay());
+        if (!doc?.time || !environment?.random) {
+            await this.saveWorldState();
+        }
     }
 
     /**
-     * 将当前世界钟保存到数据库。
-     * - 输入：无（内部读取 TimeManager）。
+     * 将当前世界钟、天气排期和随机流状态保存到数据库。
+     * - 输入：无（内部读取 TimeManager、WeatherManager、RandomService）。
      * - 输出：无直接返回，MongoDB 中对应 worldId 的文档会被更新。
      */
     private async saveWorldState() {
@@ -320,6 +1223,9 @@ export default class Game {
             {
                 $set: {
                     time: this.fromSnapshotToDocument(snapshot),
+                    settings: this.combatManager.getSettings(),
+                    "environment.weather": this.weatherManager.toSnapshot(),
+                    "environment.random": this.random.toSnapshot(),
                 },
             },
             { upsert: true, new: true, setDefaultsOnInsert: true }
@@ -328,50 +1234,127 @@ export default class Game {
 
 
     /**
-     * 保存地形脏数据（仅保存发生变化的地形瓦片）
+     * 从数据库恢复地形。
+     * - 区块存档：恢复尺寸和生成参数，区块在需要时才加载（先加载出生点附近的区块）。
+     * - 旧存档（整张地图）：用存档中的种子重建基础地图，再覆盖瓦片增量，
+     *   然后把整张地图写成区块文档，迁移为区块存档。
+     * - 若不存在：按构造时的种子和生成器生成新地图，把它的种子和所有区块写入存档，
+     *   保证下次启动能恢复出同一张地图。
+     */
+    private async loadTerrain() {
+        const terrain = await this.worldRepository.loadTerrain(this.gameId);
+
+        if (terrain?.storage === "chunks") {
+            this.worldManager.restoreTerrain(terrain);
+            await this.worldManager.loadChunks(this.getSpawnChunks());
+            this.cropManager.rebuildIndex();
+            return;
+        }
+
+        if (terrain) {
+            this.worldManager.restoreTerrain(terrain);
+            this.cropManager.rebuildIndex();
+        } else {
+            this.worldManager.generateTerrain();
+            await this.worldRepository.createWorld(this.gameId, {
+                width: this.worldManager.width,
+                height: this.worldManager.height,
+                chunkSize: this.worldManager.getChunkSize(),
+                seed: this.worldManager.getSeed(),
+                prng: this.worldManager.getTerrainPrng(),
+                generator: this.worldManager.getTerrainGenerator(),
+            });
+            console.log(`🗺️  Created new world map document (seed=${this.worldManager.getSeed()})`);
+        }
+
+        // 写入所有区块（保存失败时抛出，旧存档保持原样，下次启动重新迁移）
+        const chunks = this.worldManager.takeDirtyChunks();
+        try {
+            await this.worldRepository.saveChunks(this.gameId, chunks);
+        } catch (err) {
+            this.worldManager.restoreDirtyChunks(chunks);
+            throw err;
+        }
+
+        if (terrain) {
+            await this.worldRepository.markChunked(this.gameId, this.worldManager.getChunkSize());
+            console.log(`🗺️  Migrated world map to ${chunks.length} chunks`);
+        }
+    }
+
+    /**
+     * 保存地形脏数据（只保存发生变化的区块）
      * 在游戏循环中调用，性能更好
      */
     private async saveDirtyTerrain() {
-        try {
-            if (!this.worldManager.hasDirtyData()) {
-                return; // 没有脏数据，跳过
-            }
+        if (this.isSavingTerrain || !this.worldManager.hasDirtyData()) {
+            return; // 正在保存或没有脏数据，跳过
+        }
 
-            const dirtyTiles = this.worldManager.getDirtyTiles();
-            
-            if (dirtyTiles.length === 0) {
-                return;
-            }
+        // 先取快照并清除标记：保存期间产生的新修改会留到下一轮
+        const dirtyChunks = this.worldManager.takeDirtyChunks();
 
-            // 将脏数据瓦片转换为MongoDB更新操作
-            const updateOps = dirtyTiles.map(({ pos, tile }) => ({
-                position: pos,
-                tileData: tile,
-            }));
-
-            // 更新或创建世界地图文档
-            await WorldMapModel.findOneAndUpdate(
-                { worldId: this.gameId },
-                {
-                    $set: {
-                        dirtyChunks: updateOps,
-                        updatedAt: new Date(),
-                    },
-                    $setOnInsert: {
-                        width: this.worldManager.width,
-                        height: this.worldManager.height,
-                        createdAt: new Date(),
-                    },
-                },
-                { upsert: true, new: true }
-            );
+        if (dirtyChunks.length === 0) {
+            return;
+        }
 
-            // 清除脏数据标记
-            this.worldManager.clearDirtyFlags();
-            
-            console.log(`🗺️ Saved ${dirtyTiles.length} dirty terrain tiles to database`);
+        this.isSavingTerrain = true;
+        try {
+            await this.worldRepository.saveChunks(this.gameId, dirtyChunks);
+
+            console.log(`🗺️ Saved ${dirtyChunks.length} dirty terrain chunks to database`);
         } catch (err) {
+            // 保存失败：重新标脏，等待下次重试
+            this.worldManager.restoreDirtyChunks(dirtyChunks);
             console.error("❌ Failed to save dirty terrain to database:", err);
+        } finally {
+            this.isSavingTerrain = false;
+        }
+    }
+
+    /**
+     * 出生点附近的区块（类比 Minecraft 的出生点区块，始终保持加载）
+     */
+    private getSpawnChunks(): ChunkCoord[] {
+        const { width, height } = this.worldManager.getSize();
+        const center = { x: Math.floor(width / 2), y: Math.floor(height / 2) };
+        return this.worldManager.chunksAround(center, this.agentChunkRadius);
+    }
+
+    /**
+     * 区块维护：
+     * - 出生点、所有角色附近、被客户端订阅的区块保持加载（缺少的从存档加载）
+     * - 其余区块闲置超过 chunkIdleMs 且没有未保存的修改时卸载（保存地形期间不卸载）
+     */
+    private async maintainChunks() {
+        if (this.isMaintainingChunks) return;
+        this.isMaintainingChunks = true;
+
+        try {
+            const active = new Map<string, ChunkCoord>();
+            const add = (coords: ChunkCoord[]) => coords.forEach(coord => active.set(`${coord.cx},${coord.cy}`, coord));
+
+            add(this.getSpawnChunks());
+            for (const player of this.agentManager.getAllPlayers()) {
+                add(this.worldManager.chunksAround(to2D(player.position), this.agentChunkRadius));
+            }
+            for (const coords of this.chunkSubscriptions.values()) {
+                add(coords);
+            }
+
+            const missing = [...active.values()].filter(coord => !this.worldManager.isChunkLoaded(coord));
+            if (missing.length > 0) {
+                await this.worldManager.loadChunks(missing);
+            }
+
+            if (!this.isSavingTerrain) {
+                const evicted = this.worldManager.evictIdleChunks(active.values(), this.chunkIdleMs);
+                if (evicted > 0) {
+                    console.log(`🗺️ Unloaded ${evicted} idle chunks (${this.worldManager.getLoadedChunkCount()} loaded)`);
+                }
+            }
+        } finally {
+            this.isMaintainingChunks = false;
         }
     }
 
@@ -388,6 +1371,8 @@ export default class Game {
 
         this.lastUpdateTime = Date.now();
         this.lastSaveTime = Date.now();
+        this.lastMemoryMaintenanceTime = Date.now();
+        this.lastChunkMaintenanceTime = Date.now();
 
         this.gameLoopTimer = setInterval(() => {
             const now = Date.now();
@@ -423,12 +1408,29 @@ export default class Game {
             // 1. 更新所有玩家（AI 逻辑、状态检查等）
             this.agentManager.updateAll(deltaTime);
 
+            // 1.5 驱动 NPC 思考（节流，异步执行不阻塞主循环）
+            this.npcManager.update(deltaTime);
+
             // 2. 更新交互系统（延迟交互、作物生长等）
             this.interactionManager.update(deltaTime);
 
+            // 2.5 更新战斗系统（脱离战斗的角色恢复 idle，结算死亡，NPC 自动复活）
+            this.combatManager.update(deltaTime);
+            this.respawnManager.update(deltaTime);
+
             // 3. 更新世界系统（地形变化、资源再生等）
             this.worldManager.update(deltaTime);
 
+            // 3.5 区块维护：加载角色附近和被订阅的区块，卸载闲置区块
+            if (Date.now() - this.lastChunkMaintenanceTime >= this.chunkMaintenanceIntervalMs) {
+                this.lastChunkMaintenanceTime = Date.now();
+                setImmediate(() => {
+                    this.maintainChunks().catch(err => {
+                        console.error("Failed to maintain chunks", err);
+                    });
+                });
+            }
+
             // 4. 触发 tick 事件监听器（用于 WebSocket 实时推送等）
             this.emitTick();
 
@@ -450,8 +1452,21 @@ export default class Game {
                 });
             }
 
-            // 7. ✅ 定期自动存档（替代独立的 saveTimer）
             const now = Date.now();
+
+            // 6.5 定期维护玩家记忆：先反思，再保存有变化的记忆
+            if (now - this.lastMemoryMaintenanceTime >= this.memoryMaintenanceIntervalMs) {
+                this.lastMemoryMaintenanceTime = now;
+                setImmediate(() => {
+                    this.playerService.reflectMemories()
+                        .then(() => this.playerService.saveDirtyMemories())
+                        .catch(err => {
+                            console.error("Failed to maintain player memories", err);
+                        });
+                });
+            }
+
+            // 7. ✅ 定期自动存档（替代独立的 saveTimer）
             if (now - this.lastSaveTime >= this.autoSaveIntervalMs) {
                 this.lastSaveTime = now;
                 setImmediate(() => {
@@ -468,7 +1483,6 @@ export default class Game {
             // - 物理系统
             // - 碰撞检测
             // - NPC AI
-            // - 战斗系统
             // - 任务系统
         } catch (err) {
             console.error("❌ Error in game update loop:", err);
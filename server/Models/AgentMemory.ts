@@ -0,0 +1,40 @@
+import mongoose from "mongoose";
+const { Schema, model, models } = mongoose;
+import type { InferSchemaType, Model } from "mongoose";
+
+/**
+ * 角色长期记忆 Schema
+ * 每条记忆一个文档（而不是塞进玩家文档），方便按角色增量读写、控制单文档大小
+ */
+const AgentMemorySchema = new Schema({
+    // 所属世界 ID
+    worldId: { type: String, required: true },
+    // 角色（玩家/NPC）ID
+    agentId: { type: String, required: true },
+    // 记忆 ID（角色内唯一）
+    memoryId: { type: String, required: true },
+    // 记忆内容
+    content: { type: String, required: true },
+    // 记忆类型（observation/dialogue/reflection）
+    type: { type: String, required: true, enum: ["observation", "dialogue", "reflection"] },
+    // 相关对象（玩家、地点、物品等）
+    relatedObject: { type: String },
+    // 重要度（0~1）
+    importance: { type: Number, min: 0, max: 1 },
+    // 最近一次被检索到的时间
+    lastAccessedAt: { type: Date },
+    // 记忆创建/更新时间（由记忆管理器维护，不使用 mongoose timestamps）
+    createdAt: { type: Date, required: true },
+    updatedAt: { type: Date, required: true },
+});
+
+// 每个角色的记忆 ID 唯一
+AgentMemorySchema.index({ agentId: 1, memoryId: 1 }, { unique: true });
+
+export type AgentMemoryDocument = InferSchemaType<typeof AgentMemorySchema>;
+
+/**
+ * 导出角色记忆模型
+ */
+export const AgentMemoryModel: Model<AgentMemoryDocument> = (models.AgentMemory as Model<AgentMemoryDocument> | undefined)
+    ?? model<AgentMemoryDocument>("AgentMemory", AgentMemorySchema);
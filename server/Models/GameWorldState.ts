@@ -19,15 +19,25 @@ const TimeSnapshotSchema = new Schema({
     lastUpdatedAt: { type: Date, required: true },
 }, { _id: false });
 
+/**
+ * 世界规则设置，类似 Minecraft 的 server.properties / gamerule。
+ */
+const WorldSettingsSchema = new Schema({
+    // 是否允许玩家之间互相攻击（NPC 始终可以被攻击）
+    pvpEnabled: { type: Boolean, required: true, default: true },
+}, { _id: false });
+
 /**
  * Mongo 里的世界存档文档，类似 Minecraft 的 level.dat：
  * - worldId 对应某个世界（如不同服务器或存档槽位）。
  * - time 里保存世界钟的核心状态。
+ * - settings 保存世界规则（PvP 等）。
  * - environment 预留用于未来扩展（地形、天气种子等）。
  */
 const GameWorldStateSchema = new Schema({
     worldId: { type: String, required: true, unique: true },
     time: { type: TimeSnapshotSchema, required: true },
+    settings: { type: WorldSettingsSchema, default: () => ({}) },
     environment: { type: Schema.Types.Mixed, default: {} },
 }, { timestamps: true });
 
@@ -20,6 +20,40 @@ const PlayerAttributesSchema = new Schema({
     health: { type: Number, required: true, default: 100 },
     maxHealth: { type: Number, required: true, default: 100 },
     experience: { type: Number, required: true, default: 0 },
+    // 饱食度、体力、精力（旧存档没有这些字段时按上限恢复）
+    hunger: { type: Number, default: 100 },
+    maxHunger: { type: Number, default: 100 },
+    stamina: { type: Number, default: 100 },
+    maxStamina: { type: Number, default: 100 },
+    energy: { type: Number, default: 100 },
+    maxEnergy: { type: Number, default: 100 },
+}, { _id: false });
+
+/**
+ * 背包格子 Schema
+ */
+const InventorySlotSchema = new Schema({
+    itemId: { type: String, required: true },
+    quantity: { type: Number, required: true, min: 1 },
+    durability: { type: Number, min: 1 }, // 工具的剩余耐久（缺省表示全新）
+}, { _id: false });
+
+/**
+ * 背包 Schema
+ */
+const InventorySchema = new Schema({
+    capacity: { type: Number, required: true, default: 36 },
+    slots: { type: [InventorySlotSchema], default: [] },
+}, { _id: false });
+
+/**
+ * 死亡状态 Schema（存活时为 null）
+ */
+const DeathStateSchema = new Schema({
+    diedAt: { type: Date, required: true },
+    respawnAt: { type: Date, required: true },
+    killerId: { type: String },
+    droppedItems: { type: [InventorySlotSchema], default: [] },
 }, { _id: false });
 
 /**
@@ -35,10 +69,16 @@ const PlayerSchema = new Schema({
     name: { type: String, required: true },
     // 当前位置
     position: { type: PositionSchema, required: true },
-    // 玩家状态（idle/moving/mining/building/fighting/offline）
+    // 个人出生点（旧存档没有该字段时以当前位置为准）
+    spawnPoint: { type: PositionSchema },
+    // 玩家状态（idle/moving/mining/building/fighting/offline/dead）
     status: { type: String, required: true, default: "idle" },
     // 玩家属性
     attributes: { type: PlayerAttributesSchema, required: true },
+    // 背包
+    inventory: { type: InventorySchema, default: () => ({}) },
+    // 死亡状态
+    death: { type: DeathStateSchema, default: null },
     // 加入时间
     joinedAt: { type: Date, required: true },
     // 最后活跃时间
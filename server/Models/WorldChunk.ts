@@ -0,0 +1,39 @@
+import mongoose from "mongoose";
+const { Schema, model, models } = mongoose;
+import type { InferSchemaType, Model } from "mongoose";
+
+/**
+ * 世界区块 Schema
+ * 地图按固定大小切成区块，每个区块单独一个文档，按需加载、修改后单独保存
+ */
+const WorldChunkSchema = new Schema({
+    // 世界 ID
+    worldId: { type: String, required: true },
+
+    // 区块坐标
+    cx: { type: Number, required: true },
+    cy: { type: Number, required: true },
+
+    // 区块边长（地图边缘的区块实际尺寸可能更小）
+    size: { type: Number, required: true },
+
+    // 区块版本号：区块内任何瓦片变化都会 +1
+    version: { type: Number, required: true, default: 0 },
+
+    // 区块瓦片 tiles[localY][localX]，使用 JSON 字符串存储，减少数据库体积
+    tilesData: { type: String, required: true },
+
+    // 最后保存时间
+    savedAt: { type: Date, required: true },
+});
+
+// 每个世界的每个区块只有一个文档
+WorldChunkSchema.index({ worldId: 1, cx: 1, cy: 1 }, { unique: true });
+
+export type WorldChunkDocument = InferSchemaType<typeof WorldChunkSchema>;
+
+/**
+ * 导出世界区块模型
+ */
+export const WorldChunkModel: Model<WorldChunkDocument> = (models.WorldChunk as Model<WorldChunkDocument> | undefined)
+    ?? model<WorldChunkDocument>("WorldChunk", WorldChunkSchema);
@@ -4,7 +4,7 @@ import type { InferSchemaType, Model } from "mongoose";
 
 /**
  * 瓦片状态 Schema
- * 存储瓦片的动态数据
+ * 存储瓦片的动态数据（strict: false 以保留 TileState 的扩展字段）
  */
 const TileStateSchema = new Schema({
     tilled: { type: Boolean },
@@ -13,7 +13,12 @@ const TileStateSchema = new Schema({
     watered: { type: Boolean },
     durability: { type: Number },
     lastInteractedAt: { type: Date },
-}, { _id: false });
+    placedItem: { type: String },
+    baseType: { type: String },
+    placedBy: { type: String },
+    regrowAt: { type: Number },
+    regrowInto: { type: String },
+}, { _id: false, strict: false });
 
 /**
  * 瓦片 Schema
@@ -22,11 +27,12 @@ const TileSchema = new Schema({
     type: { type: String, required: true },
     state: { type: TileStateSchema },
     metadata: { type: Schema.Types.Mixed },
+    version: { type: Number },
 }, { _id: false });
 
 /**
  * 世界地图 Schema
- * 用于持久化存储地形数据
+ * 用于持久化存储地形的尺寸和生成参数（瓦片按区块存放在 WorldChunk 中）
  */
 const WorldMapSchema = new Schema({
     // 世界 ID
@@ -36,21 +42,33 @@ const WorldMapSchema = new Schema({
     width: { type: Number, required: true },
     height: { type: Number, required: true },
     
-    // 瓦片数据（压缩存储）
-    // 使用 JSON 字符串存储,减少数据库体积
-    tilesData: { type: String, required: true },
+    // 区块边长
+    chunkSize: { type: Number },
+
+    // 瓦片存储方式：chunks = 按区块存放在 WorldChunk 中；缺省为旧存档（tilesData / tileDeltas），启动时迁移
+    storage: { type: String, enum: ["chunks"] },
+
+    // 完整瓦片快照（可选，压缩存储，仅旧存档）
+    // 使用 JSON 字符串存储,减少数据库体积；缺省时由种子重新生成基础地图
+    tilesData: { type: String },
     
     // 地图元数据
     metadata: {
         name: { type: String, required: true },
+        // 地形生成种子：基础地图可由它确定性地重建
         seed: { type: Number },
+        // 地形生成使用的随机数算法（旧存档没有该字段，按 lcg 重建）
+        prng: { type: String, enum: ["lcg", "mulberry32"] },
+        // 地形生成器和补全后的参数（旧存档没有该字段，按 classic 重建）
+        generator: { type: Schema.Types.Mixed },
     },
     
-    // 脏数据标记：记录哪些区块被修改
-    dirtyChunks: [{ 
-        x: { type: Number },
-        y: { type: Number }
-    }],
+    // 地形增量：相对基础地图被修改过的瓦片，键为 "x,y"（仅旧存档）
+    tileDeltas: {
+        type: Map,
+        of: TileSchema,
+        default: {},
+    },
     
     // 最后保存时间
     lastSavedAt: { type: Date, required: true },
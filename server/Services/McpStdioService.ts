@@ -0,0 +1,35 @@
+/**
+ * MCP stdio 服务
+ *
+ * 让外部 LLM 客户端以子进程方式启动游戏服务器，并通过标准输入/输出操控某个角色：
+ *   MCP_STDIO_AGENT_ID=<playerId 或 npcId> npx tsx ./index.ts
+ *
+ * stdout 专用于 MCP 协议消息，因此启用后所有日志都会转到 stderr。
+ */
+
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type Game from "../Game/index.js";
+
+/**
+ * 把 console.log / console.info 重定向到 stderr，避免污染 stdio 协议通道
+ * 需要在任何日志输出之前调用
+ */
+export function redirectLogsToStderr(): void {
+    console.log = console.error;
+    console.info = console.error;
+}
+
+/**
+ * 通过 stdio 提供某个角色的 MCP 工具
+ * @param game 游戏实例
+ * @param agentId 角色 ID
+ */
+export async function startMcpStdio(game: Game, agentId: string): Promise<void> {
+    const adapter = game.createMcpAdapter(agentId);
+    if (!adapter) {
+        throw new Error(`MCP stdio: agent "${agentId}" not found`);
+    }
+
+    await adapter.connect(new StdioServerTransport());
+    console.error(`🔌 MCP stdio server ready for agent ${agentId}`);
+}
@@ -6,13 +6,34 @@
  * 2. 广播游戏状态更新到所有连接的客户端
  * 3. 处理客户端消息（可选）
  * 4. 支持订阅特定事件类型
+ * 5. 区块订阅：客户端订阅视口附近的区块，只接收这些区块的 tile_update
+ * 6. 多世界：每个客户端属于一个世界（连接时 ?world=，之后 join_world 切换），只接收所在世界的广播
  */
 
 import { WebSocketServer, WebSocket } from 'ws';
-import { Server } from 'http';
-import type { WebSocketMessage, PlayerMoveBroadcast } from '../../shared/websocket.js';
+import { Server, type IncomingMessage } from 'http';
+import type {
+    WebSocketMessage,
+    PlayerMoveBroadcast,
+    TileUpdateBroadcast,
+    LightningStrikeBroadcast,
+    AgentSpeechBroadcast,
+    TimeSyncPayload,
+    ClientMessage,
+    InteractClientCommand,
+    PlayerMoveCommand,
+    AttackClientCommand,
+    RespawnClientCommand,
+    SubscribeChunksCommand,
+    JoinWorldCommand,
+} from '../../shared/websocket.js';
+import type { AttackResult, EntityDamagedBroadcast, EntityDiedBroadcast } from '../../shared/combat.js';
 import type { WorldTickState } from '../../shared/game.js';
-import type { PlayerSnapshot, PlayerId } from '../../shared/player.js';
+import type { PlayerSnapshot, PlayerId, MoveRejection, RespawnResult } from '../../shared/player.js';
+import type Game from '../Game/index.js';
+import type WorldRegistry from '../Game/WorldRegistry.js';
+import type { InteractionType, InteractionResult } from '../Game/Interaction/InteractionManager.js';
+import { validateAttack, validateChunkViewport, validateInteraction, validateMoveDelta, validateWorldId } from '../utils/validation.js';
 
 /**
  * 客户端连接信息
@@ -22,14 +43,32 @@ interface ClientConnection {
     id: string;
     connectedAt: number;
     playerId?: string; // 可选：关联的玩家 ID
+    worldId: string; // 所在的世界
+}
+
+/**
+ * 广播选项
+ */
+export interface BroadcastOptions {
+    /** 跳过的客户端（通常是指令发送者） */
+    excludeClientId?: string;
+    /** 只发给该世界的客户端（不传则发给所有客户端） */
+    worldId?: string;
 }
 
 export class WebSocketManager {
     private wss: WebSocketServer;
     private clients: Map<string, ClientConnection> = new Map();
     private nextClientId: number = 1;
+    /** 世界注册表：客户端的游戏指令（交互等）交给它所在的世界处理 */
+    private worlds: WorldRegistry | null;
+    /** 没有指定世界的客户端进入默认世界 */
+    private defaultWorldId: string;
+
+    constructor(server: Server, worlds?: WorldRegistry) {
+        this.worlds = worlds ?? null;
+        this.defaultWorldId = worlds?.getDefaultWorldId() ?? 'default-world';
 
-    constructor(server: Server) {
         // 创建 WebSocket 服务器，附加到现有的 HTTP 服务器
         this.wss = new WebSocketServer({ 
             server,
@@ -44,22 +83,34 @@ export class WebSocketManager {
      * 设置 WebSocket 服务器事件监听
      */
     private setupWebSocketServer(): void {
-        this.wss.on('connection', (ws: WebSocket) => {
+        this.wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
             const clientId = `client_${this.nextClientId++}`;
+
+            // ws://host/ws?world=<worldId> 进入指定世界，未指定或未加载时进入默认世界
+            const requestedWorldId = new URL(req.url ?? '/', 'http://localhost').searchParams.get('world');
+            const worldId = requestedWorldId && this.worlds?.has(requestedWorldId) ? requestedWorldId : this.defaultWorldId;
+
             const connection: ClientConnection = {
                 ws,
                 id: clientId,
                 connectedAt: Date.now(),
+                worldId,
             };
 
             // 保存连接
             this.clients.set(clientId, connection);
-            console.log(`✅ Client connected: ${clientId} (Total: ${this.clients.size})`);
+            console.log(`✅ Client connected: ${clientId} in world ${worldId} (Total: ${this.clients.size})`);
 
             // 发送欢迎消息
             this.sendToClient(clientId, {
                 type: 'system',
-                data: { message: 'Connected to game server', clientId },
+                data: {
+                    message: requestedWorldId && requestedWorldId !== worldId
+                        ? `World "${requestedWorldId}" is not loaded, connected to "${worldId}"`
+                        : 'Connected to game server',
+                    clientId,
+                    worldId,
+                },
                 timestamp: Date.now(),
             });
 
@@ -70,6 +121,7 @@ export class WebSocketManager {
 
             // 监听连接关闭
             ws.on('close', (code, reason) => {
+                this.getGame(clientId)?.unsubscribeChunks(clientId);
                 this.clients.delete(clientId);
                 console.log(`❌ Client disconnected: ${clientId} (Total: ${this.clients.size})`);
                 console.log(`   Close code: ${code}, reason: ${reason.toString() || 'No reason provided'}`);
@@ -79,6 +131,7 @@ export class WebSocketManager {
             ws.on('error', (error) => {
                 console.error(`⚠️ WebSocket error for client ${clientId}:`, error.message);
                 console.error(`   Stack:`, error.stack);
+                this.getGame(clientId)?.unsubscribeChunks(clientId);
                 this.clients.delete(clientId);
             });
 
@@ -100,23 +153,355 @@ export class WebSocketManager {
      */
     private handleClientMessage(clientId: string, message: Buffer): void {
         try {
-            const data = JSON.parse(message.toString());
+            const data: ClientMessage = JSON.parse(message.toString());
             console.log(`📨 Message from ${clientId}:`, data);
 
-            // 这里可以添加客户端消息处理逻辑
-            // 例如：客户端请求特定玩家的数据
-            if (data.type === 'subscribe_player') {
-                const connection = this.clients.get(clientId);
-                if (connection) {
-                    connection.playerId = data.playerId;
-                    console.log(`🔔 Client ${clientId} subscribed to player ${data.playerId}`);
+            switch (data.type) {
+                case 'subscribe_player': {
+                    // 客户端订阅特定玩家
+                    const connection = this.clients.get(clientId);
+                    if (connection) {
+                        connection.playerId = data.playerId;
+                        console.log(`🔔 Client ${clientId} subscribed to player ${data.playerId}`);
+                    }
+                    break;
                 }
+
+                case 'interact':
+                    // 玩家交互：走异步串行队列，结果单独回复给发送者
+                    this.handleInteract(clientId, data).catch(error => {
+                        console.error(`❌ Failed to handle interaction from ${clientId}:`, error);
+                    });
+                    break;
+
+                case 'attack':
+                    // 近战攻击：走行为队列，结果单独回复给发送者，伤害/死亡事件广播给所有客户端
+                    this.handleAttack(clientId, data).catch(error => {
+                        console.error(`❌ Failed to handle attack from ${clientId}:`, error);
+                    });
+                    break;
+
+                case 'respawn':
+                    this.handleRespawn(clientId, data);
+                    break;
+
+                case 'subscribe_chunks':
+                    // 订阅视口附近的区块：回复新订阅区块的完整数据
+                    this.handleSubscribeChunks(clientId, data).catch(error => {
+                        console.error(`❌ Failed to handle chunk subscription from ${clientId}:`, error);
+                    });
+                    break;
+
+                case 'join_world':
+                    // 切换到另一个已加载的世界
+                    this.handleJoinWorld(clientId, data);
+                    break;
+
+                case 'player_move_command':
+                    // 客户端预测的移动：服务端权威执行，回复 move_ack 并广播给其他客户端
+                    this.handleMoveCommand(clientId, data).catch(error => {
+                        console.error(`❌ Failed to handle move command from ${clientId}:`, error);
+                    });
+                    break;
             }
         } catch (error) {
             console.error(`❌ Failed to parse message from ${clientId}:`, error);
         }
     }
 
+    /**
+     * 处理客户端的 interact 指令
+     * 地形变化由 Game 的 tile 监听器统一广播，这里只回复交互结果
+     */
+    private async handleInteract(clientId: string, command: InteractClientCommand): Promise<void> {
+        const reply = (result: InteractionResult) => {
+            this.sendToClient(clientId, {
+                type: 'interaction_result',
+                data: {
+                    ...(command.requestId !== undefined && { requestId: command.requestId }),
+                    playerId: command.playerId,
+                    result,
+                },
+                timestamp: Date.now(),
+            });
+        };
+
+        const game = this.getGame(clientId);
+        if (!game) {
+            reply({ success: false, message: "Game is not available" });
+            return;
+        }
+
+        const validation = validateInteraction(command.interaction, command.target);
+        if (!validation.valid) {
+            reply({ success: false, message: validation.error ?? "Invalid interaction" });
+            return;
+        }
+
+        if (!game.getPlayerAgent(command.playerId)) {
+            reply({ success: false, message: "Player not found" });
+            return;
+        }
+
+        const result = await game.handleInteractionAsync({
+            playerId: command.playerId,
+            type: command.interaction as InteractionType,
+            target: { x: command.target.x, y: command.target.y },
+            data: command.data,
+        });
+
+        reply(result);
+    }
+
+    /**
+     * 处理客户端的 attack 指令
+     * 伤害和死亡由 Game 的战斗监听器统一广播，这里只回复攻击结果
+     */
+    private async handleAttack(clientId: string, command: AttackClientCommand): Promise<void> {
+        const reply = (result: AttackResult) => {
+            this.sendToClient(clientId, {
+                type: 'attack_result',
+                data: {
+                    ...(command.requestId !== undefined && { requestId: command.requestId }),
+                    attackerId: command.attackerId,
+                    targetId: command.targetId,
+                    result,
+                },
+                timestamp: Date.now(),
+            });
+        };
+
+        const game = this.getGame(clientId);
+        if (!game) {
+            reply({ success: false, message: "Game is not available" });
+            return;
+        }
+
+        const validation = validateAttack(command);
+        if (!validation.valid) {
+            reply({ success: false, message: validation.error ?? "Invalid attack" });
+            return;
+        }
+
+        const result = await game.attack({
+            attackerId: command.attackerId,
+            targetId: command.targetId,
+            ...(command.weaponId !== undefined && { weaponId: command.weaponId }),
+        });
+
+        reply(result);
+    }
+
+    /**
+     * 处理客户端的 respawn 指令
+     * 复活成功后由 Game 的复活监听器广播 player_respawn，这里只回复结果
+     */
+    private handleRespawn(clientId: string, command: RespawnClientCommand): void {
+        const reply = (result: RespawnResult) => {
+            this.sendToClient(clientId, {
+                type: 'respawn_result',
+                data: {
+                    ...(command.requestId !== undefined && { requestId: command.requestId }),
+                    playerId: command.playerId,
+                    result,
+                },
+                timestamp: Date.now(),
+            });
+        };
+
+        const game = this.getGame(clientId);
+        if (!game) {
+            reply({ success: false, message: "Game is not available" });
+            return;
+        }
+
+        if (typeof command.playerId !== 'string' || command.playerId.length === 0) {
+            reply({ success: false, message: "playerId is required and must be a string" });
+            return;
+        }
+
+        reply(game.respawnPlayer(command.playerId));
+    }
+
+    /**
+     * 处理客户端的 subscribe_chunks 指令
+     * 替换之前的订阅，回复 chunk_data（新订阅区块的完整数据 + 当前订阅的全部区块）
+     */
+    private async handleSubscribeChunks(clientId: string, command: SubscribeChunksCommand): Promise<void> {
+        const fail = (message: string) => {
+            this.sendToClient(clientId, {
+                type: 'system',
+                data: { message },
+                timestamp: Date.now(),
+            });
+        };
+
+        const game = this.getGame(clientId);
+        if (!game) {
+            fail("Game is not available");
+            return;
+        }
+
+        const validation = validateChunkViewport(command.viewport, command.margin);
+        if (!validation.valid) {
+            fail(validation.error ?? "Invalid chunk subscription");
+            return;
+        }
+
+        try {
+            const payload = await game.subscribeChunks(clientId, command.viewport, command.margin);
+            this.sendToClient(clientId, {
+                type: 'chunk_data',
+                data: payload,
+                timestamp: Date.now(),
+            });
+        } catch (error) {
+            fail((error as Error).message);
+        }
+    }
+
+    /**
+     * 处理客户端的 player_move_command 指令
+     * - 经过行为队列、地形碰撞和边界校验，被阻挡或取消时回复 accepted: false
+     * - 通过 PlayerAgent 的预测记录 + 和解机制执行移动
+     * - 给发送者回复 move_ack（携带权威快照和已确认的 actionId）
+     * - 给其他客户端广播 player_move
+     */
+    private async handleMoveCommand(clientId: string, command: PlayerMoveCommand): Promise<void> {
+        const game = this.getGame(clientId);
+        if (!game) {
+            console.warn(`⚠️ [MOVE_CMD] Game is not available, dropping command from ${clientId}`);
+            return;
+        }
+
+        const agent = game.getPlayerAgent(command.playerId);
+        if (!agent) {
+            console.warn(`⚠️ [MOVE_CMD] Player not found: ${command.playerId}`);
+            return;
+        }
+
+        const reject = (reason: MoveRejection) => {
+            this.sendToClient(clientId, {
+                type: 'move_ack',
+                data: {
+                    actionId: command.actionId,
+                    player: agent.toSnapshot(),
+                    accepted: false,
+                    reason,
+                },
+                timestamp: Date.now(),
+            });
+        };
+
+        if (typeof command.actionId !== 'string' || command.actionId.length === 0) {
+            reject({ code: "invalid_move", message: "actionId is required" });
+            return;
+        }
+
+        const validation = validateMoveDelta(command.delta);
+        if (!validation.valid) {
+            reject({ code: "invalid_move", message: validation.error ?? "Invalid move delta" });
+            return;
+        }
+
+        // 地形碰撞和边界检查在 PlayerService 中统一完成
+        const outcome = await game.applyMoveCommand(command.playerId, command.actionId, command.delta);
+        if (!outcome) {
+            console.warn(`⚠️ [MOVE_CMD] Player not found: ${command.playerId}`);
+            return;
+        }
+
+        if (!outcome.success) {
+            reject(outcome.rejection ?? { code: "invalid_move", message: "Move rejected" });
+            return;
+        }
+
+        this.sendToClient(clientId, {
+            type: 'move_ack',
+            data: {
+                actionId: command.actionId,
+                player: outcome.player,
+                accepted: true,
+            },
+            timestamp: Date.now(),
+        });
+
+        this.broadcastPlayerMove({
+            player: outcome.player,
+            previousPosition: outcome.previousPosition,
+        }, { excludeClientId: clientId, worldId: game.getWorldId() });
+    }
+
+    /**
+     * 处理客户端的 join_world 指令：切换到另一个已加载的世界
+     */
+    private handleJoinWorld(clientId: string, command: JoinWorldCommand): void {
+        const validation = validateWorldId(command.worldId);
+        if (!validation.valid || !this.worlds?.has(command.worldId)) {
+            this.sendToClient(clientId, {
+                type: 'system',
+                data: { message: validation.error ?? `World "${command.worldId}" is not loaded` },
+                timestamp: Date.now(),
+            });
+            return;
+        }
+
+        this.switchWorld(clientId, command.worldId, `Joined world "${command.worldId}"`);
+    }
+
+    /**
+     * 把客户端切换到另一个世界：取消原世界的区块订阅，通知客户端重新拉取世界数据和区块
+     */
+    private switchWorld(clientId: string, worldId: string, message: string): void {
+        const connection = this.clients.get(clientId);
+        if (!connection) return;
+
+        this.getGame(clientId)?.unsubscribeChunks(clientId);
+        connection.worldId = worldId;
+        console.log(`🌍 Client ${clientId} switched to world ${worldId}`);
+
+        this.sendToClient(clientId, {
+            type: 'system',
+            data: { message, worldId },
+            timestamp: Date.now(),
+        });
+    }
+
+    /**
+     * 客户端所在的世界
+     */
+    private getGame(clientId: string): Game | null {
+        const connection = this.clients.get(clientId);
+        return connection ? this.worlds?.get(connection.worldId) ?? null : null;
+    }
+
+    /**
+     * 玩家传送到其他世界后，订阅了该玩家的客户端跟着切换世界
+     */
+    public followPlayerTransfer(playerId: PlayerId, worldId: string): void {
+        this.clients.forEach((connection, clientId) => {
+            if (connection.playerId === playerId && connection.worldId !== worldId) {
+                this.switchWorld(clientId, worldId, `Player transferred to world "${worldId}"`);
+            }
+        });
+    }
+
+    /**
+     * 世界被卸载后，其中的客户端回到默认世界
+     */
+    public handleWorldUnloaded(worldId: string): void {
+        this.clients.forEach((connection, clientId) => {
+            if (connection.worldId === worldId) {
+                connection.worldId = this.defaultWorldId;
+                this.sendToClient(clientId, {
+                    type: 'system',
+                    data: { message: `World "${worldId}" was unloaded, moved to "${this.defaultWorldId}"`, worldId: this.defaultWorldId },
+                    timestamp: Date.now(),
+                });
+            }
+        });
+    }
+
     /**
      * 发送消息给特定客户端
      */
@@ -132,9 +517,11 @@ export class WebSocketManager {
     }
 
     /**
-     * 广播消息给所有连接的客户端
+     * 广播消息给连接的客户端
+     * @param message 消息
+     * @param options 可选：跳过的客户端（通常是指令发送者）、只发给某个世界的客户端
      */
-    public broadcast(message: WebSocketMessage): void {
+    public broadcast(message: WebSocketMessage, { excludeClientId, worldId }: BroadcastOptions = {}): void {
         const messageStr = JSON.stringify(message);
         let sentCount = 0;
         let failedCount = 0;
@@ -142,6 +529,9 @@ export class WebSocketManager {
         console.log(`📡 [BROADCAST] Starting broadcast of type '${message.type}' to ${this.clients.size} clients`);
 
         this.clients.forEach((connection, clientId) => {
+            if (clientId === excludeClientId || (worldId !== undefined && connection.worldId !== worldId)) {
+                return;
+            }
             if (connection.ws.readyState === WebSocket.OPEN) {
                 try {
                     connection.ws.send(messageStr);
@@ -164,45 +554,133 @@ export class WebSocketManager {
     /**
      * 广播世界状态更新
      */
-    public broadcastWorldUpdate(worldState: WorldTickState): void {
+    public broadcastWorldUpdate(worldState: WorldTickState, worldId?: string): void {
         this.broadcast({
             type: 'world_update',
             data: worldState,
             timestamp: Date.now(),
-        });
+        }, { ...(worldId && { worldId }) });
     }
 
     /**
      * 广播玩家移动事件
+     * @param options 可选：跳过的客户端（已通过 move_ack 收到结果的发送者）、所在世界
      */
-    public broadcastPlayerMove(payload: PlayerMoveBroadcast): void {
+    public broadcastPlayerMove(payload: PlayerMoveBroadcast, options: BroadcastOptions = {}): void {
         this.broadcast({
             type: 'player_move',
             data: payload,
             timestamp: Date.now(),
+        }, options);
+    }
+
+    /**
+     * 推送地形瓦片变化事件
+     * 只发给所在世界中订阅了该区块的客户端；没有订阅任何区块的客户端（旧客户端）照常收到所有变化
+     */
+    public broadcastTileUpdate(payload: TileUpdateBroadcast, worldId?: string): void {
+        const message: WebSocketMessage = {
+            type: 'tile_update',
+            data: payload,
+            timestamp: Date.now(),
+        };
+
+        this.clients.forEach((connection, clientId) => {
+            if (worldId !== undefined && connection.worldId !== worldId) return;
+
+            const game = this.getGame(clientId);
+            if (!game || !game.hasChunkSubscription(clientId) || game.isChunkSubscribed(clientId, payload.chunk)) {
+                this.sendToClient(clientId, message);
+            }
         });
     }
 
+    /**
+     * 广播实体受伤事件
+     */
+    public broadcastEntityDamaged(payload: EntityDamagedBroadcast, worldId?: string): void {
+        this.broadcast({
+            type: 'entity_damaged',
+            data: payload,
+            timestamp: Date.now(),
+        }, { ...(worldId && { worldId }) });
+    }
+
+    /**
+     * 广播时间同步（定时校准 + 管理员修改时间后立即同步）
+     */
+    public broadcastTimeSync(payload: TimeSyncPayload, worldId?: string): void {
+        this.broadcast({
+            type: 'time_sync',
+            data: payload,
+            timestamp: Date.now(),
+        }, { ...(worldId && { worldId }) });
+    }
+
+    /**
+     * 广播落雷事件（雷暴天气）
+     */
+    public broadcastLightningStrike(payload: LightningStrikeBroadcast, worldId?: string): void {
+        this.broadcast({
+            type: 'lightning_strike',
+            data: payload,
+            timestamp: Date.now(),
+        }, { ...(worldId && { worldId }) });
+    }
+
+    /**
+     * 广播角色说的话（玩家、NPC、MCP 客户端）
+     */
+    public broadcastAgentSpeech(payload: AgentSpeechBroadcast, worldId?: string): void {
+        this.broadcast({
+            type: 'agent_speech',
+            data: payload,
+            timestamp: Date.now(),
+        }, { ...(worldId && { worldId }) });
+    }
+
+    /**
+     * 广播实体死亡事件
+     */
+    public broadcastEntityDied(payload: EntityDiedBroadcast, worldId?: string): void {
+        this.broadcast({
+            type: 'entity_died',
+            data: payload,
+            timestamp: Date.now(),
+        }, { ...(worldId && { worldId }) });
+    }
+
+    /**
+     * 广播玩家复活事件
+     */
+    public broadcastPlayerRespawn(player: PlayerSnapshot, worldId?: string): void {
+        this.broadcast({
+            type: 'player_respawn',
+            data: player,
+            timestamp: Date.now(),
+        }, { ...(worldId && { worldId }) });
+    }
+
     /**
      * 广播玩家加入事件
      */
-    public broadcastPlayerJoin(player: PlayerSnapshot): void {
+    public broadcastPlayerJoin(player: PlayerSnapshot, worldId?: string): void {
         this.broadcast({
             type: 'player_join',
             data: player,
             timestamp: Date.now(),
-        });
+        }, { ...(worldId && { worldId }) });
     }
 
     /**
      * 广播玩家离开事件
      */
-    public broadcastPlayerLeave(playerId: PlayerId): void {
+    public broadcastPlayerLeave(playerId: PlayerId, worldId?: string): void {
         this.broadcast({
             type: 'player_leave',
             data: { playerId },
             timestamp: Date.now(),
-        });
+        }, { ...(worldId && { worldId }) });
     }
 
     /**
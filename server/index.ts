@@ -18,12 +18,23 @@ import { createServer } from "http";
 // 加载 .env 文件中的环境变量
 dotenv.config();
 
+import { redirectLogsToStderr, startMcpStdio } from "./Services/McpStdioService.js";
+
+// MCP stdio 模式：stdout 只留给协议消息，日志全部转到 stderr
+const MCP_STDIO_AGENT_ID = process.env.MCP_STDIO_AGENT_ID;
+if (MCP_STDIO_AGENT_ID) {
+  redirectLogsToStderr();
+}
+
 import { registerRoutes } from "./routes/index.js";
 import { errorHandler, notFoundHandler } from "./middleware/errorHandler.js";
-import { validateEnv } from "./utils/validation.js";
+import { validateEnv, validateTerrainGenerator, validateWorldId, validateWorldSize } from "./utils/validation.js";
 import { WebSocketManager } from "./Services/WebSocketManager.js";
 
-import Game from "./Game/index.js";
+import type Game from "./Game/index.js";
+import WorldRegistry from "./Game/WorldRegistry.js";
+import { parseSeed } from "./Game/Random/RandomService.js";
+import { DEFAULT_TERRAIN_GENERATOR } from "./Game/World/TerrainGenerators.js";
 
 // 创建 Express 应用实例
 const app = express();
@@ -73,79 +84,102 @@ async function bootstrap() {
   }
 
   // ===== 第三步：初始化游戏世界 =====
-  // 从环境变量获取世界 ID，默认为 "default-world"
+  // 从环境变量获取默认世界 ID，默认为 "default-world"
   const worldId = process.env.GAME_WORLD_ID ?? "default-world";
   console.log(`🌍 Initializing game world: ${worldId}`);
   
-  // 获取游戏世界单例实例
-  const game = Game.getInstance(worldId);
-  
-  // 初始化游戏世界：
+  // 主随机种子（可选）：同一种子 + 同样的输入会得到同样的世界，方便复现实验
+  const seed = parseSeed(process.env.GAME_SEED);
+
+  // 新世界的地形生成器（可选）：TERRAIN_GENERATOR=noise，TERRAIN_PARAMS={"scale":24}
+  const terrain = process.env.TERRAIN_GENERATOR || process.env.TERRAIN_PARAMS
+    ? {
+        name: process.env.TERRAIN_GENERATOR || DEFAULT_TERRAIN_GENERATOR,
+        ...(process.env.TERRAIN_PARAMS && { params: JSON.parse(process.env.TERRAIN_PARAMS) }),
+      }
+    : undefined;
+  const terrainValidation = validateTerrainGenerator(terrain ?? { name: DEFAULT_TERRAIN_GENERATOR });
+  if (!terrainValidation.valid) {
+    throw new Error(`❌ Invalid terrain generator: ${terrainValidation.error}`);
+  }
+
+  // 新世界的地图尺寸和区块边长（可选）：WORLD_WIDTH=256，WORLD_HEIGHT=256，CHUNK_SIZE=16
+  const size = {
+    ...(process.env.WORLD_WIDTH && { width: Number(process.env.WORLD_WIDTH) }),
+    ...(process.env.WORLD_HEIGHT && { height: Number(process.env.WORLD_HEIGHT) }),
+    ...(process.env.CHUNK_SIZE && { chunkSize: Number(process.env.CHUNK_SIZE) }),
+  };
+  const sizeValidation = validateWorldSize(size);
+  if (!sizeValidation.valid) {
+    throw new Error(`❌ Invalid world size: ${sizeValidation.error}`);
+  }
+
+  // 世界注册表：同一进程可以同时运行多个世界，GAME_WORLD_ID 是默认世界
+  const worlds = new WorldRegistry(worldId);
+
+  // ===== 第四步：初始化 WebSocket 服务器 =====
+  // 传入世界注册表，客户端的交互等指令交给它所在的世界处理
+  const wsManager = new WebSocketManager(httpServer, worlds);
+
+  // 每个世界加载后挂接广播：世界内的事件只发给该世界的客户端
+  const timeSyncTimers = new Map<string, ReturnType<typeof setInterval>>();
+  worlds.onWorldLoad((game) => {
+    timeSyncTimers.set(game.getWorldId(), attachWorldBroadcasts(game, wsManager));
+  });
+  worlds.onWorldUnload((unloadedWorldId) => {
+    clearInterval(timeSyncTimers.get(unloadedWorldId));
+    timeSyncTimers.delete(unloadedWorldId);
+    wsManager.handleWorldUnloaded(unloadedWorldId);
+  });
+
+  // 跨世界传送：原世界看到玩家离开，订阅该玩家的客户端跟随切换世界，目标世界看到玩家加入
+  worlds.onPlayerTransfer(({ player, fromWorldId, toWorldId }) => {
+    wsManager.broadcastPlayerLeave(player.id, fromWorldId);
+    wsManager.followPlayerTransfer(player.id, toWorldId);
+    wsManager.broadcastPlayerJoin(player, toWorldId);
+  });
+
+  // 加载默认世界：
   // - 从数据库加载世界状态
   // - 启动时间系统（昼夜循环）
   // - 启动游戏主循环（20 TPS）
   // - 开启自动存档（每分钟）
-  await game.init();
+  const game = await worlds.load(worldId, { ...(seed !== undefined && { seed }), ...(terrain && { terrain }), ...size });
   
   console.log(`✅ Game world initialized`);
   console.log(`   - Online players: ${game.getPlayerCount()}`); // 显示当前在线玩家数
   console.log(`   - Current tick: ${game.getState().tick}`);    // 显示当前游戏 tick
 
-  // ===== 第四步：初始化 WebSocket 服务器 =====
-  const wsManager = new WebSocketManager(httpServer);
-  
-  // 将 WebSocket 管理器传递给游戏实例，用于实时广播
-  
-  // ===== 时间同步策略 =====
-  // 1. 快速更新（world_update）：每 0.5 秒广播一次，用于实时天气等非关键信息
-  // 2. 时间同步（time_sync）：每 30 秒广播一次，用于客户端校准本地计时器
-  
-  let lastBroadcastTick = 0;
-  const BROADCAST_INTERVAL_TICKS = 10; // 每 10 tick 广播一次 (20 TPS / 10 = 2次/秒)
-  
-  game.onTick(() => {
-    const worldState = game.getState();
-    const currentTick = worldState.tick;
-    
-    // 快速广播：世界状态更新
-    if (currentTick - lastBroadcastTick >= BROADCAST_INTERVAL_TICKS) {
-      wsManager.broadcastWorldUpdate({
-        tick: currentTick,
-        timeOfDay: worldState.timeOfDay,
-        weather: worldState.weather,
-      });
-      lastBroadcastTick = currentTick;
+  // 启动时额外加载的世界（可选）：GAME_WORLDS=nether,the-end
+  // 新世界沿用地形生成器和地图尺寸，随机种子各自生成
+  const extraWorldIds = (process.env.GAME_WORLDS ?? "")
+    .split(",")
+    .map(id => id.trim())
+    .filter(id => id && id !== worldId);
+  for (const extraWorldId of extraWorldIds) {
+    const idValidation = validateWorldId(extraWorldId);
+    if (!idValidation.valid) {
+      throw new Error(`❌ Invalid world id in GAME_WORLDS: ${idValidation.error}`);
     }
-  });
-  
-  // 定期时间同步：每 30 秒同步一次精确时间
-  setInterval(() => {
-    const worldState = game.getState();
-    console.log(`⏰ [TIME_SYNC] Broadcasting time sync: tick ${worldState.tick}, ${worldState.timeOfDay}`);
-    
-    wsManager.broadcast({
-      type: 'time_sync',
-      data: {
-        tick: worldState.tick,
-        timeOfDay: worldState.timeOfDay,
-        weather: worldState.weather,
-        tickIntervalMs: 50,
-        speedMultiplier: 1,
-      },
-      timestamp: Date.now(),
-    });
-  }, 30000); // 30 秒
+    await worlds.load(extraWorldId, { ...(terrain && { terrain }), ...size });
+  }
+
+  // MCP stdio 模式：把默认世界中指定角色的游戏工具挂到标准输入/输出上
+  if (MCP_STDIO_AGENT_ID) {
+    await startMcpStdio(game, MCP_STDIO_AGENT_ID);
+  }
 
   // ===== 第五步：注册 API 路由 =====
-  // 准备依赖注入对象，将 game 实例和 wsManager 传递给路由
+  // 准备依赖注入对象，将世界注册表和 wsManager 传递给路由
   const deps = {
-    game,
+    worlds,
     wsManager, // 路由中也可以使用 WebSocket 广播
   };
 
   // 注册所有 API 路由：
-  // - /api/game/*      -> 世界状态 API
-  // - /api/players/*   -> 玩家管理 API
+  // - /api/worlds/*    -> 世界管理 API 及各世界内的 API
+  // - /api/game/*      -> 默认世界的世界状态 API
+  // - /api/players/*   -> 默认世界的玩家管理 API
   registerRoutes(app, deps);
 
   // ===== 第六步：配置错误处理 =====
@@ -159,8 +193,12 @@ async function bootstrap() {
   const port = Number(process.env.PORT) || 4000; // 默认端口 4000
   httpServer.listen(port, () => {
     console.log(`🚀 Server running on http://localhost:${port}`);
+    console.log(`   - Worlds API: http://localhost:${port}/api/worlds (${worlds.list().length} loaded)`);
     console.log(`   - World API: http://localhost:${port}/api/game/world`);
     console.log(`   - Players API: http://localhost:${port}/api/players`);
+    console.log(`   - NPCs API: http://localhost:${port}/api/npcs`);
+    console.log(`   - Combat API: http://localhost:${port}/api/combat`);
+    console.log(`   - MCP (streamable HTTP): http://localhost:${port}/mcp/agents/{agentId}`);
     console.log(`   - WebSocket: ws://localhost:${port}/ws`);
   });
 
@@ -172,8 +210,8 @@ async function bootstrap() {
     // 1. 关闭 WebSocket 连接
     wsManager.closeAll();
     
-    // 2. 关闭游戏世界：停止游戏循环、保存状态
-    await game.shutdown();
+    // 2. 关闭所有世界：停止游戏循环、保存状态
+    await worlds.shutdownAll();
     
     // 3. 断开数据库连接
     await mongoose.disconnect();
@@ -183,6 +221,64 @@ async function bootstrap() {
   });
 }
 
+/**
+ * 把一个世界的事件挂接到 WebSocket 广播（只发给该世界的客户端）
+ * @returns 定期时间同步的定时器（世界卸载时清除）
+ */
+function attachWorldBroadcasts(game: Game, wsManager: WebSocketManager) {
+  const worldId = game.getWorldId();
+
+  // 地形变化（耕地、种植、砍树等）实时广播给订阅了该区块的客户端
+  game.onTileUpdate((update) => wsManager.broadcastTileUpdate(update, worldId));
+
+  // 战斗事件：受伤和死亡
+  game.onEntityDamaged((event) => wsManager.broadcastEntityDamaged(event, worldId));
+  game.onEntityDied((event) => wsManager.broadcastEntityDied(event, worldId));
+  game.onPlayerRespawn((player) => wsManager.broadcastPlayerRespawn(player, worldId));
+
+  // 雷暴天气的落雷（被劈中的角色、被点燃的树）
+  game.onLightningStrike((strike) => wsManager.broadcastLightningStrike(strike, worldId));
+
+  // NPC / MCP 客户端驱动的移动同样以 player_move 广播，前端与玩家一样渲染
+  game.onAgentMove(({ player, previousPosition }) => wsManager.broadcastPlayerMove({ player, previousPosition }, { worldId }));
+
+  // 角色说的话（REST、NPC 决策、MCP 工具）
+  game.onAgentSpeech((speech) => wsManager.broadcastAgentSpeech(speech, worldId));
+
+  // ===== 时间同步策略 =====
+  // 1. 快速更新（world_update）：每 0.5 秒广播一次，用于实时天气等非关键信息
+  // 2. 时间同步（time_sync）：每 30 秒广播一次，用于客户端校准本地计时器
+
+  let lastBroadcastTick = 0;
+  const BROADCAST_INTERVAL_TICKS = 10; // 每 10 tick 广播一次 (20 TPS / 10 = 2次/秒)
+
+  game.onTick(() => {
+    const worldState = game.getState();
+    const currentTick = worldState.tick;
+
+    // 快速广播：世界状态更新
+    if (currentTick - lastBroadcastTick >= BROADCAST_INTERVAL_TICKS) {
+      wsManager.broadcastWorldUpdate({
+        tick: currentTick,
+        timeOfDay: worldState.timeOfDay,
+        weather: worldState.weather,
+      }, worldId);
+      lastBroadcastTick = currentTick;
+    }
+  });
+
+  // 管理员修改时间（快进、倍速、暂停、单步）后立即同步，客户端的本地计时器随之校准
+  game.onTimeSync((timeSync) => wsManager.broadcastTimeSync(timeSync, worldId));
+
+  // 定期时间同步：每 30 秒同步一次精确时间
+  return setInterval(() => {
+    const timeSync = game.getTimeSync();
+    console.log(`⏰ [TIME_SYNC] Broadcasting time sync for ${worldId}: tick ${timeSync.tick}, ${timeSync.timeOfDay}`);
+
+    wsManager.broadcastTimeSync(timeSync, worldId);
+  }, 30000); // 30 秒
+}
+
 // ===== 启动服务器 =====
 // 执行启动函数，如果出错则打印错误并退出
 bootstrap().catch((err) => {
@@ -0,0 +1,217 @@
+import { Router } from "express";
+import type Game from "../Game/index.js";
+import type { WebSocketManager } from "../Services/WebSocketManager.js";
+import { validateForceWeather, validateSetTime, validateTimeSpeed, validateTimeStep } from "../utils/validation.js";
+
+export type AdminRouteDeps = {
+    game: Game;
+    wsManager: WebSocketManager;
+};
+
+/**
+ * 管理员 API：控制世界时间和天气
+ * 时间的每次修改都会立即广播 time_sync；所有修改都会写入世界存档
+ */
+export function adminRouter({ game }: AdminRouteDeps) {
+    const router = Router();
+
+    /**
+     * 查看世界时间（与 time_sync 的内容一致）
+     * GET /api/admin/time
+     */
+    router.get("/time", (_req, res) => {
+        try {
+            res.json({
+                success: true,
+                time: game.getTimeSync(),
+            });
+        } catch (err) {
+            console.error("Failed to get world time", err);
+            res.status(500).json({
+                success: false,
+                message: "Failed to retrieve world time",
+            });
+        }
+    });
+
+    /**
+     * 快进世界时间（只能向前）
+     * PUT /api/admin/time
+     * Body: { tick: number } 或 { timeOfDay: "dawn" | "day" | "dusk" | "night" }
+     */
+    router.put("/time", async (req, res) => {
+        try {
+            const validation = validateSetTime(req.body);
+            if (!validation.valid) {
+                return res.status(400).json({
+                    success: false,
+                    message: validation.error,
+                });
+            }
+
+            const { tick, timeOfDay } = req.body;
+            if (tick !== undefined && tick < game.getTimeSync().tick) {
+                return res.status(409).json({
+                    success: false,
+                    message: "World time can only move forward",
+                });
+            }
+
+            const time = await game.setWorldTime(tick !== undefined ? { tick } : { timeOfDay });
+            res.json({
+                success: true,
+                message: `World time set to tick ${time.tick} (${time.timeOfDay})`,
+                time,
+            });
+        } catch (err) {
+            console.error("Failed to set world time", err);
+            res.status(500).json({
+                success: false,
+                message: "Failed to set world time",
+            });
+        }
+    });
+
+    /**
+     * 修改时间流速
+     * PUT /api/admin/time/speed
+     * Body: { multiplier: number }（0 < multiplier ≤ 100）
+     */
+    router.put("/time/speed", async (req, res) => {
+        try {
+            const validation = validateTimeSpeed(req.body);
+            if (!validation.valid) {
+                return res.status(400).json({
+                    success: false,
+                    message: validation.error,
+                });
+            }
+
+            const time = await game.setTimeSpeed(req.body.multiplier);
+            res.json({
+                success: true,
+                message: `Time speed set to x${time.speedMultiplier}`,
+                time,
+            });
+        } catch (err) {
+            console.error("Failed to set time speed", err);
+            res.status(500).json({
+                success: false,
+                message: "Failed to set time speed",
+            });
+        }
+    });
+
+    /**
+     * 暂停世界时间
+     * POST /api/admin/time/pause
+     */
+    router.post("/time/pause", async (_req, res) => {
+        try {
+            const time = await game.pauseTime();
+            res.json({
+                success: true,
+                message: "World time paused",
+                time,
+            });
+        } catch (err) {
+            console.error("Failed to pause world time", err);
+            res.status(500).json({
+                success: false,
+                message: "Failed to pause world time",
+            });
+        }
+    });
+
+    /**
+     * 恢复世界时间
+     * POST /api/admin/time/resume
+     */
+    router.post("/time/resume", async (_req, res) => {
+        try {
+            const time = await game.resumeTime();
+            res.json({
+                success: true,
+                message: "World time resumed",
+                time,
+            });
+        } catch (err) {
+            console.error("Failed to resume world time", err);
+            res.status(500).json({
+                success: false,
+                message: "Failed to resume world time",
+            });
+        }
+    });
+
+    /**
+     * 暂停时推进恰好 N 个 tick
+     * POST /api/admin/time/step
+     * Body: { ticks: number }（1 ~ 24000）
+     */
+    router.post("/time/step", async (req, res) => {
+        try {
+            const validation = validateTimeStep(req.body);
+            if (!validation.valid) {
+                return res.status(400).json({
+                    success: false,
+                    message: validation.error,
+                });
+            }
+
+            if (game.isTimeRunning()) {
+                return res.status(409).json({
+                    success: false,
+                    message: "World time must be paused before stepping",
+                });
+            }
+
+            const time = await game.stepTime(req.body.ticks);
+            res.json({
+                success: true,
+                message: `Advanced ${req.body.ticks} ticks to tick ${time.tick}`,
+                time,
+            });
+        } catch (err) {
+            console.error("Failed to step world time", err);
+            res.status(500).json({
+                success: false,
+                message: "Failed to step world time",
+            });
+        }
+    });
+
+    /**
+     * 强制指定天气
+     * POST /api/admin/weather
+     * Body: { weather: "clear" | "rain" | "storm" | "snow" | "fog", durationTicks: number, intensity?: number }
+     */
+    router.post("/weather", async (req, res) => {
+        try {
+            const validation = validateForceWeather(req.body);
+            if (!validation.valid) {
+                return res.status(400).json({
+                    success: false,
+                    message: validation.error,
+                });
+            }
+
+            const { weather, durationTicks, intensity } = req.body;
+            const spell = await game.forceWeather(weather, durationTicks, intensity);
+            res.json({
+                success: true,
+                message: `Weather forced to ${spell.weather} for ${spell.durationTicks} ticks`,
+                spell,
+                forecast: game.getWeatherForecast(),
+            });
+        } catch (err) {
+            console.error("Failed to force weather", err);
+            res.status(500).json({
+                success: false,
+                message: "Failed to force weather",
+            });
+        }
+    });
+
+    return router;
+}
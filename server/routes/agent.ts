@@ -1,8 +1,53 @@
-import { Router } from "express";
+import { Router, type Response } from "express";
 import type Game from "../Game/index.js";
 import type { WebSocketManager } from "../Services/WebSocketManager.js";
-import type { CreatePlayerParams, MovePlayerParams } from "../types/agent.js";
-import { validatePlayerName, validatePosition } from "../utils/validation.js";
+import type { CreatePlayerParams, MovePlayerParams, RespawnFailureCode, SurvivalActionResult, SurvivalFailureCode } from "../types/agent.js";
+import { validateCraft, validateInteraction, validateInventoryAction, validatePlayerName, validatePosition, validateSpeech } from "../utils/validation.js";
+import type { InteractionType } from "../Game/Interaction/InteractionManager.js";
+import type { InteractionCommand } from "../../shared/interaction.js";
+import type { CraftFailureCode, CraftRequest } from "../types/crafting.js";
+import type { InventoryActionRequest, InventoryActionResult, InventoryFailureCode } from "../types/item.js";
+
+/** 背包操作失败原因 -> HTTP 状态码 */
+const INVENTORY_FAILURE_STATUS: Record<InventoryFailureCode, number> = {
+    player_not_found: 404,
+    target_not_found: 404,
+    insufficient_items: 409,
+    inventory_full: 409,
+    invalid_quantity: 400,
+};
+
+/** 复活 / 设置出生点失败原因 -> HTTP 状态码 */
+const RESPAWN_FAILURE_STATUS: Record<RespawnFailureCode, number> = {
+    player_not_found: 404,
+    not_dead: 409,
+    respawn_cooldown: 429,
+    invalid_spawn_point: 409,
+    no_spawn_point: 409,
+};
+
+/** 生存操作失败原因 -> HTTP 状态码 */
+const SURVIVAL_FAILURE_STATUS: Record<SurvivalFailureCode, number> = {
+    player_not_found: 404,
+    dead: 409,
+    not_food: 400,
+    insufficient_items: 409,
+    not_hungry: 409,
+    already_sleeping: 409,
+    not_sleeping: 409,
+};
+
+/** 合成失败原因 -> HTTP 状态码 */
+const CRAFT_FAILURE_STATUS: Record<CraftFailureCode, number> = {
+    player_not_found: 404,
+    dead: 409,
+    unknown_recipe: 404,
+    invalid_quantity: 400,
+    missing_items: 409,
+    no_workstation: 409,
+    inventory_full: 409,
+    cancelled: 409,
+};
 
 export type AgentRouteDeps = {
     game: Game;
@@ -149,6 +194,13 @@ export function agentRouter({ game, wsManager }: AgentRouteDeps) {
             console.log(`🎮 [MOVE] Player ${playerId} wants to move ${direction} (distance: ${distance})`);
             console.log(`🎮 [MOVE] Request body:`, JSON.stringify(req.body));
 
+            if (typeof distance !== "number" || !Number.isFinite(distance) || distance <= 0) {
+                return res.status(400).json({
+                    success: false,
+                    message: "distance must be a finite positive number",
+                });
+            }
+
             const playerAgent = game.getPlayerAgent(playerId);
             if (!playerAgent) {
                 console.warn(`⚠️ [MOVE] Player not found: ${playerId}`);
@@ -186,37 +238,54 @@ export function agentRouter({ game, wsManager }: AgentRouteDeps) {
                     });
             }
 
-            const previousPosition = { ...playerAgent.getPosition() };
-            console.log(`🎮 [MOVE] Previous position:`, previousPosition);
-            
-            const newPosition = playerAgent.move(dx, dy, dz);
-            console.log(`🎮 [MOVE] New position:`, newPosition);
-            console.log(`✅ [MOVE] Player moved from (${previousPosition.x}, ${previousPosition.z}) to (${newPosition.x}, ${newPosition.z})`);
+            const deltaValidation = validatePosition(dx, dy, dz);
+            if (!deltaValidation.valid) {
+                return res.status(400).json({
+                    success: false,
+                    message: deltaValidation.error,
+                });
+            }
 
-            // 获取更新后的玩家信息
-            console.log(`🎮 [MOVE] Getting updated player data...`);
-            const player = await game.getPlayer(playerId);
-            console.log(`🎮 [MOVE] Player data retrieved:`, player ? 'OK' : 'NULL');
+            // 经过地形碰撞和边界校验：走到障碍物前停下
+            const outcome = await game.movePlayer(playerId, { x: dx, y: dy, z: dz }, "clamp");
+            if (!outcome) {
+                return res.status(404).json({
+                    success: false,
+                    message: "Player not found",
+                });
+            }
+
+            const { player, previousPosition } = outcome;
+            const newPosition = player.position;
 
-            // 广播玩家移动事件到所有 WebSocket 客户端
-            if (player) {
-                console.log(`📡 [MOVE] Broadcasting player move to WebSocket clients...`);
-                wsManager.broadcastPlayerMove({
+            if (!outcome.success) {
+                console.warn(`🚧 [MOVE] Player ${playerId} blocked: ${outcome.rejection?.message}`);
+                return res.status(409).json({
+                    success: false,
+                    message: outcome.rejection?.message ?? "Move blocked",
+                    reason: outcome.rejection,
                     player,
-                    previousPosition,
                 });
-                console.log(`📡 [MOVE] Broadcast complete`);
-            } else {
-                console.warn(`⚠️ [MOVE] Player data is null, skipping broadcast`);
             }
 
+            console.log(`✅ [MOVE] Player moved from (${previousPosition.x}, ${previousPosition.z}) to (${newPosition.x}, ${newPosition.z})${outcome.clamped ? " (clamped)" : ""}`);
+
+            // 广播玩家移动事件到同一世界的 WebSocket 客户端
+            console.log(`📡 [MOVE] Broadcasting player move to WebSocket clients...`);
+            wsManager.broadcastPlayerMove({
+                player,
+                previousPosition,
+            }, { worldId: game.getWorldId() });
+            console.log(`📡 [MOVE] Broadcast complete`);
+
             console.log(`✅ [MOVE] Sending success response`);
             res.json({
                 success: true,
-                message: "Player moved successfully",
+                message: outcome.clamped ? "Player moved until blocked" : "Player moved successfully",
                 player,
                 previousPosition,
                 newPosition,
+                ...(outcome.rejection && { reason: outcome.rejection }),
             });
         } catch (err) {
             console.error("❌ [MOVE] Failed to move player:", err);
@@ -233,10 +302,19 @@ export function agentRouter({ game, wsManager }: AgentRouteDeps) {
      * POST /api/players/:playerId/move-by-coords
      * Body: { x?: number, y?: number, z?: number }
      */
-    router.post("/:playerId/move-by-coords", (req, res) => {
+    router.post("/:playerId/move-by-coords", async (req, res) => {
         try {
             const { playerId } = req.params;
-            const params: MovePlayerParams = req.body;
+            const params: MovePlayerParams = req.body ?? {};
+            const delta = { x: params.x ?? 0, y: params.y ?? 0, z: params.z ?? 0 };
+
+            const posValidation = validatePosition(delta.x, delta.y, delta.z);
+            if (!posValidation.valid) {
+                return res.status(400).json({
+                    success: false,
+                    message: posValidation.error,
+                });
+            }
 
             const playerAgent = game.getPlayerAgent(playerId);
             if (!playerAgent) {
@@ -246,17 +324,23 @@ export function agentRouter({ game, wsManager }: AgentRouteDeps) {
                 });
             }
 
-            // 相对移动
-            const dx = params.x ?? 0;
-            const dy = params.y ?? 0;
-            const dz = params.z ?? 0;
+            // 相对移动（经过地形碰撞和边界校验）
+            const outcome = await game.movePlayer(playerId, delta, "clamp");
 
-            const newPosition = playerAgent.move(dx, dy, dz);
+            if (!outcome || !outcome.success) {
+                return res.status(409).json({
+                    success: false,
+                    message: outcome?.rejection?.message ?? "Move blocked",
+                    reason: outcome?.rejection,
+                    position: playerAgent.getPosition(),
+                });
+            }
 
             res.json({
                 success: true,
-                message: "Player moved successfully",
-                position: newPosition,
+                message: outcome.clamped ? "Player moved until blocked" : "Player moved successfully",
+                position: outcome.player.position,
+                ...(outcome.rejection && { reason: outcome.rejection }),
             });
         } catch (err) {
             console.error("Failed to move player", err);
@@ -272,7 +356,7 @@ export function agentRouter({ game, wsManager }: AgentRouteDeps) {
      * POST /api/players/:playerId/teleport
      * Body: { x: number, y: number, z: number }
      */
-    router.post("/:playerId/teleport", (req, res) => {
+    router.post("/:playerId/teleport", async (req, res) => {
         try {
             const { playerId } = req.params;
             const { x, y, z } = req.body;
@@ -294,12 +378,21 @@ export function agentRouter({ game, wsManager }: AgentRouteDeps) {
                 });
             }
 
-            const newPosition = playerAgent.teleport(x, y, z);
+            // 目标必须在地图内且可站立
+            const outcome = await game.teleportPlayer(playerId, { x, y, z });
+            if (!outcome || !outcome.success) {
+                return res.status(409).json({
+                    success: false,
+                    message: outcome?.rejection?.message ?? "Teleport blocked",
+                    reason: outcome?.rejection,
+                    position: playerAgent.getPosition(),
+                });
+            }
 
             res.json({
                 success: true,
                 message: "Player teleported successfully",
-                position: newPosition,
+                position: outcome.player.position,
             });
         } catch (err) {
             console.error("Failed to teleport player", err);
@@ -310,6 +403,396 @@ export function agentRouter({ game, wsManager }: AgentRouteDeps) {
         }
     });
 
+    /**
+     * 复活玩家（复活倒计时结束后，回到个人出生点，生命值回满）
+     * POST /api/players/:playerId/respawn
+     * 复活成功会通过 player_respawn 广播给所有 WebSocket 客户端
+     */
+    router.post("/:playerId/respawn", (req, res) => {
+        try {
+            const result = game.respawnPlayer(req.params.playerId);
+
+            if (!result.success) {
+                if (result.code === "respawn_cooldown" && result.retryAfterMs !== undefined) {
+                    res.setHeader("Retry-After", Math.ceil(result.retryAfterMs / 1000));
+                }
+                return res.status(result.code ? RESPAWN_FAILURE_STATUS[result.code] : 400).json(result);
+            }
+
+            res.json(result);
+        } catch (err) {
+            console.error("Failed to respawn player", err);
+            res.status(500).json({
+                success: false,
+                message: "Failed to respawn player",
+            });
+        }
+    });
+
+    /**
+     * 设置个人出生点（必须可站立）
+     * PUT /api/players/:playerId/spawn-point
+     * Body: { x, y, z }（不传坐标时使用玩家当前位置）
+     */
+    router.put("/:playerId/spawn-point", (req, res) => {
+        try {
+            const { x, y, z } = req.body ?? {};
+            const hasPosition = x !== undefined || y !== undefined || z !== undefined;
+
+            if (hasPosition) {
+                const posValidation = validatePosition(x, y, z);
+                if (!posValidation.valid) {
+                    return res.status(400).json({
+                        success: false,
+                        message: posValidation.error,
+                    });
+                }
+            }
+
+            const result = game.setSpawnPoint(req.params.playerId, hasPosition ? { x, y, z } : undefined);
+            if (!result.success) {
+                return res.status(result.code ? RESPAWN_FAILURE_STATUS[result.code] : 400).json(result);
+            }
+
+            res.json(result);
+        } catch (err) {
+            console.error("Failed to set spawn point", err);
+            res.status(500).json({
+                success: false,
+                message: "Failed to set spawn point",
+            });
+        }
+    });
+
+    /**
+     * 吃背包里的食物，恢复饱食度
+     * POST /api/players/:playerId/eat
+     * Body: { itemId: string }
+     */
+    router.post("/:playerId/eat", (req, res) => {
+        try {
+            const itemId = req.body?.itemId;
+            if (typeof itemId !== "string" || itemId.length === 0) {
+                return res.status(400).json({
+                    success: false,
+                    message: "itemId is required and must be a string",
+                });
+            }
+
+            sendSurvivalResult(res, game.eat(req.params.playerId, itemId));
+        } catch (err) {
+            console.error("Failed to eat", err);
+            res.status(500).json({
+                success: false,
+                message: "Failed to eat",
+            });
+        }
+    });
+
+    /**
+     * 睡觉（精力逐 tick 恢复，回满自动起床；移动或交互会醒来）
+     * POST /api/players/:playerId/sleep
+     */
+    router.post("/:playerId/sleep", (req, res) => {
+        try {
+            sendSurvivalResult(res, game.sleep(req.params.playerId));
+        } catch (err) {
+            console.error("Failed to sleep", err);
+            res.status(500).json({
+                success: false,
+                message: "Failed to sleep",
+            });
+        }
+    });
+
+    /**
+     * 起床
+     * POST /api/players/:playerId/wake
+     */
+    router.post("/:playerId/wake", (req, res) => {
+        try {
+            sendSurvivalResult(res, game.wake(req.params.playerId));
+        } catch (err) {
+            console.error("Failed to wake up", err);
+            res.status(500).json({
+                success: false,
+                message: "Failed to wake up",
+            });
+        }
+    });
+
+    /**
+     * 按配方合成物品（材料全部扣除、产出全部放入，否则什么都不变）
+     * POST /api/players/:playerId/craft
+     * Body: { recipeId: string, quantity?: number }
+     * 需要工作台的配方要站在对应瓦片附近；合成需要 craftTicks × quantity 个世界 tick
+     */
+    router.post("/:playerId/craft", async (req, res) => {
+        try {
+            const validation = validateCraft(req.body);
+            if (!validation.valid) {
+                return res.status(400).json({
+                    success: false,
+                    message: validation.error,
+                });
+            }
+
+            const { recipeId, quantity }: CraftRequest = req.body;
+            const result = await game.craft(req.params.playerId, recipeId, quantity);
+
+            if (!result.success) {
+                return res.status(result.code ? CRAFT_FAILURE_STATUS[result.code] : 400).json(result);
+            }
+
+            res.json(result);
+        } catch (err) {
+            console.error("Failed to craft", err);
+            res.status(500).json({
+                success: false,
+                message: "Failed to craft",
+            });
+        }
+    });
+
+    /**
+     * 玩家与世界交互（耕地、种植、浇水、砍树、挖矿、放置 / 破坏方块、查看）
+     * POST /api/players/:playerId/interact
+     * Body: { type: 'till' | 'plant' | 'water' | 'chop' | 'mine' | 'place' | 'break' | 'look' | 'harvest', target: { x, y }, data?: { cropId?, itemId?, toolId? } }
+     * 地形变化会通过 tile_update 推送给订阅了该区块的 WebSocket 客户端
+     */
+    router.post("/:playerId/interact", async (req, res) => {
+        try {
+            const { playerId } = req.params;
+            const { type, target, data }: InteractionCommand = req.body;
+
+            const validation = validateInteraction(type, target);
+            if (!validation.valid) {
+                return res.status(400).json({
+                    success: false,
+                    message: validation.error,
+                });
+            }
+
+            if (!game.getPlayerAgent(playerId)) {
+                return res.status(404).json({
+                    success: false,
+                    message: "Player not found",
+                });
+            }
+
+            const result = await game.handleInteractionAsync({
+                playerId,
+                type: type as InteractionType,
+                target: { x: target.x, y: target.y },
+                data,
+            });
+
+            res.json(result);
+        } catch (err) {
+            console.error("Failed to handle interaction", err);
+            res.status(500).json({
+                success: false,
+                message: "Failed to handle interaction",
+            });
+        }
+    });
+
+    /**
+     * 玩家说话（经过行为队列，说出的话以 agent_speech 广播给同一世界的客户端）
+     * POST /api/players/:playerId/speak
+     * Body: { message: string }
+     */
+    router.post("/:playerId/speak", async (req, res) => {
+        try {
+            const { playerId } = req.params;
+
+            const validation = validateSpeech(req.body);
+            if (!validation.valid) {
+                return res.status(400).json({
+                    success: false,
+                    message: validation.error,
+                });
+            }
+
+            if (!game.getPlayerAgent(playerId)) {
+                return res.status(404).json({
+                    success: false,
+                    message: "Player not found",
+                });
+            }
+
+            // 只会因为被取消或抢占而失败
+            const result = await game.speak(playerId, req.body.message.trim());
+            res.status(result.success ? 200 : 409).json(result);
+        } catch (err) {
+            console.error("Failed to speak", err);
+            res.status(500).json({
+                success: false,
+                message: "Failed to speak",
+            });
+        }
+    });
+
+    /**
+     * 获取玩家的行为队列（正在执行的在前）
+     * GET /api/players/:playerId/actions
+     */
+    router.get("/:playerId/actions", (req, res) => {
+        try {
+            const { playerId } = req.params;
+            const actions = game.listAgentActions(playerId);
+
+            if (!actions) {
+                return res.status(404).json({
+                    success: false,
+                    message: "Player not found",
+                });
+            }
+
+            res.json({
+                success: true,
+                count: actions.length,
+                actions,
+            });
+        } catch (err) {
+            console.error("Failed to get actions", err);
+            res.status(500).json({
+                success: false,
+                message: "Failed to retrieve actions",
+            });
+        }
+    });
+
+    /**
+     * 取消玩家的所有可取消行为（包括正在执行的）
+     * DELETE /api/players/:playerId/actions
+     */
+    router.delete("/:playerId/actions", (req, res) => {
+        try {
+            const { playerId } = req.params;
+
+            if (!game.getPlayerAgent(playerId)) {
+                return res.status(404).json({
+                    success: false,
+                    message: "Player not found",
+                });
+            }
+
+            const cancelled = game.cancelAgentActions(playerId);
+            res.json({
+                success: true,
+                message: `Cancelled ${cancelled} action(s)`,
+                cancelled,
+            });
+        } catch (err) {
+            console.error("Failed to cancel actions", err);
+            res.status(500).json({
+                success: false,
+                message: "Failed to cancel actions",
+            });
+        }
+    });
+
+    /**
+     * 取消玩家的某个行为
+     * DELETE /api/players/:playerId/actions/:actionId
+     */
+    router.delete("/:playerId/actions/:actionId", (req, res) => {
+        try {
+            const { playerId, actionId } = req.params;
+
+            if (!game.getPlayerAgent(playerId)) {
+                return res.status(404).json({
+                    success: false,
+                    message: "Player not found",
+                });
+            }
+
+            if (!game.cancelAgentAction(playerId, actionId)) {
+                return res.status(404).json({
+                    success: false,
+                    message: "Action not found or not cancellable",
+                });
+            }
+
+            res.json({
+                success: true,
+                message: "Action cancelled",
+            });
+        } catch (err) {
+            console.error("Failed to cancel action", err);
+            res.status(500).json({
+                success: false,
+                message: "Failed to cancel action",
+            });
+        }
+    });
+
+    /**
+     * 获取玩家背包
+     * GET /api/players/:playerId/inventory
+     */
+    router.get("/:playerId/inventory", (req, res) => {
+        try {
+            const { playerId } = req.params;
+            const inventory = game.getPlayerInventory(playerId);
+
+            if (!inventory) {
+                return res.status(404).json({
+                    success: false,
+                    message: "Player not found",
+                });
+            }
+
+            res.json({
+                success: true,
+                inventory,
+            });
+        } catch (err) {
+            console.error("Failed to get inventory", err);
+            res.status(500).json({
+                success: false,
+                message: "Failed to retrieve inventory",
+            });
+        }
+    });
+
+    /**
+     * 操作玩家背包（丢弃 / 转移给其他玩家）
+     * POST /api/players/:playerId/inventory
+     * Body: { action: 'drop', itemId, quantity } | { action: 'transfer', itemId, quantity, targetPlayerId }
+     */
+    router.post("/:playerId/inventory", (req, res) => {
+        try {
+            const { playerId } = req.params;
+
+            const validation = validateInventoryAction(req.body);
+            if (!validation.valid) {
+                return res.status(400).json({
+                    success: false,
+                    message: validation.error,
+                });
+            }
+
+            const request: InventoryActionRequest = req.body;
+            const result: InventoryActionResult = request.action === "transfer"
+                ? game.transferItem(playerId, request.targetPlayerId, request.itemId, request.quantity)
+                : game.dropItem(playerId, request.itemId, request.quantity);
+
+            if (!result.success) {
+                return res.status(result.code ? INVENTORY_FAILURE_STATUS[result.code] : 400).json(result);
+            }
+
+            res.json(result);
+        } catch (err) {
+            console.error("Failed to update inventory", err);
+            res.status(500).json({
+                success: false,
+                message: "Failed to update inventory",
+            });
+        }
+    });
+
     /**
      * 获取指定范围内的玩家
      * GET /api/players/nearby?x=0&y=0&z=0&radius=100
@@ -340,3 +823,13 @@ export function agentRouter({ game, wsManager }: AgentRouteDeps) {
 
     return router;
 }
+
+/**
+ * 按失败原因返回生存操作结果
+ */
+function sendSurvivalResult(res: Response, result: SurvivalActionResult) {
+    if (!result.success) {
+        return res.status(result.code ? SURVIVAL_FAILURE_STATUS[result.code] : 400).json(result);
+    }
+    return res.json(result);
+}
@@ -0,0 +1,139 @@
+import { Router } from "express";
+import type Game from "../Game/index.js";
+import type { WebSocketManager } from "../Services/WebSocketManager.js";
+import type { AttackCommand, AttackFailureCode } from "../types/combat.js";
+import { validateAttack } from "../utils/validation.js";
+
+/** 攻击失败原因 -> HTTP 状态码 */
+const ATTACK_FAILURE_STATUS: Record<AttackFailureCode, number> = {
+    attacker_not_found: 404,
+    target_not_found: 404,
+    invalid_target: 400,
+    attacker_dead: 409,
+    target_dead: 409,
+    unknown_weapon: 400,
+    weapon_not_owned: 409,
+    out_of_range: 409,
+    cooldown: 429,
+    pvp_disabled: 403,
+    cancelled: 409,
+};
+
+export type CombatRouteDeps = {
+    game: Game;
+    wsManager: WebSocketManager;
+};
+
+export function combatRouter({ game }: CombatRouteDeps) {
+    const router = Router();
+
+    /**
+     * 近战攻击
+     * POST /api/combat/attack
+     * Body: { attackerId, targetId, weaponId? }（不传 weaponId 时徒手攻击）
+     */
+    router.post("/attack", async (req, res) => {
+        try {
+            const validation = validateAttack(req.body);
+            if (!validation.valid) {
+                return res.status(400).json({
+                    success: false,
+                    message: validation.error,
+                });
+            }
+
+            const { attackerId, targetId, weaponId } = req.body as AttackCommand;
+            const result = await game.attack({
+                attackerId,
+                targetId,
+                ...(weaponId !== undefined && { weaponId }),
+            });
+
+            if (!result.success) {
+                if (result.code === "cooldown" && result.retryAfterMs !== undefined) {
+                    res.setHeader("Retry-After", Math.ceil(result.retryAfterMs / 1000));
+                }
+                return res.status(result.code ? ATTACK_FAILURE_STATUS[result.code] : 400).json(result);
+            }
+
+            res.json(result);
+        } catch (err) {
+            console.error("Failed to attack", err);
+            res.status(500).json({
+                success: false,
+                message: "Failed to attack",
+            });
+        }
+    });
+
+    /**
+     * 获取所有武器
+     * GET /api/combat/weapons
+     */
+    router.get("/weapons", (_req, res) => {
+        try {
+            const weapons = game.listWeapons();
+            res.json({
+                success: true,
+                count: weapons.length,
+                weapons,
+            });
+        } catch (err) {
+            console.error("Failed to list weapons", err);
+            res.status(500).json({
+                success: false,
+                message: "Failed to retrieve weapon list",
+            });
+        }
+    });
+
+    /**
+     * 获取战斗设置
+     * GET /api/combat/settings
+     */
+    router.get("/settings", (_req, res) => {
+        try {
+            res.json({
+                success: true,
+                settings: game.getCombatSettings(),
+            });
+        } catch (err) {
+            console.error("Failed to get combat settings", err);
+            res.status(500).json({
+                success: false,
+                message: "Failed to retrieve combat settings",
+            });
+        }
+    });
+
+    /**
+     * 修改战斗设置（按世界保存）
+     * PATCH /api/combat/settings
+     * Body: { pvpEnabled: boolean }
+     */
+    router.patch("/settings", async (req, res) => {
+        try {
+            if (typeof req.body?.pvpEnabled !== "boolean") {
+                return res.status(400).json({
+                    success: false,
+                    message: "pvpEnabled is required and must be a boolean",
+                });
+            }
+
+            const settings = await game.updateCombatSettings({ pvpEnabled: req.body.pvpEnabled });
+            res.json({
+                success: true,
+                message: `PvP ${settings.pvpEnabled ? "enabled" : "disabled"}`,
+                settings,
+            });
+        } catch (err) {
+            console.error("Failed to update combat settings", err);
+            res.status(500).json({
+                success: false,
+                message: "Failed to update combat settings",
+            });
+        }
+    });
+
+    return router;
+}
@@ -18,5 +18,65 @@ export function gameRouter({ game }: GameRouteDeps) {
 		}
 	});
 
+	/**
+	 * 天气预报：当前天气和未来一天排定的天气
+	 * GET /api/game/weather/forecast
+	 */
+	router.get("/weather/forecast", (_req, res) => {
+		try {
+			const forecast = game.getWeatherForecast();
+			res.json({
+				success: true,
+				...forecast,
+			});
+		} catch (err) {
+			console.error("Failed to produce weather forecast", err);
+			res.status(500).json({ success: false, message: "Failed to load weather forecast" });
+		}
+	});
+
+	/**
+	 * 地形生成器：可选的生成器及参数说明，以及当前世界使用的生成器
+	 * GET /api/game/terrain/generators
+	 */
+	router.get("/terrain/generators", (_req, res) => {
+		try {
+			const generators = game.listTerrainGenerators();
+			res.json({
+				success: true,
+				current: game.getTerrainGenerator(),
+				count: generators.length,
+				generators,
+			});
+		} catch (err) {
+			console.error("Failed to list terrain generators", err);
+			res.status(500).json({ success: false, message: "Failed to retrieve terrain generator list" });
+		}
+	});
+
+	/**
+	 * 单个区块：瓦片和区块版本号（未加载时从存档加载）
+	 * GET /api/game/chunks/:cx/:cy
+	 */
+	router.get("/chunks/:cx/:cy", async (req, res) => {
+		try {
+			const cx = Number(req.params.cx);
+			const cy = Number(req.params.cy);
+			if (!Number.isInteger(cx) || !Number.isInteger(cy)) {
+				return res.status(400).json({ success: false, message: "Chunk coordinates must be integers" });
+			}
+
+			const chunk = await game.getChunk({ cx, cy });
+			if (!chunk) {
+				return res.status(404).json({ success: false, message: "Chunk not found" });
+			}
+
+			res.json({ success: true, chunk });
+		} catch (err) {
+			console.error("Failed to load chunk", err);
+			res.status(500).json({ success: false, message: "Failed to load chunk" });
+		}
+	});
+
 	return router;
 }
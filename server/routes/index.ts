@@ -7,15 +7,31 @@
  * 3. 统一路由前缀和版本管理
  * 
  * 当前已注册的 API：
+ * - /api/worlds/*    -> 世界管理 API（创建、加载、卸载、跨世界传送）及 /api/worlds/:worldId/* 世界内 API
  * - /api/game/*      -> 游戏世界相关 API（时间、天气等）
  * - /api/players/*   -> 玩家管理 API（增删改查、移动等）
+ * - /api/npcs/*      -> NPC 管理 API（生成、暂停、恢复、移除）
+ * - /api/combat/*    -> 战斗 API（攻击、武器列表、PvP 设置）
+ * - /api/recipes/*   -> 合成配方 API
+ * - /api/admin/*     -> 管理员 API（时间、天气控制）
+ * - /mcp/agents/:id  -> MCP streamable HTTP 入口（外部 LLM 操控角色）
+ *
+ * /api/game、/api/players 等旧路由绑定默认世界（GAME_WORLD_ID），
+ * 其它世界使用 /api/worlds/:worldId/game、/api/worlds/:worldId/players ...
  */
 
 import type { Express } from "express";
 import type Game from "../Game/index.js";
+import type WorldRegistry from "../Game/WorldRegistry.js";
 import type { WebSocketManager } from "../Services/WebSocketManager.js";
 import { gameRouter } from "./game.js";
 import { agentRouter } from "./agent.js";
+import { npcRouter } from "./npc.js";
+import { combatRouter } from "./combat.js";
+import { recipeRouter } from "./recipes.js";
+import { adminRouter } from "./admin.js";
+import { mcpRouter } from "./mcp.js";
+import { worldsRouter } from "./worlds.js";
 
 /**
  * 依赖注入类型定义
@@ -26,28 +42,81 @@ export type Deps = {
   wsManager: WebSocketManager; // WebSocket 管理器，用于实时推送
 };
 
+/**
+ * 注册路由时的依赖：世界注册表（旧路由使用其中的默认世界）和 WebSocket 管理器
+ */
+export type AppDeps = {
+  worlds: WorldRegistry;
+  wsManager: WebSocketManager;
+};
+
 /**
  * 注册所有 API 路由
  * 
  * @param app Express 应用实例
- * @param deps 依赖注入对象，包含 Game 实例等
+ * @param deps 依赖注入对象，包含世界注册表和 WebSocket 管理器
  * 
  * 路由结构：
+ * - /api/worlds               -> 世界列表 / 创建世界（POST）
+ * - /api/worlds/:worldId      -> 已加载世界的概要
+ * - /api/worlds/:worldId/load -> 加载世界（没有存档时创建）/ 卸载（/unload）
+ * - /api/worlds/:worldId/players/:id/transfer -> 玩家传送到另一个世界（保留背包）
+ * - /api/worlds/:worldId/*    -> 该世界的 game / players / npcs / combat / recipes / admin / mcp 路由
  * - /api/game/world           -> 获取世界快照
+ * - /api/game/weather/forecast -> 天气预报
+ * - /api/game/terrain/generators -> 地形生成器列表
+ * - /api/game/chunks/:cx/:cy  -> 单个区块的瓦片和版本号
  * - /api/players              -> 玩家 CRUD 操作
  * - /api/players/:id/move     -> 移动玩家
  * - /api/players/:id/teleport -> 传送玩家
+ * - /api/players/:id/interact -> 与世界交互（耕地、种植、砍树等）
+ * - /api/players/:id/inventory -> 查看背包 / 丢弃或转移物品
+ * - /api/players/:id/respawn  -> 复活玩家
+ * - /api/players/:id/spawn-point -> 设置个人出生点（PUT）
+ * - /api/players/:id/eat      -> 吃东西（恢复饱食度）
+ * - /api/players/:id/sleep    -> 睡觉 / 起床（/wake）
+ * - /api/players/:id/craft    -> 按配方合成物品
+ * - /api/npcs                 -> NPC 列表 / 生成 NPC
+ * - /api/npcs/:id/pause       -> 暂停 / 恢复（/resume）/ 移除（DELETE）NPC
+ * - /api/combat/attack        -> 近战攻击
+ * - /api/combat/weapons       -> 武器列表
+ * - /api/combat/settings      -> 查看 / 修改（PATCH）PvP 开关
+ * - /api/recipes              -> 配方列表 / 单个配方（/:id）
+ * - /api/admin/time           -> 查看 / 快进（PUT）世界时间
+ * - /api/admin/time/speed     -> 修改时间流速（PUT）
+ * - /api/admin/time/pause     -> 暂停 / 恢复（/resume）世界时间
+ * - /api/admin/time/step      -> 暂停时推进 N 个 tick
+ * - /api/admin/weather        -> 强制指定天气（持续 N 个 tick）
  */
-export function registerRoutes(app: Express, deps: Deps) {
+export function registerRoutes(app: Express, { worlds, wsManager }: AppDeps) {
+  // 注册世界管理路由：创建、加载、卸载世界，跨世界传送，以及各世界内的 API
+  app.use("/api/worlds", worldsRouter({ worlds, wsManager }));
+
+  // 旧路由绑定默认世界
+  const deps: Deps = { game: worlds.getDefault(), wsManager };
+
   // 注册游戏世界路由：获取世界状态、时间、天气等
   app.use("/api/game", gameRouter(deps));
   
   // 注册玩家管理路由：创建、查询、移动玩家等
   app.use("/api/players", agentRouter(deps));
+
+  // 注册 NPC 路由：生成、暂停、恢复、移除 LLM 驱动的 NPC
+  app.use("/api/npcs", npcRouter(deps));
+
+  // 注册战斗路由：攻击、武器、PvP 设置
+  app.use("/api/combat", combatRouter(deps));
+
+  // 注册配方路由：客户端渲染合成界面
+  app.use("/api/recipes", recipeRouter(deps));
+
+  // 注册管理员路由：设置时间、倍速、暂停 / 恢复、单步推进、强制天气
+  app.use("/api/admin", adminRouter(deps));
   
+  // 注册 MCP 路由：外部 LLM 客户端通过 streamable HTTP 操控某个角色
+  app.use("/mcp", mcpRouter(deps));
+
   // 预留的路由（可选实现）：
-  // app.use("/mcp", mcpRouter(deps));       // MCP（Model Context Protocol）客户端 API
   // app.use("/api/env", envRouter());       // 环境/地图相关 API
   // app.use("/api/items", itemsRouter());   // 物品系统 API
-  // app.use("/api/combat", combatRouter()); // 战斗系统 API
 }
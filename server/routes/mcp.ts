@@ -0,0 +1,68 @@
+import { Router } from "express";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type Game from "../Game/index.js";
+
+export type McpRouteDeps = {
+    game: Game;
+};
+
+/**
+ * MCP（Model Context Protocol）路由
+ * 外部 LLM 客户端通过 streamable HTTP 操控游戏中的某个角色。
+ * 采用无状态模式：每个请求创建独立的 MCP 服务器和传输层，请求结束即释放。
+ */
+export function mcpRouter({ game }: McpRouteDeps) {
+    const router = Router();
+
+    /**
+     * MCP 请求入口
+     * POST /mcp/agents/:agentId
+     * Body: JSON-RPC 消息（initialize / tools/list / tools/call ...）
+     */
+    router.post("/agents/:agentId", async (req, res) => {
+        const adapter = game.createMcpAdapter(req.params.agentId);
+        if (!adapter) {
+            return res.status(404).json({
+                jsonrpc: "2.0",
+                error: { code: -32001, message: "Agent not found" },
+                id: null,
+            });
+        }
+
+        try {
+            const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+            res.on("close", () => {
+                transport.close().catch(() => {});
+                adapter.close().catch(() => {});
+            });
+
+            await adapter.connect(transport);
+            await transport.handleRequest(req, res, req.body);
+        } catch (err) {
+            console.error("Failed to handle MCP request", err);
+            if (!res.headersSent) {
+                res.status(500).json({
+                    jsonrpc: "2.0",
+                    error: { code: -32603, message: "Internal server error" },
+                    id: null,
+                });
+            }
+        }
+    });
+
+    /**
+     * 无状态模式不支持 SSE 推送和会话删除
+     * GET / DELETE /mcp/agents/:agentId
+     */
+    const methodNotAllowed = (_req: unknown, res: import("express").Response) => {
+        res.status(405).json({
+            jsonrpc: "2.0",
+            error: { code: -32000, message: "Method not allowed" },
+            id: null,
+        });
+    };
+    router.get("/agents/:agentId", methodNotAllowed);
+    router.delete("/agents/:agentId", methodNotAllowed);
+
+    return router;
+}
@@ -0,0 +1,168 @@
+import { Router } from "express";
+import type Game from "../Game/index.js";
+import type { WebSocketManager } from "../Services/WebSocketManager.js";
+import type { SpawnNpcParams } from "../types/npc.js";
+import { validateSpawnNpc } from "../utils/validation.js";
+import { parseNpcDecision } from "../Game/AgentFactory/Agent/NpcAgent.js";
+
+export type NpcRouteDeps = {
+    game: Game;
+    wsManager: WebSocketManager;
+};
+
+export function npcRouter({ game, wsManager }: NpcRouteDeps) {
+    const router = Router();
+
+    /**
+     * 获取所有 NPC
+     * GET /api/npcs
+     */
+    router.get("/", (_req, res) => {
+        try {
+            const npcs = game.listNpcs();
+            res.json({
+                success: true,
+                count: npcs.length,
+                npcs,
+            });
+        } catch (err) {
+            console.error("Failed to list NPCs", err);
+            res.status(500).json({
+                success: false,
+                message: "Failed to retrieve NPC list",
+            });
+        }
+    });
+
+    /**
+     * 生成 NPC
+     * POST /api/npcs
+     * Body: { name, spawnPosition?, persona?, provider?: 'scripted' | 'openai', script?: NpcDecision[], thinkIntervalMs? }
+     */
+    router.post("/", (req, res) => {
+        try {
+            const validation = validateSpawnNpc(req.body);
+            if (!validation.valid) {
+                return res.status(400).json({
+                    success: false,
+                    message: validation.error,
+                });
+            }
+
+            const params: SpawnNpcParams = req.body;
+
+            // 脚本中的每一条决策都必须合法
+            if (params.script) {
+                const script = params.script.map(decision => parseNpcDecision(JSON.stringify(decision)));
+                if (script.some(decision => decision === null)) {
+                    return res.status(400).json({
+                        success: false,
+                        message: "script contains an invalid decision",
+                    });
+                }
+            }
+
+            const npc = game.spawnNpc(params);
+            wsManager.broadcastPlayerJoin(npc, game.getWorldId());
+
+            res.status(201).json({
+                success: true,
+                message: `NPC "${npc.name}" spawned successfully`,
+                npc,
+            });
+        } catch (err: any) {
+            console.error("Failed to spawn NPC", err);
+            res.status(400).json({
+                success: false,
+                message: err.message || "Failed to spawn NPC",
+            });
+        }
+    });
+
+    /**
+     * 暂停 NPC
+     * POST /api/npcs/:npcId/pause
+     */
+    router.post("/:npcId/pause", (req, res) => {
+        try {
+            const npc = game.pauseNpc(req.params.npcId);
+            if (!npc) {
+                return res.status(404).json({
+                    success: false,
+                    message: "NPC not found",
+                });
+            }
+
+            res.json({
+                success: true,
+                message: "NPC paused",
+                npc,
+            });
+        } catch (err) {
+            console.error("Failed to pause NPC", err);
+            res.status(500).json({
+                success: false,
+                message: "Failed to pause NPC",
+            });
+        }
+    });
+
+    /**
+     * 恢复 NPC
+     * POST /api/npcs/:npcId/resume
+     */
+    router.post("/:npcId/resume", (req, res) => {
+        try {
+            const npc = game.resumeNpc(req.params.npcId);
+            if (!npc) {
+                return res.status(404).json({
+                    success: false,
+                    message: "NPC not found",
+                });
+            }
+
+            res.json({
+                success: true,
+                message: "NPC resumed",
+                npc,
+            });
+        } catch (err) {
+            console.error("Failed to resume NPC", err);
+            res.status(500).json({
+                success: false,
+                message: "Failed to resume NPC",
+            });
+        }
+    });
+
+    /**
+     * 移除 NPC
+     * DELETE /api/npcs/:npcId
+     */
+    router.delete("/:npcId", (req, res) => {
+        try {
+            const { npcId } = req.params;
+            if (!game.despawnNpc(npcId)) {
+                return res.status(404).json({
+                    success: false,
+                    message: "NPC not found",
+                });
+            }
+
+            wsManager.broadcastPlayerLeave(npcId, game.getWorldId());
+
+            res.json({
+                success: true,
+                message: "NPC despawned",
+            });
+        } catch (err) {
+            console.error("Failed to despawn NPC", err);
+            res.status(500).json({
+                success: false,
+                message: "Failed to despawn NPC",
+            });
+        }
+    });
+
+    return router;
+}
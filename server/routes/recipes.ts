@@ -0,0 +1,62 @@
+import { Router } from "express";
+import type Game from "../Game/index.js";
+import type { WebSocketManager } from "../Services/WebSocketManager.js";
+
+export type RecipeRouteDeps = {
+    game: Game;
+    wsManager: WebSocketManager;
+};
+
+export function recipeRouter({ game }: RecipeRouteDeps) {
+    const router = Router();
+
+    /**
+     * 获取所有配方（客户端用来渲染合成界面）
+     * GET /api/recipes
+     */
+    router.get("/", (_req, res) => {
+        try {
+            const recipes = game.listRecipes();
+            res.json({
+                success: true,
+                count: recipes.length,
+                recipes,
+            });
+        } catch (err) {
+            console.error("Failed to list recipes", err);
+            res.status(500).json({
+                success: false,
+                message: "Failed to retrieve recipe list",
+            });
+        }
+    });
+
+    /**
+     * 获取单个配方
+     * GET /api/recipes/:recipeId
+     */
+    router.get("/:recipeId", (req, res) => {
+        try {
+            const recipe = game.listRecipes().find(r => r.id === req.params.recipeId);
+            if (!recipe) {
+                return res.status(404).json({
+                    success: false,
+                    message: "Recipe not found",
+                });
+            }
+
+            res.json({
+                success: true,
+                recipe,
+            });
+        } catch (err) {
+            console.error("Failed to get recipe", err);
+            res.status(500).json({
+                success: false,
+                message: "Failed to retrieve recipe",
+            });
+        }
+    });
+
+    return router;
+}
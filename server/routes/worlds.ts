@@ -0,0 +1,283 @@
+import { Router } from "express";
+import type Game from "../Game/index.js";
+import type WorldRegistry from "../Game/WorldRegistry.js";
+import type { WebSocketManager } from "../Services/WebSocketManager.js";
+import type { GameWorldOptions } from "../types/game.js";
+import { validateCreateWorld, validateWorldId } from "../utils/validation.js";
+import { parseSeed } from "../Game/Random/RandomService.js";
+import { gameRouter } from "./game.js";
+import { agentRouter } from "./agent.js";
+import { npcRouter } from "./npc.js";
+import { combatRouter } from "./combat.js";
+import { recipeRouter } from "./recipes.js";
+import { adminRouter } from "./admin.js";
+import { mcpRouter } from "./mcp.js";
+
+export type WorldsRouteDeps = {
+    worlds: WorldRegistry;
+    wsManager: WebSocketManager;
+};
+
+/**
+ * 从请求体中取出新世界的选项（请求体已通过 validateCreateWorld）
+ */
+function toWorldOptions(body: any): GameWorldOptions {
+    const seed = typeof body.seed === "string" ? parseSeed(body.seed) : body.seed;
+    return {
+        ...(seed !== undefined && { seed }),
+        ...(body.terrain && { terrain: body.terrain }),
+        ...(body.width !== undefined && { width: body.width }),
+        ...(body.height !== undefined && { height: body.height }),
+        ...(body.chunkSize !== undefined && { chunkSize: body.chunkSize }),
+    };
+}
+
+/**
+ * 单个世界的路由：与旧的 /api/* 路由相同，只是绑定到指定的世界
+ */
+function worldScopedRouter(game: Game, wsManager: WebSocketManager) {
+    const deps = { game, wsManager };
+    const router = Router();
+
+    router.use("/game", gameRouter(deps));
+    router.use("/players", agentRouter(deps));
+    router.use("/npcs", npcRouter(deps));
+    router.use("/combat", combatRouter(deps));
+    router.use("/recipes", recipeRouter(deps));
+    router.use("/admin", adminRouter(deps));
+    router.use("/mcp", mcpRouter(deps));
+
+    return router;
+}
+
+/**
+ * 世界管理 API：一个服务器进程同时运行多个世界
+ * - 创建、加载、卸载、列出世界
+ * - 玩家带着背包跨世界传送
+ * - /api/worlds/:worldId/* 把请求交给该世界的路由（世界必须已加载）
+ */
+export function worldsRouter({ worlds, wsManager }: WorldsRouteDeps) {
+    const router = Router();
+
+    // 每个已加载世界的路由（世界卸载后丢弃，重新加载时绑定新的 Game 实例）
+    const worldRouters = new Map<string, ReturnType<typeof worldScopedRouter>>();
+    worlds.onWorldUnload(worldId => worldRouters.delete(worldId));
+
+    /**
+     * 世界列表：已加载的世界概要 + 有存档但未加载的世界
+     * GET /api/worlds
+     */
+    router.get("/", async (_req, res) => {
+        try {
+            const loaded = worlds.list();
+            res.json({
+                success: true,
+                defaultWorldId: worlds.getDefaultWorldId(),
+                count: loaded.length,
+                worlds: loaded,
+                unloaded: await worlds.listUnloaded(),
+            });
+        } catch (err) {
+            console.error("Failed to list worlds", err);
+            res.status(500).json({
+                success: false,
+                message: "Failed to retrieve world list",
+            });
+        }
+    });
+
+    /**
+     * 创建并加载新世界
+     * POST /api/worlds
+     * Body: { worldId, seed?, terrain?: { name, params? }, width?, height?, chunkSize? }
+     */
+    router.post("/", async (req, res) => {
+        try {
+            const validation = validateCreateWorld(req.body);
+            if (!validation.valid) {
+                return res.status(400).json({
+                    success: false,
+                    message: validation.error,
+                });
+            }
+
+            const game = await worlds.create(req.body.worldId, toWorldOptions(req.body));
+
+            res.status(201).json({
+                success: true,
+                message: `World "${game.getWorldId()}" created`,
+                world: game.getSummary(),
+            });
+        } catch (err: any) {
+            console.error("Failed to create world", err);
+            res.status(400).json({
+                success: false,
+                message: err.message || "Failed to create world",
+            });
+        }
+    });
+
+    /**
+     * 单个已加载世界的概要
+     * GET /api/worlds/:worldId
+     */
+    router.get("/:worldId", (req, res) => {
+        const game = worlds.get(req.params.worldId);
+        if (!game) {
+            return res.status(404).json({
+                success: false,
+                message: `World "${req.params.worldId}" is not loaded`,
+            });
+        }
+
+        res.json({
+            success: true,
+            world: game.getSummary(),
+        });
+    });
+
+    /**
+     * 加载世界（没有存档时按请求体创建新世界）
+     * POST /api/worlds/:worldId/load
+     * Body: { seed?, terrain?, width?, height?, chunkSize? }（只对新世界生效）
+     */
+    router.post("/:worldId/load", async (req, res) => {
+        try {
+            const body = { ...req.body, worldId: req.params.worldId };
+            const validation = validateCreateWorld(body);
+            if (!validation.valid) {
+                return res.status(400).json({
+                    success: false,
+                    message: validation.error,
+                });
+            }
+
+            const alreadyLoaded = worlds.has(body.worldId);
+            const game = await worlds.load(body.worldId, toWorldOptions(body));
+
+            res.json({
+                success: true,
+                message: alreadyLoaded ? `World "${body.worldId}" is already loaded` : `World "${body.worldId}" loaded`,
+                world: game.getSummary(),
+            });
+        } catch (err) {
+            console.error("Failed to load world", err);
+            res.status(500).json({
+                success: false,
+                message: "Failed to load world",
+            });
+        }
+    });
+
+    /**
+     * 卸载世界（先保存；默认世界不能卸载）
+     * POST /api/worlds/:worldId/unload
+     */
+    router.post("/:worldId/unload", async (req, res) => {
+        try {
+            const { worldId } = req.params;
+            if (worldId === worlds.getDefaultWorldId()) {
+                return res.status(400).json({
+                    success: false,
+                    message: "The default world cannot be unloaded",
+                });
+            }
+
+            if (!await worlds.unload(worldId)) {
+                return res.status(404).json({
+                    success: false,
+                    message: `World "${worldId}" is not loaded`,
+                });
+            }
+
+            res.json({
+                success: true,
+                message: `World "${worldId}" unloaded`,
+            });
+        } catch (err) {
+            console.error("Failed to unload world", err);
+            res.status(500).json({
+                success: false,
+                message: "Failed to unload world",
+            });
+        }
+    });
+
+    /**
+     * 玩家传送到另一个世界（出现在目标世界的出生点，背包、属性和记忆保持不变）
+     * POST /api/worlds/:worldId/players/:playerId/transfer
+     * Body: { targetWorldId }
+     */
+    router.post("/:worldId/players/:playerId/transfer", async (req, res) => {
+        try {
+            const { worldId, playerId } = req.params;
+            const targetWorldId = req.body?.targetWorldId;
+
+            const validation = validateWorldId(targetWorldId);
+            if (!validation.valid) {
+                return res.status(400).json({
+                    success: false,
+                    message: validation.error,
+                });
+            }
+
+            const source = worlds.get(worldId);
+            if (!source) {
+                return res.status(404).json({
+                    success: false,
+                    message: `World "${worldId}" is not loaded`,
+                });
+            }
+            if (!worlds.has(targetWorldId)) {
+                return res.status(404).json({
+                    success: false,
+                    message: `World "${targetWorldId}" is not loaded`,
+                });
+            }
+            if (!source.getPlayerAgent(playerId)) {
+                return res.status(404).json({
+                    success: false,
+                    message: "Player not found",
+                });
+            }
+
+            const player = await worlds.transferPlayer(playerId, worldId, targetWorldId);
+
+            res.json({
+                success: true,
+                message: `${player.name} transferred to world "${targetWorldId}"`,
+                worldId: targetWorldId,
+                player,
+            });
+        } catch (err: any) {
+            console.error("Failed to transfer player", err);
+            res.status(400).json({
+                success: false,
+                message: err.message || "Failed to transfer player",
+            });
+        }
+    });
+
+    /**
+     * 世界内的 API：/api/worlds/:worldId/game、/players、/npcs、/combat、/recipes、/admin、/mcp
+     */
+    router.use("/:worldId", (req, res, next) => {
+        const { worldId } = req.params;
+        const game = worlds.get(worldId);
+        if (!game) {
+            return res.status(404).json({
+                success: false,
+                message: `World "${worldId}" is not loaded`,
+            });
+        }
+
+        let worldRouter = worldRouters.get(worldId);
+        if (!worldRouter) {
+            worldRouter = worldScopedRouter(game, wsManager);
+            worldRouters.set(worldId, worldRouter);
+        }
+        worldRouter(req, res, next);
+    });
+
+    return router;
+}
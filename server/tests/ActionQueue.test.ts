@@ -0,0 +1,65 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ActionPriority, ActionType, AgentActionQueue, type AgentAction } from "../Game/AgentFactory/ActionQueue.js";
+
+function action(id: string, execute: AgentAction["execute"], priority = ActionPriority.NORMAL): AgentAction {
+    return { id, agentId: "steve", type: ActionType.MOVE, priority, timestamp: Date.now(), cancellable: priority !== ActionPriority.CRITICAL, execute };
+}
+
+/**
+ * 手动放行的闸门（模拟执行函数里的 await，例如加载区块）
+ */
+function gate() {
+    let open!: () => void;
+    const opened = new Promise<void>(resolve => { open = resolve; });
+    return { opened, open };
+}
+
+describe("AgentActionQueue", () => {
+    it("waits for a preempted action to return before running the next one", async () => {
+        const queue = new AgentActionQueue();
+        const events: string[] = [];
+        const loading = gate();
+
+        const move = queue.submit(action("move", async signal => {
+            events.push("move:start");
+            await loading.opened;
+            events.push(signal.aborted ? "move:aborted" : "move:applied");
+            return { success: true };
+        }));
+        const teleport = queue.submit(action("teleport", async () => {
+            events.push("teleport");
+            return { success: true };
+        }, ActionPriority.CRITICAL));
+
+        // 抢占后传送仍要等被抢占的移动退出
+        await Promise.race([teleport, new Promise(resolve => setTimeout(resolve, 20))]);
+        assert.deepEqual(events, ["move:start"]);
+
+        loading.open();
+        const [moveResult, teleportResult] = await Promise.all([move, teleport]);
+        assert.deepEqual(events, ["move:start", "move:aborted", "teleport"]);
+        assert.equal(moveResult.success, false);
+        assert.equal(moveResult.cancelled, true);
+        assert.equal(teleportResult.success, true);
+    });
+
+    it("cancels a running action through its signal", async () => {
+        const queue = new AgentActionQueue();
+        const loading = gate();
+        let sawAbort = false;
+
+        const move = queue.submit(action("move", async signal => {
+            await loading.opened;
+            sawAbort = signal.aborted;
+            return { success: true };
+        }));
+
+        assert.equal(queue.cancel("steve", "move"), true);
+        loading.open();
+        const result = await move;
+        assert.equal(result.success, false);
+        assert.equal(sawAbort, true);
+        assert.deepEqual(queue.listActions("steve"), []);
+    });
+});
@@ -0,0 +1,188 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import ChunkManager, { sliceChunk } from "../Game/World/ChunkManager.js";
+import WorldManager from "../Game/World/WorldManager.js";
+import MovementValidator from "../Game/World/MovementValidator.js";
+import { createWalledMap, registerTerrainGenerator } from "../Game/World/TerrainGenerators.js";
+import type { ChunkCoord, ChunkData, Tile } from "../types/terrain.js";
+
+function grassChunk(coord: ChunkCoord, size: number): ChunkData {
+    return {
+        ...coord,
+        size,
+        version: 3,
+        tiles: Array.from({ length: size }, () => Array.from({ length: size }, (): Tile => ({ type: "GRASS" }))),
+    };
+}
+
+describe("ChunkManager", () => {
+    it("maps tiles and rectangles to chunks, clipped to the map", () => {
+        const chunks = new ChunkManager(20, 10, 8);
+        assert.deepEqual(chunks.getChunkCounts(), { columns: 3, rows: 2 });
+        assert.deepEqual(chunks.chunkOf({ x: 17, y: 9 }), { cx: 2, cy: 1 });
+        assert.equal(chunks.isValidChunk({ cx: 3, cy: 0 }), false);
+        assert.deepEqual(chunks.chunksAround({ x: 0, y: 0 }, 1), [
+            { cx: 0, cy: 0 }, { cx: 1, cy: 0 },
+            { cx: 0, cy: 1 }, { cx: 1, cy: 1 },
+        ]);
+    });
+
+    it("loads a chunk from the loader once for concurrent requests", async () => {
+        const chunks = new ChunkManager(16, 16, 8);
+        let reads = 0;
+        chunks.setLoader(async coord => {
+            reads++;
+            return grassChunk(coord, 8);
+        });
+
+        const [first, second] = await Promise.all([chunks.load({ cx: 1, cy: 0 }), chunks.load({ cx: 1, cy: 0 })]);
+        assert.equal(reads, 1);
+        assert.equal(first?.version, 3);
+        assert.deepEqual(second, first);
+        assert.equal(chunks.getTile({ x: 9, y: 0 })?.type, "GRASS");
+        assert.equal(chunks.getTile({ x: 0, y: 0 }), undefined);
+        assert.equal(chunks.hasDirtyChunks(), false);
+    });
+
+    it("generates missing chunks from the fallback and marks them dirty", async () => {
+        const chunks = new ChunkManager(16, 16, 8);
+        chunks.setLoader(async () => null);
+
+        assert.equal(await chunks.load({ cx: 0, cy: 0 }), null);
+        const chunk = await chunks.load({ cx: 0, cy: 0 }, coord => grassChunk(coord, 8).tiles);
+        assert.equal(chunk?.version, 0);
+        assert.equal(chunks.hasDirtyChunks(), true);
+    });
+
+    it("drops loads that finish after a reset", async () => {
+        const chunks = new ChunkManager(16, 16, 8);
+        let release!: () => void;
+        chunks.setLoader(coord => new Promise(resolve => {
+            release = () => resolve(grassChunk(coord, 8));
+        }));
+
+        const pending = chunks.load({ cx: 0, cy: 0 });
+        chunks.reset(16, 16, 8);
+        release();
+
+        assert.equal(await pending, null);
+        assert.equal(chunks.getLoadedCount(), 0);
+    });
+
+    it("bumps the chunk version on writes and hands dirty chunks to the saver", () => {
+        const chunks = new ChunkManager(16, 16, 8);
+        chunks.put(grassChunk({ cx: 0, cy: 0 }, 8), false);
+
+        assert.equal(chunks.setTile({ x: 1, y: 1 }, { type: "DIRT" }), 4);
+        assert.equal(chunks.setTile({ x: 9, y: 1 }, { type: "DIRT" }), null);
+
+        const dirty = chunks.takeDirtyChunks();
+        assert.equal(dirty.length, 1);
+        assert.equal(dirty[0]?.tiles[1]?.[1]?.type, "DIRT");
+        assert.equal(chunks.hasDirtyChunks(), false);
+
+        chunks.restoreDirtyChunks(dirty);
+        assert.equal(chunks.hasDirtyChunks(), true);
+    });
+
+    it("evicts idle chunks but keeps active and unsaved ones", () => {
+        const chunks = new ChunkManager(24, 8, 8);
+        chunks.put(grassChunk({ cx: 0, cy: 0 }, 8), false);
+        chunks.put(grassChunk({ cx: 1, cy: 0 }, 8), false);
+        chunks.put(grassChunk({ cx: 2, cy: 0 }, 8), true);
+
+        const now = Date.now() + 60_000;
+        const evicted = chunks.evictIdle([{ cx: 0, cy: 0 }], 30_000, now);
+        assert.deepEqual(evicted, [{ cx: 1, cy: 0 }]);
+        assert.equal(chunks.isLoaded({ cx: 0, cy: 0 }), true);
+        assert.equal(chunks.isLoaded({ cx: 2, cy: 0 }), true);
+    });
+
+    it("slices edge chunks smaller than the chunk size", () => {
+        const tiles = createWalledMap(10, 10, () => ({ type: "GRASS" }));
+        const edge = sliceChunk(tiles, { cx: 1, cy: 1 }, 8);
+        assert.equal(edge.length, 2);
+        assert.equal(edge[0]?.length, 2);
+    });
+});
+
+describe("WorldManager chunks", () => {
+    let generated = 0;
+    registerTerrainGenerator({
+        name: "test-counting",
+        description: "全是草地，记录生成次数",
+        params: [],
+        generate({ width, height }) {
+            generated++;
+            return createWalledMap(width, height, () => ({ type: "GRASS" }));
+        },
+    });
+
+    it("does not generate terrain until a new world asks for it", () => {
+        generated = 0;
+        const world = new WorldManager("test-world", 32, 32, 1, {}, { name: "test-counting" }, 8);
+        assert.equal(generated, 0);
+        assert.equal(world.getLoadedChunkCount(), 0);
+
+        world.generateTerrain();
+        assert.equal(generated, 1);
+        assert.equal(world.getLoadedChunkCount(), 16);
+        assert.equal(world.takeDirtyChunks().length, 16);
+    });
+
+    it("generates the base map at most once for chunks missing from a save", async () => {
+        generated = 0;
+        const world = new WorldManager("test-world", 32, 32, 1, {}, { name: "test-counting" }, 8);
+        world.setChunkLoader(async () => null);
+        world.restoreTerrain({
+            width: 32,
+            height: 32,
+            seed: 1,
+            prng: "mulberry32",
+            generator: { name: "test-counting" },
+            storage: "chunks",
+            chunkSize: 8,
+            deltas: [],
+        });
+        assert.equal(world.getLoadedChunkCount(), 0);
+
+        await world.loadChunks([{ cx: 0, cy: 0 }, { cx: 1, cy: 0 }]);
+        await world.loadChunks([{ cx: 3, cy: 3 }]);
+        assert.equal(generated, 1);
+        assert.equal(world.getLoadedChunkCount(), 3);
+    });
+
+    it("lists the chunks a straight move passes through", () => {
+        const world = new WorldManager("test-world", 32, 32, 1, {}, { name: "test-counting" }, 8);
+        assert.deepEqual(world.chunksAlong({ x: 2.5, y: 2.5 }, { x: 20.5, y: 2.5 }), [
+            { cx: 0, cy: 0 }, { cx: 1, cy: 0 }, { cx: 2, cy: 0 },
+        ]);
+        // 走出地图的部分不加载
+        assert.deepEqual(world.chunksAlong({ x: 30, y: 30 }, { x: 1e9, y: 30 }), [{ cx: 3, cy: 3 }]);
+        assert.deepEqual(world.chunksAlong({ x: 1, y: 1 }, { x: Number.NaN, y: 1 }), []);
+    });
+
+    it("lets moves through once the chunks on the path are loaded", async () => {
+        const world = new WorldManager("test-world", 32, 32, 1, {}, { name: "test-counting" }, 8);
+        world.setChunkLoader(async () => null);
+        world.restoreTerrain({
+            width: 32,
+            height: 32,
+            seed: 1,
+            prng: "mulberry32",
+            generator: { name: "test-counting" },
+            storage: "chunks",
+            chunkSize: 8,
+            deltas: [],
+        });
+        await world.loadChunks([{ cx: 0, cy: 0 }]);
+
+        const validator = new MovementValidator(world);
+        const from = { x: 4, y: 64, z: 4 };
+        const to = { x: 12, y: 64, z: 4 };
+        assert.equal(validator.validateMove(from, to).rejection?.tileType, "VOID");
+
+        await world.loadChunks(world.chunksAlong({ x: from.x, y: from.z }, { x: to.x, y: to.z }));
+        assert.equal(validator.validateMove(from, to).allowed, true);
+    });
+});
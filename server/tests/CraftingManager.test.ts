@@ -0,0 +1,96 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import AgentManager from "../Game/AgentFactory/AgentManager.js";
+import WorldManager from "../Game/World/WorldManager.js";
+import CraftingManager from "../Game/Crafting/CraftingManager.js";
+
+/**
+ * 20x20 的草地（classic 地图全部覆盖为草地），(10, 10) 处有一张工作台，玩家站在 (2, 2)
+ */
+function createCrafting() {
+    const world = new WorldManager("test-world", 20, 20, 1, {}, { name: "classic" }, 10);
+    world.generateTerrain();
+    for (let y = 0; y < 20; y++) {
+        for (let x = 0; x < 20; x++) {
+            world.setTile({ x, y }, { type: x === 10 && y === 10 ? "WORKBENCH" : "GRASS" });
+        }
+    }
+
+    const agents = new AgentManager();
+    const { id } = agents.createPlayer({ name: "Steve", spawnPosition: { x: 2, y: 64, z: 2 } });
+    const player = agents.getPlayer(id)!;
+    return { crafting: new CraftingManager(agents, world), player, playerId: id };
+}
+
+describe("CraftingManager", () => {
+    it("crafts instantly when the recipe takes no time", async () => {
+        const { crafting, player, playerId } = createCrafting();
+        player.addItem("wheat", 3);
+
+        const result = await crafting.craft({ playerId, recipeId: "wheat_seeds", quantity: 2 });
+        assert.equal(result.success, true);
+        assert.equal(player.countItem("wheat"), 1);
+        assert.equal(player.countItem("wheat_seeds"), 4);
+    });
+
+    it("waits for world ticks before settling", async () => {
+        const { crafting, player, playerId } = createCrafting();
+        player.addItem("wood", 4);
+
+        const pending = crafting.craft({ playerId, recipeId: "workbench" });
+        const waiting = new Promise(resolve => setTimeout(resolve, 20, "waiting"));
+
+        crafting.advance(1);
+        assert.equal(await Promise.race([pending, waiting]), "waiting");
+        assert.equal(player.countItem("wood"), 4);
+
+        crafting.advance(1);
+        assert.equal((await pending).success, true);
+        assert.equal(player.countItem("wood"), 0);
+        assert.equal(player.countItem("workbench"), 1);
+    });
+
+    it("keeps the materials when a craft is cancelled", async () => {
+        const { crafting, player, playerId } = createCrafting();
+        player.addItem("wood", 4);
+
+        const controller = new AbortController();
+        const pending = crafting.craft({ playerId, recipeId: "workbench", signal: controller.signal });
+        controller.abort("test");
+
+        const result = await pending;
+        assert.equal(result.success, false);
+        assert.equal(result.code, "cancelled");
+        assert.equal(player.countItem("wood"), 4);
+    });
+
+    it("reports missing materials without touching the inventory", async () => {
+        const { crafting, player, playerId } = createCrafting();
+        player.addItem("wood", 1);
+
+        const result = await crafting.craft({ playerId, recipeId: "workbench" });
+        assert.equal(result.code, "missing_items");
+        assert.deepEqual(result.missing, [{ itemId: "wood", quantity: 3 }]);
+        assert.equal(player.countItem("wood"), 1);
+    });
+
+    it("requires a workstation nearby", async () => {
+        const { crafting, player, playerId } = createCrafting();
+        player.addItem("wood", 3);
+
+        assert.equal((await crafting.craft({ playerId, recipeId: "wooden_sword" })).code, "no_workstation");
+
+        player.teleport(8, 64, 9);
+        const pending = crafting.craft({ playerId, recipeId: "wooden_sword" });
+        crafting.advance(3);
+        assert.equal((await pending).success, true);
+        assert.equal(player.countItem("wooden_sword"), 1);
+    });
+
+    it("rejects unknown recipes and invalid quantities", async () => {
+        const { crafting, playerId } = createCrafting();
+        assert.equal((await crafting.craft({ playerId, recipeId: "diamond_block" })).code, "unknown_recipe");
+        assert.equal((await crafting.craft({ playerId, recipeId: "workbench", quantity: 0 })).code, "invalid_quantity");
+        assert.equal((await crafting.craft({ playerId: "nobody", recipeId: "workbench" })).code, "player_not_found");
+    });
+});
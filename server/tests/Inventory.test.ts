@@ -0,0 +1,119 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { StackInventoryManager } from "../Game/AgentFactory/Inventory/index.js";
+
+describe("StackInventoryManager", () => {
+    it("fills existing stacks before opening new slots", () => {
+        const inventory = new StackInventoryManager(4);
+        assert.equal(inventory.add("wood", 60), 60);
+        assert.equal(inventory.add("wood", 10), 10);
+
+        assert.deepEqual(inventory.toSnapshot().slots, [
+            { itemId: "wood", quantity: 64 },
+            { itemId: "wood", quantity: 6 },
+        ]);
+        assert.equal(inventory.count("wood"), 70);
+    });
+
+    it("adds as much as fits when the inventory is full", () => {
+        const inventory = new StackInventoryManager(2);
+        inventory.add("stone", 64);
+
+        assert.equal(inventory.spaceFor("wood"), 64);
+        assert.equal(inventory.add("wood", 100), 64);
+        assert.equal(inventory.add("wheat", 1), 0);
+        assert.equal(inventory.spaceFor("wood"), 0);
+    });
+
+    it("keeps single-stack items in their own slots", () => {
+        const inventory = new StackInventoryManager(3);
+        assert.equal(inventory.add("wooden_axe", 5), 3);
+        assert.equal(inventory.toSnapshot().slots.length, 3);
+    });
+
+    it("takes all or nothing and frees emptied slots", () => {
+        const inventory = new StackInventoryManager(4);
+        inventory.add("wood", 70);
+
+        assert.equal(inventory.take("wood", 71), false);
+        assert.equal(inventory.count("wood"), 70);
+
+        assert.equal(inventory.take("wood", 10), true);
+        assert.deepEqual(inventory.toSnapshot().slots, [{ itemId: "wood", quantity: 60 }]);
+        assert.equal(inventory.take("wood", 60), true);
+        assert.deepEqual(inventory.toSnapshot().slots, []);
+    });
+
+    it("wears the most worn tool first and removes it when it breaks", () => {
+        const inventory = new StackInventoryManager(4);
+        inventory.loadSnapshot({
+            capacity: 4,
+            slots: [
+                { itemId: "stone_axe", quantity: 1, durability: 10 },
+                { itemId: "stone_axe", quantity: 1, durability: 1 },
+            ],
+        });
+
+        assert.deepEqual(inventory.wear("stone_axe", 20), { durability: 0, broken: true });
+        assert.deepEqual(inventory.toSnapshot().slots, [{ itemId: "stone_axe", quantity: 1, durability: 10 }]);
+        assert.deepEqual(inventory.wear("stone_axe", 20, 3), { durability: 7, broken: false });
+        assert.equal(inventory.wear("wooden_hoe", 20), null);
+    });
+
+    it("takes the most worn tool first, then empties later slots", () => {
+        const inventory = new StackInventoryManager(4);
+        inventory.loadSnapshot({
+            capacity: 4,
+            slots: [
+                { itemId: "stone_axe", quantity: 1, durability: 3 },
+                { itemId: "stone_axe", quantity: 1 },
+                { itemId: "stone_axe", quantity: 1, durability: 12 },
+            ],
+        });
+
+        assert.deepEqual(inventory.takeSlots("stone_axe", 2), [
+            { itemId: "stone_axe", quantity: 1, durability: 3 },
+            { itemId: "stone_axe", quantity: 1, durability: 12 },
+        ]);
+        assert.deepEqual(inventory.toSnapshot().slots, [{ itemId: "stone_axe", quantity: 1 }]);
+        assert.equal(inventory.takeSlots("stone_axe", 2), null);
+    });
+
+    it("keeps durability when moving tool slots between inventories", () => {
+        const from = new StackInventoryManager(4);
+        const to = new StackInventoryManager(1);
+        from.loadSnapshot({ capacity: 4, slots: [{ itemId: "stone_axe", quantity: 1, durability: 5 }, { itemId: "wood", quantity: 10 }] });
+
+        assert.equal(to.addSlots(from.takeSlots("stone_axe", 1)!), 1);
+        assert.deepEqual(to.toSnapshot().slots, [{ itemId: "stone_axe", quantity: 1, durability: 5 }]);
+        assert.equal(to.addSlots(from.takeSlots("wood", 10)!), 0);
+    });
+
+    it("drops invalid and overflowing slots when loading a snapshot", () => {
+        const inventory = new StackInventoryManager(2);
+        inventory.loadSnapshot({
+            capacity: 2,
+            slots: [
+                { itemId: "wood", quantity: 0 },
+                { itemId: "stone", quantity: 100 },
+                { itemId: "wooden_sword", quantity: 1, durability: -3 },
+                { itemId: "wheat", quantity: 5 },
+            ],
+        });
+
+        assert.deepEqual(inventory.toSnapshot().slots, [
+            { itemId: "stone", quantity: 64 },
+            { itemId: "wooden_sword", quantity: 1 },
+        ]);
+    });
+
+    it("sets item totals through the summary interface", () => {
+        const inventory = new StackInventoryManager(4);
+        inventory.add("wood", 10);
+
+        assert.equal(inventory.upsert({ id: "wood", label: "木材", quantity: 3 }).quantity, 3);
+        assert.equal(inventory.remove("wood"), true);
+        assert.equal(inventory.remove("wood"), false);
+        assert.deepEqual(inventory.list(), []);
+    });
+});
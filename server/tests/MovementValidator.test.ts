@@ -0,0 +1,92 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import WorldManager from "../Game/World/WorldManager.js";
+import MovementValidator from "../Game/World/MovementValidator.js";
+import type { TerrainType } from "../types/terrain.js";
+
+/**
+ * 20x20 的草地，默认 (10, 5) 处有一堵墙
+ */
+function createValidator(walls: Array<[number, number]> = [[10, 5]]) {
+    const world = new WorldManager("test-world", 20, 20, 1, {}, { name: "classic" }, 10);
+    world.generateTerrain();
+    for (let y = 0; y < 20; y++) {
+        for (let x = 0; x < 20; x++) {
+            const type: TerrainType = walls.some(([wx, wy]) => wx === x && wy === y) ? "WALL" : "GRASS";
+            world.setTile({ x, y }, { type });
+        }
+    }
+    return new MovementValidator(world);
+}
+
+describe("MovementValidator", () => {
+    it("allows a move onto walkable ground", () => {
+        const check = createValidator().validateMove({ x: 5, y: 64, z: 5 }, { x: 6, y: 64, z: 5 });
+        assert.equal(check.allowed, true);
+        assert.deepEqual(check.position, { x: 6, y: 64, z: 5 });
+    });
+
+    it("rejects moves out of the map", () => {
+        const check = createValidator().validateMove({ x: 0, y: 64, z: 0 }, { x: -1, y: 64, z: 0 });
+        assert.equal(check.allowed, false);
+        assert.equal(check.rejection?.code, "out_of_bounds");
+        assert.deepEqual(check.position, { x: 0, y: 64, z: 0 });
+    });
+
+    it("checks every tile on the path so large moves cannot pass through walls", () => {
+        const check = createValidator().validateMove({ x: 8, y: 64, z: 5 }, { x: 12, y: 64, z: 5 });
+        assert.equal(check.allowed, false);
+        assert.equal(check.rejection?.code, "blocked_tile");
+        assert.equal(check.rejection?.tileType, "WALL");
+    });
+
+    it("stops before the obstacle in clamp mode", () => {
+        const check = createValidator().validateMove({ x: 7, y: 64, z: 5 }, { x: 12, y: 64, z: 5 }, "clamp");
+        assert.equal(check.allowed, true);
+        assert.equal(check.clamped, true);
+        assert.deepEqual(check.position, { x: 9, y: 64, z: 5 });
+    });
+
+    it("checks tiles a slanted path crosses between samples", () => {
+        // (5, 5) -> (8, 7) 在 t = 0.5 时穿过 (6, 6)，按整步采样会漏掉这一格
+        const check = createValidator([[6, 6]]).validateMove({ x: 5, y: 64, z: 5 }, { x: 8, y: 64, z: 7 });
+        assert.equal(check.allowed, false);
+        assert.deepEqual(check.rejection?.tile, { x: 6, y: 6 });
+    });
+
+    it("does not squeeze diagonally between two blocked corners", () => {
+        const from = { x: 5, y: 64, z: 5 };
+        const to = { x: 6, y: 64, z: 6 };
+
+        const squeezed = createValidator([[6, 5], [5, 6]]).validateMove(from, to, "clamp");
+        assert.equal(squeezed.allowed, false);
+        assert.equal(squeezed.rejection?.code, "blocked_tile");
+        assert.deepEqual(squeezed.position, from);
+
+        const open = createValidator([[6, 5]]).validateMove(from, to);
+        assert.equal(open.allowed, true);
+        assert.deepEqual(open.position, to);
+    });
+
+    it("rejects non-finite targets", () => {
+        const validator = createValidator();
+        const from = { x: 5, y: 64, z: 5 };
+
+        for (const to of [{ x: 5, y: 64, z: NaN }, { x: Infinity, y: 64, z: 5 }]) {
+            const move = validator.validateMove(from, to, "clamp");
+            assert.equal(move.allowed, false);
+            assert.equal(move.rejection?.code, "invalid_move");
+            assert.deepEqual(move.position, from);
+
+            const teleport = validator.validateTeleport(from, to);
+            assert.equal(teleport.allowed, false);
+            assert.deepEqual(teleport.position, from);
+        }
+    });
+
+    it("finds the nearest standable tile around a wall", () => {
+        const spawn = createValidator().findNearestStandable({ x: 10, y: 64, z: 5 });
+        assert.ok(spawn);
+        assert.equal(Math.abs(spawn.x - 10) + Math.abs(spawn.z - 5), 1);
+    });
+});
@@ -0,0 +1,48 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import AgentManager from "../Game/AgentFactory/AgentManager.js";
+import WorldManager from "../Game/World/WorldManager.js";
+import MovementValidator from "../Game/World/MovementValidator.js";
+import { PlayerService } from "../Game/Services/PlayerService.js";
+import { PlayerRepository } from "../Game/Repositories/PlayerRepository.js";
+import { MemoryRepository } from "../Game/Repositories/MemoryRepository.js";
+import { getToolDefinition } from "../Game/Items/ToolRegistry.js";
+
+/**
+ * 两个玩家的 PlayerService（背包转移只用到内存中的角色，不会访问数据库）
+ */
+function createService() {
+    const agents = new AgentManager();
+    const world = new WorldManager("test-world", 10, 10, 1);
+    const service = new PlayerService("test-world", agents, new PlayerRepository(), new MovementValidator(world), new MemoryRepository("test-world"));
+    const steve = agents.getPlayer(agents.createPlayer({ name: "Steve" }).id)!;
+    const alex = agents.getPlayer(agents.createPlayer({ name: "Alex" }).id)!;
+    return { service, steve, alex };
+}
+
+describe("PlayerService.transferItem", () => {
+    it("keeps the durability of a worn tool", () => {
+        const { service, steve, alex } = createService();
+        const axe = getToolDefinition("stone_axe")!;
+        steve.addItem("stone_axe", 2);
+        steve.wearTool(axe);
+        steve.wearTool(axe);
+
+        const result = service.transferItem(steve.getId(), alex.getId(), "stone_axe", 1);
+        assert.equal(result.success, true);
+        assert.deepEqual(alex.getInventory().slots, [{ itemId: "stone_axe", quantity: 1, durability: axe.maxDurability - 2 }]);
+        assert.deepEqual(steve.getInventory().slots, [{ itemId: "stone_axe", quantity: 1 }]);
+    });
+
+    it("moves stackable items without touching the sender on failure", () => {
+        const { service, steve, alex } = createService();
+        steve.addItem("wood", 70);
+
+        assert.equal(service.transferItem(steve.getId(), alex.getId(), "wood", 71).code, "insufficient_items");
+        assert.equal(steve.countItem("wood"), 70);
+
+        assert.equal(service.transferItem(steve.getId(), alex.getId(), "wood", 66).success, true);
+        assert.equal(steve.countItem("wood"), 4);
+        assert.deepEqual(alex.getInventory().slots, [{ itemId: "wood", quantity: 64 }, { itemId: "wood", quantity: 2 }]);
+    });
+});
@@ -0,0 +1,81 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import RandomService, { RandomStream, parseSeed } from "../Game/Random/RandomService.js";
+
+function take(stream: RandomStream, count: number): number[] {
+    return Array.from({ length: count }, () => stream.next());
+}
+
+describe("RandomStream", () => {
+    it("repeats the same sequence for the same state", () => {
+        assert.deepEqual(take(new RandomStream(42), 5), take(new RandomStream(42), 5));
+        assert.notDeepEqual(take(new RandomStream(42), 5), take(new RandomStream(43), 5));
+    });
+
+    it("stays within its ranges", () => {
+        const stream = new RandomStream(7);
+        for (let i = 0; i < 1000; i++) {
+            const value = stream.next();
+            assert.ok(value >= 0 && value < 1);
+            const int = stream.nextInt(3, 5);
+            assert.ok(Number.isInteger(int) && int >= 3 && int <= 5);
+        }
+        assert.equal(stream.pick([]), undefined);
+        assert.equal(stream.chance(0), false);
+    });
+
+    it("resumes from a saved state", () => {
+        const stream = new RandomStream(99);
+        take(stream, 3);
+        const state = stream.getState();
+        const expected = take(stream, 3);
+
+        stream.setState(state);
+        assert.deepEqual(take(stream, 3), expected);
+    });
+});
+
+describe("RandomService", () => {
+    it("derives independent streams from the world seed", () => {
+        const a = new RandomService(1234);
+        const b = new RandomService(1234);
+
+        // 多掷几次天气不会改变地形随机流
+        take(a.stream("weather"), 10);
+        assert.deepEqual(take(a.stream("terrain"), 5), take(b.stream("terrain"), 5));
+        assert.notDeepEqual(take(b.stream("loot"), 5), take(b.stream("npc"), 5));
+    });
+
+    it("restores stream states in place from a snapshot", () => {
+        const saved = new RandomService(5);
+        take(saved.stream("loot"), 4);
+        const snapshot = saved.toSnapshot();
+        const expected = take(saved.stream("loot"), 3);
+
+        const restored = new RandomService(1);
+        const loot = restored.stream("loot"); // 恢复之前拿到的引用依然有效
+        assert.equal(restored.restore(snapshot), true);
+        assert.equal(restored.getSeed(), 5);
+        assert.deepEqual(take(loot, 3), expected);
+    });
+
+    it("ignores corrupted snapshots", () => {
+        const service = new RandomService(5);
+        const before = service.toSnapshot();
+
+        assert.equal(service.restore(null), false);
+        assert.equal(service.restore({ seed: "5", streams: {} }), false);
+        assert.equal(service.restore({ seed: 5, streams: { loot: Number.NaN } }), false);
+        assert.deepEqual(service.toSnapshot(), before);
+    });
+});
+
+describe("parseSeed", () => {
+    it("uses integers directly and hashes other text", () => {
+        assert.equal(parseSeed(" 42 "), 42);
+        assert.equal(parseSeed("forest"), parseSeed("forest"));
+        assert.notEqual(parseSeed("forest"), parseSeed("desert"));
+        assert.equal(parseSeed(""), undefined);
+        assert.equal(parseSeed(undefined), undefined);
+    });
+});
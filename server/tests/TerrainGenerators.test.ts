@@ -0,0 +1,112 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+    connectWalkableRegions,
+    createWalledMap,
+    resolveTerrainGenerator,
+} from "../Game/World/TerrainGenerators.js";
+import { DEFAULT_REGROWTH_RULES, defaultQuarries } from "../Game/World/RegrowthRules.js";
+import { RandomStream } from "../Game/Random/RandomService.js";
+import type { TerrainType, Tile } from "../types/terrain.js";
+
+const WALKABLE: ReadonlySet<TerrainType> = new Set<TerrainType>(["GRASS", "DIRT", "SAND", "STONE", "FARMLAND"]);
+const isWalkable = (type: TerrainType) => WALKABLE.has(type);
+
+function generate(name: string, width: number, height: number, seed: number, params: Record<string, number> = {}): Tile[][] {
+    const resolved = resolveTerrainGenerator({ name, params });
+    const stream = new RandomStream(seed);
+    return resolved.generator.generate({
+        width,
+        height,
+        random: () => stream.next(),
+        params: resolved.params,
+        regrowth: { ...DEFAULT_REGROWTH_RULES, quarries: defaultQuarries(width, height) },
+        isWalkable,
+    });
+}
+
+/**
+ * 可行走区域的数量（四连通）
+ */
+function countWalkableRegions(tiles: Tile[][]): number {
+    const height = tiles.length;
+    const width = tiles[0]?.length ?? 0;
+    const seen = new Uint8Array(width * height);
+    let regions = 0;
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (seen[y * width + x] || !isWalkable(tiles[y]![x]!.type)) continue;
+            regions++;
+            const stack = [[x, y] as const];
+            seen[y * width + x] = 1;
+            while (stack.length > 0) {
+                const [cx, cy] = stack.pop()!;
+                for (const [nx, ny] of [[cx - 1, cy], [cx + 1, cy], [cx, cy - 1], [cx, cy + 1]] as const) {
+                    const tile = tiles[ny]?.[nx];
+                    if (!tile || seen[ny * width + nx] || !isWalkable(tile.type)) continue;
+                    seen[ny * width + nx] = 1;
+                    stack.push([nx, ny]);
+                }
+            }
+        }
+    }
+
+    return regions;
+}
+
+describe("TerrainGenerators", () => {
+    it("generates the same map for the same seed", () => {
+        assert.deepEqual(generate("noise", 48, 48, 42), generate("noise", 48, 48, 42));
+        assert.deepEqual(generate("classic", 48, 48, 42), generate("classic", 48, 48, 42));
+        assert.notDeepEqual(generate("noise", 48, 48, 42), generate("noise", 48, 48, 43));
+    });
+
+    it("keeps the noise map walled and fully connected", () => {
+        for (const seed of [1, 7, 1234]) {
+            const tiles = generate("noise", 64, 48, seed, { waterLevel: 0.45, treeDensity: 0.8 });
+            assert.equal(tiles.length, 48);
+            assert.equal(tiles[0]!.length, 64);
+            assert.ok(tiles[0]!.every(tile => tile.type === "WALL"));
+            assert.ok(tiles.every(row => row[0]!.type === "WALL" && row[63]!.type === "WALL"));
+            assert.equal(countWalkableRegions(tiles), 1, `seed ${seed}`);
+        }
+    });
+
+    it("connects isolated regions through the cheapest obstacles", () => {
+        // 中间一列水把地图分成左右两半，右半边再被岩石隔出一个小房间
+        const tiles = createWalledMap(12, 7, (x, y) => {
+            if (x === 5) return { type: "WATER" };
+            if (x === 9 && y > 0) return { type: "ROCK" };
+            return { type: "GRASS" };
+        });
+        assert.equal(countWalkableRegions(tiles), 3);
+
+        const carved = connectWalkableRegions(tiles, isWalkable);
+        assert.equal(carved, 2);
+        assert.equal(countWalkableRegions(tiles), 1);
+        assert.ok(tiles.some(row => row[5]!.type === "SAND"));
+        assert.ok(tiles.some(row => row[9]!.type === "STONE"));
+    });
+
+    it("never carves through the border wall or buildings", () => {
+        // 右边的小区域被工作台和边界墙围住，没有路可以打通
+        const tiles = createWalledMap(8, 5, (x, y) => {
+            if (x === 5) return { type: "WORKBENCH" };
+            return { type: y === 2 && x === 6 ? "GRASS" : x > 5 ? "WALL" : "GRASS" };
+        });
+
+        assert.equal(connectWalkableRegions(tiles, isWalkable), 0);
+        assert.equal(countWalkableRegions(tiles), 2);
+    });
+
+    it("connects a large fragmented map in bounded time", () => {
+        // 大量孤立的小区域：每个区域都单独寻路时这里是秒级
+        const started = performance.now();
+        const tiles = generate("noise", 256, 256, 99, { waterLevel: 0.5, treeDensity: 1, forestLevel: 0.3 });
+        const elapsed = performance.now() - started;
+
+        assert.equal(countWalkableRegions(tiles), 1);
+        assert.ok(elapsed < 2000, `256x256 noise map took ${Math.round(elapsed)} ms`);
+    });
+});
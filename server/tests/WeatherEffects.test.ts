@@ -0,0 +1,71 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import WorldManager from "../Game/World/WorldManager.js";
+import { RainWateringEffect } from "../Game/World/WeatherEffects.js";
+
+/**
+ * 20x20 的草地，记录 findTiles 的调用次数
+ */
+function createWorld() {
+    const world = new WorldManager("test-world", 20, 20, 1, {}, { name: "classic" }, 10);
+    world.generateTerrain();
+    for (let y = 0; y < 20; y++) {
+        for (let x = 0; x < 20; x++) {
+            world.setTile({ x, y }, { type: "GRASS" });
+        }
+    }
+
+    let scans = 0;
+    const findTiles = world.findTiles.bind(world);
+    world.findTiles = predicate => {
+        scans++;
+        return findTiles(predicate);
+    };
+    return { world, scans: () => scans };
+}
+
+const isWatered = (world: WorldManager, x: number, y: number) => world.getTile({ x, y }).state?.watered === true;
+
+describe("RainWateringEffect", () => {
+    it("scans the loaded farmland once when the rain starts", () => {
+        const { world, scans } = createWorld();
+        const rain = new RainWateringEffect(world);
+        world.tillLand({ x: 3, y: 3 });
+
+        rain.apply("clear");
+        assert.equal(isWatered(world, 3, 3), false);
+
+        rain.apply("rain");
+        rain.apply("rain");
+        rain.apply("storm");
+        assert.equal(isWatered(world, 3, 3), true);
+        assert.equal(scans(), 1);
+    });
+
+    it("waters farmland that is tilled or dries out while it rains", () => {
+        const { world, scans } = createWorld();
+        const rain = new RainWateringEffect(world);
+        rain.apply("rain");
+
+        world.tillLand({ x: 5, y: 5 });
+        rain.apply("rain");
+        assert.equal(isWatered(world, 5, 5), true);
+
+        const tile = world.getTile({ x: 5, y: 5 });
+        world.setTile({ x: 5, y: 5 }, { ...tile, state: { ...tile.state, watered: false } });
+        rain.apply("rain");
+        assert.equal(isWatered(world, 5, 5), true);
+        assert.equal(scans(), 1);
+    });
+
+    it("leaves farmland dry once the rain stops", () => {
+        const { world } = createWorld();
+        const rain = new RainWateringEffect(world);
+        rain.apply("rain");
+        rain.apply("clear");
+
+        world.tillLand({ x: 7, y: 7 });
+        rain.apply("clear");
+        assert.equal(isWatered(world, 7, 7), false);
+    });
+});
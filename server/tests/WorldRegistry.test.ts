@@ -0,0 +1,128 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import WorldRegistry from "../Game/WorldRegistry.js";
+import type Game from "../Game/index.js";
+import type { PlayerSnapshot } from "../types/agent.js";
+
+type Step = "detachPlayer" | "movePlayerSave" | "admitPlayer" | "reattachPlayer";
+
+/**
+ * 只实现传送用到的方法的世界替身，按顺序记录调用，并可以让指定步骤失败
+ */
+class FakeWorld {
+    readonly failing = new Set<Step>();
+
+    constructor(private readonly worldId: string, private readonly log: string[]) {}
+
+    async init(): Promise<void> {}
+
+    getWorldId(): string {
+        return this.worldId;
+    }
+
+    async detachPlayer(playerId: string): Promise<PlayerSnapshot> {
+        this.record("detachPlayer", playerId);
+        return { id: playerId, name: "Alex" } as PlayerSnapshot;
+    }
+
+    async movePlayerSave(playerId: string, targetWorldId: string): Promise<void> {
+        this.record("movePlayerSave", `${playerId}->${targetWorldId}`);
+    }
+
+    async admitPlayer(snapshot: PlayerSnapshot): Promise<PlayerSnapshot> {
+        this.record("admitPlayer", snapshot.id);
+        return snapshot;
+    }
+
+    async reattachPlayer(snapshot: PlayerSnapshot): Promise<void> {
+        this.record("reattachPlayer", snapshot.id);
+    }
+
+    private record(step: Step, detail: string): void {
+        this.log.push(`${this.worldId}.${step}(${detail})`);
+        if (this.failing.has(step)) {
+            throw new Error(`${this.worldId}.${step} failed`);
+        }
+    }
+}
+
+async function createRegistry() {
+    const log: string[] = [];
+    const fakes = new Map<string, FakeWorld>();
+    const registry = new WorldRegistry("overworld", worldId => {
+        const fake = new FakeWorld(worldId, log);
+        fakes.set(worldId, fake);
+        return fake as unknown as Game;
+    });
+    await registry.load("overworld");
+    await registry.load("nether");
+    return { registry, log, source: fakes.get("overworld")!, target: fakes.get("nether")! };
+}
+
+describe("WorldRegistry.transferPlayer", () => {
+    it("moves the save before the target world admits the player", async () => {
+        const { registry, log } = await createRegistry();
+        const transferred: string[] = [];
+        registry.onPlayerTransfer(event => transferred.push(`${event.fromWorldId}->${event.toWorldId}`));
+
+        const player = await registry.transferPlayer("p1", "overworld", "nether");
+        assert.equal(player.id, "p1");
+        assert.deepEqual(log, [
+            "overworld.detachPlayer(p1)",
+            "overworld.movePlayerSave(p1->nether)",
+            "nether.admitPlayer(p1)",
+        ]);
+        assert.deepEqual(transferred, ["overworld->nether"]);
+    });
+
+    it("does not move the save back when moving it failed", async () => {
+        const { registry, log, source } = await createRegistry();
+        source.failing.add("movePlayerSave");
+
+        await assert.rejects(registry.transferPlayer("p1", "overworld", "nether"), /overworld.movePlayerSave failed/);
+        assert.deepEqual(log, [
+            "overworld.detachPlayer(p1)",
+            "overworld.movePlayerSave(p1->nether)",
+            "overworld.reattachPlayer(p1)",
+        ]);
+    });
+
+    it("moves the save back and reattaches the player when admission fails", async () => {
+        const { registry, log, target } = await createRegistry();
+        target.failing.add("admitPlayer");
+
+        await assert.rejects(registry.transferPlayer("p1", "overworld", "nether"), /nether.admitPlayer failed/);
+        assert.deepEqual(log.slice(3), [
+            "nether.movePlayerSave(p1->overworld)",
+            "overworld.reattachPlayer(p1)",
+        ]);
+    });
+
+    it("keeps the original error and still reattaches when a rollback step fails", async () => {
+        const { registry, log, source, target } = await createRegistry();
+        target.failing.add("admitPlayer");
+        target.failing.add("movePlayerSave");
+        source.failing.add("reattachPlayer");
+
+        await assert.rejects(registry.transferPlayer("p1", "overworld", "nether"), /nether.admitPlayer failed/);
+        assert.equal(log.at(-1), "overworld.reattachPlayer(p1)");
+    });
+
+    it("does nothing when the player cannot be detached", async () => {
+        const { registry, log, source } = await createRegistry();
+        source.failing.add("detachPlayer");
+
+        await assert.rejects(registry.transferPlayer("p1", "overworld", "nether"), /overworld.detachPlayer failed/);
+        assert.deepEqual(log, ["overworld.detachPlayer(p1)"]);
+
+        // 失败后可以重新传送
+        source.failing.clear();
+        await registry.transferPlayer("p1", "overworld", "nether");
+    });
+
+    it("rejects transfers to the same or an unloaded world", async () => {
+        const { registry } = await createRegistry();
+        await assert.rejects(registry.transferPlayer("p1", "overworld", "overworld"), /already in this world/);
+        await assert.rejects(registry.transferPlayer("p1", "overworld", "end"), /"end" is not loaded/);
+    });
+});
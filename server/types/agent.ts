@@ -5,4 +5,11 @@ export type {
     PlayerSnapshot,
     CreatePlayerParams,
     MovePlayerDelta as MovePlayerParams,
+    MoveBlockCode,
+    MoveRejection,
+    DeathState,
+    RespawnFailureCode,
+    RespawnResult,
+    SurvivalFailureCode,
+    SurvivalActionResult,
 } from "../../shared/player.js";
@@ -0,0 +1,14 @@
+/**
+ * 战斗系统类型定义
+ */
+
+// ✅ 核心类型从 shared 导入
+export type {
+    WeaponDefinition,
+    AttackFailureCode,
+    AttackCommand,
+    AttackResult,
+    EntityDamagedBroadcast,
+    EntityDiedBroadcast,
+    CombatSettings,
+} from '../../shared/combat.js';
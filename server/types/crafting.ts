@@ -0,0 +1,12 @@
+/**
+ * 合成系统类型定义
+ */
+
+// ✅ 核心类型从 shared 导入
+export type {
+    RecipeIngredient,
+    RecipeDefinition,
+    CraftFailureCode,
+    CraftRequest,
+    CraftResult,
+} from '../../shared/crafting.js';
@@ -0,0 +1,38 @@
+/**
+ * 作物系统类型定义
+ * 类比星露谷物语的作物：种下后按阶段生长，成熟后可收获
+ */
+
+import type { Season } from "./game.js";
+
+/**
+ * 作物产出
+ */
+export interface CropYield {
+    /** 产出的物品 ID */
+    itemId: string;
+    /** 最少数量 */
+    min: number;
+    /** 最多数量 */
+    max: number;
+}
+
+/**
+ * 作物定义（静态配置）
+ */
+export interface CropDefinition {
+    /** 作物 ID（种植时传入的 cropId） */
+    id: string;
+    /** 显示名称 */
+    label: string;
+    /** 生长阶段数（包含种子阶段，最后一个阶段即成熟） */
+    stages: number;
+    /** 每个阶段需要的世界 tick 数 */
+    ticksPerStage: number;
+    /** 是否需要浇水才能生长 */
+    requiresWater: boolean;
+    /** 可以种植和生长的季节（其他季节不能种下，已种下的停止生长） */
+    seasons: Season[];
+    /** 成熟收获时的产出 */
+    yields: CropYield[];
+}
@@ -1,4 +1,8 @@
-import type { TimeOfDay } from "./weather.js";
+import type { TimeOfDay, WeatherType } from "./weather.js";
+import type { TerrainGeneratorSpec } from "./terrain.js";
+
+// ✅ 核心类型从 shared 导入
+export type { Season, GameCalendar, WeatherSpell, WeatherForecast } from '../../shared/game.js';
 
 export interface GameTimeSnapshot {
 	tick: number;
@@ -8,7 +12,41 @@ export interface GameTimeSnapshot {
 	lastUpdatedAt: string; // ISO timestamp from Date.toISOString()
 }
 
+/**
+ * 创建 / 加载世界时的选项
+ */
+export interface GameWorldOptions {
+	/** 主随机种子（不传则随机生成；已有存档时以存档为准） */
+	seed?: number;
+	/** 新世界使用的地形生成器和参数（默认 noise；已有存档时以存档为准） */
+	terrain?: TerrainGeneratorSpec;
+	/** 新世界的地图宽度（默认 50；已有存档时以存档为准） */
+	width?: number;
+	/** 新世界的地图高度（默认 50；已有存档时以存档为准） */
+	height?: number;
+	/** 新世界的区块边长（默认 16；已有存档时以存档为准） */
+	chunkSize?: number;
+}
+
 export interface StartTimeConfig {
 	tickIntervalMs?: number;
 	speedMultiplier?: number;
+	/** 一天的 tick 数（默认 240） */
+	ticksPerDay?: number;
+	/** 每个季节的天数（默认 7） */
+	daysPerSeason?: number;
+}
+
+/**
+ * 已加载世界的概要（世界列表 API）
+ */
+export interface WorldSummary {
+	worldId: string;
+	tick: number;
+	timeOfDay: TimeOfDay;
+	weather: WeatherType;
+	/** 在线角色数（包括 NPC） */
+	playerCount: number;
+	map: { width: number; height: number; chunkSize: number };
+	loadedChunks: number;
 }
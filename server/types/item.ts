@@ -0,0 +1,13 @@
+/**
+ * 物品与背包类型定义
+ */
+
+// ✅ 核心类型从 shared 导入
+export type {
+    ItemDefinition,
+    InventorySlot,
+    InventorySnapshot,
+    InventoryFailureCode,
+    InventoryActionRequest,
+    InventoryActionResult,
+} from '../../shared/inventory.js';
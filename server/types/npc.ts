@@ -0,0 +1,12 @@
+/**
+ * NPC 类型定义
+ */
+
+// ✅ 核心类型从 shared 导入
+export type {
+    NpcDirection,
+    NpcDecision,
+    LlmProviderName,
+    SpawnNpcParams,
+    NpcSnapshot,
+} from '../../shared/npc.js';
@@ -4,7 +4,7 @@
  */
 
 // ✅ 核心类型从 shared 导入（基础地形类型）
-export type { TerrainType, Tile, TileState, Position2D, TileConfig } from '../../shared/terrain.js';
+export type { TerrainType, Tile, TileState, Position2D, TileConfig, ChunkCoord, ChunkData } from '../../shared/terrain.js';
 
 // ✅ 服务器特定的地形类型（用于服务器端逻辑）
 import type { TerrainType, Tile, Position2D, TileConfig } from '../../shared/terrain.js';
@@ -20,22 +20,61 @@ export interface Rectangle {
     height: number; // 高度
 }
 
+/**
+ * 地形生成使用的随机数算法
+ * - lcg：旧版线性同余生成器（没有记录算法的旧存档按它重建）
+ * - mulberry32：RandomService 使用的生成器（新世界）
+ */
+export type TerrainPrng = "lcg" | "mulberry32";
+
+/**
+ * 地形生成器选择：生成器名称 + 参数（未指定的参数使用生成器的默认值）
+ */
+export interface TerrainGeneratorSpec {
+    name: string;
+    params?: Record<string, number>;
+}
+
+/**
+ * 地形生成器参数说明
+ */
+export interface TerrainGeneratorParam {
+    name: string;
+    description: string;
+    default: number;
+    min: number;
+    max: number;
+    /** 是否只接受整数 */
+    integer?: boolean;
+}
+
+/**
+ * 地形生成器信息（用于列出可选的生成器）
+ */
+export interface TerrainGeneratorInfo {
+    name: string;
+    description: string;
+    params: TerrainGeneratorParam[];
+}
+
 /**
  * 世界地图
- * 存储完整的地形数据
+ * 地图尺寸、区块大小和生成信息；瓦片本身按区块存放（见 ChunkManager）
  */
 export interface WorldMap {
     /** 地图宽度 */
     width: number;
     /** 地图高度 */
     height: number;
-    /** 瓦片数据：tiles[y][x] 二维数组 */
-    tiles: Tile[][];
+    /** 区块边长（格子） */
+    chunkSize: number;
     /** 地图元数据 */
     metadata: {
         name: string;
         createdAt: Date;
         seed?: number; // 随机种子（用于程序化生成）
+        prng?: TerrainPrng; // 生成地形时使用的随机数算法
+        generator?: TerrainGeneratorSpec; // 生成地形时使用的生成器和参数
     };
 }
 
@@ -0,0 +1,10 @@
+/**
+ * 工具类型定义
+ */
+
+// ✅ 核心类型从 shared 导入
+export type {
+    ToolKind,
+    ToolDefinition,
+    ToolUsage,
+} from '../../shared/tool.js';
@@ -1,3 +1,7 @@
+import { InteractionType } from "../Game/Interaction/InteractionManager.js";
+import { isWeatherType } from "../Game/World/utils.js";
+import { resolveTerrainGenerator } from "../Game/World/TerrainGenerators.js";
+
 /**
  * 验证环境变量
  */
@@ -67,3 +71,366 @@ export function validatePosition(x: any, y: any, z: any): { valid: boolean; erro
 
     return { valid: true };
 }
+
+
+/** 单条移动指令允许的最大位移（每个轴） */
+export const MAX_MOVE_STEP = 1;
+
+/**
+ * 验证移动指令的位移量
+ */
+export function validateMoveDelta(delta: any): { valid: boolean; error?: string } {
+    if (!delta || typeof delta !== "object") {
+        return { valid: false, error: "Delta is required" };
+    }
+
+    const posValidation = validatePosition(delta.x, delta.y, delta.z);
+    if (!posValidation.valid) {
+        return posValidation;
+    }
+
+    if (Math.abs(delta.x) > MAX_MOVE_STEP || Math.abs(delta.y) > MAX_MOVE_STEP || Math.abs(delta.z) > MAX_MOVE_STEP) {
+        return { valid: false, error: `Move delta exceeds max step (±${MAX_MOVE_STEP})` };
+    }
+
+    return { valid: true };
+}
+
+/** 一次说话的最大长度（字符） */
+export const MAX_SPEECH_LENGTH = 200;
+
+/**
+ * 验证说话请求
+ */
+export function validateSpeech(body: any): { valid: boolean; error?: string } {
+    if (!body || typeof body !== "object") {
+        return { valid: false, error: "Request body is required" };
+    }
+
+    if (typeof body.message !== "string" || body.message.trim().length === 0) {
+        return { valid: false, error: "message is required and must be a non-empty string" };
+    }
+
+    if (body.message.trim().length > MAX_SPEECH_LENGTH) {
+        return { valid: false, error: `message must be at most ${MAX_SPEECH_LENGTH} characters` };
+    }
+
+    return { valid: true };
+}
+
+/**
+ * 验证交互请求（类型 + 目标坐标）
+ */
+export function validateInteraction(type: any, target: any): { valid: boolean; error?: string } {
+    const types = Object.values(InteractionType) as string[];
+    if (typeof type !== "string" || !types.includes(type)) {
+        return { valid: false, error: `Invalid interaction type. Use: ${types.join(", ")}` };
+    }
+
+    if (!target || typeof target !== "object") {
+        return { valid: false, error: "Target is required" };
+    }
+
+    if (!Number.isInteger(target.x) || !Number.isInteger(target.y)) {
+        return { valid: false, error: "Target (x, y) must be integers" };
+    }
+
+    return { valid: true };
+}
+
+/**
+ * 验证背包操作请求（丢弃 / 转移）
+ */
+export function validateInventoryAction(body: any): { valid: boolean; error?: string } {
+    if (!body || typeof body !== "object") {
+        return { valid: false, error: "Request body is required" };
+    }
+
+    if (body.action !== "drop" && body.action !== "transfer") {
+        return { valid: false, error: "Invalid action. Use: drop, transfer" };
+    }
+
+    if (typeof body.itemId !== "string" || body.itemId.trim().length === 0) {
+        return { valid: false, error: "itemId is required and must be a string" };
+    }
+
+    if (!Number.isInteger(body.quantity) || body.quantity <= 0) {
+        return { valid: false, error: "quantity must be a positive integer" };
+    }
+
+    if (body.action === "transfer" && (typeof body.targetPlayerId !== "string" || body.targetPlayerId.length === 0)) {
+        return { valid: false, error: "targetPlayerId is required for transfer" };
+    }
+
+    return { valid: true };
+}
+
+/**
+ * 验证 NPC 生成参数
+ */
+export function validateSpawnNpc(body: any): { valid: boolean; error?: string } {
+    if (!body || typeof body !== "object") {
+        return { valid: false, error: "Request body is required" };
+    }
+
+    const nameValidation = validatePlayerName(body.name);
+    if (!nameValidation.valid) {
+        return nameValidation;
+    }
+
+    if (body.provider !== undefined && body.provider !== "scripted" && body.provider !== "openai") {
+        return { valid: false, error: "Invalid provider. Use: scripted, openai" };
+    }
+
+    if (body.script !== undefined && (!Array.isArray(body.script) || body.script.length === 0)) {
+        return { valid: false, error: "script must be a non-empty array of decisions" };
+    }
+
+    if (body.thinkIntervalMs !== undefined && (typeof body.thinkIntervalMs !== "number" || !Number.isFinite(body.thinkIntervalMs) || body.thinkIntervalMs <= 0)) {
+        return { valid: false, error: "thinkIntervalMs must be a positive number" };
+    }
+
+    if (body.persona !== undefined && typeof body.persona !== "string") {
+        return { valid: false, error: "persona must be a string" };
+    }
+
+    if (body.spawnPosition) {
+        const { x, y, z } = body.spawnPosition;
+        return validatePosition(x, y, z);
+    }
+
+    return { valid: true };
+}
+
+/**
+ * 验证攻击请求
+ */
+export function validateAttack(body: any): { valid: boolean; error?: string } {
+    if (!body || typeof body !== "object") {
+        return { valid: false, error: "Request body is required" };
+    }
+
+    if (typeof body.attackerId !== "string" || body.attackerId.length === 0) {
+        return { valid: false, error: "attackerId is required and must be a string" };
+    }
+
+    if (typeof body.targetId !== "string" || body.targetId.length === 0) {
+        return { valid: false, error: "targetId is required and must be a string" };
+    }
+
+    if (body.weaponId !== undefined && (typeof body.weaponId !== "string" || body.weaponId.length === 0)) {
+        return { valid: false, error: "weaponId must be a non-empty string" };
+    }
+
+    return { valid: true };
+}
+
+/**
+ * 验证合成请求
+ */
+export function validateCraft(body: any): { valid: boolean; error?: string } {
+    if (!body || typeof body !== "object") {
+        return { valid: false, error: "Request body is required" };
+    }
+
+    if (typeof body.recipeId !== "string" || body.recipeId.length === 0) {
+        return { valid: false, error: "recipeId is required and must be a string" };
+    }
+
+    if (body.quantity !== undefined && (!Number.isInteger(body.quantity) || body.quantity <= 0)) {
+        return { valid: false, error: "quantity must be a positive integer" };
+    }
+
+    return { valid: true };
+}
+
+/**
+ * 验证设置世界时间请求：tick 和 timeOfDay 二选一
+ */
+export function validateSetTime(body: any): { valid: boolean; error?: string } {
+    if (!body || typeof body !== "object") {
+        return { valid: false, error: "Request body is required" };
+    }
+
+    const hasTick = body.tick !== undefined;
+    const hasTimeOfDay = body.timeOfDay !== undefined;
+    if (hasTick === hasTimeOfDay) {
+        return { valid: false, error: "Exactly one of tick or timeOfDay is required" };
+    }
+
+    if (hasTick && (!Number.isInteger(body.tick) || body.tick < 0)) {
+        return { valid: false, error: "tick must be a non-negative integer" };
+    }
+
+    if (hasTimeOfDay && !["dawn", "day", "dusk", "night"].includes(body.timeOfDay)) {
+        return { valid: false, error: "timeOfDay must be one of dawn, day, dusk, night" };
+    }
+
+    return { valid: true };
+}
+
+/**
+ * 验证时间倍速请求
+ */
+export function validateTimeSpeed(body: any): { valid: boolean; error?: string } {
+    if (!body || typeof body !== "object") {
+        return { valid: false, error: "Request body is required" };
+    }
+
+    const { multiplier } = body;
+    if (typeof multiplier !== "number" || !Number.isFinite(multiplier) || multiplier <= 0 || multiplier > 100) {
+        return { valid: false, error: "multiplier must be a number between 0 (exclusive) and 100" };
+    }
+
+    return { valid: true };
+}
+
+/**
+ * 验证单步推进请求
+ */
+export function validateTimeStep(body: any): { valid: boolean; error?: string } {
+    if (!body || typeof body !== "object") {
+        return { valid: false, error: "Request body is required" };
+    }
+
+    if (!Number.isInteger(body.ticks) || body.ticks <= 0 || body.ticks > 24_000) {
+        return { valid: false, error: "ticks must be an integer between 1 and 24000" };
+    }
+
+    return { valid: true };
+}
+
+/**
+ * 验证强制天气请求
+ */
+export function validateForceWeather(body: any): { valid: boolean; error?: string } {
+    if (!body || typeof body !== "object") {
+        return { valid: false, error: "Request body is required" };
+    }
+
+    if (!isWeatherType(body.weather)) {
+        return { valid: false, error: "weather must be one of clear, rain, storm, snow, fog" };
+    }
+
+    if (!Number.isInteger(body.durationTicks) || body.durationTicks <= 0 || body.durationTicks > 24_000) {
+        return { valid: false, error: "durationTicks must be an integer between 1 and 24000" };
+    }
+
+    if (body.intensity !== undefined && (typeof body.intensity !== "number" || body.intensity < 0 || body.intensity > 1)) {
+        return { valid: false, error: "intensity must be a number between 0 and 1" };
+    }
+
+    return { valid: true };
+}
+
+/**
+ * 验证地形生成器选择（{ name, params? }）：生成器必须已登记，参数必须是已知的数字且在范围内
+ */
+export function validateTerrainGenerator(spec: any): { valid: boolean; error?: string } {
+    if (!spec || typeof spec !== "object" || typeof spec.name !== "string") {
+        return { valid: false, error: "Terrain generator name is required" };
+    }
+
+    if (spec.params !== undefined && (!spec.params || typeof spec.params !== "object" || Array.isArray(spec.params))) {
+        return { valid: false, error: "Terrain generator params must be an object" };
+    }
+
+    try {
+        resolveTerrainGenerator(spec);
+    } catch (err) {
+        return { valid: false, error: (err as Error).message };
+    }
+
+    return { valid: true };
+}
+
+/** 地图边长范围（格子） */
+export const WORLD_SIZE_RANGE = { min: 10, max: 4096 } as const;
+
+/** 区块边长范围（格子） */
+export const CHUNK_SIZE_RANGE = { min: 4, max: 64 } as const;
+
+/**
+ * 验证新世界的地图尺寸和区块边长（均可省略）
+ */
+export function validateWorldSize(size: any): { valid: boolean; error?: string } {
+    if (!size || typeof size !== "object") {
+        return { valid: false, error: "World size must be an object" };
+    }
+
+    for (const key of ["width", "height"] as const) {
+        const value = size[key];
+        if (value === undefined) continue;
+        if (!Number.isInteger(value) || value < WORLD_SIZE_RANGE.min || value > WORLD_SIZE_RANGE.max) {
+            return { valid: false, error: `${key} must be an integer between ${WORLD_SIZE_RANGE.min} and ${WORLD_SIZE_RANGE.max}` };
+        }
+    }
+
+    const chunkSize = size.chunkSize;
+    if (chunkSize !== undefined && (!Number.isInteger(chunkSize) || chunkSize < CHUNK_SIZE_RANGE.min || chunkSize > CHUNK_SIZE_RANGE.max)) {
+        return { valid: false, error: `chunkSize must be an integer between ${CHUNK_SIZE_RANGE.min} and ${CHUNK_SIZE_RANGE.max}` };
+    }
+
+    return { valid: true };
+}
+
+/**
+ * 验证区块订阅的视口（瓦片坐标的矩形，margin 为向外多订阅的区块圈数）
+ */
+export function validateChunkViewport(viewport: any, margin: any): { valid: boolean; error?: string } {
+    if (!viewport || typeof viewport !== "object") {
+        return { valid: false, error: "viewport is required" };
+    }
+
+    for (const key of ["x", "y"] as const) {
+        if (!Number.isInteger(viewport[key])) {
+            return { valid: false, error: `viewport.${key} must be an integer` };
+        }
+    }
+
+    for (const key of ["width", "height"] as const) {
+        if (!Number.isInteger(viewport[key]) || viewport[key] <= 0) {
+            return { valid: false, error: `viewport.${key} must be a positive integer` };
+        }
+    }
+
+    if (margin !== undefined && (!Number.isInteger(margin) || margin < 0 || margin > 4)) {
+        return { valid: false, error: "margin must be an integer between 0 and 4" };
+    }
+
+    return { valid: true };
+}
+
+/**
+ * 验证世界 ID（用在 URL 和存档主键里：字母、数字、下划线、连字符，最长 64 个字符）
+ */
+export function validateWorldId(worldId: any): { valid: boolean; error?: string } {
+    if (typeof worldId !== "string" || !/^[A-Za-z0-9_-]{1,64}$/.test(worldId)) {
+        return { valid: false, error: "worldId must be 1-64 letters, digits, '_' or '-'" };
+    }
+
+    return { valid: true };
+}
+
+/**
+ * 验证创建世界的请求（{ worldId, seed?, terrain?, width?, height?, chunkSize? }）
+ */
+export function validateCreateWorld(body: any): { valid: boolean; error?: string } {
+    if (!body || typeof body !== "object") {
+        return { valid: false, error: "Request body is required" };
+    }
+
+    const idValidation = validateWorldId(body.worldId);
+    if (!idValidation.valid) return idValidation;
+
+    if (body.seed !== undefined && !Number.isInteger(body.seed) && typeof body.seed !== "string") {
+        return { valid: false, error: "seed must be an integer or a string" };
+    }
+
+    if (body.terrain !== undefined) {
+        const terrainValidation = validateTerrainGenerator(body.terrain);
+        if (!terrainValidation.valid) return terrainValidation;
+    }
+
+    return validateWorldSize(body);
+}
@@ -0,0 +1,108 @@
+/**
+ * 战斗系统类型定义
+ * 共享给服务器和客户端使用
+ */
+import type { PlayerId } from "./player";
+
+/**
+ * 武器定义（静态配置）
+ */
+export interface WeaponDefinition {
+  /** 武器 ID（与物品 ID 相同；空手为 "fist"） */
+  id: string;
+  /** 显示名称 */
+  label: string;
+  /** 基础伤害 */
+  baseDamage: number;
+  /** 冷却时间（毫秒） */
+  cooldownMs: number;
+  /** 攻击距离（格子） */
+  range: number;
+}
+
+/**
+ * 攻击失败的原因
+ * - attacker_not_found / target_not_found：角色不存在
+ * - invalid_target：不能攻击自己
+ * - attacker_dead / target_dead：攻击方或目标已经倒下
+ * - unknown_weapon：武器不存在
+ * - weapon_not_owned：背包里没有这把武器
+ * - out_of_range：超出武器攻击距离
+ * - cooldown：武器还在冷却
+ * - pvp_disabled：当前世界关闭了玩家对战
+ * - cancelled：攻击在行为队列中被取消
+ */
+export type AttackFailureCode =
+  | "attacker_not_found"
+  | "target_not_found"
+  | "invalid_target"
+  | "attacker_dead"
+  | "target_dead"
+  | "unknown_weapon"
+  | "weapon_not_owned"
+  | "out_of_range"
+  | "cooldown"
+  | "pvp_disabled"
+  | "cancelled";
+
+/**
+ * 攻击请求（REST 与 WebSocket 共用）
+ */
+export interface AttackCommand {
+  attackerId: PlayerId;
+  targetId: PlayerId;
+  /** 使用的武器（缺省为空手） */
+  weaponId?: string;
+}
+
+/**
+ * 攻击结果
+ */
+export interface AttackResult {
+  success: boolean;
+  message: string;
+  code?: AttackFailureCode;
+  /** 造成的伤害 */
+  damage?: number;
+  /** 目标剩余生命值 */
+  targetHealth?: number;
+  /** 目标是否被击倒 */
+  killed?: boolean;
+  /** 击倒目标获得的经验 */
+  experience?: number;
+  /** 冷却剩余时间（毫秒，code 为 cooldown 时） */
+  retryAfterMs?: number;
+}
+
+/**
+ * 实体受伤广播（entity_damaged）
+ */
+export interface EntityDamagedBroadcast {
+  attackerId: PlayerId;
+  targetId: PlayerId;
+  weaponId: string;
+  damage: number;
+  health: number;
+  maxHealth: number;
+}
+
+/**
+ * 实体死亡广播（entity_died）
+ */
+export interface EntityDiedBroadcast {
+  entityId: PlayerId;
+  killerId?: PlayerId;
+  weaponId?: string;
+  /** 击杀者获得的经验 */
+  experience: number;
+  /** 最早可复活时间 */
+  respawnAt?: string;
+}
+
+/**
+ * 世界战斗设置
+ */
+export interface CombatSettings {
+  /** 是否允许玩家之间互相攻击（NPC 始终可以被攻击） */
+  pvpEnabled: boolean;
+}
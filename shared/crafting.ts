@@ -0,0 +1,82 @@
+/**
+ * 合成系统类型定义
+ * 共享给服务器和客户端使用
+ */
+import type { InventorySnapshot } from "./inventory";
+import type { TerrainType } from "./terrain";
+
+/**
+ * 配方中的一种物品及数量
+ */
+export interface RecipeIngredient {
+  itemId: string;
+  quantity: number;
+}
+
+/**
+ * 合成配方（静态配置，来自 recipes.json）
+ */
+export interface RecipeDefinition {
+  /** 配方 ID */
+  id: string;
+  /** 显示名称 */
+  label: string;
+  /** 消耗的物品 */
+  inputs: RecipeIngredient[];
+  /** 产出的物品 */
+  outputs: RecipeIngredient[];
+  /** 需要在附近的工作台瓦片（如 WORKBENCH、FURNACE），不填表示随地可合成 */
+  workstation?: TerrainType;
+  /** 合成一次需要的世界 tick 数（0 表示立即完成） */
+  craftTicks: number;
+}
+
+/**
+ * 合成失败的原因
+ * - player_not_found：玩家不存在
+ * - dead：玩家已死亡
+ * - unknown_recipe：配方不存在
+ * - invalid_quantity：合成次数不是正整数
+ * - missing_items：材料不足（见 missing）
+ * - no_workstation：附近没有需要的工作台（见 workstation）
+ * - inventory_full：背包放不下产出
+ * - cancelled：合成在行为队列中被取消、抢占或超时
+ */
+export type CraftFailureCode =
+  | "player_not_found"
+  | "dead"
+  | "unknown_recipe"
+  | "invalid_quantity"
+  | "missing_items"
+  | "no_workstation"
+  | "inventory_full"
+  | "cancelled";
+
+/**
+ * 合成请求（POST /api/players/:id/craft）
+ */
+export interface CraftRequest {
+  recipeId: string;
+  /** 合成次数（默认 1） */
+  quantity?: number;
+}
+
+/**
+ * 合成结果
+ */
+export interface CraftResult {
+  success: boolean;
+  message: string;
+  /** 失败原因代码 */
+  code?: CraftFailureCode;
+  /** 缺少的材料（missing_items 时） */
+  missing?: RecipeIngredient[];
+  /** 需要的工作台（no_workstation 时） */
+  workstation?: TerrainType;
+  /** 实际消耗的材料 */
+  consumed?: RecipeIngredient[];
+  /** 实际获得的物品 */
+  produced?: RecipeIngredient[];
+  /** 合成后的背包 */
+  inventory?: InventorySnapshot;
+}
@@ -2,11 +2,30 @@ export type WeatherType = "clear" | "rain" | "storm" | "snow" | "fog" | string;
 
 export type TimeOfDay = "dawn" | "day" | "dusk" | "night" | string;
 
-// ✅ 地图数据结构（使用 terrain.ts 中的 Tile）
+export type Season = "spring" | "summer" | "autumn" | "winter";
+
+// ✅ 游戏日历（由世界 tick 推算）
+export interface GameCalendar {
+  /** 第几天（从 1 开始） */
+  day: number;
+  /** 第几年（从 1 开始） */
+  year: number;
+  /** 当前季节 */
+  season: Season;
+  /** 季节中的第几天（从 1 开始） */
+  dayOfSeason: number;
+  /** 星期几（0 = 星期一 … 6 = 星期日） */
+  dayOfWeek: number;
+  /** 每个季节的天数 */
+  daysPerSeason: number;
+}
+
+// ✅ 地图信息（瓦片按区块通过 WebSocket 订阅获取，见 ChunkData）
 export interface WorldMapData {
   width: number;
   height: number;
-  tiles: import('./terrain').Tile[][];
+  /** 区块边长（格子） */
+  chunkSize: number;
   metadata?: {
     name?: string;
     createdAt?: Date;
@@ -20,6 +39,7 @@ export interface GameWorldTime {
   speedMultiplier: number;
   tickIntervalMs: number;
   isRunning: boolean;
+  calendar: GameCalendar;
 }
 
 export interface GameWorldWeather {
@@ -27,6 +47,24 @@ export interface GameWorldWeather {
   description: string;
 }
 
+// ✅ 一段天气（从 startTick 开始持续 durationTicks 个世界 tick）
+export interface WeatherSpell {
+  weather: WeatherType;
+  startTick: number;
+  durationTicks: number;
+  /** 强度 0~1（影响落雷概率、下雪减速等） */
+  intensity: number;
+  /** 是否由管理员强制指定 */
+  forced?: boolean;
+}
+
+export interface WeatherForecast {
+  /** 当前天气 */
+  current: WeatherSpell;
+  /** 之后排定的天气（按开始时间排序） */
+  upcoming: WeatherSpell[];
+}
+
 export interface GameWorldMeta {
   autoSaveIntervalMs: number;
 }
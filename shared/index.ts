@@ -2,3 +2,9 @@ export * from "./player";
 export * from "./game";
 export * from "./websocket";
 export * from "./terrain";
+export * from "./interaction";
+export * from "./inventory";
+export * from "./npc";
+export * from "./combat";
+export * from "./crafting";
+export * from "./tool";
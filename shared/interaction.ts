@@ -0,0 +1,54 @@
+/**
+ * 交互系统类型定义
+ * 共享给服务器和客户端使用
+ */
+import type { Position2D } from "./terrain";
+import type { ToolUsage } from "./tool";
+
+/**
+ * 交互类型（与服务器 InteractionType 枚举的取值保持一致）
+ */
+export type InteractionKind =
+  | "till"
+  | "plant"
+  | "harvest"
+  | "water"
+  | "chop"
+  | "mine"
+  | "place"
+  | "break"
+  | "look";
+
+/**
+ * 交互造成的世界变化
+ */
+export interface InteractionChanges {
+  position: Position2D;
+  action: string;
+  [key: string]: unknown;
+}
+
+/**
+ * 交互结果
+ */
+export interface InteractionResult {
+  /** 是否成功 */
+  success: boolean;
+  /** 结果消息 */
+  message: string;
+  /** 世界变化数据（可选） */
+  changes?: InteractionChanges;
+  /** 获得的物品（可选） */
+  rewards?: string[];
+  /** 使用的工具及其剩余耐久（可选） */
+  tool?: ToolUsage;
+}
+
+/**
+ * 交互请求体（REST 与 WebSocket 共用）
+ */
+export interface InteractionCommand {
+  type: InteractionKind;
+  target: Position2D;
+  data?: Record<string, unknown>;
+}
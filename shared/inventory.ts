@@ -0,0 +1,74 @@
+/**
+ * 背包系统类型定义
+ * 共享给服务器和客户端使用
+ */
+import type { TerrainType } from "./terrain";
+
+/**
+ * 物品定义（静态配置）
+ */
+export interface ItemDefinition {
+  /** 物品 ID（如 "wood"） */
+  id: string;
+  /** 显示名称 */
+  label: string;
+  /** 单格最大堆叠数量 */
+  maxStack: number;
+  /** 食用后恢复的饱食度（不可食用的物品没有该字段） */
+  nutrition?: number;
+  /** 放置到地图上后变成的瓦片（不可放置的物品没有该字段） */
+  placesTile?: TerrainType;
+}
+
+/**
+ * 背包格子（一格只能放一种物品）
+ */
+export interface InventorySlot {
+  itemId: string;
+  quantity: number;
+  /** 工具的剩余耐久（只有工具有；没有该字段表示全新） */
+  durability?: number;
+}
+
+/**
+ * 背包快照（用于 API 响应和持久化）
+ */
+export interface InventorySnapshot {
+  /** 格子总数 */
+  capacity: number;
+  /** 已占用的格子 */
+  slots: InventorySlot[];
+}
+
+/**
+ * 背包操作失败的原因
+ * - inventory_full：目标背包没有足够空间
+ * - insufficient_items：物品数量不足
+ * - invalid_quantity：数量不是正整数
+ * - player_not_found / target_not_found：玩家不存在
+ */
+export type InventoryFailureCode =
+  | "inventory_full"
+  | "insufficient_items"
+  | "invalid_quantity"
+  | "player_not_found"
+  | "target_not_found";
+
+/**
+ * 背包操作请求（POST /api/players/:id/inventory）
+ */
+export type InventoryActionRequest =
+  | { action: "drop"; itemId: string; quantity: number }
+  | { action: "transfer"; itemId: string; quantity: number; targetPlayerId: string };
+
+/**
+ * 背包操作结果
+ */
+export interface InventoryActionResult {
+  success: boolean;
+  message: string;
+  /** 失败原因代码 */
+  code?: InventoryFailureCode;
+  /** 操作后的背包 */
+  inventory?: InventorySnapshot;
+}
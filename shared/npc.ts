@@ -0,0 +1,60 @@
+/**
+ * NPC 系统类型定义
+ * 共享给服务器和客户端使用
+ */
+import type { Position2D } from "./terrain";
+import type { InteractionKind } from "./interaction";
+import type { Position, PlayerSnapshot } from "./player";
+
+/**
+ * 移动方向（与 /api/players/:id/move 一致）
+ */
+export type NpcDirection = "up" | "down" | "left" | "right";
+
+/**
+ * NPC 每一轮思考后做出的决定
+ */
+export type NpcDecision =
+  | { action: "move"; direction: NpcDirection; reason?: string }
+  | { action: "interact"; interaction: InteractionKind; target: Position2D; data?: Record<string, unknown>; reason?: string }
+  | { action: "speak"; message: string; reason?: string }
+  | { action: "wait"; reason?: string };
+
+/**
+ * LLM 提供方名称
+ * - scripted：按脚本循环执行的确定性提供方，无需网络
+ * - openai：调用 OpenAI Chat Completions 接口
+ */
+export type LlmProviderName = "scripted" | "openai";
+
+/**
+ * 生成 NPC 的参数（POST /api/npcs）
+ */
+export interface SpawnNpcParams {
+  name: string;
+  spawnPosition?: Position;
+  /** 人设描述，会写入提示词 */
+  persona?: string;
+  /** LLM 提供方（默认 scripted） */
+  provider?: LlmProviderName;
+  /** scripted 提供方使用的决策脚本（循环执行） */
+  script?: NpcDecision[];
+  /** 两次思考之间的最小间隔（毫秒） */
+  thinkIntervalMs?: number;
+}
+
+/**
+ * NPC 快照（API 响应）
+ */
+export interface NpcSnapshot extends PlayerSnapshot {
+  npc: {
+    persona: string;
+    provider: LlmProviderName;
+    paused: boolean;
+    thinkIntervalMs: number;
+    /** 已完成的思考轮数 */
+    cycles: number;
+    lastDecision?: NpcDecision;
+    lastResult?: string;
+  };
+}
@@ -1,3 +1,6 @@
+import type { Position2D, TerrainType } from "./terrain";
+import type { InventorySlot, InventorySnapshot } from "./inventory";
+
 export type AgentStatus =
   | "idle"
   | "moving"
@@ -6,6 +9,8 @@ export type AgentStatus =
   | "fighting"
   | "thinking"
   | "offline"
+  | "sleeping"
+  | "dead"
   | "error";
 
 export interface Position {
@@ -20,14 +25,42 @@ export interface PlayerAttributes {
   health: number;
   maxHealth: number;
   experience: number;
+  /** 饱食度（越高越饱；随世界 tick 和劳动下降，归零后持续掉血，吃饱时才会回血） */
+  hunger: number;
+  maxHunger: number;
+  /** 体力（砍树、挖矿、耕地等动作消耗，不饿且不困时随 tick 恢复） */
+  stamina: number;
+  maxStamina: number;
+  /** 精力（清醒时随 tick 下降，睡觉恢复；耗尽后体力不再恢复） */
+  energy: number;
+  maxEnergy: number;
+}
+
+/**
+ * 死亡状态（生命值归零后到复活前）
+ */
+export interface DeathState {
+  /** 死亡时间 */
+  diedAt: string;
+  /** 最早可复活时间 */
+  respawnAt: string;
+  /** 击杀者（非战斗死亡时为空） */
+  killerId?: PlayerId;
+  /** 死亡时掉落（丢失）的物品 */
+  droppedItems: InventorySlot[];
 }
 
 export interface PlayerSnapshot {
   id: string;
   name: string;
   position: Position;
+  /** 个人出生点（复活位置） */
+  spawnPoint: Position;
   status: AgentStatus;
   attributes: PlayerAttributes;
+  inventory: InventorySnapshot;
+  /** 死亡状态（存活时为空） */
+  death?: DeathState;
   joinedAt: string;
   lastActiveAt: string;
 }
@@ -44,3 +77,82 @@ export interface MovePlayerDelta {
 }
 
 export type PlayerId = string;
+
+/**
+ * 移动被拒绝/截断的原因
+ * - out_of_bounds：超出地图边界
+ * - blocked_tile：目标瓦片不可通行（墙、水、树、岩石）
+ * - invalid_move：指令本身不合法（位移过大、缺少参数等）
+ * - cancelled：移动在行为队列中被取消、抢占或超时
+ * - dead：角色已死亡，需要先复活
+ */
+export type MoveBlockCode = "out_of_bounds" | "blocked_tile" | "invalid_move" | "cancelled" | "dead";
+
+export interface MoveRejection {
+  code: MoveBlockCode;
+  message: string;
+  /** 发生阻挡的瓦片坐标 */
+  tile?: Position2D;
+  /** 发生阻挡的瓦片类型 */
+  tileType?: TerrainType;
+}
+
+
+/**
+ * 复活 / 设置出生点失败的原因
+ * - player_not_found：玩家不存在
+ * - not_dead：玩家没有死亡，不需要复活
+ * - respawn_cooldown：复活倒计时尚未结束
+ * - invalid_spawn_point：出生点不可站立（墙、水、树、岩石或超出地图）
+ * - no_spawn_point：出生点附近没有任何可站立的位置
+ */
+export type RespawnFailureCode =
+  | "player_not_found"
+  | "not_dead"
+  | "respawn_cooldown"
+  | "invalid_spawn_point"
+  | "no_spawn_point";
+
+/**
+ * 复活 / 设置出生点结果
+ */
+export interface RespawnResult {
+  success: boolean;
+  message: string;
+  /** 失败原因代码 */
+  code?: RespawnFailureCode;
+  /** 操作后的玩家快照 */
+  player?: PlayerSnapshot;
+  /** 距离可以复活还有多久（毫秒，respawn_cooldown 时） */
+  retryAfterMs?: number;
+}
+
+/**
+ * 生存操作（吃东西、睡觉、起床）失败的原因
+ * - player_not_found：玩家不存在
+ * - dead：玩家已死亡
+ * - not_food：物品不能吃
+ * - insufficient_items：背包里没有该物品
+ * - not_hungry：饱食度已满
+ * - already_sleeping / not_sleeping：已经在睡觉 / 没有在睡觉
+ */
+export type SurvivalFailureCode =
+  | "player_not_found"
+  | "dead"
+  | "not_food"
+  | "insufficient_items"
+  | "not_hungry"
+  | "already_sleeping"
+  | "not_sleeping";
+
+/**
+ * 生存操作结果
+ */
+export interface SurvivalActionResult {
+  success: boolean;
+  message: string;
+  /** 失败原因代码 */
+  code?: SurvivalFailureCode;
+  /** 操作后的玩家快照 */
+  player?: PlayerSnapshot;
+}
@@ -13,9 +13,14 @@ export type TerrainType =
   | 'STONE'
   | 'SAND'
   | 'TREE'
+  | 'SAPLING'
   | 'ROCK'
   | 'FARMLAND'
   | 'WALL'
+  | 'WORKBENCH'
+  | 'FURNACE'
+  | 'FENCE'
+  | 'DOOR'
   | 'VOID';
 
 /**
@@ -28,12 +33,24 @@ export interface TileState {
   crop?: string;
   /** 作物生长阶段 (0-4) */
   growthStage?: number;
+  /** 当前阶段已累计的生长 tick 数 */
+  growthTicks?: number;
   /** 是否浇水 (灌溉状态) */
   watered?: boolean;
   /** 耐久度 (用于采集类资源，如树木、岩石) */
   durability?: number;
   /** 最后交互时间 */
   lastInteractedAt?: string;
+  /** 玩家放置的瓦片：放置时消耗的物品 ID（破坏时返还） */
+  placedItem?: string;
+  /** 玩家放置的瓦片：放置前的地面类型（破坏后恢复） */
+  baseType?: TerrainType;
+  /** 玩家放置的瓦片：放置者 ID */
+  placedBy?: string;
+  /** 资源再生：在这个世界 tick 之后长回 regrowInto */
+  regrowAt?: number;
+  /** 资源再生：长回的瓦片类型（树苗 -> 树、裸土 -> 草地 / 岩石） */
+  regrowInto?: TerrainType;
   /** 其他扩展字段 */
   [key: string]: unknown;
 }
@@ -73,3 +90,23 @@ export interface TileConfig {
   symbol: string;
   color: string;
 }
+
+/**
+ * 区块坐标（区块 (cx, cy) 覆盖瓦片 x ∈ [cx·size, (cx+1)·size)，y 同理）
+ */
+export interface ChunkCoord {
+  cx: number;
+  cy: number;
+}
+
+/**
+ * 区块数据：地图按固定大小切成的一块，单独加载、保存和推送
+ */
+export interface ChunkData extends ChunkCoord {
+  /** 区块边长（格子）；地图边缘的区块可能比它小，以 tiles 的实际尺寸为准 */
+  size: number;
+  /** 区块版本号：区块内任何瓦片变化都会 +1 */
+  version: number;
+  /** 区块内的瓦片：tiles[localY][localX] */
+  tiles: Tile[][];
+}
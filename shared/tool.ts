@@ -0,0 +1,43 @@
+/**
+ * 工具系统类型定义
+ * 共享给服务器和客户端使用
+ */
+
+/**
+ * 工具种类（每种工具对应一种交互）
+ * - axe：斧头，砍树
+ * - pickaxe：镐，挖石头
+ * - hoe：锄头，耕地
+ * - watering_can：水壶，浇水
+ */
+export type ToolKind = "axe" | "pickaxe" | "hoe" | "watering_can";
+
+/**
+ * 工具定义（静态配置）
+ */
+export interface ToolDefinition {
+  /** 工具 ID（与物品 ID 相同） */
+  id: string;
+  /** 显示名称 */
+  label: string;
+  /** 工具种类 */
+  kind: ToolKind;
+  /** 等级（木 1、石 2），同种工具优先使用等级高的 */
+  tier: number;
+  /** 每次砍伐 / 开采减少的资源耐久（锄头和水壶为 1） */
+  power: number;
+  /** 全新时的耐久（每次成功使用消耗 1 点，归零时损坏） */
+  maxDurability: number;
+}
+
+/**
+ * 一次交互中工具的使用情况
+ */
+export interface ToolUsage {
+  /** 使用的工具 ID */
+  toolId: string;
+  /** 使用后剩余的耐久 */
+  durability: number;
+  /** 是否已经损坏（从背包中移除） */
+  broken: boolean;
+}
@@ -1,5 +1,8 @@
-import type { WorldTickState } from "./game";
-import type { PlayerSnapshot, Position, PlayerId } from "./player";
+import type { GameCalendar, WorldTickState } from "./game";
+import type { PlayerSnapshot, Position, PlayerId, MoveRejection, RespawnResult } from "./player";
+import type { ChunkCoord, ChunkData, Position2D, Tile } from "./terrain";
+import type { InteractionCommand, InteractionResult } from "./interaction";
+import type { AttackCommand, AttackResult, EntityDamagedBroadcast, EntityDiedBroadcast } from "./combat";
 
 export type WebSocketMessageType =
   | "world_update"
@@ -8,6 +11,17 @@ export type WebSocketMessageType =
   | "player_join"
   | "player_leave"
   | "time_sync"
+  | "tile_update"
+  | "interaction_result"
+  | "move_ack"
+  | "attack_result"
+  | "entity_damaged"
+  | "entity_died"
+  | "respawn_result"
+  | "player_respawn"
+  | "lightning_strike"
+  | "agent_speech"
+  | "chunk_data"
   | "system";
 
 export interface WebSocketEnvelope<TType extends WebSocketMessageType, TPayload> {
@@ -24,6 +38,72 @@ export interface PlayerMoveBroadcast {
 export interface SystemMessagePayload {
   message: string;
   clientId?: PlayerId;
+  /** 客户端当前所在的世界（连接、切换世界、玩家跨世界传送时附带） */
+  worldId?: string;
+}
+
+export interface TileUpdateBroadcast {
+  position: Position2D;
+  tile: Tile;
+  /** 瓦片所在区块及变化后的区块版本号 */
+  chunk: ChunkCoord & { version: number };
+}
+
+export interface ChunkDataPayload {
+  /** 新订阅的区块（完整数据） */
+  chunks: ChunkData[];
+  /** 当前订阅的全部区块（不在其中的区块客户端可以丢弃） */
+  subscribed: ChunkCoord[];
+}
+
+export interface LightningStrikeBroadcast {
+  /** 落点 */
+  position: Position2D;
+  /** 被劈中的角色（落点及周围一格） */
+  hits: Array<{ entityId: PlayerId; damage: number; health: number; maxHealth: number }>;
+  /** 是否点燃了树木 */
+  ignited: boolean;
+}
+
+export interface AgentSpeechBroadcast {
+  speakerId: PlayerId;
+  speakerName: string;
+  /** 说话时所在的位置 */
+  position: Position;
+  message: string;
+}
+
+export interface InteractionResultPayload {
+  /** 客户端请求 ID（原样返回，便于匹配请求） */
+  requestId?: string;
+  playerId: PlayerId;
+  result: InteractionResult;
+}
+
+export interface MoveAckPayload {
+  /** 被确认的客户端操作 ID */
+  actionId: string;
+  /** 服务端权威玩家状态 */
+  player: PlayerSnapshot;
+  /** 服务端是否接受了该移动 */
+  accepted: boolean;
+  /** 拒绝原因（accepted 为 false 时） */
+  reason?: MoveRejection;
+}
+
+export interface AttackResultPayload {
+  /** 客户端请求 ID（原样返回，便于匹配请求） */
+  requestId?: string;
+  attackerId: PlayerId;
+  targetId: PlayerId;
+  result: AttackResult;
+}
+
+export interface RespawnResultPayload {
+  /** 客户端请求 ID（原样返回，便于匹配请求） */
+  requestId?: string;
+  playerId: PlayerId;
+  result: RespawnResult;
 }
 
 export interface TimeSyncPayload {
@@ -32,6 +112,8 @@ export interface TimeSyncPayload {
   weather: string;
   tickIntervalMs: number;
   speedMultiplier: number;
+  isRunning: boolean;
+  calendar: GameCalendar;
 }
 
 export type WebSocketMessage =
@@ -41,4 +123,75 @@ export type WebSocketMessage =
   | WebSocketEnvelope<"player_join", PlayerSnapshot>
   | WebSocketEnvelope<"player_leave", { playerId: PlayerId }>
   | WebSocketEnvelope<"time_sync", TimeSyncPayload>
+  | WebSocketEnvelope<"tile_update", TileUpdateBroadcast>
+  | WebSocketEnvelope<"interaction_result", InteractionResultPayload>
+  | WebSocketEnvelope<"move_ack", MoveAckPayload>
+  | WebSocketEnvelope<"attack_result", AttackResultPayload>
+  | WebSocketEnvelope<"entity_damaged", EntityDamagedBroadcast>
+  | WebSocketEnvelope<"entity_died", EntityDiedBroadcast>
+  | WebSocketEnvelope<"respawn_result", RespawnResultPayload>
+  | WebSocketEnvelope<"player_respawn", PlayerSnapshot>
+  | WebSocketEnvelope<"lightning_strike", LightningStrikeBroadcast>
+  | WebSocketEnvelope<"agent_speech", AgentSpeechBroadcast>
+  | WebSocketEnvelope<"chunk_data", ChunkDataPayload>
   | WebSocketEnvelope<"system", SystemMessagePayload>;
+
+// ===== 客户端 -> 服务器 =====
+
+export interface SubscribePlayerCommand {
+  type: "subscribe_player";
+  playerId: PlayerId;
+}
+
+export interface SubscribeChunksCommand {
+  type: "subscribe_chunks";
+  /** 客户端视口（瓦片坐标），服务器订阅与它相交的区块（外扩 margin 个区块） */
+  viewport: { x: number; y: number; width: number; height: number };
+  /** 视口外额外订阅的区块圈数（默认 1） */
+  margin?: number;
+}
+
+export interface JoinWorldCommand {
+  type: "join_world";
+  /** 要切换到的世界（必须已加载），之后只接收该世界的广播 */
+  worldId: string;
+}
+
+export interface InteractClientCommand extends Omit<InteractionCommand, "type"> {
+  type: "interact";
+  playerId: PlayerId;
+  interaction: InteractionCommand["type"];
+  requestId?: string;
+}
+
+export interface PlayerMoveCommand {
+  type: "player_move_command";
+  playerId: PlayerId;
+  /** 客户端生成的操作 ID，用于预测和解 */
+  actionId: string;
+  /** 相对位移 */
+  delta: Position;
+  timestamp?: number;
+  /** 客户端是否已在本地预测了该移动 */
+  predicted?: boolean;
+}
+
+export interface AttackClientCommand extends AttackCommand {
+  type: "attack";
+  requestId?: string;
+}
+
+export interface RespawnClientCommand {
+  type: "respawn";
+  playerId: PlayerId;
+  requestId?: string;
+}
+
+export type ClientMessage =
+  | SubscribePlayerCommand
+  | SubscribeChunksCommand
+  | JoinWorldCommand
+  | InteractClientCommand
+  | PlayerMoveCommand
+  | AttackClientCommand
+  | RespawnClientCommand;
@@ -10,14 +10,14 @@
  * 如果需要启用此组件，需要：
  * 1. 在 store.ts 中注册 gameSlice reducer
  * 2. 取消注释 useGameOptimization.ts 中的实现代码
- * 3. 实现服务端的操作确认和状态同步协议
+ * 3. 服务端已通过 move_ack 消息实现操作确认和状态同步协议
  */
 
 /* eslint-disable @typescript-eslint/no-unused-vars */
 
 import { useEffect, useCallback } from 'react';
 import { useDispatch } from 'react-redux';
-import { setLocalPlayer, togglePrediction, toggleReconciliation, removeOtherPlayer } from '../Redux/slices/gameSlice';
+import { setLocalPlayer, togglePrediction, toggleReconciliation, removeOtherPlayer, reconcileServerState } from '../Redux/slices/gameSlice';
 import { useClientPrediction, useInterpolation, useNetworkStats } from '../Redux/hooks/useGameOptimization';
 import type { Player, Position } from '../Redux/api/gameApi';
 import type { AppDispatch } from '../Redux/store';
@@ -79,6 +79,18 @@ export default function GameController({ playerId, initialPlayer }: GameControll
                 break;
             }
 
+            case 'move_ack': {
+                // 服务端确认移动：以权威状态为基准，重新应用未确认的预测操作
+                const { actionId, player } = message.data;
+                if (player.id === playerId) {
+                    dispatch(reconcileServerState({
+                        serverState: player,
+                        acknowledgedActionId: actionId,
+                    }));
+                }
+                break;
+            }
+
             case 'player_join': {
                 const player = message.data;
                 if (player.id !== playerId) {
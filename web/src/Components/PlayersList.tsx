@@ -1,5 +1,5 @@
 import { Alert, Button, Card, List, Space, Statistic, Tag, Typography, Input, Modal, Form, message } from "antd";
-import { useGetPlayersQuery, useCreatePlayerMutation, useRemovePlayerMutation } from "../Redux/api/gameApi";
+import { useGetPlayersQuery, useCreatePlayerMutation, useRemovePlayerMutation, useRespawnPlayerMutation } from "../Redux/api/gameApi";
 import { useState } from "react";
 import type { Player } from "../Redux/api/gameApi";
 
@@ -12,6 +12,7 @@ const PlayersList = () => {
 
     const [createPlayer, { isLoading: isCreating }] = useCreatePlayerMutation();
     const [removePlayer] = useRemovePlayerMutation();
+    const [respawnPlayer] = useRespawnPlayerMutation();
 
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [form] = Form.useForm();
@@ -38,6 +39,16 @@ const PlayersList = () => {
         }
     };
 
+    const handleRespawnPlayer = async (playerId: string) => {
+        try {
+            const result = await respawnPlayer(playerId).unwrap();
+            message.success(result.message);
+        } catch (err) {
+            const error = err as { data?: { message?: string } };
+            message.error(error.data?.message || "Failed to respawn player");
+        }
+    };
+
     const getStatusColor = (status: string) => {
         const colors: Record<string, string> = {
             idle: "default",
@@ -46,6 +57,8 @@ const PlayersList = () => {
             building: "cyan",
             fighting: "red",
             offline: "default",
+            sleeping: "purple",
+            dead: "magenta",
         };
         return colors[status] || "default";
     };
@@ -98,6 +111,14 @@ const PlayersList = () => {
                     renderItem={(player: Player) => (
                         <List.Item
                             actions={[
+                                ...(player.death ? [
+                                    <Button
+                                        size="small"
+                                        onClick={() => handleRespawnPlayer(player.id)}
+                                    >
+                                        Respawn
+                                    </Button>,
+                                ] : []),
                                 <Button
                                     size="small"
                                     danger
@@ -131,6 +152,14 @@ const PlayersList = () => {
                                             <Text type="secondary">Health:</Text>
                                             <Text>{player.attributes.health}/{player.attributes.maxHealth}</Text>
                                         </Space>
+                                        <Space>
+                                            <Text type="secondary">Hunger:</Text>
+                                            <Text>{Math.floor(player.attributes.hunger)}/{player.attributes.maxHunger}</Text>
+                                            <Text type="secondary">Stamina:</Text>
+                                            <Text>{Math.floor(player.attributes.stamina)}/{player.attributes.maxStamina}</Text>
+                                            <Text type="secondary">Energy:</Text>
+                                            <Text>{Math.floor(player.attributes.energy)}/{player.attributes.maxEnergy}</Text>
+                                        </Space>
                                         <Space>
                                             <Text type="secondary">XP:</Text>
                                             <Text>{player.attributes.experience}</Text>
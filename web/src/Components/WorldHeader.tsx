@@ -1,10 +1,13 @@
 import { Button, Tag } from "antd";
 import { CloudOutlined, InfoCircleOutlined } from "@ant-design/icons";
+import type { GameCalendar } from "@shared/game";
+import { formatCalendar } from "../Utils/gameTime";
 
 export interface WorldHeaderProps {
     onOpenDetails: () => void;
     clock: string;
     timeOfDay: string;
+    calendar?: GameCalendar;
     isRunning: boolean;
     weather: string;
     weatherDescription?: string;
@@ -18,10 +21,18 @@ const statusColorMap: Record<string, string> = {
     night: "blue",
 };
 
+const seasonColorMap: Record<string, string> = {
+    spring: "lime",
+    summer: "volcano",
+    autumn: "orange",
+    winter: "geekblue",
+};
+
 const WorldHeader = ({
     onOpenDetails,
     clock,
     timeOfDay,
+    calendar,
     isRunning,
     weather,
     weatherDescription,
@@ -49,9 +60,16 @@ const WorldHeader = ({
                 <span className="text-4xl font-semibold leading-tight text-slate-900">
                     {clock}
                 </span>
-                <Tag color={color} className="mt-2 text-base capitalize">
-                    {timeOfDay}
-                </Tag>
+                <div className="mt-2 flex items-center gap-1">
+                    <Tag color={color} className="text-base capitalize">
+                        {timeOfDay}
+                    </Tag>
+                    {calendar && (
+                        <Tag color={seasonColorMap[calendar.season] ?? "default"} className="text-base">
+                            {formatCalendar(calendar)}
+                        </Tag>
+                    )}
+                </div>
             </div>
 
             <div className="flex items-center justify-end gap-2 text-right">
@@ -11,7 +11,8 @@ interface Player {
 interface WorldRendererProps {
     width?: number;
     height?: number;
-    tiles?: Tile[][]; // ✅ 使用 shared 的 Tile 类型
+    tiles?: Tile[][]; // ✅ 使用 shared 的 Tile 类型（视口内的瓦片）
+    origin?: { x: number; y: number }; // 视口左上角在地图中的坐标（默认 0,0）
     players?: Player[]; // 所有玩家（包括当前玩家）
     currentPlayerId?: string; // 当前控制的玩家 ID（用于高亮）
     timeProgress?: number; // 0-1, 时间进度
@@ -25,6 +26,7 @@ const WorldRenderer: React.FC<WorldRendererProps> = ({
     width = 800,
     height = 600,
     tiles,
+    origin,
     players = [],
     currentPlayerId,
     timeProgress = 0.5,
@@ -40,9 +42,14 @@ const WorldRenderer: React.FC<WorldRendererProps> = ({
             STONE: { symbol: '⬜', color: '#808080' },
             SAND: { symbol: '🟨', color: '#F4A460' },
             TREE: { symbol: '🌲', color: '#228B22' },
+            SAPLING: { symbol: '🌿', color: '#6B8E23' },
             ROCK: { symbol: '🪨', color: '#696969' },
             FARMLAND: { symbol: '🟫', color: '#654321' },
             WALL: { symbol: '🧱', color: '#A0522D' },
+            WORKBENCH: { symbol: '🛠️', color: '#DEB887' },
+            FURNACE: { symbol: '🔥', color: '#B22222' },
+            FENCE: { symbol: '🚧', color: '#C19A6B' },
+            DOOR: { symbol: '🚪', color: '#8B5A2B' },
             VOID: { symbol: '⬛', color: '#000000' },
         };
 
@@ -125,8 +132,13 @@ const WorldRenderer: React.FC<WorldRendererProps> = ({
         // 渲染所有玩家
         if (players && players.length > 0) {
             players.forEach(player => {
-                const playerX = player.position.x * tileWidth;
-                const playerY = player.position.z * tileHeight; // 注意：使用 z 作为 2D 的 y
+                // 注意：使用 z 作为 2D 的 y；坐标换算成视口内的位置，视口外的玩家不画
+                const localX = player.position.x - (origin?.x ?? 0);
+                const localY = player.position.z - (origin?.y ?? 0);
+                if (localX < 0 || localY < 0 || localX >= mapWidth || localY >= mapHeight) return;
+
+                const playerX = localX * tileWidth;
+                const playerY = localY * tileHeight;
                 
                 const isCurrentPlayer = player.id === currentPlayerId;
 
@@ -156,7 +168,7 @@ const WorldRenderer: React.FC<WorldRendererProps> = ({
                 ctx.fillText(player.name, playerX + tileWidth / 2, playerY + tileHeight / 2 - 15);
             });
         }
-    }, [tiles, players, currentPlayerId, timeProgress, width, height, getTileConfig, adjustBrightness]);
+    }, [tiles, origin, players, currentPlayerId, timeProgress, width, height, getTileConfig, adjustBrightness]);
 
     if (!tiles) {
         return (
@@ -163,6 +163,25 @@ export const WebSocketProvider = ({ children, url = 'ws://localhost:4000/ws' }:
                 // TODO: 从 Redux 移除玩家
                 break;
 
+            case 'tile_update':
+                // 地形变化事件 - 在组件中自行处理
+                console.log('🗺️ Tile updated:', message.data.position, message.data.tile.type);
+                break;
+
+            case 'chunk_data':
+                // 区块数据 - 在组件中自行处理
+                console.log('🧩 Chunks received:', message.data.chunks.length);
+                break;
+
+            case 'move_ack':
+                // 移动确认 - 由 GameController 负责和解
+                console.log('✅ Move acknowledged:', message.data.actionId, message.data.accepted);
+                break;
+
+            case 'interaction_result':
+                console.log('🛠️ Interaction result:', message.data.result);
+                break;
+
             case 'system':
                 console.log('ℹ️ System message:', message.data);
                 break;
@@ -7,10 +7,11 @@
  * 3. 处理玩家登录和选择
  * 4. 管理 WASD 键盘控制（通过 PlayerController）
  * 5. 实时同步服务器状态（轮询）
+ * 6. 订阅视口附近的地形区块（WebSocket），拼成视口内的瓦片交给 WorldRenderer
  */
 
-import { useEffect, useRef, useCallback } from 'react';
-import { Layout, Button, Space, Card, Row, Col, Statistic, Typography, message } from 'antd';
+import { useEffect, useRef, useCallback, useMemo } from 'react';
+import { Layout, Button, Space, Card, Row, Col, Statistic, Typography, Progress, message } from 'antd';
 import { UserOutlined, EnvironmentOutlined, ClockCircleOutlined, CloudOutlined } from '@ant-design/icons';
 import { useDispatch, useSelector } from 'react-redux';
 import { 
@@ -21,6 +22,9 @@ import {
     updateWorldState,
     addPlayer,
     removePlayer,
+    applyChunkData,
+    applyTileUpdate,
+    selectChunks,
     selectCurrentPlayer,
     selectAllPlayers,
     selectWorldTime,
@@ -30,18 +34,20 @@ import {
 import { useGetPlayersQuery, useGetWorldSnapshotQuery, useMovePlayerMutation, type Player } from '../../Redux/api/gameApi';
 import PlayerLoginModal from '../../Components/PlayerLoginModal';
 import WorldRenderer from '../../Components/WorldRenderer';
-import { formatGameTime, getTimeOfDayText, getWeatherText, getTimeProgress } from '../../Utils/gameTime';
+import { advanceLocalTick, formatCalendar, formatGameTime, getTimeOfDayText, getWeatherText, getTimeProgress } from '../../Utils/gameTime';
 import { PlayerController, type MoveCommand } from '../../Utils/PlayerController';
 import { useWebSocket } from '../../Context/WebSocketContext';
+import { assembleTiles, computeViewport, CHUNK_MARGIN } from '../../Utils/chunks';
+import type { AppDispatch } from '../../Redux/store';
 
 const { Header, Content } = Layout;
 const { Title, Text } = Typography;
 
 const GamePage = () => {
-    const dispatch = useDispatch();
+    const dispatch = useDispatch<AppDispatch>();
     
     // WebSocket 连接状态和最新消息
-    const { lastMessage } = useWebSocket();
+    const { lastMessage, isConnected, sendMessage } = useWebSocket();
     
     // 本地时间模拟器（用于流畅的时间显示）
     const localTickRef = useRef<number>(0);
@@ -57,6 +63,7 @@ const GamePage = () => {
     const worldTime = useSelector(selectWorldTime);          // 游戏世界时间
     const weather = useSelector(selectWeather);              // 天气状况
     const loginModalVisible = useSelector(selectLoginModalVisible); // 登录弹窗是否显示
+    const chunks = useSelector(selectChunks);                // 已订阅的地形区块
     
     // RTK Query: 获取所有玩家数据（只在初始加载时使用，不轮询）
     const { data: playersData, isLoading: worldLoading } = useGetPlayersQuery(undefined, {
@@ -213,7 +220,8 @@ const GamePage = () => {
                         timeOfDay: syncData.timeOfDay,
                         speedMultiplier: syncData.speedMultiplier,
                         tickIntervalMs: syncData.tickIntervalMs,
-                        isRunning: true,
+                        isRunning: syncData.isRunning,
+                        calendar: syncData.calendar,
                     },
                     weather: {
                         current: syncData.weather,
@@ -228,6 +236,19 @@ const GamePage = () => {
                 break;
             }
 
+            case 'tile_update': {
+                // 地形变化：直接修补已订阅的区块，无需等待下一次轮询
+                dispatch(applyTileUpdate(lastMessage.data));
+                break;
+            }
+
+            case 'chunk_data': {
+                // 区块订阅结果：新订阅区块的完整数据
+                console.log(`🧩 [WS] Received ${lastMessage.data.chunks.length} chunks (${lastMessage.data.subscribed.length} subscribed)`);
+                dispatch(applyChunkData(lastMessage.data));
+                break;
+            }
+
             case 'world_update': {
                 // 世界状态更新（不更新时间，时间由本地计时器模拟）
                 // 只更新天气等非时间信息
@@ -257,30 +278,37 @@ const GamePage = () => {
     /**
      * Effect 3: 本地时间模拟器
      * 
-     * 每 50ms 增加本地 tick，模拟流畅的时间流动
-     * 每 30 秒会收到服务器的时间同步进行校准
+     * 每 50ms 按服务器的倍速和 tick 间隔推进本地 tick（暂停时不动），模拟流畅的时间流动
+     * 每 30 秒以及管理员修改时间后会收到服务器的时间同步进行校准
      */
     useEffect(() => {
         console.log('⏰ [LOCAL_TIMER] Starting local time simulator');
         
         // 启动本地计时器
         localTimerRef.current = window.setInterval(() => {
-            localTickRef.current += 1;
+            const previousTick = Math.floor(localTickRef.current);
+            localTickRef.current = advanceLocalTick(localTickRef.current, 50, {
+                tickIntervalMs: worldTime.tickIntervalMs,
+                speedMultiplier: worldTime.speedMultiplier,
+                isRunning: worldTime.isRunning,
+            });
+            const currentTick = Math.floor(localTickRef.current);
             
-            // 每秒打印一次（20 ticks = 1 秒）
-            if (localTickRef.current % 20 === 0) {
-                console.log(`⏰ [LOCAL_TIMER] Local tick: ${localTickRef.current}`);
+            // 每 20 ticks 打印一次
+            if (currentTick !== previousTick && currentTick % 20 === 0) {
+                console.log(`⏰ [LOCAL_TIMER] Local tick: ${currentTick}`);
             }
             
             // 更新 Redux（触发 UI 重绘）
             dispatch(updateWorldState({
                 worldId: 'default-world',
                 time: {
-                    tick: localTickRef.current,
+                    tick: currentTick,
                     timeOfDay: worldTime.timeOfDay, // 保持当前时间段
-                    speedMultiplier: 1,
-                    tickIntervalMs: 50,
-                    isRunning: true,
+                    speedMultiplier: worldTime.speedMultiplier,
+                    tickIntervalMs: worldTime.tickIntervalMs,
+                    isRunning: worldTime.isRunning,
+                    calendar: worldTime.calendar, // 日历以服务器同步为准
                 },
                 weather: {
                     current: weather.current,
@@ -299,7 +327,7 @@ const GamePage = () => {
                 localTimerRef.current = null;
             }
         };
-    }, [dispatch, worldTime.timeOfDay, weather]);
+    }, [dispatch, worldTime.timeOfDay, worldTime.calendar, worldTime.speedMultiplier, worldTime.tickIntervalMs, worldTime.isRunning, weather]);
 
     /**
      * Effect 4: 自动加载上次登录的玩家
@@ -350,24 +378,34 @@ const GamePage = () => {
     // 计算时间进度（0-1），用于 WorldRenderer 的昼夜循环光照效果
     const timeProgress = getTimeProgress(worldTime.tick, worldTime.tickIntervalMs);
 
-    // ✅ 使用真实的地图数据（从服务器获取）
-    const worldTiles = worldData?.map?.tiles;
-    
-    // 🐛 调试：检查数据是否加载
+    // 视口：以当前玩家为中心（未登录时以地图中心为中心），左上角对齐区块边界
+    const mapWidth = worldData?.map?.width ?? 0;
+    const mapHeight = worldData?.map?.height ?? 0;
+    const chunkSize = worldData?.map?.chunkSize ?? 0;
+    const centerX = currentPlayer ? Math.round(currentPlayer.position.x) : Math.floor(mapWidth / 2);
+    const centerY = currentPlayer ? Math.round(currentPlayer.position.z) : Math.floor(mapHeight / 2);
+    const viewport = useMemo(
+        () => chunkSize > 0 ? computeViewport({ x: centerX, y: centerY }, mapWidth, mapHeight, chunkSize) : null,
+        [centerX, centerY, mapWidth, mapHeight, chunkSize],
+    );
+
+    /**
+     * Effect 6: 订阅视口附近的区块
+     * 
+     * 连接建立（包括重连）或视口移动时发送 subscribe_chunks，服务器回复 chunk_data
+     */
     useEffect(() => {
-        if (worldData) {
-            console.log('📦 World data received:', worldData);
-            console.log('🗺️  Map data:', worldData.map);
-            console.log('🎨 Tiles data:', worldData.map?.tiles);
-            console.log('📏 Tiles array length:', worldData.map?.tiles?.length);
-            if (worldData.map?.tiles?.[0]) {
-                console.log('📐 First row length:', worldData.map.tiles[0].length);
-                console.log('🎯 Sample tile:', worldData.map.tiles[0][0]);
-            }
-        } else {
-            console.log('⚠️  World data is undefined');
-        }
-    }, [worldData]);
+        if (!isConnected || !viewport) return;
+        sendMessage({ type: 'subscribe_chunks', viewport, margin: CHUNK_MARGIN });
+        // sendMessage 每次渲染都会重新创建，只在连接状态或视口变化时订阅
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isConnected, viewport]);
+
+    // ✅ 把已订阅的区块拼成视口内的瓦片（未收到的区块显示为 VOID）
+    const worldTiles = useMemo(
+        () => viewport ? assembleTiles(chunks, viewport, chunkSize) : undefined,
+        [chunks, viewport, chunkSize],
+    );
 
     return (
         <Layout style={{ minHeight: '100vh', background: '#f0f2f5' }}>
@@ -408,7 +446,7 @@ const GamePage = () => {
                                 valueStyle={{ fontSize: '18px' }}
                             />
                             <Text type="secondary" style={{ fontSize: '12px' }}>
-                                {getTimeOfDayText(worldTime.timeOfDay)}
+                                {formatCalendar(worldTime.calendar)} · {getTimeOfDayText(worldTime.timeOfDay)}
                             </Text>
                         </Card>
                     </Col>
@@ -443,6 +481,30 @@ const GamePage = () => {
                                 </Card>
                             </Col>
                             
+                            {/* 生存状态卡片：饱食度 / 体力 / 精力 */}
+                            <Col xs={24} sm={12} md={6}>
+                                <Card>
+                                    <Text type="secondary">饱食度</Text>
+                                    <Progress
+                                        percent={Math.round(currentPlayer.attributes.hunger / currentPlayer.attributes.maxHunger * 100)}
+                                        size="small"
+                                        strokeColor="#d48806"
+                                    />
+                                    <Text type="secondary">体力</Text>
+                                    <Progress
+                                        percent={Math.round(currentPlayer.attributes.stamina / currentPlayer.attributes.maxStamina * 100)}
+                                        size="small"
+                                        strokeColor="#389e0d"
+                                    />
+                                    <Text type="secondary">精力{currentPlayer.status === 'sleeping' ? '（睡觉中）' : ''}</Text>
+                                    <Progress
+                                        percent={Math.round(currentPlayer.attributes.energy / currentPlayer.attributes.maxEnergy * 100)}
+                                        size="small"
+                                        strokeColor="#531dab"
+                                    />
+                                </Card>
+                            </Col>
+
                             {/* 位置卡片 */}
                             <Col xs={24} sm={12} md={6}>
                                 <Card>
@@ -469,6 +531,7 @@ const GamePage = () => {
                             width={800}
                             height={600}
                             tiles={worldTiles}
+                            origin={viewport ?? undefined}
                             players={Object.values(allPlayers)}
                             currentPlayerId={currentPlayer?.id}
                             timeProgress={timeProgress}
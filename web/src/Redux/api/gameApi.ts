@@ -5,6 +5,8 @@ import type {
         Position,
         PlayerAttributes,
         CreatePlayerParams,
+        MoveRejection,
+        RespawnResult,
 } from "@shared/player";
 
 export type Player = PlayerSnapshot;
@@ -37,6 +39,8 @@ export interface MovePlayerResponse {
     player: Player;
     previousPosition: Position;
     newPosition: Position;
+    /** 被地形截断时的原因 */
+    reason?: MoveRejection;
 }
 
 const BASE_URL = "http://localhost:4000";
@@ -88,6 +92,15 @@ export const gameApi = createApi({
             }),
             invalidatesTags: ["Players"],
         }),
+
+        // 复活玩家
+        respawnPlayer: builder.mutation<RespawnResult, string>({
+            query: (playerId) => ({
+                url: `/api/players/${playerId}/respawn`,
+                method: "POST",
+            }),
+            invalidatesTags: ["Players"],
+        }),
     }),
 });
 
@@ -97,5 +110,6 @@ export const {
     useCreatePlayerMutation,
     useRemovePlayerMutation,
     useMovePlayerMutation,
+    useRespawnPlayerMutation,
 } = gameApi;
 
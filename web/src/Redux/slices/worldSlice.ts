@@ -1,9 +1,13 @@
 import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
 import type { GameWorldResponse, Player } from '../api/gameApi';
+import type { GameCalendar } from '@shared/game';
+import type { ChunkData } from '@shared/terrain';
+import type { ChunkDataPayload, TileUpdateBroadcast } from '@shared/websocket';
+import { chunkKey } from '../../Utils/chunks';
 
 /**
  * 世界状态 Slice
- * 管理游戏世界的全局状态：时间、天气、玩家等
+ * 管理游戏世界的全局状态：时间、天气、玩家、已订阅的地形区块等
  */
 
 export interface WorldState {
@@ -11,6 +15,7 @@ export interface WorldState {
     worldId: string | null;
     tick: number;
     timeOfDay: string;
+    calendar: GameCalendar;
     weather: string;
     weatherDescription: string;
     
@@ -19,6 +24,9 @@ export interface WorldState {
     
     // 所有在线玩家（包括自己）- 用于多人显示
     allPlayers: Record<string, Player>;
+
+    // 已订阅的地形区块（"cx,cy" -> 区块）
+    chunks: Record<string, ChunkData>;
     
     // 游戏配置
     tickIntervalMs: number;
@@ -33,10 +41,12 @@ const initialState: WorldState = {
     worldId: null,
     tick: 0,
     timeOfDay: 'day',
+    calendar: { day: 1, year: 1, season: 'spring', dayOfSeason: 1, dayOfWeek: 0, daysPerSeason: 7 },
     weather: 'clear',
     weatherDescription: '晴朗',
     currentPlayer: null,
     allPlayers: {},
+    chunks: {},
     tickIntervalMs: 50,
     speedMultiplier: 1,
     isRunning: false,
@@ -53,6 +63,7 @@ const worldSlice = createSlice({
             state.worldId = worldId;
             state.tick = time.tick;
             state.timeOfDay = time.timeOfDay;
+            state.calendar = time.calendar;
             state.tickIntervalMs = time.tickIntervalMs;
             state.speedMultiplier = time.speedMultiplier;
             state.isRunning = time.isRunning;
@@ -118,6 +129,32 @@ const worldSlice = createSlice({
             delete state.allPlayers[action.payload];
         },
         
+        // 收到区块数据（WebSocket chunk_data）：加入新区块，丢弃不再订阅的区块
+        applyChunkData: (state, action: PayloadAction<ChunkDataPayload>) => {
+            const { chunks, subscribed } = action.payload;
+            chunks.forEach(chunk => {
+                state.chunks[chunkKey(chunk)] = chunk;
+            });
+
+            const keep = new Set(subscribed.map(chunkKey));
+            Object.keys(state.chunks).forEach(key => {
+                if (!keep.has(key)) delete state.chunks[key];
+            });
+        },
+
+        // 地形变化（WebSocket tile_update）：修补已订阅区块中的瓦片
+        applyTileUpdate: (state, action: PayloadAction<TileUpdateBroadcast>) => {
+            const { position, tile, chunk } = action.payload;
+            const stored = state.chunks[chunkKey(chunk)];
+            if (!stored || stored.version >= chunk.version) return; // 未订阅或已是更新的版本
+
+            const row = stored.tiles[position.y - chunk.cy * stored.size];
+            if (row) {
+                row[position.x - chunk.cx * stored.size] = tile;
+            }
+            stored.version = chunk.version;
+        },
+
         // 显示/隐藏登录 Modal
         setLoginModalVisible: (state, action: PayloadAction<boolean>) => {
             state.loginModalVisible = action.payload;
@@ -136,6 +173,8 @@ export const {
     updatePlayerPosition,
     addPlayer,
     removePlayer,
+    applyChunkData,
+    applyTileUpdate,
     setLoginModalVisible,
     resetWorld,
 } = worldSlice.actions;
@@ -149,10 +188,14 @@ export const selectWorldId = (state: { world: WorldState }) => state.world.world
 export const selectWorldTime = (state: { world: WorldState }) => ({
     tick: state.world.tick,
     timeOfDay: state.world.timeOfDay,
+    calendar: state.world.calendar,
     tickIntervalMs: state.world.tickIntervalMs,
+    speedMultiplier: state.world.speedMultiplier,
+    isRunning: state.world.isRunning,
 });
 export const selectWeather = (state: { world: WorldState }) => ({
     current: state.world.weather,
     description: state.world.weatherDescription,
 });
 export const selectLoginModalVisible = (state: { world: WorldState }) => state.world.loginModalVisible;
+export const selectChunks = (state: { world: WorldState }) => state.world.chunks;
@@ -0,0 +1,75 @@
+import type { ChunkCoord, ChunkData, Tile } from '@shared/terrain';
+
+/**
+ * 区块工具
+ * 服务器按区块推送地形：客户端订阅视口附近的区块，再把收到的区块拼成视口内的瓦片交给 WorldRenderer
+ */
+
+/** 视口最大边长（格子）：地图比它小时显示整张地图 */
+export const VIEWPORT_TILES = 64;
+
+/** 视口外多订阅的区块圈数（走到视口边缘时地形已经加载好） */
+export const CHUNK_MARGIN = 1;
+
+/**
+ * 视口：瓦片坐标的矩形
+ */
+export interface Viewport {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * 区块在 Record 中的键
+ */
+export function chunkKey({ cx, cy }: ChunkCoord): string {
+    return `${cx},${cy}`;
+}
+
+/**
+ * 计算以某个位置为中心的视口
+ * 视口左上角对齐到区块边界，只有跨过区块时视口才会移动（避免每走一步都重新订阅）
+ * @param center 中心位置（瓦片坐标）
+ * @param mapWidth 地图宽度
+ * @param mapHeight 地图高度
+ * @param chunkSize 区块边长
+ */
+export function computeViewport(center: { x: number; y: number }, mapWidth: number, mapHeight: number, chunkSize: number): Viewport {
+    const width = Math.min(VIEWPORT_TILES, mapWidth);
+    const height = Math.min(VIEWPORT_TILES, mapHeight);
+
+    const align = (value: number, size: number, max: number) => {
+        const start = Math.floor((value - size / 2) / chunkSize) * chunkSize;
+        return Math.max(0, Math.min(start, max - size));
+    };
+
+    return {
+        x: align(center.x, width, mapWidth),
+        y: align(center.y, height, mapHeight),
+        width,
+        height,
+    };
+}
+
+/**
+ * 把区块拼成视口内的瓦片（没有收到的区块填 VOID）
+ * @returns tiles[y][x]，坐标相对视口左上角
+ */
+export function assembleTiles(chunks: Record<string, ChunkData>, viewport: Viewport, chunkSize: number): Tile[][] {
+    const tiles: Tile[][] = [];
+
+    for (let y = viewport.y; y < viewport.y + viewport.height; y++) {
+        const row: Tile[] = [];
+        for (let x = viewport.x; x < viewport.x + viewport.width; x++) {
+            const cx = Math.floor(x / chunkSize);
+            const cy = Math.floor(y / chunkSize);
+            const chunk = chunks[chunkKey({ cx, cy })];
+            row.push(chunk?.tiles[y - cy * chunkSize]?.[x - cx * chunkSize] ?? { type: 'VOID' });
+        }
+        tiles.push(row);
+    }
+
+    return tiles;
+}
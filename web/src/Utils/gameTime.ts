@@ -1,3 +1,5 @@
+import type { GameCalendar } from '@shared/game';
+
 /**
  * 时间转换工具
  * 游戏设定：1天 = 24分钟 = 1440秒 = 1440000毫秒
@@ -47,6 +49,22 @@ export function tickToGameTime(tick: number, tickIntervalMs: number = 50) {
     };
 }
 
+/**
+ * 本地模拟时间流逝（两次 time_sync 之间由客户端自行推算）
+ * @param tick 当前本地 tick（可以带小数，保留不足 1 tick 的进度）
+ * @param elapsedMs 距离上次推算的真实毫秒数
+ * @param clock 服务器同步的时钟参数：暂停时不推进，倍速和 tick 间隔决定推进速度
+ * @returns 推算后的本地 tick
+ */
+export function advanceLocalTick(
+    tick: number,
+    elapsedMs: number,
+    clock: { tickIntervalMs: number; speedMultiplier: number; isRunning: boolean },
+): number {
+    if (!clock.isRunning || clock.tickIntervalMs <= 0) return tick;
+    return tick + (elapsedMs * clock.speedMultiplier) / clock.tickIntervalMs;
+}
+
 /**
  * 格式化游戏时间为字符串
  * @param tick 游戏 tick 数
@@ -78,6 +96,32 @@ export function getTimeOfDayText(timeOfDay: string): string {
     return timeMap[timeOfDay] || timeOfDay;
 }
 
+/**
+ * 获取季节中文名称
+ * @param season 季节
+ * @returns 中文名称
+ */
+export function getSeasonText(season: string): string {
+    const seasonMap: Record<string, string> = {
+        spring: '春',
+        summer: '夏',
+        autumn: '秋',
+        winter: '冬',
+    };
+
+    return seasonMap[season] || season;
+}
+
+/**
+ * 格式化游戏日历
+ * @param calendar 服务器下发的日历
+ * @returns 格式化的字符串，如 "第1年 春 第3天 星期三"
+ */
+export function formatCalendar(calendar: GameCalendar): string {
+    const weekdays = ['星期一', '星期二', '星期三', '星期四', '星期五', '星期六', '星期日'];
+    return `第${calendar.year}年 ${getSeasonText(calendar.season)} 第${calendar.dayOfSeason}天 ${weekdays[calendar.dayOfWeek] ?? ''}`.trim();
+}
+
 /**
  * 获取天气中文名称
  * @param weather 天气类型